@@ -55,12 +55,22 @@ export {
   circuitMain,
 } from './lib/proof-system/circuit.js';
 export { UInt32, UInt64, Int64, Sign, UInt8 } from './lib/provable/int.js';
+export { UInt128, UInt256 } from './lib/provable/int-wide.js';
+export { Int8, Int16, Int32 } from './lib/provable/int-signed.js';
+export { UFixed, Fixed, type Rounding } from './lib/provable/fixed.js';
 export { Bytes } from './lib/provable/wrapped-classes.js';
 export { Packed, Hashed } from './lib/provable/packed.js';
 export { Gadgets } from './lib/provable/gadgets/gadgets.js';
 export { Types } from './bindings/mina-transaction/types.js';
 
 export { MerkleList, MerkleListIterator } from './lib/provable/merkle-list.js';
+export { DynamicArray } from './lib/provable/dynamic-array.js';
+export { DynamicBytes } from './lib/provable/dynamic-bytes.js';
+export { DynamicString } from './lib/provable/dynamic-string.js';
+export { Regex } from './lib/provable/regex.js';
+export { Json } from './lib/provable/json.js';
+export type { JsonToken } from './lib/provable/json.js';
+export { Jwt } from './lib/provable/jwt.js';
 import {
   IndexedMerkleMap,
   IndexedMerkleMapBase,
@@ -123,9 +133,12 @@ export {
   setGraphqlEndpoint,
   setGraphqlEndpoints,
   setArchiveGraphqlEndpoint,
+  setNetworkClientConfig,
+  getEndpointHealth,
   sendZkapp,
   Lightnet,
 } from './lib/mina/fetch.js';
+export type { NetworkClientConfig, EndpointHealth } from './lib/mina/fetch.js';
 export * as Encryption from './lib/provable/crypto/encryption.js';
 export * as Encoding from './bindings/lib/encoding.js';
 export { Character, CircuitString } from './lib/provable/string.js';
@@ -146,6 +159,7 @@ export { setNumberOfWorkers } from './lib/proof-system/workers.js';
 import { memoizeWitness } from './lib/provable/provable.js';
 import * as OffchainState_ from './lib/mina/actions/offchain-state.js';
 import * as BatchReducer_ from './lib/mina/actions/batch-reducer.js';
+import * as ActionIndexer_ from './lib/mina/actions/action-indexer.js';
 import { Actionable } from './lib/mina/actions/offchain-state-serialization.js';
 import { InferProvable } from './lib/provable/types/struct.js';
 import { Recursive as Recursive_ } from './lib/proof-system/recursive.js';
@@ -215,6 +229,23 @@ namespace Experimental {
    */
   export let ActionBatch = BatchReducer_.ActionBatch;
   export type ActionBatch<Action> = BatchReducer_.ActionBatch<Action>;
+
+  // action indexer
+
+  /**
+   * An indexer which verifies and persists the actions of a contract, to reconstruct state derived from them
+   * without re-fetching all actions.
+   *
+   * ```ts
+   * let indexer = ActionIndexer(contract, Action, { store: ActionStore.file('actions.json') });
+   * await indexer.sync();
+   * let actions = await indexer.getActions({ fromActionState });
+   * ```
+   */
+  export let ActionIndexer = ActionIndexer_.ActionIndexer;
+  export let ActionStore = ActionIndexer_.ActionStore;
+  export type ActionStore = ActionIndexer_.ActionStore;
+  export type IndexedActions<A> = ActionIndexer_.IndexedActions<A>;
 }
 
 Error.stackTraceLimit = 100000;
@@ -12,6 +12,7 @@ import {
 import { jsLayout } from '../../bindings/mina-transaction/gen/js-layout.js';
 import { ProvableExtended } from '../provable/types/struct.js';
 import { FetchedAccount } from './graphql.js';
+import { HashLegacy } from '../../mina-signer/src/poseidon-bigint.js';
 
 export { Account, PartialAccount };
 export { newAccount, parseFetchedAccount, fillPartialAccount };
@@ -27,6 +28,14 @@ function newAccount(accountId: {
   account.publicKey = accountId.publicKey;
   account.tokenId = accountId.tokenId ?? Types.TokenId.empty();
   account.permissions = Permissions.initial();
+  // match the initial values of a new account in the Mina ledger
+  if (account.tokenId.equals(Types.TokenId.empty()).toBoolean()) {
+    account.delegate = account.publicKey;
+  }
+  account.receiptChainHash = Field(
+    HashLegacy.emptyHashWithPrefix('CodaReceiptEmpty')
+  );
+  account.timing.vestingPeriod = UInt32.one;
   return account;
 }
 
@@ -0,0 +1,221 @@
+/**
+ * An indexer which keeps the actions of a contract in a persistent store, so that the state
+ * derived from them can be reconstructed without re-fetching the entire history.
+ */
+import { Field } from '../../provable/wrapped.js';
+import { UInt32 } from '../../provable/int.js';
+import { PublicKey } from '../../provable/crypto/signature.js';
+import { ProvableType } from '../../provable/types/provable-intf.js';
+import { Actions, TokenId } from '../account-update.js';
+import { updateActionState } from '../fetch.js';
+import * as Mina from '../mina.js';
+import { readFileSync, writeFileSync } from '../../util/fs.js';
+import { Actionable } from './offchain-state-serialization.js';
+
+export { ActionIndexer, ActionStore, IndexedActions };
+
+/**
+ * A key-value store in which an {@link ActionIndexer} persists the actions it processed.
+ *
+ * Implement this to use a database; `ActionStore.memory()` and `ActionStore.file(path)` are available out of the box.
+ */
+type ActionStore = {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+};
+
+const ActionStore = {
+  /**
+   * A store that keeps everything in memory, which is lost when the process exits.
+   */
+  memory(): ActionStore {
+    let values = new Map<string, string>();
+    return {
+      async get(key) {
+        return values.get(key);
+      },
+      async set(key, value) {
+        values.set(key, value);
+      },
+    };
+  },
+
+  /**
+   * A store that keeps everything in a single JSON file, which is created on the first write.
+   */
+  file(path: string): ActionStore {
+    function read(): Record<string, string> {
+      try {
+        return JSON.parse(readFileSync(path, 'utf8'));
+      } catch (err: any) {
+        if (err?.code === 'ENOENT') return {};
+        throw err;
+      }
+    }
+    return {
+      async get(key) {
+        return read()[key];
+      },
+      async set(key, value) {
+        writeFileSync(path, JSON.stringify({ ...read(), [key]: value }));
+      },
+    };
+  },
+};
+
+/**
+ * The actions dispatched by one account update, in the order they were dispatched, with the action states before and after them,
+ * and the height of the block that included them.
+ */
+type IndexedActions<A> = {
+  actions: A[];
+  previousActionState: Field;
+  actionState: Field;
+  blockHeight: UInt32;
+};
+
+type StoredActions = {
+  actions: string[][];
+  previousActionState: string;
+  actionState: string;
+  blockHeight: string;
+};
+
+/**
+ * Create an indexer for the actions of a contract.
+ *
+ * `sync()` fetches the actions after the last indexed action state, verifies that they extend the indexed
+ * action state hash chain, and persists them to the `store`. The indexed actions can then be queried by
+ * action state and block range, without fetching them again - including after a restart, with a persistent store.
+ *
+ * ```ts
+ * let indexer = Experimental.ActionIndexer(contract, MyAction, {
+ *   store: Experimental.ActionStore.file('actions.json'),
+ * });
+ * await indexer.sync();
+ * let actions = await indexer.getActions({ fromActionState });
+ * ```
+ */
+function ActionIndexer<A>(
+  contract: { address: PublicKey; tokenId?: Field },
+  actionType: Actionable<A>,
+  { store = ActionStore.memory() }: { store?: ActionStore } = {}
+) {
+  let type = ProvableType.get(actionType);
+  let { address, tokenId = TokenId.default } = contract;
+  let key = `${address.toBase58()}:${tokenId}`;
+
+  async function load(): Promise<StoredActions[]> {
+    let value = await store.get(key);
+    return value === undefined ? [] : JSON.parse(value);
+  }
+
+  function decode(stored: StoredActions): IndexedActions<A> {
+    return {
+      // actions are stored latest first, like in the action state hash
+      actions: stored.actions
+        .map((action) => type.fromFields(action.map(Field)))
+        .reverse(),
+      previousActionState: Field(stored.previousActionState),
+      actionState: Field(stored.actionState),
+      blockHeight: UInt32.from(stored.blockHeight),
+    };
+  }
+
+  function findIndex(stored: StoredActions[], actionState: Field) {
+    let i = stored.findIndex((a) => a.actionState === actionState.toString());
+    if (i === -1) {
+      throw Error(`ActionIndexer: action state ${actionState} is not indexed.`);
+    }
+    return i;
+  }
+
+  return {
+    /**
+     * Fetch and index the actions dispatched since the last sync, and return them.
+     *
+     * Throws if the fetched actions don't extend the indexed action state hash chain.
+     */
+    async sync(): Promise<IndexedActions<A>[]> {
+      let stored = await load();
+      let latest = stored[stored.length - 1]?.actionState;
+      let fromActionState =
+        latest === undefined ? Actions.emptyActionState() : Field(latest);
+
+      let result = await Mina.fetchActions(
+        address,
+        { fromActionState },
+        tokenId
+      );
+      if ('error' in result) throw Error(JSON.stringify(result));
+      if (result.length === 0) return [];
+
+      let previousActionState = fromActionState;
+      let added: StoredActions[] = [];
+      for (let { actions, hash, blockHeight } of result) {
+        let actionState = updateActionState(actions, previousActionState);
+        if (actionState.toString() !== hash) {
+          throw Error(
+            `ActionIndexer: fetched actions don't match the action state ${hash}, expected ${actionState}.`
+          );
+        }
+        added.push({
+          actions,
+          previousActionState: previousActionState.toString(),
+          actionState: hash,
+          blockHeight,
+        });
+        previousActionState = actionState;
+      }
+      await store.set(key, JSON.stringify([...stored, ...added]));
+      return added.map(decode);
+    },
+
+    /**
+     * Get indexed actions, optionally starting after `fromActionState`, ending at `endActionState`
+     * and restricted to the blocks from `fromBlock` to `toBlock`.
+     */
+    async getActions({
+      fromActionState,
+      endActionState,
+      fromBlock,
+      toBlock,
+    }: {
+      fromActionState?: Field;
+      endActionState?: Field;
+      fromBlock?: UInt32;
+      toBlock?: UInt32;
+    } = {}): Promise<IndexedActions<A>[]> {
+      let stored = await load();
+      let start =
+        fromActionState === undefined ||
+        fromActionState.equals(Actions.emptyActionState()).toBoolean()
+          ? 0
+          : findIndex(stored, fromActionState) + 1;
+      let end =
+        endActionState === undefined
+          ? stored.length
+          : findIndex(stored, endActionState) + 1;
+
+      return stored
+        .slice(start, end)
+        .map(decode)
+        .filter(
+          ({ blockHeight }) =>
+            (fromBlock === undefined ||
+              blockHeight.greaterThanOrEqual(fromBlock).toBoolean()) &&
+            (toBlock === undefined ||
+              blockHeight.lessThanOrEqual(toBlock).toBoolean())
+        );
+    },
+
+    /**
+     * The action state after the last indexed actions.
+     */
+    async getActionState(): Promise<Field> {
+      let stored = await load();
+      let latest = stored[stored.length - 1]?.actionState;
+      return latest === undefined ? Actions.emptyActionState() : Field(latest);
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import {
+  Experimental,
+  Field,
+  method,
+  Mina,
+  Reducer,
+  SmartContract,
+  Struct,
+  UInt32,
+} from '../../../index.js';
+import { expect } from 'expect';
+import { rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const { ActionIndexer, ActionStore } = Experimental;
+
+class Transfer extends Struct({ amount: Field, memo: Field }) {}
+
+class Ledger extends SmartContract {
+  reducer = Reducer({ actionType: Transfer });
+
+  @method async transfer(amount: Field) {
+    this.reducer.dispatch({ amount, memo: Field(1) });
+    this.reducer.dispatch({ amount: amount.add(1), memo: Field(2) });
+  }
+}
+
+let Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+
+let [sender, contractAccount] = Local.testAccounts;
+let contract = new Ledger(contractAccount);
+
+let tx = await Mina.transaction(sender, () => contract.deploy());
+await tx.prove();
+await tx.sign([sender.key, contractAccount.key]).send();
+
+async function transfer(amount: number) {
+  let tx = await Mina.transaction(sender, () =>
+    contract.transfer(Field(amount))
+  );
+  await tx.prove();
+  await tx.sign([sender.key]).send();
+}
+
+let path = join(tmpdir(), `o1js-action-indexer-${Date.now()}.json`);
+let indexer = ActionIndexer(contract, Transfer, {
+  store: ActionStore.file(path),
+});
+
+// syncing indexes the new actions, decoded and with their action states
+
+Local.setBlockchainLength(UInt32.from(5));
+await transfer(10);
+let synced = await indexer.sync();
+
+expect(synced).toHaveLength(1);
+expect(synced[0].actions).toEqual([
+  new Transfer({ amount: Field(10), memo: Field(1) }),
+  new Transfer({ amount: Field(11), memo: Field(2) }),
+]);
+expect(synced[0].previousActionState).toEqual(Reducer.initialActionState);
+expect(synced[0].blockHeight).toEqual(UInt32.from(5));
+
+Local.setBlockchainLength(UInt32.from(10));
+await transfer(20);
+await transfer(30);
+synced = await indexer.sync();
+
+expect(synced.map(({ actions }) => actions[0].amount)).toEqual([
+  Field(20),
+  Field(30),
+]);
+expect(synced[0].previousActionState).toEqual(
+  (await indexer.getActions())[0].actionState
+);
+expect(synced[1].actionState).toEqual(contract.account.actionState.get());
+expect(await indexer.getActionState()).toEqual(synced[1].actionState);
+expect(await indexer.sync()).toEqual([]);
+
+// indexed actions can be queried by action state and block range
+
+let all = await indexer.getActions();
+expect(all).toHaveLength(3);
+
+let query = await indexer.getActions({ fromActionState: all[0].actionState });
+expect(query.map(({ actions }) => actions[0].amount)).toEqual([
+  Field(20),
+  Field(30),
+]);
+
+query = await indexer.getActions({ endActionState: all[1].actionState });
+expect(query.map(({ actions }) => actions[0].amount)).toEqual([
+  Field(10),
+  Field(20),
+]);
+
+query = await indexer.getActions({ toBlock: UInt32.from(9) });
+expect(query.map(({ actions }) => actions[0].amount)).toEqual([Field(10)]);
+
+query = await indexer.getActions({ fromBlock: UInt32.from(10) });
+expect(query).toHaveLength(2);
+
+await expect(
+  indexer.getActions({ fromActionState: Field(123) })
+).rejects.toThrow(/is not indexed/);
+
+// the indexed actions are restored from the store, and syncing continues from there
+
+let restored = ActionIndexer(contract, Transfer, {
+  store: ActionStore.file(path),
+});
+expect(await restored.getActions()).toEqual(all);
+
+await transfer(40);
+synced = await restored.sync();
+expect(synced).toHaveLength(1);
+expect(synced[0].previousActionState).toEqual(all[2].actionState);
+expect(await restored.getActionState()).toEqual(
+  contract.account.actionState.get()
+);
+
+// a memory store starts empty, and a first sync keeps the block heights of the actions
+
+let fresh = ActionIndexer(contract, Transfer);
+expect(await fresh.getActions()).toEqual([]);
+Local.setBlockchainLength(UInt32.from(20));
+synced = await fresh.sync();
+expect(synced.map(({ blockHeight }) => blockHeight)).toEqual(
+  [5, 10, 10, 10].map((height) => UInt32.from(height))
+);
+
+rmSync(path);
@@ -11,6 +11,7 @@ import * as Mina from '../mina.js';
 import { ProvablePure } from '../../provable/types/provable-intf.js';
 import { MerkleList } from '../../provable/merkle-list.js';
 import type { SmartContract } from '../zkapp.js';
+import { WatchOptions, watchActions } from '../watch.js';
 
 export { Reducer, getReducer };
 
@@ -132,6 +133,21 @@ type ReducerReturn<Action> = {
     fromActionState?: Field;
     endActionState?: Field;
   }): Promise<Action[][]>;
+  /**
+   * Watches the {@link Action}s dispatched to this {@link SmartContract}, by polling the Mina network or local blockchain.
+   * Yields each list of actions dispatched by one account update, together with the action state after it.
+   *
+   * The action state can be stored and passed back in as `fromActionState` to resume watching after that list.
+   * Failed fetches are retried with exponential backoff.
+   * ```ts
+   * for await (let { actions, actionState } of zkapp.reducer.watchActions({ fromActionState })) {
+   *   console.log(actions);
+   * }
+   * ```
+   */
+  watchActions(
+    options?: WatchOptions & { fromActionState?: Field }
+  ): AsyncGenerator<{ actions: Action[]; actionState: Field }>;
 };
 
 function getReducer<A>(contract: SmartContract): ReducerReturn<A> {
@@ -320,5 +336,15 @@ class ${contract.constructor.name} extends SmartContract {
         )
       );
     },
+
+    watchActions(options?: WatchOptions & { fromActionState?: Field }) {
+      return watchActions(
+        contract.address,
+        contract.tokenId,
+        (action) =>
+          (reducer.actionType as ProvablePure<A>).fromFields(action.map(Field)),
+        options ?? {}
+      );
+    },
   };
 }
@@ -1,7 +1,8 @@
 import { Types } from '../../bindings/mina-transaction/types.js';
 import { TokenId } from './account-update.js';
+import type { TransactionFailure } from './transaction-logic/apply.js';
 
-export { humanizeErrors, invalidTransactionError };
+export { humanizeErrors, invalidTransactionError, failedTransactionError };
 
 const ErrorHandlers = {
   Invalid_fee_excess({
@@ -101,6 +102,47 @@ function invalidTransactionError(
     }
   }
 
+  return formatErrorMessages(errorMessages, rawErrors);
+}
+
+/**
+ * Creates an error message for a transaction that failed in the JS transaction logic,
+ * where every failure comes with an explanation.
+ */
+function failedTransactionError(
+  transaction: Types.ZkappCommand,
+  failures: TransactionFailure[][],
+  additionalContext: { accountCreationFee: string | number }
+): string {
+  let errorMessages: string[] = [];
+  let rawErrors = JSON.stringify(
+    failures.map((failuresForUpdate) =>
+      failuresForUpdate.map(({ name }) => [name])
+    )
+  );
+  let [failuresForFeePayer = [], ...failuresForUpdates] = failures;
+
+  for (let { message } of failuresForFeePayer) {
+    errorMessages.push(`Fee payer: ${message}`);
+  }
+  failuresForUpdates.forEach((failuresForUpdate, i) => {
+    let publicKey = transaction.accountUpdates[i].body.publicKey.toBase58();
+    for (let { name, message } of failuresForUpdate) {
+      let handlerMessage = ErrorHandlers[name as keyof typeof ErrorHandlers]?.({
+        transaction,
+        accountUpdateIndex: i,
+        isFeePayer: false,
+        ...additionalContext,
+      });
+      errorMessages.push(
+        handlerMessage ?? `Account update #${i + 1} (${publicKey}): ${message}`
+      );
+    }
+  });
+  return formatErrorMessages(errorMessages, rawErrors);
+}
+
+function formatErrorMessages(errorMessages: string[], rawErrors: string) {
   if (errorMessages.length > 1) {
     return [
       'There were multiple errors when applying your transaction:',
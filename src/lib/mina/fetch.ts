@@ -37,6 +37,13 @@ import {
   accountQuery,
   currentSlotQuery,
 } from './graphql.js';
+import {
+  NetworkClient,
+  type NetworkClientConfig,
+  type EndpointHealth,
+  type FetchError,
+  type FetchResponse,
+} from './network-client.js';
 
 export {
   fetchAccount,
@@ -62,13 +69,18 @@ export {
   setArchiveGraphqlEndpoint,
   setArchiveGraphqlFallbackEndpoints,
   setLightnetAccountManagerEndpoint,
+  setNetworkClientConfig,
+  getEndpointHealth,
   sendZkapp,
   fetchEvents,
   fetchActions,
   makeGraphqlRequest,
+  updateActionState,
   Lightnet,
   type GenesisConstants,
   type ActionStatesStringified,
+  type NetworkClientConfig,
+  type EndpointHealth,
 };
 
 type NetworkConfig = {
@@ -148,6 +160,32 @@ function setArchiveGraphqlFallbackEndpoints(graphqlEndpoints: string[]) {
   networkConfig.archiveFallbackEndpoints = graphqlEndpoints;
 }
 
+/**
+ * Configures how GraphQL requests are sent to all endpoints: timeouts, retries with exponential backoff,
+ * circuit breaking of failing endpoints, rate limiting, custom headers and hooks for logging.
+ * Options which are not passed in are kept.
+ *
+ * ```ts
+ * setNetworkClientConfig({
+ *   retries: 3,
+ *   maxRequestsPerSecond: 5,
+ *   headers: { Authorization: `Bearer ${apiKey}` },
+ *   onResponse: ({ url, duration, error }) => console.log(url, duration, error),
+ * });
+ * ```
+ */
+function setNetworkClientConfig(config: Partial<NetworkClientConfig>) {
+  NetworkClient.configure(config);
+}
+
+/**
+ * Returns the health of every GraphQL endpoint that was requested, by URL:
+ * how many requests failed in a row, the last error, and until when the endpoint is skipped.
+ */
+function getEndpointHealth(): Record<string, EndpointHealth> {
+  return NetworkClient.health();
+}
+
 /**
  * Sets up the lightnet account manager endpoint to be used for accounts acquisition and releasing.
  *
@@ -179,7 +217,7 @@ function setLightnetAccountManagerEndpoint(endpoint: string) {
 async function fetchAccount(
   accountInfo: { publicKey: string | PublicKey; tokenId?: string | Field },
   graphqlEndpoint = networkConfig.minaEndpoint,
-  { timeout = defaultTimeout } = {}
+  { timeout }: FetchConfig = {}
 ): Promise<
   | { account: Types.Account; error: undefined }
   | { account: undefined; error: FetchError }
@@ -237,16 +275,9 @@ async function fetchAccountInternal(
 }
 
 type FetchConfig = { timeout?: number };
-type FetchResponse<TDataResponse = any> = { data: TDataResponse; errors?: any };
-type FetchError = {
-  statusCode: number;
-  statusText: string;
-};
 type ActionStatesStringified = {
   [K in keyof ActionStates]: string;
 };
-// Specify 5min as the default timeout
-const defaultTimeout = 5 * 60 * 1000;
 
 let accountCache = {} as Record<
   string,
@@ -267,7 +298,7 @@ let networkCache = {} as Record<
 let actionsCache = {} as Record<
   string,
   {
-    actions: { hash: string; actions: string[][] }[];
+    actions: { hash: string; actions: string[][]; blockHeight: string }[];
     graphqlEndpoint: string;
     timestamp: number;
   }
@@ -435,7 +466,7 @@ function addCachedAccountInternal(account: Account, graphqlEndpoint: string) {
 
 function addCachedActions(
   { publicKey, tokenId }: { publicKey: string; tokenId: string },
-  actions: { hash: string; actions: string[][] }[],
+  actions: { hash: string; actions: string[][]; blockHeight: string }[],
   graphqlEndpoint: string
 ) {
   actionsCache[`${publicKey};${tokenId};${graphqlEndpoint}`] = {
@@ -614,19 +645,20 @@ async function fetchTransactionStatus(
 
 /**
  * Sends a zkApp command (transaction) to the specified GraphQL endpoint.
+ *
+ * The request is neither retried nor sent to fallback endpoints, because the node could have accepted the
+ * command even if the response failed, and sending it again would fail with a duplicate nonce.
  */
 function sendZkapp(
   json: string,
   graphqlEndpoint = networkConfig.minaEndpoint,
-  { timeout = defaultTimeout } = {}
+  { timeout }: FetchConfig = {}
 ) {
   return makeGraphqlRequest<SendZkAppResponse>(
     sendZkappQuery(json),
     graphqlEndpoint,
-    networkConfig.minaFallbackEndpoints,
-    {
-      timeout,
-    }
+    [],
+    { timeout, retries: 0, failover: false }
   );
 }
 
@@ -716,6 +748,7 @@ async function fetchActions(
   | {
       actions: string[][];
       hash: string;
+      blockHeight: string;
     }[]
   | { error: FetchError }
 > {
@@ -729,6 +762,8 @@ async function fetchActions(
     tokenId = TokenId.toBase58(TokenId.default),
   } = accountInfo;
 
+  // both queries share one deadline, so that the fallback query doesn't double the timeout
+  let deadline = Date.now() + NetworkClient.config().timeout;
   let [response, error] = await makeGraphqlRequest<ActionQueryResponse>(
     getActionsQuery(publicKey, actionStates, tokenId),
     graphqlEndpoint,
@@ -747,7 +782,8 @@ async function fetchActions(
         /* _excludeTransactionInfo= */ true
       ),
       graphqlEndpoint,
-      networkConfig.archiveFallbackEndpoints
+      networkConfig.archiveFallbackEndpoints,
+      { timeout: Math.max(deadline - Date.now(), 0) }
     );
     if (error)
       throw Error(
@@ -780,7 +816,11 @@ export function createActionsList(
   const _fetchedActions = fetchedActions;
   const { publicKey, actionStates } = accountInfo;
 
-  let actionsList: { actions: string[][]; hash: string }[] = [];
+  let actionsList: {
+    actions: string[][];
+    hash: string;
+    blockHeight: string;
+  }[] = [];
   // correct for archive node sending one block too many
   if (
     fetchedActions.length !== 0 &&
@@ -845,7 +885,11 @@ export function createActionsList(
     // re-hash actions
     for (let actions of actionsByAccountUpdate) {
       latestActionState = updateActionState(actions, latestActionState);
-      actionsList.push({ actions, hash: latestActionState.toString() });
+      actionsList.push({
+        actions,
+        hash: latestActionState.toString(),
+        blockHeight: actionBlock.blockInfo.height.toString(),
+      });
     }
 
     const finalActionState = latestActionState.toString();
@@ -1025,124 +1069,19 @@ function updateActionState(actions: string[][], actionState: Field) {
   return Actions.updateSequenceState(actionState, actionHash);
 }
 
-// TODO it seems we're not actually catching most errors here
 async function makeGraphqlRequest<TDataResponse = any>(
   query: string,
   graphqlEndpoint = networkConfig.minaEndpoint,
   fallbackEndpoints: string[],
-  { timeout = defaultTimeout } = {} as FetchConfig
+  config: FetchConfig & { retries?: number; failover?: boolean } = {}
 ) {
   if (graphqlEndpoint === 'none')
     throw Error(
       "Should have made a graphql request, but don't know to which endpoint. Try calling `setGraphqlEndpoint` first."
     );
-  let timeouts: NodeJS.Timeout[] = [];
-  const clearTimeouts = () => {
-    timeouts.forEach((t) => clearTimeout(t));
-    timeouts = [];
-  };
-
-  const makeRequest = async (url: string) => {
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), timeout);
-    timeouts.push(timer);
-    let body = JSON.stringify({ operationName: null, query, variables: {} });
-    try {
-      let response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body,
-        signal: controller.signal,
-      });
-      return checkResponseStatus<TDataResponse>(response);
-    } finally {
-      clearTimeouts();
-    }
-  };
-  // try to fetch from endpoints in pairs
-  let timeoutErrors: { url1: string; url2: string; error: any }[] = [];
-  let urls = [graphqlEndpoint, ...fallbackEndpoints];
-  for (let i = 0; i < urls.length; i += 2) {
-    let url1 = urls[i];
-    let url2 = urls[i + 1];
-    if (url2 === undefined) {
-      try {
-        return await makeRequest(url1);
-      } catch (error) {
-        return [undefined, inferError(error)] as [undefined, FetchError];
-      }
-    }
-    try {
-      return await Promise.race([makeRequest(url1), makeRequest(url2)]);
-    } catch (unknownError) {
-      let error = inferError(unknownError);
-      if (error.statusCode === 408) {
-        // If the request timed out, try the next 2 endpoints
-        timeoutErrors.push({ url1, url2, error });
-      } else {
-        // If the request failed for some other reason (e.g. o1js error), return the error
-        return [undefined, error] as [undefined, FetchError];
-      }
-    }
-  }
-  const statusText = timeoutErrors
-    .map(
-      ({ url1, url2, error }) =>
-        `Request to ${url1} and ${url2} timed out. Error: ${error}`
-    )
-    .join('\n');
-  return [undefined, { statusCode: 408, statusText }] as [
-    undefined,
-    FetchError
-  ];
-}
-
-async function checkResponseStatus<TDataResponse>(
-  response: Response
-): Promise<
-  [FetchResponse<TDataResponse>, undefined] | [undefined, FetchError]
-> {
-  if (response.ok) {
-    let jsonResponse = await response.json();
-    if (jsonResponse.errors && jsonResponse.errors.length > 0) {
-      return [
-        undefined,
-        {
-          statusCode: response.status,
-          statusText: jsonResponse.errors
-            .map((error: any) => error.message)
-            .join('\n'),
-        } as FetchError,
-      ];
-    } else if (jsonResponse.data === undefined) {
-      return [
-        undefined,
-        {
-          statusCode: response.status,
-          statusText: `GraphQL response data is undefined`,
-        } as FetchError,
-      ];
-    }
-    return [jsonResponse as FetchResponse<TDataResponse>, undefined];
-  } else {
-    return [
-      undefined,
-      {
-        statusCode: response.status,
-        statusText: response.statusText,
-      } as FetchError,
-    ];
-  }
-}
-
-function inferError(error: unknown): FetchError {
-  let errorMessage = JSON.stringify(error);
-  if (error instanceof AbortSignal) {
-    return { statusCode: 408, statusText: `Request Timeout: ${errorMessage}` };
-  } else {
-    return {
-      statusCode: 500,
-      statusText: `Unknown Error: ${errorMessage}`,
-    };
-  }
+  return NetworkClient.request<TDataResponse>(
+    query,
+    [graphqlEndpoint, ...fallbackEndpoints],
+    config
+  );
 }
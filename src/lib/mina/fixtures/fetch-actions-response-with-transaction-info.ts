@@ -5,6 +5,7 @@ const mockFetchActionsResponse = {
     actions: [
       {
         blockInfo: {
+          height: 9956,
           distanceFromMaxBlockHeight: 10044,
         },
         actionState: {
@@ -90,6 +91,7 @@ const mockFetchActionsResponse = {
       },
       {
         blockInfo: {
+          height: 9957,
           distanceFromMaxBlockHeight: 10043,
         },
         actionState: {
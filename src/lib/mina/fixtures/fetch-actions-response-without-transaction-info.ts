@@ -5,6 +5,7 @@ const mockFetchActionsResponse = {
     actions: [
       {
         blockInfo: {
+          height: 10089,
           distanceFromMaxBlockHeight: 11,
         },
         actionState: {
@@ -32,6 +33,7 @@ const mockFetchActionsResponse = {
       },
       {
         blockInfo: {
+          height: 10095,
           distanceFromMaxBlockHeight: 5,
         },
         actionState: {
@@ -52,6 +54,7 @@ const mockFetchActionsResponse = {
       },
       {
         blockInfo: {
+          height: 10097,
           distanceFromMaxBlockHeight: 3,
         },
         actionState: {
@@ -72,6 +75,7 @@ const mockFetchActionsResponse = {
       },
       {
         blockInfo: {
+          height: 10098,
           distanceFromMaxBlockHeight: 2,
         },
         actionState: {
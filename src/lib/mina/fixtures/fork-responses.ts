@@ -0,0 +1,260 @@
+export { mockForkResponses };
+
+/**
+ * Recorded responses of a Mina node and archive node, for a network with a deployed `Counter` zkApp
+ * that was incremented twice, and a funded user account.
+ */
+const mockForkResponses = {
+  zkappKey: 'EKEQc95PPQZnMY9d9p1vq1MWLeDJKtvKj4V75UDG3rjnf32BerWD',
+  userKey: 'EKFS9v8wxyrrEGfec4HXycCC2nH7xf79PtQorLXXsut9WUrav4Nw',
+  accounts: [
+    {
+      account: {
+        publicKey: 'B62qn9f2eQdHyzX3SaqzZ2bPex5xD2vRTZtEb7D4yRVNo7Mm9tDdrrA',
+        token: 'wSHV2S4qX9jFsLjQo8r1BsMLH2ZRKsZx6EJd1sbozGPieEC4Jf',
+        nonce: '1',
+        balance: {
+          total: '0',
+        },
+        tokenSymbol: '',
+        receiptChainHash:
+          '2n1f3HVt4SyBbcyqQWvjDRm42nwhcZA359EQway232DumiD7SKz8',
+        timing: {
+          initialMinimumBalance: null,
+          cliffTime: null,
+          cliffAmount: null,
+          vestingPeriod: null,
+          vestingIncrement: null,
+        },
+        permissions: {
+          editState: 'Proof',
+          access: 'None',
+          send: 'Proof',
+          receive: 'None',
+          setDelegate: 'Signature',
+          setPermissions: 'Signature',
+          setVerificationKey: {
+            auth: 'Signature',
+            txnVersion: '3',
+          },
+          setZkappUri: 'Signature',
+          editActionState: 'Proof',
+          setTokenSymbol: 'Signature',
+          incrementNonce: 'Signature',
+          setVotingFor: 'Signature',
+          setTiming: 'Signature',
+        },
+        delegateAccount: {
+          publicKey: 'B62qn9f2eQdHyzX3SaqzZ2bPex5xD2vRTZtEb7D4yRVNo7Mm9tDdrrA',
+        },
+        votingFor: '0',
+        zkappState: ['2', '0', '0', '0', '0', '0', '0', '0'],
+        verificationKey: {
+          verificationKey:
+            'AgIBAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALsq7cojes8ZcUc9M9RbZY9U7nhj8KnfU3yTEgqjtXQbAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAC7Ku3KI3rPGXFHPTPUW2WPVO54Y/Cp31N8kxIKo7V0GwEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAuyrtyiN6zxlxRz0z1Ftlj1TueGPwqd9TfJMSCqO1dBsBAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALsq7cojes8ZcUc9M9RbZY9U7nhj8KnfU3yTEgqjtXQbAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAC7Ku3KI3rPGXFHPTPUW2WPVO54Y/Cp31N8kxIKo7V0GwEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAuyrtyiN6zxlxRz0z1Ftlj1TueGPwqd9TfJMSCqO1dBsBAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALsq7cojes8ZcUc9M9RbZY9U7nhj8KnfU3yTEgqjtXQbAAEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAuyrtyiN6zxlxRz0z1Ftlj1TueGPwqd9TfJMSCqO1dBsBAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALsq7cojes8ZcUc9M9RbZY9U7nhj8KnfU3yTEgqjtXQbAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAC7Ku3KI3rPGXFHPTPUW2WPVO54Y/Cp31N8kxIKo7V0GwEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAuyrtyiN6zxlxRz0z1Ftlj1TueGPwqd9TfJMSCqO1dBsBAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALsq7cojes8ZcUc9M9RbZY9U7nhj8KnfU3yTEgqjtXQbAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAC7Ku3KI3rPGXFHPTPUW2WPVO54Y/Cp31N8kxIKo7V0GwEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAuyrtyiN6zxlxRz0z1Ftlj1TueGPwqd9TfJMSCqO1dBsBAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALsq7cojes8ZcUc9M9RbZY9U7nhj8KnfU3yTEgqjtXQbAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAC7Ku3KI3rPGXFHPTPUW2WPVO54Y/Cp31N8kxIKo7V0GwEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAuyrtyiN6zxlxRz0z1Ftlj1TueGPwqd9TfJMSCqO1dBsBAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALsq7cojes8ZcUc9M9RbZY9U7nhj8KnfU3yTEgqjtXQbAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAC7Ku3KI3rPGXFHPTPUW2WPVO54Y/Cp31N8kxIKo7V0GwEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAuyrtyiN6zxlxRz0z1Ftlj1TueGPwqd9TfJMSCqO1dBsBAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALsq7cojes8ZcUc9M9RbZY9U7nhj8KnfU3yTEgqjtXQbAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAC7Ku3KI3rPGXFHPTPUW2WPVO54Y/Cp31N8kxIKo7V0GwABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALsq7cojes8ZcUc9M9RbZY9U7nhj8KnfU3yTEgqjtXQbAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAC7Ku3KI3rPGXFHPTPUW2WPVO54Y/Cp31N8kxIKo7V0GwEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAuyrtyiN6zxlxRz0z1Ftlj1TueGPwqd9TfJMSCqO1dBsBAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALsq7cojes8ZcUc9M9RbZY9U7nhj8KnfU3yTEgqjtXQbAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAC7Ku3KI3rPGXFHPTPUW2WPVO54Y/Cp31N8kxIKo7V0GwEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAuyrtyiN6zxlxRz0z1Ftlj1TueGPwqd9TfJMSCqO1dBs=',
+          hash: '3392518251768960475377392625298437850623664973002200885669375116181514017494',
+        },
+        actionState: [
+          '524531694376435151874481269499687407916211359848161168129902767150055975351',
+          '25079927036070901246064867767436987657692091363973573142121686150614948079097',
+          '25079927036070901246064867767436987657692091363973573142121686150614948079097',
+          '25079927036070901246064867767436987657692091363973573142121686150614948079097',
+          '25079927036070901246064867767436987657692091363973573142121686150614948079097',
+        ],
+        provedState: false,
+        zkappUri: '',
+      },
+    },
+    {
+      account: {
+        publicKey: 'B62qmV1rhmWas6hPUZEvirq3FG4ZiWi2wXCcZmCahLAYWEBmHc8FrjY',
+        token: 'wSHV2S4qX9jFsLjQo8r1BsMLH2ZRKsZx6EJd1sbozGPieEC4Jf',
+        nonce: '0',
+        balance: {
+          total: '1000000000000',
+        },
+        tokenSymbol: '',
+        receiptChainHash:
+          '2mzbV7WevxLuchs2dAMY4vQBS6XttnCUF8Hvks4XNBQ5qiSGGBQe',
+        timing: {
+          initialMinimumBalance: null,
+          cliffTime: null,
+          cliffAmount: null,
+          vestingPeriod: null,
+          vestingIncrement: null,
+        },
+        permissions: {
+          editState: 'Signature',
+          access: 'None',
+          send: 'Signature',
+          receive: 'None',
+          setDelegate: 'Signature',
+          setPermissions: 'Signature',
+          setVerificationKey: {
+            auth: 'Signature',
+            txnVersion: '3',
+          },
+          setZkappUri: 'Signature',
+          editActionState: 'Signature',
+          setTokenSymbol: 'Signature',
+          incrementNonce: 'Signature',
+          setVotingFor: 'Signature',
+          setTiming: 'Signature',
+        },
+        delegateAccount: {
+          publicKey: 'B62qmV1rhmWas6hPUZEvirq3FG4ZiWi2wXCcZmCahLAYWEBmHc8FrjY',
+        },
+        votingFor: '0',
+        zkappState: null,
+        verificationKey: null,
+        actionState: null,
+        provedState: null,
+        zkappUri: null,
+      },
+    },
+  ],
+  lastBlock: {
+    bestChain: [
+      {
+        protocolState: {
+          blockchainState: {
+            snarkedLedgerHash:
+              'jwR6pPH8cWLNvbJmRGrQHYR37anssc6oWu54hMsLQGrAxzYgjC7',
+            stagedLedgerHash:
+              'jwRYMv9Jb7YmQVNkSqcGakVhofaL6DNrS6KMVBUqNuvhsAwhAPL',
+            date: '1700000000000',
+            utcDate: '1700000000000',
+            stagedLedgerProofEmitted: false,
+          },
+          previousStateHash:
+            '3NKNGgQuQFoGsaXtpJkBtnzw7GxXxuoehD8zoGp8jcqqLQZfqaCk',
+          consensusState: {
+            blockHeight: '1000',
+            slotSinceGenesis: '5000',
+            slot: '5000',
+            nextEpochData: {
+              ledger: {
+                hash: 'jwB1RMbdP5VyXs7JZCeensqgzwiQv9FCAhBoR6HM9pM89qqBZnP',
+                totalCurrency: '1000000000000000',
+              },
+              seed: '2vaE2FmfCb1pA9sKiBvYtUqpMAdiYUvLYcsUZqgemxV7uhj6BpYG',
+              startCheckpoint:
+                '3NK8BHPDu2NSUBohMSfz9JLMmAKTVxLo5rw7XzYYkNPLHbWwVqdW',
+              lockCheckpoint:
+                '3NK8cpv64zyerfhmLUEk1bYSRrQExAx58n8MpnNAFM2QpVnjnTp3',
+              epochLength: '7000',
+            },
+            stakingEpochData: {
+              ledger: {
+                hash: 'jwFQrgFM99drLqo8prDKkxeMumYw6E1hLdehKJQLvD8TA4g4VUL',
+                totalCurrency: '1000000000000000',
+              },
+              seed: '2vaJRh6JvM5x2xr1YTa7ZSvd25TZ4f173nowTjtmmisuEhtHxoZn',
+              startCheckpoint:
+                '3NKCaihscnSaLznPBiKYpGRAS59J28RZb2saRtkfk8n7cbk2HjxZ',
+              lockCheckpoint:
+                '3NKD2GEjnm3njUgTAjtJgZdF6mE5UM2qdx4pigaHF7RC9Vw51kpm',
+              epochLength: '7000',
+            },
+            epochCount: '0',
+            minWindowDensity: '0',
+            totalCurrency: '1000000000000000',
+            epoch: '0',
+          },
+        },
+      },
+    ],
+  },
+  actions: {
+    actions: [
+      {
+        blockInfo: {
+          height: 990,
+          distanceFromMaxBlockHeight: 10,
+        },
+        actionState: {
+          actionStateOne:
+            '14126484005541313471935487941009247632007934229859291061844286995942998079814',
+          actionStateTwo:
+            '25079927036070901246064867767436987657692091363973573142121686150614948079097',
+        },
+        actionData: [
+          {
+            accountUpdateId: '100',
+            data: ['1'],
+            transactionInfo: {
+              sequenceNumber: 1,
+              zkappAccountUpdateIds: [100],
+            },
+          },
+        ],
+      },
+      {
+        blockInfo: {
+          height: 991,
+          distanceFromMaxBlockHeight: 9,
+        },
+        actionState: {
+          actionStateOne:
+            '524531694376435151874481269499687407916211359848161168129902767150055975351',
+          actionStateTwo:
+            '14126484005541313471935487941009247632007934229859291061844286995942998079814',
+        },
+        actionData: [
+          {
+            accountUpdateId: '101',
+            data: ['1'],
+            transactionInfo: {
+              sequenceNumber: 1,
+              zkappAccountUpdateIds: [101],
+            },
+          },
+        ],
+      },
+    ],
+  },
+  events: {
+    events: [
+      {
+        blockInfo: {
+          distanceFromMaxBlockHeight: 10,
+          globalSlotSinceGenesis: 4990,
+          height: 990,
+          stateHash: '3NK3LJXi1Hh6CtvwY9Tfc33URZQqXZekXmoQMJWpFdMURh6sE6Av',
+          parentHash: '3NK2tkzqqK5spR2sZ7tujjqPksL45M3UUrcA4WhCkeiPtnugyE2x',
+          chainStatus: 'canonical',
+        },
+        eventData: [
+          {
+            transactionInfo: {
+              hash: '5Ju0',
+              memo: '',
+              status: 'applied',
+            },
+            data: ['1'],
+          },
+        ],
+      },
+      {
+        blockInfo: {
+          distanceFromMaxBlockHeight: 9,
+          globalSlotSinceGenesis: 4991,
+          height: 991,
+          stateHash: '3NK3mr4aBGJJbNq1XB2RULFZ6FVcynG2agzee6LRkbzYxbMPeiia',
+          parentHash: '3NK3LJXi1Hh6CtvwY9Tfc33URZQqXZekXmoQMJWpFdMURh6sE6Av',
+          chainStatus: 'canonical',
+        },
+        eventData: [
+          {
+            transactionInfo: {
+              hash: '5Ju1',
+              memo: '',
+              status: 'applied',
+            },
+            data: ['2'],
+          },
+        ],
+      },
+    ],
+  },
+};
@@ -253,6 +253,7 @@ type EventQueryResponse = {
 
 type FetchedAction = {
   blockInfo: {
+    height: number;
     distanceFromMaxBlockHeight: number;
   };
   actionState: {
@@ -338,6 +339,7 @@ const getActionsQuery = (
   return `{
   actions(input: { ${input} }) {
     blockInfo {
+      height
       distanceFromMaxBlockHeight
     }
     actionState {
@@ -0,0 +1,146 @@
+import {
+  Field,
+  Mina,
+  method,
+  PrivateKey,
+  Reducer,
+  SmartContract,
+  state,
+  State,
+  UInt32,
+} from '../../index.js';
+import { mockForkResponses } from './fixtures/fork-responses.js';
+import { expect } from 'expect';
+
+class Counter extends SmartContract {
+  @state(Field) count = State<Field>();
+
+  events = { incremented: Field };
+  reducer = Reducer({ actionType: Field });
+
+  @method async increment() {
+    let count = this.count.getAndRequireEquals();
+    this.count.set(count.add(1));
+    this.emitEvent('incremented', count.add(1));
+    this.reducer.dispatch(Field(1));
+  }
+}
+
+// stub the GraphQL endpoints with recorded responses, and record which queries are made
+
+let queries: string[] = [];
+
+globalThis.fetch = async (_url, init) => {
+  let { query } = JSON.parse(init!.body as string) as { query: string };
+  queries.push(query);
+  let address = query.match(/(?:publicKey|address): "(\w+)"/)?.[1];
+  let data: unknown;
+  if (query.includes('bestChain')) {
+    data = mockForkResponses.lastBlock;
+  } else if (query.includes('account(')) {
+    let response = mockForkResponses.accounts.find(
+      ({ account }) => account.publicKey === address
+    );
+    data = response ?? { account: null };
+  } else if (query.includes('actions(')) {
+    data =
+      address === zkappAddress.toBase58()
+        ? mockForkResponses.actions
+        : { actions: [] };
+  } else if (query.includes('events(')) {
+    data =
+      address === zkappAddress.toBase58()
+        ? mockForkResponses.events
+        : { events: [] };
+  } else {
+    throw Error(`unexpected query: ${query}`);
+  }
+  return new Response(JSON.stringify({ data }));
+};
+
+function queriesFor(kind: string, publicKey: { toBase58(): string }) {
+  return queries.filter(
+    (query) => query.includes(kind) && query.includes(publicKey.toBase58())
+  );
+}
+
+let zkappAddress = PrivateKey.fromBase58(
+  mockForkResponses.zkappKey
+).toPublicKey();
+let userKey = PrivateKey.fromBase58(mockForkResponses.userKey);
+let user = userKey.toPublicKey();
+let zkapp = new Counter(zkappAddress);
+
+// forking requires the JS ledger
+
+await expect(
+  Mina.LocalBlockchain({ fork: { mina: 'http://mina' }, ledger: 'ocaml' })
+).rejects.toThrow(/requires `ledger: 'js'`/);
+
+let Local = await Mina.LocalBlockchain({
+  proofsEnabled: false,
+  fork: { mina: 'http://mina', archive: 'http://archive' },
+});
+Mina.setActiveInstance(Local);
+
+// the network state is fetched when forking
+
+expect(Local.getNetworkState().blockchainLength).toEqual(UInt32.from(1000));
+expect(Local.getNetworkState().globalSlotSinceGenesis).toEqual(
+  UInt32.from(5000)
+);
+
+// accounts are pulled lazily
+
+expect(queriesFor('account(', zkappAddress)).toHaveLength(0);
+expect(() => Local.getAccount(zkappAddress)).toThrow(/pullAccount/);
+
+// a transaction pulls the accounts it uses, and is applied locally
+
+let tx = await Mina.transaction({ sender: user, fee: 1e8 }, () =>
+  zkapp.increment()
+);
+await tx.prove();
+await tx.sign([userKey]).send();
+
+expect(Local.getAccount(zkappAddress).zkapp?.appState[0]).toEqual(Field(3));
+expect(Local.getAccount(user).nonce).toEqual(UInt32.from(1));
+expect(queriesFor('account(', zkappAddress)).toHaveLength(1);
+expect(queriesFor('account(', user)).toHaveLength(1);
+
+// remote action history is continued by local actions
+
+let actions = Local.getActions(zkappAddress);
+expect(actions).toHaveLength(3);
+expect(actions[2].hash).toEqual(
+  Local.getAccount(zkappAddress).zkapp?.actionState[0].toString()
+);
+expect(queriesFor('actions(', zkappAddress)).toHaveLength(1);
+
+// remote events come before local events
+
+let events = await Local.fetchEvents(zkappAddress);
+expect(events.map((e) => e.events[0].data)).toEqual([['3'], ['2'], ['1']]);
+expect(events[2].blockHeight).toEqual(UInt32.from(990));
+await Local.fetchEvents(zkappAddress);
+expect(queriesFor('events(', zkappAddress)).toHaveLength(1);
+
+// accounts that don't exist on the network are only queried once
+
+let newAccount = PrivateKey.random().toPublicKey();
+expect(await Local.pullAccount(newAccount)).toBeUndefined();
+expect(Local.hasAccount(newAccount)).toBe(false);
+expect(() => Local.getAccount(newAccount)).toThrow();
+expect(await Local.pullAccount(newAccount)).toBeUndefined();
+expect(queriesFor('account(', newAccount)).toHaveLength(1);
+
+// a fork keeps the pulled state, and is independent of the original
+
+let Fork = Local.fork();
+await Mina.transaction({ sender: user, fee: 1e8 }, () => zkapp.increment())
+  .prove()
+  .sign([userKey])
+  .send();
+expect(Local.getAccount(zkappAddress).zkapp?.appState[0]).toEqual(Field(4));
+expect(Fork.getAccount(zkappAddress).zkapp?.appState[0]).toEqual(Field(3));
+expect(queriesFor('account(', zkappAddress)).toHaveLength(1);
@@ -5,7 +5,9 @@ import { Ledger, Test, initializeBindings } from '../../snarky.js';
 import { Field } from '../provable/wrapped.js';
 import { UInt32, UInt64 } from '../provable/int.js';
 import { PrivateKey, PublicKey } from '../provable/crypto/signature.js';
-import { Account } from './account.js';
+import { Account, newAccount } from './account.js';
+import * as Fetch from './fetch.js';
+import { currentTransaction } from './transaction-context.js';
 import {
   ZkappCommand,
   TokenId,
@@ -14,8 +16,8 @@ import {
 } from './account-update.js';
 import { NetworkId } from '../../mina-signer/src/types.js';
 import { TupleN } from '../util/types.js';
-import { Types, TypesBigint } from '../../bindings/mina-transaction/types.js';
-import { invalidTransactionError } from './errors.js';
+import { TypesBigint } from '../../bindings/mina-transaction/types.js';
+import { failedTransactionError, invalidTransactionError } from './errors.js';
 import {
   Transaction,
   PendingTransaction,
@@ -35,6 +37,8 @@ import {
   Mina,
   defaultNetworkConstants,
 } from './mina-instance.js';
+import type { NetworkValue } from './precondition.js';
+import type { EventActionFilterOptions } from './graphql.js';
 import {
   reportGetAccountError,
   defaultNetworkState,
@@ -42,8 +46,13 @@ import {
   verifyAccountUpdate,
 } from './transaction-validation.js';
 import { prettifyStacktrace } from '../util/errors.js';
+import { cloneCircuitValue } from '../provable/types/struct.js';
+import { Poseidon } from '../provable/crypto/poseidon.js';
+import { provable } from '../provable/types/provable-derivers.js';
+import { readFileSync, writeFileSync } from '../util/fs.js';
+import { Types } from '../../bindings/mina-transaction/types.js';
 
-export { LocalBlockchain, TestPublicKey };
+export { LocalBlockchain, TestPublicKey, type LocalBlockchainState };
 
 type TestPublicKey = PublicKey & {
   key: PrivateKey;
@@ -68,41 +77,512 @@ namespace TestPublicKey {
 
 /**
  * A mock Mina blockchain running locally and useful for testing.
+ *
+ * By default, transactions are applied by the same OCaml code that runs in the Mina node.
+ * With `ledger: 'js'`, they are applied by a JS model of the transaction logic instead,
+ * which explains failed transactions in more detail.
+ *
+ * `snapshot()`, `revert()` and `fork()` copy the ledger. The OCaml ledger can only be copied by replaying
+ * every transaction applied to it so far, which happens the first time the copy is used, so the cost grows
+ * with the number of past transactions. The JS ledger is copied in constant time, so `ledger: 'js'` is
+ * the better choice for tests which branch off a shared state many times.
+ *
+ * With `fork`, the local blockchain starts from the current state of a real network:
+ * the network state is fetched from the `mina` GraphQL endpoint, and accounts, actions and events
+ * are pulled from the `mina` and `archive` endpoints the first time they are needed.
+ * Transactions are only applied locally, so this can be used to dry-run interactions with deployed zkApps.
+ * Forking requires the JS ledger, which is used by default in that case.
+ *
+ * By default, every transaction is applied as soon as it is sent. With `blockProduction: 'manual'`,
+ * sent transactions wait in a mempool until `produceBlock()` is called, which makes it possible to test
+ * what happens when several transactions compete for the same block.
+ *
+ * The full state of a local blockchain can be saved to a file with `saveState()`, and loaded again
+ * by passing the file (or the object returned by `exportState()`) as `state`. In that case, the ledger kind,
+ * test accounts and forked network are restored from the saved state as well.
+ *
+ * @example
+ * ```ts
+ * let Local = await Mina.LocalBlockchain({
+ *   fork: {
+ *     mina: 'https://api.minascan.io/node/devnet/v1/graphql',
+ *     archive: 'https://api.minascan.io/archive/devnet/v1/graphql',
+ *   },
+ * });
+ * ```
  */
 async function LocalBlockchain({
   proofsEnabled = true,
   enforceTransactionLimits = true,
+  fork,
+  ledger: ledgerKind = fork === undefined ? 'ocaml' : 'js',
+  blockProduction = 'instant',
+  state: savedState,
+}: {
+  proofsEnabled?: boolean;
+  enforceTransactionLimits?: boolean;
+  ledger?: 'ocaml' | 'js';
+  fork?: { mina: string; archive?: string };
+  blockProduction?: 'instant' | 'manual';
+  state?: LocalBlockchainState | string;
 } = {}) {
+  if (savedState !== undefined) {
+    await initializeBindings();
+    let json: LocalBlockchainState =
+      typeof savedState === 'string'
+        ? JSON.parse(readFileSync(savedState, 'utf8'))
+        : savedState;
+    if (json.version !== 1) {
+      throw Error(
+        `LocalBlockchain: unsupported state version ${json.version}, expected 1.`
+      );
+    }
+    return createLocalBlockchain(localStateFromJSON(json), {
+      proofsEnabled,
+      enforceTransactionLimits,
+      testAccounts: json.testAccounts.map(TestPublicKey.fromBase58) as never,
+      startTime: json.startTime,
+      fork: json.fork,
+      blockProduction,
+    });
+  }
+  if (fork !== undefined && ledgerKind !== 'js') {
+    throw Error(
+      `LocalBlockchain: forking a network requires \`ledger: 'js'\`, because fetched accounts can't be added to the OCaml ledger.`
+    );
+  }
   await initializeBindings();
+  const ledger = ledgerKind === 'js' ? createJsLedger() : createOcamlLedger();
+
+  let testAccounts = [] as never as TupleN<TestPublicKey, 10>;
+
+  for (let i = 0; i < 10; ++i) {
+    let MINA = 10n ** 9n;
+    const largeValue = 1000n * MINA;
+    const testAccount = TestPublicKey.random();
+    ledger.addAccount(testAccount, largeValue.toString());
+    testAccounts.push(testAccount);
+  }
+
+  let networkState =
+    fork === undefined
+      ? defaultNetworkState()
+      : await Fetch.fetchLastBlock(fork.mina);
+
+  return createLocalBlockchain(
+    {
+      ledger,
+      networkState,
+      events: {},
+      actions: {},
+      pulled: { accounts: new Set(), actions: new Set(), events: new Set() },
+    },
+    {
+      proofsEnabled,
+      enforceTransactionLimits,
+      testAccounts,
+      startTime: Date.now(),
+      fork,
+      blockProduction,
+    }
+  );
+}
+// assert type compatibility without preventing LocalBlockchain to return additional properties / methods
+LocalBlockchain satisfies (...args: any) => Promise<Mina>;
+
+/**
+ * Everything that changes when transactions are applied to a local blockchain.
+ */
+type LocalState = {
+  ledger: LocalLedger;
+  networkState: NetworkValue;
+  events: Record<string, any>;
+  actions: Record<
+    string,
+    Record<string, { actions: string[][]; hash: string; blockHeight: string }[]>
+  >;
+  /**
+   * Accounts for which accounts, actions and events were already pulled from a forked network,
+   * as `${publicKey};${tokenId}`.
+   */
+  pulled: {
+    accounts: Set<string>;
+    actions: Set<string>;
+    events: Set<string>;
+  };
+};
+
+/**
+ * The state of a local blockchain in JSON format, as returned by `exportState()`.
+ *
+ * Transactions waiting in the mempool and snapshots are not included.
+ */
+type LocalBlockchainState = {
+  version: 1;
+  ledger: LocalLedgerJson;
+  networkState: ReturnType<typeof NetworkState.toJSON>;
+  events: Record<string, Record<string, EventsJson[]>>;
+  actions: LocalState['actions'];
+  pulled: { accounts: string[]; actions: string[]; events: string[] };
+  /**
+   * Private keys of the test accounts, in base58.
+   */
+  testAccounts: string[];
+  startTime: number;
+  fork?: { mina: string; archive?: string };
+};
+
+type EventsJson = {
+  events: { data: string[]; transactionInfo: Record<string, string> }[];
+  blockHeight: string;
+  globalSlot: string;
+  blockHash: string;
+  parentBlockHash: string;
+  chainStatus: string;
+};
+
+const EpochData = provable({
+  ledger: { hash: Field, totalCurrency: UInt64 },
+  seed: Field,
+  startCheckpoint: Field,
+  lockCheckpoint: Field,
+  epochLength: UInt32,
+});
+
+const NetworkState = provable({
+  snarkedLedgerHash: Field,
+  blockchainLength: UInt32,
+  minWindowDensity: UInt32,
+  totalCurrency: UInt64,
+  globalSlotSinceGenesis: UInt32,
+  stakingEpochData: EpochData,
+  nextEpochData: EpochData,
+});
+
+function localStateToJSON(
+  { ledger, networkState, events, actions, pulled }: LocalState,
+  {
+    testAccounts,
+    startTime,
+    fork,
+  }: Pick<LocalBlockchainState, 'startTime' | 'fork'> & {
+    testAccounts: TestPublicKey[];
+  }
+): LocalBlockchainState {
+  return {
+    version: 1,
+    ledger: ledger.toJSON(),
+    networkState: NetworkState.toJSON(networkState),
+    events: mapEvents(events, ({ blockHeight, globalSlot, ...event }) => ({
+      ...event,
+      blockHeight: blockHeight.toString(),
+      globalSlot: globalSlot.toString(),
+    })),
+    actions: cloneCircuitValue(actions),
+    pulled: {
+      accounts: [...pulled.accounts],
+      actions: [...pulled.actions],
+      events: [...pulled.events],
+    },
+    testAccounts: testAccounts.map(({ key }) => key.toBase58()),
+    startTime,
+    fork,
+  };
+}
+
+function localStateFromJSON({
+  ledger,
+  networkState,
+  events,
+  actions,
+  pulled,
+}: LocalBlockchainState): LocalState {
+  return {
+    ledger:
+      ledger.kind === 'js'
+        ? createJsLedger(SimpleLedger.fromJSON(ledger.accounts))
+        : createOcamlLedger([...ledger.history]),
+    networkState: NetworkState.fromJSON(networkState),
+    events: mapEvents(events, ({ blockHeight, globalSlot, ...event }) => ({
+      ...event,
+      blockHeight: UInt32.from(blockHeight),
+      globalSlot: UInt32.from(globalSlot),
+    })),
+    actions: cloneCircuitValue(actions),
+    pulled: {
+      accounts: new Set(pulled.accounts),
+      actions: new Set(pulled.actions),
+      events: new Set(pulled.events),
+    },
+  };
+}
+
+function mapEvents(
+  events: Record<string, Record<string, any[]>>,
+  f: (event: any) => any
+) {
+  return Object.fromEntries(
+    Object.entries(events).map(([address, byToken]) => [
+      address,
+      Object.fromEntries(
+        Object.entries(byToken).map(([tokenId, list]) => [tokenId, list.map(f)])
+      ),
+    ])
+  );
+}
+
+function cloneLocalState({
+  ledger,
+  networkState,
+  events,
+  actions,
+  pulled,
+}: LocalState): LocalState {
+  return {
+    ledger: ledger.clone(),
+    networkState: cloneCircuitValue(networkState),
+    events: cloneCircuitValue(events),
+    actions: cloneCircuitValue(actions),
+    pulled: cloneCircuitValue(pulled),
+  };
+}
+
+function createLocalBlockchain(
+  initialState: LocalState,
+  config: {
+    proofsEnabled: boolean;
+    enforceTransactionLimits: boolean;
+    testAccounts: TupleN<TestPublicKey, 10>;
+    startTime: number;
+    fork?: { mina: string; archive?: string };
+    blockProduction: 'instant' | 'manual';
+  }
+) {
+  let state = initialState;
+  const {
+    proofsEnabled,
+    enforceTransactionLimits,
+    testAccounts,
+    startTime,
+    fork,
+    blockProduction,
+  } = config;
   const slotTime = 3 * 60 * 1000;
-  const startTime = Date.now();
   const genesisTimestamp = UInt64.from(startTime);
-  const ledger = Ledger.create();
-  let networkState = defaultNetworkState();
 
   function addAccount(publicKey: PublicKey, balance: string) {
     try {
-      ledger.addAccount(Ml.fromPublicKey(publicKey), balance);
+      state.ledger.addAccount(publicKey, balance);
     } catch (error) {
       throw prettifyStacktrace(error);
     }
   }
 
-  let testAccounts = [] as never as TupleN<TestPublicKey, 10>;
+  // when forking a network, remote accounts and actions that are needed during the first run
+  // of a transaction are collected here, and pulled before the second run
+  const accountsToPull = new Map<
+    string,
+    { publicKey: PublicKey; tokenId: Field }
+  >();
+  const actionsToPull = new Map<
+    string,
+    { publicKey: PublicKey; tokenId: Field }
+  >();
 
-  for (let i = 0; i < 10; ++i) {
-    let MINA = 10n ** 9n;
-    const largeValue = 1000n * MINA;
-    const testAccount = TestPublicKey.random();
-    addAccount(testAccount, largeValue.toString());
-    testAccounts.push(testAccount);
+  function isPulled(
+    kind: keyof LocalState['pulled'],
+    publicKey: PublicKey,
+    tokenId: Field
+  ) {
+    return (
+      fork === undefined ||
+      state.pulled[kind].has(accountKey(publicKey, tokenId))
+    );
   }
 
-  const events: Record<string, any> = {};
-  const actions: Record<
-    string,
-    Record<string, { actions: string[][]; hash: string }[]>
-  > = {};
+  function markToPull(
+    kind: 'accounts' | 'actions',
+    publicKey: PublicKey,
+    tokenId: Field
+  ) {
+    if (isPulled(kind, publicKey, tokenId)) return;
+    let toPull = kind === 'accounts' ? accountsToPull : actionsToPull;
+    toPull.set(accountKey(publicKey, tokenId), { publicKey, tokenId });
+  }
+
+  async function pullAccount(publicKey: PublicKey, tokenId: Field) {
+    if (fork === undefined || isPulled('accounts', publicKey, tokenId)) return;
+    let { account, error } = await Fetch.fetchAccount(
+      { publicKey, tokenId },
+      fork.mina
+    );
+    if (error !== undefined && error.statusCode !== 404) {
+      throw Error(
+        `LocalBlockchain: Failed to fetch account ${publicKey.toBase58()} from ${
+          fork.mina
+        }: ${error.statusText}`
+      );
+    }
+    // accounts created locally take precedence over remote ones
+    if (
+      account !== undefined &&
+      state.ledger.getAccount(publicKey, tokenId) === undefined
+    ) {
+      state.ledger.storeAccount(account);
+    }
+    state.pulled.accounts.add(accountKey(publicKey, tokenId));
+  }
+
+  async function pullActions(publicKey: PublicKey, tokenId: Field) {
+    if (fork === undefined || isPulled('actions', publicKey, tokenId)) return;
+    let addr = publicKey.toBase58();
+    let token = TokenId.toBase58(tokenId);
+    if (fork.archive !== undefined) {
+      let remoteActions = await Fetch.fetchActions(
+        { publicKey: addr, tokenId: token, actionStates: {} },
+        fork.archive
+      );
+      if ('error' in remoteActions) {
+        throw Error(
+          `LocalBlockchain: Failed to fetch actions of ${addr} from ${fork.archive}: ${remoteActions.error.statusText}`
+        );
+      }
+      state.actions[addr] ??= {};
+      state.actions[addr][token] = [
+        ...remoteActions,
+        ...(state.actions[addr][token] ?? []),
+      ];
+    }
+    state.pulled.actions.add(accountKey(publicKey, tokenId));
+  }
+
+  async function pullEvents(publicKey: PublicKey, tokenId: Field) {
+    if (fork === undefined || isPulled('events', publicKey, tokenId)) return;
+    let addr = publicKey.toBase58();
+    let token = TokenId.toBase58(tokenId);
+    if (fork.archive !== undefined) {
+      let remoteEvents = await Fetch.fetchEvents(
+        { publicKey: addr, tokenId: token },
+        fork.archive
+      );
+      state.events[addr] ??= {};
+      state.events[addr][token] = [
+        ...remoteEvents,
+        ...(state.events[addr][token] ?? []),
+      ];
+    }
+    state.pulled.events.add(accountKey(publicKey, tokenId));
+  }
+
+  async function pullMissingData() {
+    for (let { publicKey, tokenId } of accountsToPull.values()) {
+      await pullAccount(publicKey, tokenId);
+    }
+    for (let { publicKey, tokenId } of actionsToPull.values()) {
+      await pullActions(publicKey, tokenId);
+    }
+    accountsToPull.clear();
+    actionsToPull.clear();
+  }
+
+  /**
+   * Apply a transaction to the ledger, and store its events and actions.
+   *
+   * Returns the errors if the transaction failed.
+   */
+  function applyTransaction(
+    transaction: ZkappCommand,
+    networkId: NetworkId
+  ): string[] {
+    let zkappCommandJson = ZkappCommand.toJSON(transaction);
+    const errors: string[] = [];
+    let error = state.ledger.applyTransaction(
+      transaction,
+      state.networkState,
+      networkId
+    );
+    if (error !== undefined) errors.push(error);
+
+    // fetches all events from the transaction and stores them
+    // events are identified and associated with a publicKey and tokenId
+    transaction.accountUpdates.forEach((p, i) => {
+      let pJson = zkappCommandJson.accountUpdates[i];
+      let addr = pJson.body.publicKey;
+      let tokenId = pJson.body.tokenId;
+      state.events[addr] ??= {};
+      if (p.body.events.data.length > 0) {
+        state.events[addr][tokenId] ??= [];
+        let updatedEvents = p.body.events.data.map((data: Field[]) => {
+          return {
+            data: data.map((e) => e.toString()),
+            transactionInfo: {
+              transactionHash: '',
+              transactionStatus: '',
+              transactionMemo: '',
+            },
+          };
+        });
+        state.events[addr][tokenId].push({
+          events: updatedEvents,
+          blockHeight: state.networkState.blockchainLength,
+          globalSlot: state.networkState.globalSlotSinceGenesis,
+          // The following fields are fetched from the Mina network. For now, we mock these values out
+          // since networkState does not contain these fields.
+          blockHash: '',
+          parentBlockHash: '',
+          chainStatus: '',
+        });
+      }
+
+      // actions/sequencing events
+
+      // most recent action state
+      let storedActions = state.actions[addr]?.[tokenId];
+      let latestActionState_ = storedActions?.[storedActions.length - 1]?.hash;
+      // if there exists no hash, this means we initialize our latest hash with the empty state
+      let latestActionState =
+        latestActionState_ !== undefined
+          ? Field(latestActionState_)
+          : Actions.emptyActionState();
+
+      state.actions[addr] ??= {};
+      if (p.body.actions.data.length > 0) {
+        let newActionState = Actions.updateSequenceState(
+          latestActionState,
+          p.body.actions.hash
+        );
+        state.actions[addr][tokenId] ??= [];
+        state.actions[addr][tokenId].push({
+          actions: pJson.body.actions,
+          hash: newActionState.toString(),
+          blockHeight: state.networkState.blockchainLength.toString(),
+        });
+      }
+    });
+    return errors;
+  }
+
+  // transactions waiting to be included in the next block, with `blockProduction: 'manual'`
+  const mempool: {
+    transaction: Transaction<boolean, boolean>;
+    pendingTransaction: Omit<PendingTransaction, 'wait' | 'safeWait'>;
+    resolve: (result: IncludedTransaction | RejectedTransaction) => void;
+  }[] = [];
+
+  // transactions from a fee payer with transactions in the mempool use the next nonce
+  function withMempoolNonce(sender: FeePayerSpec): FeePayerSpec {
+    let spec = sender instanceof PublicKey ? { sender } : sender;
+    if (spec === undefined || spec.nonce !== undefined) return sender;
+    let nonces = mempool
+      .map(({ transaction: { transaction } }) => transaction.feePayer.body)
+      .filter((feePayer) => feePayer.publicKey.equals(spec.sender).toBoolean())
+      .map((feePayer) => Number(feePayer.nonce.toBigint()));
+    if (nonces.length === 0) return sender;
+    return { ...spec, nonce: Math.max(...nonces) + 1 };
+  }
+
+  const snapshots = new Map<number, LocalState>();
+  let nextSnapshotId = 0;
   const originalProofsEnabled = proofsEnabled;
 
   return {
@@ -120,28 +600,36 @@ async function LocalBlockchain({
       );
     },
     hasAccount(publicKey: PublicKey, tokenId: Field = TokenId.default) {
-      return !!ledger.getAccount(
-        Ml.fromPublicKey(publicKey),
-        Ml.constFromField(tokenId)
-      );
+      markToPull('accounts', publicKey, tokenId);
+      return state.ledger.getAccount(publicKey, tokenId) !== undefined;
     },
     getAccount(
       publicKey: PublicKey,
       tokenId: Field = TokenId.default
     ): Account {
-      let accountJson = ledger.getAccount(
-        Ml.fromPublicKey(publicKey),
-        Ml.constFromField(tokenId)
-      );
-      if (accountJson === undefined) {
+      let account = state.ledger.getAccount(publicKey, tokenId);
+      if (account === undefined && !isPulled('accounts', publicKey, tokenId)) {
+        markToPull('accounts', publicKey, tokenId);
+        // like on a real network, return a dummy account in the first run of a transaction
+        if (currentTransaction()?.fetchMode === 'test') {
+          return newAccount({ publicKey, tokenId });
+        }
+        throw Error(
+          `${reportGetAccountError(
+            publicKey.toBase58(),
+            TokenId.toBase58(tokenId)
+          )}\nThe account wasn't pulled from the forked network yet, try calling \`await Local.pullAccount(publicKey)\` first.`
+        );
+      }
+      if (account === undefined) {
         throw new Error(
           reportGetAccountError(publicKey.toBase58(), TokenId.toBase58(tokenId))
         );
       }
-      return Types.Account.fromJSON(accountJson);
+      return account;
     },
     getNetworkState() {
-      return networkState;
+      return state.networkState;
     },
     sendTransaction(
       txn: Transaction<boolean, boolean>
@@ -155,6 +643,16 @@ async function LocalBlockchain({
 
         if (enforceTransactionLimits) verifyTransactionLimits(txn.transaction);
 
+        // make sure that all accounts and action histories touched by the transaction are pulled from a forked network
+        let { feePayer, accountUpdates } = txn.transaction;
+        await pullAccount(feePayer.body.publicKey, TokenId.default);
+        for (let { body } of accountUpdates) {
+          await pullAccount(body.publicKey, body.tokenId);
+          if (body.actions.data.length > 0) {
+            await pullActions(body.publicKey, body.tokenId);
+          }
+        }
+
         // create an ad-hoc ledger to record changes to accounts within the transaction
         let simpleLedger = SimpleLedger.create();
 
@@ -173,12 +671,11 @@ async function LocalBlockchain({
 
           // the first time we encounter an account, use it from the persistent ledger
           if (account === undefined) {
-            let accountJson = ledger.getAccount(
-              Ml.fromPublicKey(update.body.publicKey),
-              Ml.constFromField(update.body.tokenId)
+            let storedAccount = state.ledger.getAccount(
+              update.body.publicKey,
+              update.body.tokenId
             );
-            if (accountJson !== undefined) {
-              let storedAccount = Account.fromJSON(accountJson);
+            if (storedAccount !== undefined) {
               simpleLedger.store(storedAccount);
               account = storedAccount;
             }
@@ -195,95 +692,22 @@ async function LocalBlockchain({
               this.proofsEnabled,
               this.getNetworkId()
             );
-            simpleLedger.apply(update);
+            simpleLedger.apply(update, {
+              networkState: state.networkState,
+              accountCreationFee: defaultNetworkConstants.accountCreationFee,
+              fullCommitment: Field(commitments.fullCommitment),
+            });
           }
         }
 
+        // in manual block production, the transaction is only applied when the next block is produced
+        let errors: string[] = [];
         let status: PendingTransactionStatus = 'pending';
-        const errors: string[] = [];
-        try {
-          ledger.applyJsonTransaction(
-            JSON.stringify(zkappCommandJson),
-            defaultNetworkConstants.accountCreationFee.toString(),
-            JSON.stringify(networkState)
-          );
-        } catch (err: any) {
-          status = 'rejected';
-          try {
-            const errorMessages = JSON.parse(err.message);
-            const formattedError = invalidTransactionError(
-              txn.transaction,
-              errorMessages,
-              {
-                accountCreationFee:
-                  defaultNetworkConstants.accountCreationFee.toString(),
-              }
-            );
-            errors.push(formattedError);
-          } catch (parseError: any) {
-            const fallbackErrorMessage =
-              err.message || parseError.message || 'Unknown error occurred';
-            errors.push(fallbackErrorMessage);
-          }
+        if (blockProduction === 'instant') {
+          errors = applyTransaction(txn.transaction, this.getNetworkId());
+          if (errors.length > 0) status = 'rejected';
         }
 
-        // fetches all events from the transaction and stores them
-        // events are identified and associated with a publicKey and tokenId
-        txn.transaction.accountUpdates.forEach((p, i) => {
-          let pJson = zkappCommandJson.accountUpdates[i];
-          let addr = pJson.body.publicKey;
-          let tokenId = pJson.body.tokenId;
-          events[addr] ??= {};
-          if (p.body.events.data.length > 0) {
-            events[addr][tokenId] ??= [];
-            let updatedEvents = p.body.events.data.map((data: Field[]) => {
-              return {
-                data: data.map(e => e.toString()),
-                transactionInfo: {
-                  transactionHash: '',
-                  transactionStatus: '',
-                  transactionMemo: '',
-                },
-              };
-            });
-            events[addr][tokenId].push({
-              events: updatedEvents,
-              blockHeight: networkState.blockchainLength,
-              globalSlot: networkState.globalSlotSinceGenesis,
-              // The following fields are fetched from the Mina network. For now, we mock these values out
-              // since networkState does not contain these fields.
-              blockHash: '',
-              parentBlockHash: '',
-              chainStatus: '',
-            });
-          }
-
-          // actions/sequencing events
-
-          // most recent action state
-          let storedActions = actions[addr]?.[tokenId];
-          let latestActionState_ =
-            storedActions?.[storedActions.length - 1]?.hash;
-          // if there exists no hash, this means we initialize our latest hash with the empty state
-          let latestActionState =
-            latestActionState_ !== undefined
-              ? Field(latestActionState_)
-              : Actions.emptyActionState();
-
-          actions[addr] ??= {};
-          if (p.body.actions.data.length > 0) {
-            let newActionState = Actions.updateSequenceState(
-              latestActionState,
-              p.body.actions.hash
-            );
-            actions[addr][tokenId] ??= [];
-            actions[addr][tokenId].push({
-              actions: pJson.body.actions,
-              hash: newActionState.toString(),
-            });
-          }
-        });
-
         let test = await Test();
         const hash = test.transactionHash.hashZkAppCommand(txn.toJSON());
         const pendingTransaction: Omit<
@@ -315,17 +739,24 @@ async function LocalBlockchain({
           return pendingTransaction;
         };
 
+        let included: Promise<IncludedTransaction | RejectedTransaction>;
+        if (blockProduction === 'instant') {
+          included = Promise.resolve(
+            status === 'rejected'
+              ? createRejectedTransaction(pendingTransaction, errors)
+              : createIncludedTransaction(pendingTransaction)
+          );
+        } else {
+          included = new Promise((resolve) => {
+            mempool.push({ transaction: txn, pendingTransaction, resolve });
+          });
+        }
+
         const safeWait = async (_options?: {
           maxAttempts?: number;
           interval?: number;
         }): Promise<IncludedTransaction | RejectedTransaction> => {
-          if (status === 'rejected') {
-            return createRejectedTransaction(
-              pendingTransaction,
-              pendingTransaction.errors
-            );
-          }
-          return createIncludedTransaction(pendingTransaction);
+          return included;
         };
 
         return {
@@ -336,6 +767,7 @@ async function LocalBlockchain({
       });
     },
     transaction(sender: FeePayerSpec, f: () => Promise<void>) {
+      sender = withMempoolNonce(sender);
       return toTransactionPromise(async () => {
         // TODO we run the transaction twice to match the behavior of `Network.transaction`
         let tx = await createTransaction(sender, f, 0, {
@@ -343,6 +775,7 @@ async function LocalBlockchain({
           proofsEnabled: this.proofsEnabled,
           fetchMode: 'test',
         });
+        await pullMissingData();
         let hasProofs = tx.transaction.accountUpdates.some(
           Authorization.hasLazyProof
         );
@@ -353,17 +786,32 @@ async function LocalBlockchain({
       });
     },
     applyJsonTransaction(json: string) {
-      return ledger.applyJsonTransaction(
-        json,
-        defaultNetworkConstants.accountCreationFee.toString(),
-        JSON.stringify(networkState)
+      let transaction = ZkappCommand.fromJSON(JSON.parse(json));
+      let error = state.ledger.applyTransaction(
+        transaction,
+        state.networkState,
+        this.getNetworkId()
       );
+      if (error !== undefined) throw Error(error);
     },
-    async fetchEvents(publicKey: PublicKey, tokenId: Field = TokenId.default) {
+    async fetchEvents(
+      publicKey: PublicKey,
+      tokenId: Field = TokenId.default,
+      { from, to }: EventActionFilterOptions = {}
+    ) {
+      await pullEvents(publicKey, tokenId);
       // Return events in reverse chronological order (latest events at the beginning)
-      const reversedEvents = (
-        events?.[publicKey.toBase58()]?.[TokenId.toBase58(tokenId)] ?? []
-      ).reverse();
+      const reversedEvents = [
+        ...(state.events?.[publicKey.toBase58()]?.[TokenId.toBase58(tokenId)] ??
+          []),
+      ]
+        .filter(
+          ({ blockHeight }) =>
+            (from === undefined ||
+              blockHeight.greaterThanOrEqual(from).toBoolean()) &&
+            (to === undefined || blockHeight.lessThanOrEqual(to).toBoolean())
+        )
+        .reverse();
       return reversedEvents;
     },
     async fetchActions(
@@ -371,15 +819,18 @@ async function LocalBlockchain({
       actionStates?: ActionStates,
       tokenId: Field = TokenId.default
     ) {
+      await pullActions(publicKey, tokenId);
       return this.getActions(publicKey, actionStates, tokenId);
     },
     getActions(
       publicKey: PublicKey,
       actionStates?: ActionStates,
       tokenId: Field = TokenId.default
-    ): { hash: string; actions: string[][] }[] {
+    ): { hash: string; actions: string[][]; blockHeight: string }[] {
+      markToPull('actions', publicKey, tokenId);
       let currentActions =
-        actions?.[publicKey.toBase58()]?.[TokenId.toBase58(tokenId)] ?? [];
+        state.actions?.[publicKey.toBase58()]?.[TokenId.toBase58(tokenId)] ??
+        [];
       let { fromActionState, endActionState } = actionStates ?? {};
 
       let emptyState = Actions.emptyActionState();
@@ -405,23 +856,89 @@ async function LocalBlockchain({
       return currentActions.slice(startIndex, endIndex);
     },
     addAccount,
+    /**
+     * When forking a network, pulls an account from the network into the local ledger,
+     * unless it was already pulled or created locally.
+     *
+     * Returns the account, or `undefined` if it doesn't exist.
+     */
+    async pullAccount(
+      publicKey: PublicKey,
+      tokenId: Field = TokenId.default
+    ): Promise<Account | undefined> {
+      await pullAccount(publicKey, tokenId);
+      return state.ledger.getAccount(publicKey, tokenId);
+    },
     /**
      * An array of 10 test accounts that have been pre-filled with
      * 30000000000 units of currency.
      */
     testAccounts,
     setGlobalSlot(slot: UInt32 | number) {
-      networkState.globalSlotSinceGenesis = UInt32.from(slot);
+      state.networkState.globalSlotSinceGenesis = UInt32.from(slot);
     },
     incrementGlobalSlot(increment: UInt32 | number) {
-      networkState.globalSlotSinceGenesis =
-        networkState.globalSlotSinceGenesis.add(increment);
+      state.networkState.globalSlotSinceGenesis =
+        state.networkState.globalSlotSinceGenesis.add(increment);
     },
     setBlockchainLength(height: UInt32) {
-      networkState.blockchainLength = height;
+      state.networkState.blockchainLength = height;
     },
     setTotalCurrency(currency: UInt64) {
-      networkState.totalCurrency = currency;
+      state.networkState.totalCurrency = currency;
+    },
+    /**
+     * Produce a new block, which increments the blockchain length and advances the global slot by `slots`.
+     * When a new epoch starts, the next epoch data (including the current ledger and total currency)
+     * becomes the staking epoch data.
+     *
+     * With `blockProduction: 'manual'`, the transactions waiting in the mempool are included in the block.
+     * By default, they are ordered by fee, while keeping the transactions of each fee payer in nonce order.
+     * With `order: 'fifo'`, they are included in the order they were sent. A custom `order` function
+     * can reorder the transactions, and leave some of them in the mempool by not returning them.
+     *
+     * Returns the included and rejected transactions, in the order they were applied.
+     */
+    produceBlock({
+      slots = 1,
+      order = 'fee',
+    }: {
+      slots?: number;
+      order?: BlockOrder;
+    } = {}): (IncludedTransaction | RejectedTransaction)[] {
+      advanceNetworkState(state.networkState, slots);
+
+      let transactions = orderTransactions(
+        mempool.map(({ transaction }) => transaction),
+        order
+      );
+      let results: (IncludedTransaction | RejectedTransaction)[] = [];
+      for (let transaction of transactions) {
+        let i = mempool.findIndex((entry) => entry.transaction === transaction);
+        if (i === -1) {
+          throw Error(
+            'produceBlock: `order` must only return transactions from the mempool.'
+          );
+        }
+        let [{ pendingTransaction, resolve }] = mempool.splice(i, 1);
+        let errors = applyTransaction(
+          transaction.transaction,
+          this.getNetworkId()
+        );
+        let result =
+          errors.length > 0
+            ? createRejectedTransaction(pendingTransaction, errors)
+            : createIncludedTransaction(pendingTransaction);
+        resolve(result);
+        results.push(result);
+      }
+      return results;
+    },
+    /**
+     * The transactions waiting to be included in the next block.
+     */
+    getMempool(): Transaction<boolean, boolean>[] {
+      return mempool.map(({ transaction }) => transaction);
     },
     setProofsEnabled(newProofsEnabled: boolean) {
       this.proofsEnabled = newProofsEnabled;
@@ -429,7 +946,305 @@ async function LocalBlockchain({
     resetProofsEnabled() {
       this.proofsEnabled = originalProofsEnabled;
     },
+    /**
+     * Take a snapshot of the current accounts, events, actions and network state.
+     *
+     * Returns an id which can be passed to {@link revert} to roll back to the snapshot.
+     */
+    snapshot(): number {
+      let id = nextSnapshotId++;
+      snapshots.set(id, cloneLocalState(state));
+      return id;
+    },
+    /**
+     * Roll back accounts, events, actions and network state to a snapshot taken with {@link snapshot}.
+     *
+     * A snapshot can be reverted to multiple times.
+     */
+    revert(snapshotId: number) {
+      let snapshot = snapshots.get(snapshotId);
+      if (snapshot === undefined) {
+        throw Error(`revert: snapshot ${snapshotId} not found.`);
+      }
+      state = cloneLocalState(snapshot);
+    },
+    /**
+     * Export the accounts, events, actions, network state and test accounts of this local blockchain,
+     * so that it can be restored later with `Mina.LocalBlockchain({ state })`.
+     *
+     * Transactions waiting in the mempool and snapshots are not exported.
+     */
+    exportState(): LocalBlockchainState {
+      return localStateToJSON(state, { testAccounts, startTime, fork });
+    },
+    /**
+     * Save the state of this local blockchain to a JSON file, which can be loaded with
+     * `Mina.LocalBlockchain({ state: path })`. See {@link exportState}.
+     */
+    saveState(path: string) {
+      writeFileSync(path, JSON.stringify(this.exportState()));
+    },
+    /**
+     * Create an independent copy of this local blockchain, starting from its current state.
+     *
+     * Transactions sent to the fork don't affect the original, and vice versa.
+     */
+    fork<T extends { proofsEnabled: boolean }>(this: T): T {
+      let forked = createLocalBlockchain(cloneLocalState(state), config);
+      forked.proofsEnabled = this.proofsEnabled;
+      return forked as never as T;
+    },
+  };
+}
+
+/**
+ * The ledger of a local blockchain, which stores accounts and applies transactions.
+ *
+ * `applyTransaction()` returns an error message if the transaction failed.
+ */
+type LocalLedger = {
+  addAccount(publicKey: PublicKey, balance: string): void;
+  getAccount(publicKey: PublicKey, tokenId: Field): Account | undefined;
+  applyTransaction(
+    transaction: ZkappCommand,
+    networkState: NetworkValue,
+    networkId: NetworkId
+  ): string | undefined;
+  storeAccount(account: Account): void;
+  clone(): LocalLedger;
+  toJSON(): LocalLedgerJson;
+};
+
+type LocalLedgerJson =
+  | { kind: 'ocaml'; history: OcamlLedgerOperation[] }
+  | { kind: 'js'; accounts: Types.Json.Account[] };
+
+/**
+ * An operation on the OCaml ledger, with all inputs in JSON format, and whether it threw when it was first applied.
+ */
+type OcamlLedgerOperation = (
+  | { type: 'addAccount'; publicKey: string; balance: string }
+  | {
+      type: 'applyTransaction';
+      transaction: string;
+      accountCreationFee: string;
+      networkState: string;
+    }
+) & { failed?: boolean };
+
+type BlockOrder =
+  | 'fee'
+  | 'fifo'
+  | ((
+      transactions: Transaction<boolean, boolean>[]
+    ) => Transaction<boolean, boolean>[]);
+
+function orderTransactions(
+  transactions: Transaction<boolean, boolean>[],
+  order: BlockOrder
+) {
+  if (typeof order === 'function') return order([...transactions]);
+  if (order === 'fifo') return transactions;
+
+  // order by fee, but keep the transactions of each fee payer in nonce order
+  let byFeePayer = new Map<string, Transaction<boolean, boolean>[]>();
+  for (let transaction of transactions) {
+    let key = transaction.transaction.feePayer.body.publicKey.toBase58();
+    let queue = byFeePayer.get(key) ?? [];
+    queue.push(transaction);
+    byFeePayer.set(key, queue);
+  }
+  let nonce = (tx: Transaction<boolean, boolean>) =>
+    tx.transaction.feePayer.body.nonce.toBigint();
+  let fee = (tx: Transaction<boolean, boolean>) =>
+    tx.transaction.feePayer.body.fee.toBigInt();
+  byFeePayer.forEach((queue) =>
+    queue.sort((a, b) => Number(nonce(a) - nonce(b)))
+  );
+
+  let ordered: Transaction<boolean, boolean>[] = [];
+  while (byFeePayer.size > 0) {
+    let next: [string, Transaction<boolean, boolean>[]] | undefined;
+    for (let entry of byFeePayer) {
+      if (next === undefined || fee(entry[1][0]) > fee(next[1][0])) {
+        next = entry;
+      }
+    }
+    let [key, queue] = next!;
+    ordered.push(queue.shift()!);
+    if (queue.length === 0) byFeePayer.delete(key);
+  }
+  return ordered;
+}
+
+// Mina mainnet has 7140 slots per epoch
+const slotsPerEpoch = 7140n;
+
+function advanceNetworkState(networkState: NetworkValue, slots: number) {
+  let previousSlot = networkState.globalSlotSinceGenesis;
+  let slot = previousSlot.add(slots);
+  networkState.blockchainLength = networkState.blockchainLength.add(1);
+  networkState.globalSlotSinceGenesis = slot;
+
+  let previousEpoch = previousSlot.toBigint() / slotsPerEpoch;
+  let epoch = slot.toBigint() / slotsPerEpoch;
+  if (epoch === previousEpoch) {
+    let { nextEpochData } = networkState;
+    nextEpochData.epochLength = nextEpochData.epochLength.add(1);
+    return;
+  }
+  // the ledger at the start of an epoch is used for staking in the epoch after that.
+  // block hashes aren't modeled, so the checkpoints are left unchanged, and the seed is derived from the previous one
+  let { nextEpochData } = networkState;
+  networkState.stakingEpochData = nextEpochData;
+  networkState.nextEpochData = {
+    ledger: {
+      hash: networkState.snarkedLedgerHash,
+      totalCurrency: networkState.totalCurrency,
+    },
+    seed: Poseidon.hash([nextEpochData.seed, slot.value]),
+    startCheckpoint: nextEpochData.startCheckpoint,
+    lockCheckpoint: nextEpochData.lockCheckpoint,
+    epochLength: UInt32.one,
+  };
+}
+
+function accountKey(publicKey: PublicKey, tokenId: Field) {
+  return `${publicKey.toBase58()};${TokenId.toBase58(tokenId)}`;
+}
+
+function createOcamlLedger(history: OcamlLedgerOperation[] = []): LocalLedger {
+  // the OCaml ledger can't be copied or exported, so we record all operations and replay them on a new ledger.
+  // replaying is deferred until the ledger is used, so that snapshots which are never reverted to stay cheap
+  let replayed: Ledger | undefined;
+
+  function getLedger() {
+    if (replayed !== undefined) return replayed;
+    let ledger = Ledger.create();
+    history.forEach((operation, i) => {
+      try {
+        run(ledger, operation);
+      } catch (err: any) {
+        // failed transactions can still change the ledger, so they are replayed as well
+        if (operation.failed) return;
+        throw Error(
+          `LocalBlockchain: operation ${i} of the ledger history succeeded originally, but failed when replayed: ${err?.message}`
+        );
+      }
+      if (operation.failed) {
+        throw Error(
+          `LocalBlockchain: operation ${i} of the ledger history failed originally, but succeeded when replayed`
+        );
+      }
+    });
+    return (replayed = ledger);
+  }
+  function run(ledger: Ledger, operation: OcamlLedgerOperation) {
+    if (operation.type === 'addAccount') {
+      let publicKey = Ml.fromPublicKey(
+        PublicKey.fromBase58(operation.publicKey)
+      );
+      ledger.addAccount(publicKey, operation.balance);
+    } else {
+      ledger.applyJsonTransaction(
+        operation.transaction,
+        operation.accountCreationFee,
+        operation.networkState
+      );
+    }
+  }
+  function record(operation: OcamlLedgerOperation) {
+    let ledger = getLedger();
+    try {
+      run(ledger, operation);
+    } catch (err) {
+      history.push({ ...operation, failed: true });
+      throw err;
+    }
+    history.push(operation);
+  }
+
+  return {
+    addAccount(publicKey, balance) {
+      record({ type: 'addAccount', publicKey: publicKey.toBase58(), balance });
+    },
+    getAccount(publicKey, tokenId) {
+      let accountJson = getLedger().getAccount(
+        Ml.fromPublicKey(publicKey),
+        Ml.constFromField(tokenId)
+      );
+      if (accountJson === undefined) return undefined;
+      return Account.fromJSON(accountJson);
+    },
+    applyTransaction(transaction, networkState) {
+      let transactionJson = JSON.stringify(ZkappCommand.toJSON(transaction));
+      let accountCreationFee =
+        defaultNetworkConstants.accountCreationFee.toString();
+      let networkStateJson = JSON.stringify(networkState);
+      try {
+        record({
+          type: 'applyTransaction',
+          transaction: transactionJson,
+          accountCreationFee,
+          networkState: networkStateJson,
+        });
+      } catch (err: any) {
+        try {
+          const errorMessages = JSON.parse(err.message);
+          return invalidTransactionError(transaction, errorMessages, {
+            accountCreationFee,
+          });
+        } catch (parseError: any) {
+          return err.message || parseError.message || 'Unknown error occurred';
+        }
+      }
+    },
+    storeAccount() {
+      throw Error(
+        'The OCaml ledger does not support storing arbitrary accounts.'
+      );
+    },
+    clone() {
+      return createOcamlLedger([...history]);
+    },
+    toJSON() {
+      return { kind: 'ocaml', history: [...history] };
+    },
+  };
+}
+
+function createJsLedger(ledger = SimpleLedger.create()): LocalLedger {
+  return {
+    addAccount(publicKey, balance) {
+      ledger.addAccount(publicKey, balance);
+    },
+    getAccount(publicKey, tokenId) {
+      // accounts in the ledger must not be mutated
+      return cloneCircuitValue(ledger.load({ publicKey, tokenId }));
+    },
+    applyTransaction(transaction, networkState, networkId) {
+      let { accountCreationFee } = defaultNetworkConstants;
+      let result = ledger.applyZkappCommand(transaction, {
+        networkState,
+        accountCreationFee,
+        networkId,
+      });
+      if (result.status === 'applied') return undefined;
+      return failedTransactionError(transaction, result.failures, {
+        accountCreationFee: accountCreationFee.toString(),
+      });
+    },
+    storeAccount(account) {
+      ledger.store(account);
+    },
+    clone() {
+      // accounts are replaced, not mutated, so copying the map is enough
+      let clonedLedger = SimpleLedger.create();
+      clonedLedger.accounts = new Map(ledger.accounts);
+      return createJsLedger(clonedLedger);
+    },
+    toJSON() {
+      return { kind: 'js', accounts: ledger.toJSON() };
+    },
   };
 }
-// assert type compatibility without preventing LocalBlockchain to return additional properties / methods
-LocalBlockchain satisfies (...args: any) => Promise<Mina>;
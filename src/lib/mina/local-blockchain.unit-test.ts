@@ -0,0 +1,281 @@
+import {
+  AccountUpdate,
+  Field,
+  Mina,
+  method,
+  PrivateKey,
+  Reducer,
+  SmartContract,
+  state,
+  State,
+  UInt32,
+  UInt64,
+} from '../../index.js';
+import { assert } from '../util/assert.js';
+import { expect } from 'expect';
+import { rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+class Counter extends SmartContract {
+  @state(Field) count = State<Field>();
+
+  events = { incremented: Field };
+  reducer = Reducer({ actionType: Field });
+
+  @method async increment() {
+    let count = this.count.getAndRequireEquals();
+    this.count.set(count.add(1));
+    this.emitEvent('incremented', count.add(1));
+    this.reducer.dispatch(Field(1));
+  }
+}
+
+type LocalBlockchain = Awaited<ReturnType<typeof Mina.LocalBlockchain>>;
+
+for (let ledger of ['ocaml', 'js'] as const) {
+  let Local = await Mina.LocalBlockchain({ proofsEnabled: false, ledger });
+  Mina.setActiveInstance(Local);
+
+  let [sender, contractAccount] = Local.testAccounts;
+  let receiver = PrivateKey.random().toPublicKey();
+  let contract = new Counter(contractAccount);
+
+  async function send(
+    instance: LocalBlockchain,
+    f: () => Promise<void>,
+    keys = [sender.key]
+  ) {
+    Mina.setActiveInstance(instance);
+    let tx = await Mina.transaction(sender, f);
+    await tx.prove();
+    await tx.sign(keys).send();
+  }
+  function increment(instance: LocalBlockchain) {
+    return send(instance, () => contract.increment());
+  }
+  async function getState(instance: LocalBlockchain) {
+    return {
+      count: instance.getAccount(contractAccount).zkapp?.appState[0],
+      senderBalance: instance.getAccount(sender).balance,
+      receiverExists: instance.hasAccount(receiver),
+      events: (await instance.fetchEvents(contractAccount)).length,
+      actions: instance.getActions(contractAccount).length,
+      slot: instance.getNetworkState().globalSlotSinceGenesis,
+    };
+  }
+
+  await send(Local, () => contract.deploy(), [sender.key, contractAccount.key]);
+  await increment(Local);
+
+  // snapshot and revert
+
+  let initial = await getState(Local);
+  let snapshot = Local.snapshot();
+
+  await increment(Local);
+  await send(Local, async () => {
+    let senderUpdate = AccountUpdate.fundNewAccount(sender);
+    senderUpdate.send({ to: receiver, amount: 1e9 });
+  });
+  Local.incrementGlobalSlot(10);
+
+  let changed = await getState(Local);
+  expect(changed.receiverExists).toBe(true);
+  expect(changed.count).toEqual(Field(2));
+  expect(changed.events).toEqual(2);
+  expect(changed.actions).toEqual(2);
+  expect(changed.slot).toEqual(initial.slot.add(10));
+  expect(
+    changed.senderBalance.lessThan(initial.senderBalance).toBoolean()
+  ).toBe(true);
+
+  Local.revert(snapshot);
+  expect(await getState(Local)).toEqual(initial);
+
+  // a snapshot can be reverted to again
+  await increment(Local);
+  Local.revert(snapshot);
+  expect(await getState(Local)).toEqual(initial);
+
+  expect(() => Local.revert(snapshot + 1)).toThrow(/not found/);
+
+  // fork
+
+  let Fork = Local.fork();
+  await increment(Fork);
+  Fork.setGlobalSlot(UInt32.from(100));
+
+  expect((await getState(Fork)).count).toEqual(Field(2));
+  expect((await getState(Fork)).events).toEqual(2);
+  expect((await getState(Fork)).slot).toEqual(UInt32.from(100));
+  expect(await getState(Local)).toEqual(initial);
+
+  await increment(Local);
+  await increment(Local);
+  expect((await getState(Local)).count).toEqual(Field(3));
+  expect((await getState(Fork)).count).toEqual(Field(2));
+
+  // new accounts are independent as well
+  let Fork2 = Local.fork();
+  Fork2.addAccount(receiver, UInt64.from(1e9).toString());
+  expect(Fork2.hasAccount(receiver)).toBe(true);
+  expect(Local.hasAccount(receiver)).toBe(false);
+
+  // export and import
+
+  let exportedJson = JSON.stringify(Local.exportState());
+  let exported = JSON.parse(exportedJson);
+  let Restored = await Mina.LocalBlockchain({
+    proofsEnabled: false,
+    state: exported,
+  });
+  expect(await getState(Restored)).toEqual(await getState(Local));
+  expect(Restored.testAccounts).toEqual(Local.testAccounts);
+
+  await increment(Restored);
+  expect((await getState(Restored)).count).toEqual(Field(4));
+  expect((await getState(Local)).count).toEqual(Field(3));
+  // the restored blockchain doesn't write to the state it was created from
+  expect(JSON.stringify(exported)).toEqual(exportedJson);
+
+  // save to a file and load it again
+  let path = join(tmpdir(), `local-blockchain-${ledger}-${Date.now()}.json`);
+  Restored.saveState(path);
+  let Loaded = await Mina.LocalBlockchain({
+    proofsEnabled: false,
+    state: path,
+  });
+  expect(await getState(Loaded)).toEqual(await getState(Restored));
+  rmSync(path);
+
+  if (ledger === 'ocaml') {
+    // replaying the history expects the same operations to fail as originally
+    await expect(
+      send(Loaded, async () => {
+        AccountUpdate.createSigned(sender).send({
+          to: receiver,
+          amount: UInt64.MAXINT(),
+        });
+      })
+    ).rejects.toThrow();
+    let tampered = structuredClone(Loaded.exportState());
+    let { ledger: ledgerJson } = tampered;
+    if (ledgerJson.kind !== 'ocaml') throw Error('expected an OCaml ledger');
+    let { history } = ledgerJson;
+    expect(history[history.length - 1].failed).toBe(true);
+    expect(await getState(Loaded.fork())).toEqual(await getState(Loaded));
+
+    history[0].failed = true;
+    await expect(
+      (async () => {
+        let Tampered = await Mina.LocalBlockchain({
+          proofsEnabled: false,
+          state: tampered,
+        });
+        Tampered.getAccount(sender);
+      })()
+    ).rejects.toThrow(/failed originally, but succeeded when replayed/);
+  }
+}
+
+// manual block production
+
+{
+  let Local = await Mina.LocalBlockchain({
+    proofsEnabled: false,
+    blockProduction: 'manual',
+  });
+  Mina.setActiveInstance(Local);
+
+  let [alice, bob, contractAccount] = Local.testAccounts;
+  let contract = new Counter(contractAccount);
+
+  let deployTx = await Mina.transaction(alice, () => contract.deploy());
+  await deployTx.prove();
+  let pending = await deployTx.sign([alice.key, contractAccount.key]).send();
+  let deployed = pending.wait();
+
+  // transactions are only applied when a block is produced
+  expect(Local.getMempool()).toHaveLength(1);
+  expect(Local.getAccount(contractAccount).zkapp?.verificationKey).toBe(
+    undefined
+  );
+  let [result] = Local.produceBlock();
+  expect(result.status).toEqual('included');
+  expect((await deployed).status).toEqual('included');
+  expect(Local.getMempool()).toHaveLength(0);
+  expect(Local.getNetworkState().blockchainLength).toEqual(UInt32.from(1));
+  expect(Local.getNetworkState().globalSlotSinceGenesis).toEqual(
+    UInt32.from(1)
+  );
+
+  // two transactions racing for the same state: the one with the higher fee wins
+  async function increment(sender: Mina.TestPublicKey, fee: number) {
+    let tx = await Mina.transaction({ sender, fee }, () =>
+      contract.increment()
+    );
+    await tx.prove();
+    return tx.sign([sender.key]).send();
+  }
+  let aliceTx = await increment(alice, 1e8);
+  let bobTx = await increment(bob, 2e8);
+
+  let results = Local.produceBlock();
+  expect(results.map((r) => r.hash)).toEqual([bobTx.hash, aliceTx.hash]);
+  expect(results.map((r) => r.status)).toEqual(['included', 'rejected']);
+  let [, rejected] = results;
+  assert(rejected.status === 'rejected');
+  expect(rejected.errors[0]).toMatch(/app_state_precondition_unsatisfied/);
+  expect((await bobTx.safeWait()).status).toEqual('included');
+  expect((await aliceTx.safeWait()).status).toEqual('rejected');
+
+  let account = Local.getAccount(contractAccount);
+  expect(account.zkapp?.appState[0]).toEqual(Field(1));
+
+  // transactions from the same fee payer get consecutive nonces, and stay in nonce order
+  async function pay(sender: Mina.TestPublicKey, fee: number) {
+    let tx = await Mina.transaction({ sender, fee }, async () => {});
+    return tx.sign([sender.key]).send();
+  }
+  let aliceNonce = Local.getAccount(alice).nonce;
+  await pay(alice, 1e8);
+  await pay(alice, 5e8);
+  results = Local.produceBlock({ slots: 10 });
+  expect(results.map((r) => r.status)).toEqual(['included', 'included']);
+  expect(Local.getAccount(alice).nonce).toEqual(aliceNonce.add(2));
+  expect(Local.getNetworkState().globalSlotSinceGenesis).toEqual(
+    UInt32.from(12)
+  );
+
+  // the action state history advances per block
+  await increment(alice, 1e8);
+  Local.produceBlock();
+  let previousActionState = account.zkapp!.actionState[0];
+  account = Local.getAccount(contractAccount);
+  expect(account.zkapp?.appState[0]).toEqual(Field(2));
+  expect(account.zkapp?.actionState[1]).toEqual(previousActionState);
+
+  // a custom order can leave transactions in the mempool
+  let bobTx2 = await increment(bob, 1e8);
+  let aliceTx2 = await increment(alice, 1e8);
+  results = Local.produceBlock({
+    order: (transactions) =>
+      transactions.filter((tx) =>
+        tx.transaction.feePayer.body.publicKey.equals(alice).toBoolean()
+      ),
+  });
+  expect(results.map((r) => r.hash)).toEqual([aliceTx2.hash]);
+  expect(Local.getMempool()).toHaveLength(1);
+  results = Local.produceBlock();
+  expect(results.map((r) => r.hash)).toEqual([bobTx2.hash]);
+  expect(results[0].status).toEqual('rejected');
+
+  // the staking epoch data is replaced when a new epoch starts
+  let { nextEpochData } = Local.getNetworkState();
+  Local.produceBlock({ slots: 7140 });
+  let networkState = Local.getNetworkState();
+  expect(networkState.stakingEpochData).toEqual(nextEpochData);
+  expect(networkState.nextEpochData.epochLength).toEqual(UInt32.one);
+  expect(networkState.blockchainLength).toEqual(UInt32.from(7));
+}
@@ -100,7 +100,7 @@ type Mina = {
     publicKey: PublicKey,
     actionStates?: ActionStates,
     tokenId?: Field
-  ) => { hash: string; actions: string[][] }[];
+  ) => { hash: string; actions: string[][]; blockHeight: string }[];
   proofsEnabled: boolean;
   getNetworkId(): NetworkId;
 };
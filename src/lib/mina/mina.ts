@@ -37,6 +37,8 @@ import {
   type RejectedTransaction,
   type PendingTransactionStatus,
   type PendingTransactionPromise,
+  type SimulationReport,
+  type TransactionCostEstimate,
   createTransaction,
   toTransactionPromise,
   transaction,
@@ -50,10 +52,15 @@ import {
   defaultNetworkState,
   filterGroups,
 } from './transaction-validation.js';
-import { LocalBlockchain, TestPublicKey } from './local-blockchain.js';
+import {
+  LocalBlockchain,
+  TestPublicKey,
+  type LocalBlockchainState,
+} from './local-blockchain.js';
 
 export {
   LocalBlockchain,
+  type LocalBlockchainState,
   Network,
   currentTransaction,
   Transaction,
@@ -62,6 +69,8 @@ export {
   type RejectedTransaction,
   type PendingTransactionStatus,
   type PendingTransactionPromise,
+  type SimulationReport,
+  type TransactionCostEstimate,
   TestPublicKey,
   activeInstance,
   setActiveInstance,
@@ -105,6 +114,7 @@ function Network(options: {
   archive?: string | string[];
   lightnetAccountManager?: string;
   bypassTransactionLimits?: boolean;
+  client?: Partial<Fetch.NetworkClientConfig>;
 }): Mina;
 function Network(
   options:
@@ -114,6 +124,7 @@ function Network(
       archive?: string | string[];
       lightnetAccountManager?: string;
       bypassTransactionLimits?: boolean;
+      client?: Partial<Fetch.NetworkClientConfig>;
     }
     | string
 ): Mina {
@@ -166,6 +177,10 @@ function Network(
       typeof options.bypassTransactionLimits === 'boolean') {
       enforceTransactionLimits = !options.bypassTransactionLimits;
     }
+
+    if (options.client !== undefined) {
+      Fetch.setNetworkClientConfig(options.client);
+    }
   } else {
     throw new Error(
       "Network: malformed input. Please provide a string or an object with 'mina' and 'archive' endpoints."
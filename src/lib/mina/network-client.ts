@@ -0,0 +1,314 @@
+/**
+ * The HTTP client behind all GraphQL requests to Mina and archive nodes.
+ *
+ * Requests fail over between the configured endpoints, are retried with exponential backoff,
+ * skip endpoints which failed repeatedly (circuit breaking) and can be rate limited.
+ */
+export {
+  NetworkClient,
+  type NetworkClientConfig,
+  type EndpointHealth,
+  type NetworkRequest,
+  type NetworkResponse,
+  type FetchError,
+  type FetchResponse,
+};
+
+type FetchResponse<TDataResponse = any> = { data: TDataResponse; errors?: any };
+type FetchError = {
+  statusCode: number;
+  statusText: string;
+};
+
+type NetworkClientConfig = {
+  /**
+   * Timeout of a request in milliseconds, including all retries and fallback endpoints. Defaults to 5 minutes.
+   */
+  timeout: number;
+  /**
+   * How many times to retry after all endpoints failed. Defaults to 2.
+   */
+  retries: number;
+  /**
+   * Delay before the first retry in milliseconds, doubled for every further retry. Defaults to 1 second.
+   */
+  retryDelay: number;
+  /**
+   * Maximum delay between retries in milliseconds. Defaults to 30 seconds.
+   */
+  maxRetryDelay: number;
+  /**
+   * After this many failures in a row, an endpoint is skipped for `cooldown` milliseconds,
+   * as long as other endpoints are available. Defaults to 3.
+   */
+  failureThreshold: number;
+  /**
+   * How long to skip an endpoint after `failureThreshold` failures, in milliseconds. Defaults to 30 seconds.
+   */
+  cooldown: number;
+  /**
+   * Maximum number of requests per second to each endpoint. Defaults to no limit.
+   */
+  maxRequestsPerSecond: number;
+  /**
+   * Headers sent with every request, for example to authenticate with an API key.
+   */
+  headers: Record<string, string> | ((url: string) => Record<string, string>);
+  /**
+   * Called before every request, for example for logging.
+   */
+  onRequest?: (request: NetworkRequest) => void;
+  /**
+   * Called after every request, with the error if it failed.
+   */
+  onResponse?: (response: NetworkResponse) => void;
+};
+
+type NetworkRequest = { url: string; query: string; attempt: number };
+type NetworkResponse = NetworkRequest & {
+  duration: number;
+  error?: FetchError;
+};
+
+type EndpointHealth = {
+  consecutiveFailures: number;
+  /**
+   * Timestamp until which the endpoint is skipped, if its circuit is open.
+   */
+  openUntil?: number;
+  lastError?: FetchError;
+};
+
+// Specify 5min as the default timeout
+const defaultConfig: NetworkClientConfig = {
+  timeout: 5 * 60 * 1000,
+  retries: 2,
+  retryDelay: 1000,
+  maxRetryDelay: 30_000,
+  failureThreshold: 3,
+  cooldown: 30_000,
+  maxRequestsPerSecond: Infinity,
+  headers: {},
+};
+
+let config = { ...defaultConfig };
+let health: Record<string, EndpointHealth> = {};
+let nextRequestTime: Record<string, number> = {};
+
+const NetworkClient = {
+  /**
+   * Change the configuration of the network client. Options which are not passed in are kept.
+   */
+  configure(newConfig: Partial<NetworkClientConfig>) {
+    config = { ...config, ...newConfig };
+  },
+
+  config(): Readonly<NetworkClientConfig> {
+    return config;
+  },
+
+  /**
+   * The health of every endpoint that was requested, by URL.
+   */
+  health(): Record<string, Readonly<EndpointHealth>> {
+    return { ...health };
+  },
+
+  /**
+   * Reset the configuration and the health of all endpoints.
+   */
+  reset() {
+    config = { ...defaultConfig };
+    health = {};
+    nextRequestTime = {};
+  },
+
+  /**
+   * Send a GraphQL query to the first of `urls` that responds successfully.
+   *
+   * GraphQL errors and client errors are returned right away, because asking another endpoint wouldn't help.
+   * Timeouts, network errors, rate limiting and server errors make the client try the next endpoint.
+   *
+   * `timeout` is a deadline for the whole request, including retries. Requests which are not idempotent,
+   * like sending a transaction, should pass `retries: 0` and `failover: false`, because a request that failed
+   * on the client side could have been processed by the node.
+   */
+  async request<TDataResponse>(
+    query: string,
+    urls: string[],
+    {
+      timeout = config.timeout,
+      retries = config.retries,
+      failover = true,
+    }: { timeout?: number; retries?: number; failover?: boolean } = {}
+  ): Promise<
+    [FetchResponse<TDataResponse>, undefined] | [undefined, FetchError]
+  > {
+    let deadline = Date.now() + timeout;
+    let endpoints = failover ? urls : urls.slice(0, 1);
+    let failures: { url: string; error: FetchError }[] = [];
+
+    attempts: for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        let delay = Math.min(
+          config.retryDelay * 2 ** (attempt - 1),
+          config.maxRetryDelay
+        );
+        if (Date.now() + delay >= deadline) break;
+        await sleep(delay);
+      }
+      for (let url of availableEndpoints(endpoints)) {
+        if (failures.length > 0 && Date.now() >= deadline) break attempts;
+        await waitForRateLimit(url);
+        let request = { url, query, attempt };
+        config.onRequest?.(request);
+        let start = Date.now();
+        let [response, error] = await send<TDataResponse>(
+          url,
+          query,
+          deadline - start
+        );
+        config.onResponse?.({
+          ...request,
+          duration: Date.now() - start,
+          error,
+        });
+
+        if (error === undefined) {
+          health[url] = { consecutiveFailures: 0 };
+          return [response!, undefined];
+        }
+        if (!isRetryable(error)) return [undefined, error];
+        recordFailure(url, error);
+        failures.push({ url, error });
+      }
+    }
+    return [undefined, combineErrors(failures)];
+  },
+};
+
+async function send<TDataResponse>(
+  url: string,
+  query: string,
+  timeout: number
+): Promise<
+  [FetchResponse<TDataResponse>, undefined] | [undefined, FetchError]
+> {
+  let controller = new AbortController();
+  let timer = setTimeout(() => controller.abort(), timeout);
+  let { headers } = config;
+  let body = JSON.stringify({ operationName: null, query, variables: {} });
+  try {
+    let response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(typeof headers === 'function' ? headers(url) : headers),
+      },
+      body,
+      signal: controller.signal,
+    });
+    return await checkResponseStatus<TDataResponse>(response);
+  } catch (error) {
+    return [undefined, inferError(error)];
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function checkResponseStatus<TDataResponse>(
+  response: Response
+): Promise<
+  [FetchResponse<TDataResponse>, undefined] | [undefined, FetchError]
+> {
+  if (response.ok) {
+    let jsonResponse = await response.json();
+    if (jsonResponse.errors && jsonResponse.errors.length > 0) {
+      return [
+        undefined,
+        {
+          statusCode: response.status,
+          statusText: jsonResponse.errors
+            .map((error: any) => error.message)
+            .join('\n'),
+        } as FetchError,
+      ];
+    } else if (jsonResponse.data === undefined) {
+      return [
+        undefined,
+        {
+          statusCode: response.status,
+          statusText: `GraphQL response data is undefined`,
+        } as FetchError,
+      ];
+    }
+    return [jsonResponse as FetchResponse<TDataResponse>, undefined];
+  } else {
+    return [
+      undefined,
+      {
+        statusCode: response.status,
+        statusText: response.statusText,
+      } as FetchError,
+    ];
+  }
+}
+
+function inferError(error: unknown): FetchError {
+  if (error instanceof Error && error.name === 'AbortError') {
+    return { statusCode: 408, statusText: `Request Timeout: ${error.message}` };
+  }
+  let errorMessage =
+    error instanceof Error ? error.message : JSON.stringify(error);
+  return {
+    statusCode: 500,
+    statusText: `Unknown Error: ${errorMessage}`,
+  };
+}
+
+function isRetryable({ statusCode }: FetchError) {
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * Endpoints with an open circuit are skipped, unless there are no others.
+ */
+function availableEndpoints(urls: string[]) {
+  let now = Date.now();
+  let available = urls.filter((url) => (health[url]?.openUntil ?? 0) <= now);
+  return available.length > 0 ? available : urls;
+}
+
+function recordFailure(url: string, error: FetchError) {
+  let consecutiveFailures = (health[url]?.consecutiveFailures ?? 0) + 1;
+  let openUntil =
+    consecutiveFailures >= config.failureThreshold
+      ? Date.now() + config.cooldown
+      : undefined;
+  health[url] = { consecutiveFailures, openUntil, lastError: error };
+}
+
+async function waitForRateLimit(url: string) {
+  if (config.maxRequestsPerSecond === Infinity) return;
+  let now = Date.now();
+  let time = Math.max(now, nextRequestTime[url] ?? 0);
+  nextRequestTime[url] = time + 1000 / config.maxRequestsPerSecond;
+  await sleep(time - now);
+}
+
+function combineErrors(failures: { url: string; error: FetchError }[]) {
+  let statusCode = failures.every(({ error }) => error.statusCode === 408)
+    ? 408
+    : failures[failures.length - 1].error.statusCode;
+  let statusText = failures
+    .map(
+      ({ url, error }) => `Request to ${url} failed. Error: ${error.statusText}`
+    )
+    .join('\n');
+  return { statusCode, statusText };
+}
+
+function sleep(ms: number) {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
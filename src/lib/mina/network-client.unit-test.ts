@@ -0,0 +1,195 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { PrivateKey } from '../provable/crypto/signature.js';
+import {
+  fetchAccount,
+  getEndpointHealth,
+  sendZkapp,
+  setNetworkClientConfig,
+} from './fetch.js';
+import { NetworkClient, NetworkRequest } from './network-client.js';
+import { expect } from 'expect';
+
+// local HTTP stubs which answer GraphQL requests
+
+type Handler = (
+  request: IncomingMessage,
+  response: ServerResponse,
+  count: number
+) => void;
+
+let servers: ReturnType<typeof createServer>[] = [];
+
+async function stub(handler: Handler) {
+  let count = 0;
+  let requests: IncomingMessage[] = [];
+  let server = createServer((request, response) => {
+    requests.push(request);
+    request.resume();
+    request.on('end', () => handler(request, response, count++));
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  let { port } = server.address() as AddressInfo;
+  return { url: `http://localhost:${port}/graphql`, requests };
+}
+
+function respond(response: ServerResponse, status: number, body?: object) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body ?? {}));
+}
+
+let ok = await stub((_, res) => respond(res, 200, { data: { ok: true } }));
+let down = await stub((_, res) => respond(res, 503));
+let flaky = await stub((_, res, count) =>
+  count < 2 ? respond(res, 500) : respond(res, 200, { data: { ok: true } })
+);
+let invalid = await stub((_, res) =>
+  respond(res, 200, { errors: [{ message: 'invalid query' }] })
+);
+let slow = await stub((_, res) =>
+  setTimeout(() => respond(res, 200, { data: { ok: true } }), 500)
+);
+
+let requests: NetworkRequest[] = [];
+function configure() {
+  NetworkClient.reset();
+  requests = [];
+  setNetworkClientConfig({
+    retryDelay: 10,
+    onRequest: (request) => requests.push(request),
+  });
+}
+
+// a failing endpoint fails over to the next one
+
+configure();
+let [response, error] = await NetworkClient.request('{ ok }', [
+  down.url,
+  ok.url,
+]);
+expect(error).toBeUndefined();
+expect(response?.data).toEqual({ ok: true });
+expect(requests.map(({ url }) => url)).toEqual([down.url, ok.url]);
+expect(getEndpointHealth()[down.url]).toMatchObject({
+  consecutiveFailures: 1,
+  lastError: { statusCode: 503 },
+});
+expect(getEndpointHealth()[ok.url]).toEqual({ consecutiveFailures: 0 });
+
+// an endpoint which failed too often is skipped until the cooldown is over
+
+setNetworkClientConfig({ failureThreshold: 2, cooldown: 100 });
+await NetworkClient.request('{ ok }', [down.url, ok.url]);
+expect(getEndpointHealth()[down.url].openUntil).toBeGreaterThan(Date.now());
+
+requests = [];
+await NetworkClient.request('{ ok }', [down.url, ok.url]);
+expect(requests.map(({ url }) => url)).toEqual([ok.url]);
+
+await new Promise((resolve) => setTimeout(resolve, 100));
+requests = [];
+await NetworkClient.request('{ ok }', [down.url, ok.url]);
+expect(requests.map(({ url }) => url)).toEqual([down.url, ok.url]);
+
+// failed requests are retried with backoff
+
+configure();
+[response, error] = await NetworkClient.request('{ ok }', [flaky.url]);
+expect(error).toBeUndefined();
+expect(requests.map(({ attempt }) => attempt)).toEqual([0, 1, 2]);
+
+configure();
+setNetworkClientConfig({ retries: 1 });
+[response, error] = await NetworkClient.request('{ ok }', [down.url]);
+expect(response).toBeUndefined();
+expect(error?.statusCode).toEqual(503);
+expect(error?.statusText).toMatch(`Request to ${down.url} failed`);
+expect(requests).toHaveLength(2);
+
+// GraphQL errors are returned right away
+
+configure();
+[response, error] = await NetworkClient.request('{ ok }', [
+  invalid.url,
+  ok.url,
+]);
+expect(error).toEqual({ statusCode: 200, statusText: 'invalid query' });
+expect(requests).toHaveLength(1);
+expect(getEndpointHealth()[invalid.url]).toBeUndefined();
+
+// requests time out
+
+configure();
+setNetworkClientConfig({ retries: 0 });
+[response, error] = await NetworkClient.request('{ ok }', [slow.url], {
+  timeout: 50,
+});
+expect(error?.statusCode).toEqual(408);
+
+// requests are rate limited per endpoint
+
+configure();
+setNetworkClientConfig({ maxRequestsPerSecond: 20 });
+let start = Date.now();
+for (let i = 0; i < 3; i++) {
+  await NetworkClient.request('{ ok }', [ok.url]);
+}
+expect(Date.now() - start).toBeGreaterThanOrEqual(100);
+
+// the timeout is a deadline for all retries and endpoints together
+
+configure();
+start = Date.now();
+[response, error] = await NetworkClient.request(
+  '{ ok }',
+  [slow.url, slow.url],
+  { timeout: 100 }
+);
+expect(error?.statusCode).toEqual(408);
+expect(requests).toHaveLength(1);
+expect(Date.now() - start).toBeLessThan(400);
+
+// requests which are not idempotent can opt out of retries and failover
+
+configure();
+[response, error] = await NetworkClient.request('{ ok }', [down.url, ok.url], {
+  retries: 0,
+  failover: false,
+});
+expect(error?.statusCode).toEqual(503);
+expect(requests.map(({ url }) => url)).toEqual([down.url]);
+
+// sending a transaction is never retried, even if the response failed
+
+configure();
+[response, error] = await sendZkapp('{}', down.url);
+expect(error?.statusCode).toEqual(503);
+expect(requests.map(({ url }) => url)).toEqual([down.url]);
+
+// fetch functions use the client, with custom headers and hooks
+
+configure();
+let noAccount = await stub((_, res) =>
+  respond(res, 200, { data: { account: null } })
+);
+let responses: string[] = [];
+setNetworkClientConfig({
+  headers: (url) => ({ Authorization: `Bearer ${new URL(url).port}` }),
+  onResponse: ({ url, error }) => responses.push(`${url} ${error?.statusCode}`),
+});
+let result = await fetchAccount(
+  { publicKey: PrivateKey.random().toPublicKey() },
+  noAccount.url
+);
+expect(result.error?.statusCode).toEqual(404);
+expect(noAccount.requests[0].headers.authorization).toEqual(
+  `Bearer ${new URL(noAccount.url).port}`
+);
+expect(responses).toEqual([`${noAccount.url} undefined`]);
+
+NetworkClient.reset();
+for (let server of servers) {
+  server.closeAllConnections();
+  server.close();
+}
@@ -1,30 +1,789 @@
 /**
  * Apply transactions to a ledger of accounts.
+ *
+ * This is a model of the zkApp command logic of the Mina protocol. Failures are
+ * reported with the same names as `Transaction_status.Failure` in the protocol,
+ * plus a message which explains the failure in terms of the actual values.
  */
-import { type AccountUpdate } from '../account-update.js';
+import { Types } from '../../../bindings/mina-transaction/types.js';
+import { Bool, Field } from '../../provable/wrapped.js';
+import { UInt32, UInt64 } from '../../provable/int.js';
+import { PublicKey } from '../../provable/crypto/signature.js';
+import {
+  hashWithPrefix,
+  packToFields,
+} from '../../provable/crypto/poseidon.js';
+import { Actions, TokenId, TransactionVersion } from '../account-update.js';
 import { Account } from '../account.js';
+import { ZkappStateLength } from '../mina-instance.js';
+import type {
+  ClosedInterval,
+  NetworkValue,
+  OrIgnore,
+  Preconditions,
+} from '../precondition.js';
+
+export {
+  applyFeePayer,
+  applyAccountUpdate,
+  ApplyContext,
+  TransactionFailure,
+  PreconditionCheck,
+  checkPreconditions,
+  isPermitted,
+  minimumBalanceAtSlot,
+};
+
+type AccountUpdate = Types.AccountUpdate;
+type FeePayer = Types.ZkappCommand['feePayer'];
+type Control = 'Proof' | 'Signature' | 'None_given';
+
+/**
+ * A reason why a transaction failed. The `name` is the protocol's name for the
+ * failure, the `message` is a human-readable explanation.
+ */
+type TransactionFailure = { name: string; message: string };
+
+/**
+ * A precondition of an account update, evaluated against the network state and
+ * the account before the update is applied. Only preconditions that are not
+ * ignored are checked.
+ *
+ * `failure` is the protocol's name for the failure if the precondition is not satisfied.
+ */
+type PreconditionCheck = {
+  kind: 'network' | 'validWhile' | 'account';
+  name: string;
+  expected: string;
+  actual: string;
+  isSatisfied: boolean;
+  failure: string;
+};
+
+/**
+ * Information about the chain and the transaction, which is needed to apply
+ * the fee payer and account updates.
+ */
+type ApplyContext = {
+  networkState: NetworkValue;
+  accountCreationFee: UInt64;
+  /**
+   * The full commitment of the transaction, which is added to receipt chain hashes.
+   */
+  fullCommitment: Field;
+};
+
+/**
+ * Apply the fee payer of a transaction to the fee payer account.
+ *
+ * If the fee payer fails, the transaction can't be included at all.
+ */
+function applyFeePayer(
+  account: Account | undefined,
+  feePayer: FeePayer,
+  context: ApplyContext
+): { account: Account; failures: TransactionFailure[] } {
+  let failures: TransactionFailure[] = [];
+  let fail = (name: string, message: string) =>
+    failures.push({ name, message });
+  let { publicKey, fee, nonce, validUntil } = feePayer.body;
+
+  if (account === undefined) {
+    fail(
+      'Overflow',
+      `The fee payer account ${publicKey.toBase58()} does not exist.`
+    );
+    return { account: Account.empty(), failures };
+  }
+  account = cloneAccount(account);
+  let slot = context.networkState.globalSlotSinceGenesis;
 
-export { applyAccountUpdate };
+  if (!account.nonce.equals(nonce).toBoolean()) {
+    fail(
+      'Account_nonce_precondition_unsatisfied',
+      `The fee payer nonce is ${nonce}, but the account nonce is ${account.nonce}.`
+    );
+  }
+  if (validUntil !== undefined && toBigint(slot) > toBigint(validUntil)) {
+    fail(
+      'Protocol_state_precondition_unsatisfied',
+      `The transaction is only valid until slot ${validUntil}, but the current slot is ${slot}.`
+    );
+  }
+
+  let { access, send, incrementNonce } = account.permissions;
+  if (!isPermitted(access, 'Signature')) {
+    fail(
+      'Update_not_permitted_access',
+      `The fee payer account does not allow access with a signature.`
+    );
+  }
+  if (!isPermitted(send, 'Signature')) {
+    fail(
+      'Update_not_permitted_balance',
+      `The fee payer account does not allow sending funds with a signature.`
+    );
+  }
+  if (!isPermitted(incrementNonce, 'Signature')) {
+    fail(
+      'Update_not_permitted_nonce',
+      `The fee payer account does not allow incrementing its nonce with a signature.`
+    );
+  }
+
+  let balance = toBigint(account.balance) - toBigint(fee);
+  if (balance < 0n) {
+    fail(
+      'Overflow',
+      `The fee payer has a balance of ${account.balance}, which is not enough to pay the fee of ${fee}.`
+    );
+  } else {
+    let minimumBalance = minimumBalanceAtSlot(account.timing, slot);
+    if (balance < minimumBalance) {
+      fail(
+        'Source_minimum_balance_violation',
+        `Paying the fee would reduce the fee payer balance to ${balance}, below its minimum balance of ${minimumBalance}.`
+      );
+    }
+    account.balance = UInt64.from(balance);
+  }
+
+  account.nonce = account.nonce.add(1);
+  account.receiptChainHash = consReceiptChainHash(
+    0,
+    context.fullCommitment,
+    account.receiptChainHash
+  );
+  return { account, failures };
+}
 
 /**
  * Apply a single account update to update an account.
  *
- * TODO:
- * - This must receive and return some context global to the transaction, to check validity
- * - Should operate on the value / bigint type, not the provable type
+ * The updated account is always returned, even if there are failures - it's up
+ * to the caller to discard it if the transaction fails.
+ *
+ * Note: This doesn't check the validity of proofs and signatures, it assumes
+ * that the authorization matches the account update's authorization kind.
+ * Token permissions and the fee excess depend on the entire transaction and
+ * are not checked here either.
+ */
+function applyAccountUpdate(
+  account: Account,
+  update: AccountUpdate,
+  context: ApplyContext & { isNew: boolean; accountUpdateIndex: number }
+): { account: Account; failures: TransactionFailure[] } {
+  account.publicKey.assertEquals(update.body.publicKey);
+  account.tokenId.assertEquals(update.body.tokenId, 'token id mismatch');
+
+  let failures: TransactionFailure[] = [];
+  let fail = (name: string, message: string) =>
+    failures.push({ name, message });
+
+  account = cloneAccount(account);
+  let { body } = update;
+  let { networkState, isNew } = context;
+  let slot = networkState.globalSlotSinceGenesis;
+  let control = authorizationControl(body.authorizationKind);
+  let permissions = account.permissions;
+
+  // preconditions
+  let preconditions = checkPreconditions(
+    body.preconditions,
+    account,
+    isNew,
+    networkState
+  );
+  let unsatisfied = (kind: PreconditionCheck['kind']) =>
+    preconditions.filter((check) => check.kind === kind && !check.isSatisfied);
+
+  let networkErrors = unsatisfied('network').map(preconditionError);
+  if (networkErrors.length > 0) {
+    fail(
+      'Protocol_state_precondition_unsatisfied',
+      `The network precondition is not satisfied: ${networkErrors.join(', ')}.`
+    );
+  }
+  for (let check of unsatisfied('validWhile')) {
+    fail(
+      check.failure,
+      `The account update is not valid at the current slot: ${preconditionError(
+        check
+      )}.`
+    );
+  }
+  for (let check of unsatisfied('account')) {
+    fail(
+      check.failure,
+      `The account precondition is not satisfied: ${preconditionError(check)}.`
+    );
+  }
+
+  // authorization
+  if (!isPermitted(permissions.access, control)) {
+    fail(
+      'Update_not_permitted_access',
+      permissionMessage('access', permissions.access, control)
+    );
+  }
+  if (control === 'Signature' && !isReplayProtected(body)) {
+    fail(
+      'Zkapp_command_replay_check_failed',
+      'A signed account update must either use the full commitment, or increment the nonce and require the current nonce as precondition.'
+    );
+  }
+  if (control === 'Proof') {
+    let vkHash = account.zkapp?.verificationKey?.hash;
+    let expectedHash = body.authorizationKind.verificationKeyHash;
+    if (vkHash === undefined || !vkHash.equals(expectedHash).toBoolean()) {
+      fail(
+        'Unexpected_verification_key_hash',
+        `The account update was proved against verification key hash ${expectedHash}, but the account ${
+          vkHash === undefined
+            ? 'has no verification key'
+            : `has verification key hash ${vkHash}`
+        }.`
+      );
+    }
+  }
+
+  let { update: changes } = body;
+  let zkapp = account.zkapp ?? emptyZkapp();
+  let zkappChanged = false;
+
+  // app state
+  let keepingAppState = changes.appState.every((s) => !s.isSome.toBoolean());
+  let changingAllAppState = changes.appState.every((s) => s.isSome.toBoolean());
+  if (!keepingAppState) {
+    if (!isPermitted(permissions.editState, control)) {
+      fail(
+        'Update_not_permitted_app_state',
+        permissionMessage('editState', permissions.editState, control)
+      );
+    }
+    zkapp.appState = changes.appState.map(({ isSome, value }, i) =>
+      isSome.toBoolean() ? value : zkapp.appState[i]
+    );
+    zkapp.provedState =
+      control === 'Proof'
+        ? Bool(changingAllAppState || zkapp.provedState.toBoolean())
+        : Bool(false);
+    zkappChanged = true;
+  }
+
+  // verification key
+  if (changes.verificationKey.isSome.toBoolean()) {
+    let auth = verificationKeyPermission(permissions.setVerificationKey);
+    if (!isPermitted(auth, control)) {
+      fail(
+        'Update_not_permitted_verification_key',
+        permissionMessage('setVerificationKey', auth, control)
+      );
+    }
+    zkapp.verificationKey = changes.verificationKey.value;
+    zkappChanged = true;
+  }
+
+  // actions
+  if (body.actions.data.length > 0) {
+    if (!isPermitted(permissions.editActionState, control)) {
+      fail(
+        'Update_not_permitted_action_state',
+        permissionMessage(
+          'editActionState',
+          permissions.editActionState,
+          control
+        )
+      );
+    }
+    let [s1, s2, s3, s4, s5] = zkapp.actionState;
+    let isThisSlot = zkapp.lastActionSlot.equals(slot).toBoolean();
+    let newState = Actions.updateSequenceState(s1, body.actions.hash);
+    zkapp.actionState = isThisSlot
+      ? [newState, s2, s3, s4, s5]
+      : [newState, s1, s2, s3, s4];
+    zkapp.lastActionSlot = slot;
+    zkappChanged = true;
+  }
+
+  // zkapp uri
+  if (changes.zkappUri.isSome.toBoolean()) {
+    if (!isPermitted(permissions.setZkappUri, control)) {
+      fail(
+        'Update_not_permitted_zkapp_uri',
+        permissionMessage('setZkappUri', permissions.setZkappUri, control)
+      );
+    }
+    zkapp.zkappUri = changes.zkappUri.value.data;
+    zkappChanged = true;
+  }
+
+  if (zkappChanged || account.zkapp !== undefined) account.zkapp = zkapp;
+
+  // token symbol
+  if (changes.tokenSymbol.isSome.toBoolean()) {
+    if (!isPermitted(permissions.setTokenSymbol, control)) {
+      fail(
+        'Update_not_permitted_token_symbol',
+        permissionMessage('setTokenSymbol', permissions.setTokenSymbol, control)
+      );
+    }
+    account.tokenSymbol = changes.tokenSymbol.value.symbol;
+  }
+
+  // delegate
+  if (changes.delegate.isSome.toBoolean()) {
+    let isDefaultToken = body.tokenId.equals(TokenId.default).toBoolean();
+    if (!isDefaultToken) {
+      fail(
+        'Update_not_permitted_delegate',
+        'Only accounts for the default token (MINA) can set a delegate.'
+      );
+    } else if (!isPermitted(permissions.setDelegate, control)) {
+      fail(
+        'Update_not_permitted_delegate',
+        permissionMessage('setDelegate', permissions.setDelegate, control)
+      );
+    }
+    account.delegate = changes.delegate.value;
+  }
+
+  // voting for
+  if (changes.votingFor.isSome.toBoolean()) {
+    if (!isPermitted(permissions.setVotingFor, control)) {
+      fail(
+        'Update_not_permitted_voting_for',
+        permissionMessage('setVotingFor', permissions.setVotingFor, control)
+      );
+    }
+    account.votingFor = changes.votingFor.value;
+  }
+
+  // nonce
+  if (body.incrementNonce.toBoolean()) {
+    if (!isPermitted(permissions.incrementNonce, control)) {
+      fail(
+        'Update_not_permitted_nonce',
+        permissionMessage('incrementNonce', permissions.incrementNonce, control)
+      );
+    }
+    if (account.nonce.equals(UInt32.MAXINT()).toBoolean()) {
+      fail('Overflow', `The nonce of the account can't be incremented.`);
+    } else {
+      account.nonce = account.nonce.add(1);
+    }
+  }
+
+  // receipt chain hash
+  if (control !== 'None_given') {
+    account.receiptChainHash = consReceiptChainHash(
+      context.accountUpdateIndex,
+      context.fullCommitment,
+      account.receiptChainHash
+    );
+  }
+
+  // balance
+  let balanceChange = body.balanceChange.toBigint();
+  let actualChange = balanceChange;
+  if (isNew && body.implicitAccountCreationFee.toBoolean()) {
+    let accountCreationFee = toBigint(context.accountCreationFee);
+    if (!body.tokenId.equals(TokenId.default).toBoolean()) {
+      fail(
+        'Cannot_pay_creation_fee_in_token',
+        'The account creation fee must be paid in MINA, but the new account is for a custom token. Set `implicitAccountCreationFee` to false and pay the fee from another account.'
+      );
+    } else if (balanceChange < accountCreationFee) {
+      fail(
+        'Amount_insufficient_to_create_account',
+        `The account is new and its balance change of ${balanceChange} is not enough to pay the account creation fee of ${accountCreationFee}.`
+      );
+    } else {
+      actualChange -= accountCreationFee;
+    }
+  }
+  if (balanceChange !== 0n) {
+    let key = balanceChange < 0n ? ('send' as const) : ('receive' as const);
+    let auth = permissions[key];
+    if (!isPermitted(auth, control)) {
+      fail(
+        'Update_not_permitted_balance',
+        permissionMessage(key, auth, control)
+      );
+    }
+  }
+  let balance = toBigint(account.balance) + actualChange;
+  if (balance < 0n || balance > toBigint(UInt64.MAXINT())) {
+    fail(
+      'Overflow',
+      `The balance change of ${actualChange} can't be applied to the account balance of ${account.balance}.`
+    );
+  } else {
+    if (actualChange < 0n) {
+      let minimumBalance = minimumBalanceAtSlot(account.timing, slot);
+      if (balance < minimumBalance) {
+        fail(
+          'Source_minimum_balance_violation',
+          `The balance change would reduce the account balance to ${balance}, below its minimum balance of ${minimumBalance} at the current slot.`
+        );
+      }
+    }
+    account.balance = UInt64.from(balance);
+  }
+
+  // timing
+  if (changes.timing.isSome.toBoolean()) {
+    if (!isPermitted(permissions.setTiming, control)) {
+      fail(
+        'Update_not_permitted_timing',
+        permissionMessage('setTiming', permissions.setTiming, control)
+      );
+    }
+    account.timing = { isTimed: Bool(true), ...changes.timing.value };
+  }
+
+  // permissions are updated last, so that the old permissions apply to all other updates
+  if (changes.permissions.isSome.toBoolean()) {
+    if (!isPermitted(permissions.setPermissions, control)) {
+      fail(
+        'Update_not_permitted_permissions',
+        permissionMessage('setPermissions', permissions.setPermissions, control)
+      );
+    }
+    account.permissions = changes.permissions.value;
+  }
+
+  return { account, failures };
+}
+
+// preconditions
+
+/**
+ * Evaluate the preconditions of an account update against the network state
+ * and the account before the update is applied.
  */
-function applyAccountUpdate(account: Account, update: AccountUpdate): Account {
-  account.publicKey.assertEquals(update.publicKey);
-  account.tokenId.assertEquals(update.tokenId, 'token id mismatch');
+function checkPreconditions(
+  preconditions: Preconditions,
+  account: Account,
+  isNew: boolean,
+  networkState: NetworkValue
+): PreconditionCheck[] {
+  let validWhile = checkRange(
+    'globalSlot',
+    preconditions.validWhile,
+    networkState.globalSlotSinceGenesis
+  );
+  return [
+    ...checkNetworkPreconditions(preconditions.network, networkState),
+    ...withFailure(
+      'validWhile',
+      'Valid_while_precondition_unsatisfied',
+      validWhile
+    ),
+    ...checkAccountPreconditions(preconditions.account, account, isNew),
+  ];
+}
+
+function checkNetworkPreconditions(
+  network: Preconditions['network'],
+  state: NetworkValue
+): PreconditionCheck[] {
+  let checks = [
+    checkEquals(
+      'snarkedLedgerHash',
+      network.snarkedLedgerHash,
+      state.snarkedLedgerHash
+    ),
+    checkRange(
+      'blockchainLength',
+      network.blockchainLength,
+      state.blockchainLength
+    ),
+    checkRange(
+      'minWindowDensity',
+      network.minWindowDensity,
+      state.minWindowDensity
+    ),
+    checkRange('totalCurrency', network.totalCurrency, state.totalCurrency),
+    checkRange(
+      'globalSlotSinceGenesis',
+      network.globalSlotSinceGenesis,
+      state.globalSlotSinceGenesis
+    ),
+  ];
+  for (let key of ['stakingEpochData', 'nextEpochData'] as const) {
+    let epoch = network[key];
+    let epochState = state[key];
+    checks.push(
+      checkEquals(
+        `${key}.ledger.hash`,
+        epoch.ledger.hash,
+        epochState.ledger.hash
+      ),
+      checkRange(
+        `${key}.ledger.totalCurrency`,
+        epoch.ledger.totalCurrency,
+        epochState.ledger.totalCurrency
+      ),
+      checkEquals(`${key}.seed`, epoch.seed, epochState.seed),
+      checkEquals(
+        `${key}.startCheckpoint`,
+        epoch.startCheckpoint,
+        epochState.startCheckpoint
+      ),
+      checkEquals(
+        `${key}.lockCheckpoint`,
+        epoch.lockCheckpoint,
+        epochState.lockCheckpoint
+      ),
+      checkRange(
+        `${key}.epochLength`,
+        epoch.epochLength,
+        epochState.epochLength
+      )
+    );
+  }
+  return withFailure(
+    'network',
+    'Protocol_state_precondition_unsatisfied',
+    ...checks
+  );
+}
+
+function checkAccountPreconditions(
+  precondition: Preconditions['account'],
+  account: Account,
+  isNew: boolean
+): PreconditionCheck[] {
+  let checks: PreconditionCheck[] = [];
+  let check = (failure: string, result: Check | undefined) => {
+    checks.push(...withFailure('account', failure, result));
+  };
+  let zkapp = account.zkapp ?? emptyZkapp();
+
+  check(
+    'Account_balance_precondition_unsatisfied',
+    checkRange('balance', precondition.balance, account.balance)
+  );
+  check(
+    'Account_nonce_precondition_unsatisfied',
+    checkRange('nonce', precondition.nonce, account.nonce)
+  );
+  check(
+    'Account_receipt_chain_hash_precondition_unsatisfied',
+    checkEquals(
+      'receiptChainHash',
+      precondition.receiptChainHash,
+      account.receiptChainHash
+    )
+  );
+  check(
+    'Account_delegate_precondition_unsatisfied',
+    checkEquals(
+      'delegate',
+      precondition.delegate,
+      account.delegate ?? PublicKey.empty(),
+      (pk) => pk.toBase58()
+    )
+  );
+  precondition.state.forEach((state, i) => {
+    check(
+      `Account_app_state_${i}_precondition_unsatisfied`,
+      checkEquals(`state[${i}]`, state, zkapp.appState[i])
+    );
+  });
+  let { isSome, value: actionState } = precondition.actionState;
+  if (isSome.toBoolean()) {
+    check('Account_action_state_precondition_unsatisfied', {
+      name: 'actionState',
+      expected: actionState.toString(),
+      actual: `the recent action states [${zkapp.actionState.join(', ')}]`,
+      isSatisfied: zkapp.actionState.some((s) =>
+        s.equals(actionState).toBoolean()
+      ),
+    });
+  }
+  check(
+    'Account_proved_state_precondition_unsatisfied',
+    checkEquals('provedState', precondition.provedState, zkapp.provedState)
+  );
+  check(
+    'Account_is_new_precondition_unsatisfied',
+    checkEquals('isNew', precondition.isNew, Bool(isNew))
+  );
+  return checks;
+}
+
+type Check = Omit<PreconditionCheck, 'kind' | 'failure'>;
+
+function withFailure(
+  kind: PreconditionCheck['kind'],
+  failure: string,
+  ...checks: (Check | undefined)[]
+): PreconditionCheck[] {
+  return checks
+    .filter((check): check is Check => check !== undefined)
+    .map((check) => ({ kind, ...check, failure }));
+}
+
+function preconditionError({ name, expected, actual }: PreconditionCheck) {
+  return `expected ${name} to be ${expected}, got ${actual}`;
+}
+
+function checkEquals<T extends { equals(y: T): Bool }>(
+  name: string,
+  { isSome, value }: OrIgnore<T>,
+  actual: T,
+  toString: (x: T) => string = String
+): Check | undefined {
+  if (!isSome.toBoolean()) return;
+  return {
+    name,
+    expected: toString(value),
+    actual: toString(actual),
+    isSatisfied: value.equals(actual).toBoolean(),
+  };
+}
 
-  // clone account (TODO: do this efficiently)
-  let json = Account.toJSON(account);
-  account = Account.fromJSON(json);
+function checkRange<T extends UInt32 | UInt64>(
+  name: string,
+  { isSome, value }: OrIgnore<ClosedInterval<T>>,
+  actual: T
+): Check | undefined {
+  if (!isSome.toBoolean()) return;
+  let { lower, upper } = value;
+  let x = toBigint(actual);
+  return {
+    name,
+    expected: `between ${lower} and ${upper}`,
+    actual: actual.toString(),
+    isSatisfied: toBigint(lower) <= x && x <= toBigint(upper),
+  };
+}
+
+// authorization
+
+function authorizationControl({
+  isProved,
+  isSigned,
+}: AccountUpdate['body']['authorizationKind']): Control {
+  if (isProved.toBoolean()) return 'Proof';
+  if (isSigned.toBoolean()) return 'Signature';
+  return 'None_given';
+}
 
-  // update permissions
-  if (update.update.permissions.isSome.toBoolean()) {
-    account.permissions = update.update.permissions.value;
+/**
+ * Check whether the given kind of authorization satisfies a permission.
+ */
+function isPermitted(auth: Types.AuthRequired, control: Control) {
+  switch (Types.AuthRequired.toJSON(auth)) {
+    case 'None':
+      return true;
+    case 'Impossible':
+      return false;
+    case 'Proof':
+      return control === 'Proof';
+    case 'Signature':
+      return control === 'Signature';
+    case 'Either':
+      return control !== 'None_given';
   }
+}
+
+/**
+ * If the verification key permission was set with an older transaction version,
+ * it falls back to signature, so that verification keys can be updated after a hardfork.
+ */
+function verificationKeyPermission({
+  auth,
+  txnVersion,
+}: Types.Account['permissions']['setVerificationKey']): Types.AuthRequired {
+  let isOld = txnVersion.lessThan(TransactionVersion.current()).toBoolean();
+  let permission = Types.AuthRequired.toJSON(auth);
+  if (isOld && (permission === 'Proof' || permission === 'Impossible')) {
+    return Types.AuthRequired.fromJSON('Signature');
+  }
+  return auth;
+}
+
+function permissionMessage(
+  permission: string,
+  auth: Types.AuthRequired,
+  control: Control
+) {
+  let required = Types.AuthRequired.toJSON(auth);
+  let given =
+    control === 'None_given'
+      ? 'no authorization'
+      : `a ${control.toLowerCase()}`;
+  return `The account's '${permission}' permission is '${required}', but the account update was authorized with ${given}.`;
+}
+
+/**
+ * A signed account update must not be replayable in a different transaction.
+ */
+function isReplayProtected(body: AccountUpdate['body']) {
+  let { lower, upper } = body.preconditions.account.nonce.value;
+  let constrainsNonce =
+    body.preconditions.account.nonce.isSome.toBoolean() &&
+    lower.equals(upper).toBoolean();
+  return (
+    body.useFullCommitment.toBoolean() ||
+    (body.incrementNonce.toBoolean() && constrainsNonce)
+  );
+}
+
+// account helpers
+
+function cloneAccount(account: Account): Account {
+  return Account.fromJSON(Account.toJSON(account));
+}
+
+function emptyZkapp(): NonNullable<Account['zkapp']> {
+  return {
+    appState: Array.from({ length: ZkappStateLength }, () => Field(0)),
+    verificationKey: undefined,
+    zkappVersion: UInt32.zero,
+    actionState: Array.from({ length: 5 }, () => Actions.emptyActionState()),
+    lastActionSlot: UInt32.zero,
+    provedState: Bool(false),
+    zkappUri: '',
+  };
+}
+
+/**
+ * The minimum balance of a timed account at the given slot, i.e. the amount
+ * of funds that has not vested yet.
+ */
+function minimumBalanceAtSlot(timing: Account['timing'], slot: UInt32) {
+  if (!timing.isTimed.toBoolean()) return 0n;
+  let globalSlot = toBigint(slot);
+  let initialMinimumBalance = toBigint(timing.initialMinimumBalance);
+  let cliffTime = toBigint(timing.cliffTime);
+  if (globalSlot < cliffTime) return initialMinimumBalance;
+
+  let vestingPeriod = toBigint(timing.vestingPeriod);
+  let vestingIncrement = toBigint(timing.vestingIncrement);
+  let cliffAmount = toBigint(timing.cliffAmount);
+  let periods =
+    vestingPeriod === 0n ? 0n : (globalSlot - cliffTime) / vestingPeriod;
+  let minimumBalance =
+    initialMinimumBalance - cliffAmount - periods * vestingIncrement;
+  return minimumBalance > 0n ? minimumBalance : 0n;
+}
+
+function consReceiptChainHash(
+  accountUpdateIndex: number,
+  commitment: Field,
+  receiptChainHash: Field
+) {
+  let input = packToFields({
+    fields: [commitment, receiptChainHash],
+    packed: [[Field(accountUpdateIndex), 32]],
+  });
+  return hashWithPrefix('CodaReceiptUC*******', input);
+}
 
-  return account;
+function toBigint(x: UInt32 | UInt64) {
+  return x.value.toBigInt();
 }
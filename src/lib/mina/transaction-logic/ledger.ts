@@ -4,11 +4,41 @@
 import { PublicKey } from '../../provable/crypto/signature.js';
 import type { AccountUpdate } from '../account-update.js';
 import { Account, newAccount } from '../account.js';
-import { Field } from '../../provable/field.js';
-import { applyAccountUpdate } from './apply.js';
-import { Types } from '../../../bindings/mina-transaction/types.js';
+import { Field } from '../../provable/wrapped.js';
+import { UInt64 } from '../../provable/int.js';
+import {
+  ApplyContext,
+  TransactionFailure,
+  applyAccountUpdate,
+  applyFeePayer,
+} from './apply.js';
+import {
+  Types,
+  TypesBigint,
+} from '../../../bindings/mina-transaction/types.js';
+import { TokenId, ZkappCommand } from '../account-update.js';
+import { transactionCommitments } from '../../../mina-signer/src/sign-zkapp-command.js';
+import type { NetworkId } from '../../../mina-signer/src/types.js';
+import type { NetworkValue } from '../precondition.js';
 
-export { SimpleLedger };
+export { SimpleLedger, TransactionResult };
+
+/**
+ * The result of applying a transaction to a {@link SimpleLedger}.
+ *
+ * - `applied`: the transaction succeeded
+ * - `failed`: one of the account updates failed; the fee was paid, but no other changes were made
+ * - `rejected`: the fee payer failed; the transaction couldn't be included and the ledger is unchanged
+ *
+ * `failures` lists the failures of the fee payer, followed by the failures of each account update.
+ * `accounts` lists the accounts in the same order, before and after the fee payer or account update
+ * was applied - if the fee payer failed, only the fee payer account is included.
+ */
+type TransactionResult = {
+  status: 'applied' | 'failed' | 'rejected';
+  failures: TransactionFailure[][];
+  accounts: { before: Account | undefined; after: Account }[];
+};
 
 class SimpleLedger {
   accounts: Map<bigint, Account>;
@@ -21,6 +51,18 @@ class SimpleLedger {
     return new SimpleLedger();
   }
 
+  static fromJSON(accounts: Types.Json.Account[]): SimpleLedger {
+    let ledger = new SimpleLedger();
+    for (let account of accounts) ledger.store(Account.fromJSON(account));
+    return ledger;
+  }
+
+  toJSON(): Types.Json.Account[] {
+    return [...this.accounts.values()].map((account) =>
+      Account.toJSON(account)
+    );
+  }
+
   exists({
     publicKey,
     tokenId = Types.TokenId.empty(),
@@ -41,13 +83,133 @@ class SimpleLedger {
     return account;
   }
 
-  apply(update: AccountUpdate): void {
+  /**
+   * Add a new MINA account with the given balance.
+   */
+  addAccount(publicKey: PublicKey, balance: bigint | string): void {
+    let account = newAccount({ publicKey });
+    account.balance = UInt64.from(balance);
+    this.store(account);
+  }
+
+  /**
+   * Apply a single account update, ignoring failures.
+   */
+  apply(update: AccountUpdate, context: ApplyContext): void {
     let id = accountId(update.body);
     let account = this.accounts.get(id);
+    let isNew = account === undefined;
     account ??= newAccount(update.body);
 
-    let updated = applyAccountUpdate(account, update);
-    this.accounts.set(id, updated);
+    let updated = applyAccountUpdate(account, update, {
+      ...context,
+      isNew,
+      accountUpdateIndex: 0,
+    });
+    this.accounts.set(id, updated.account);
+  }
+
+  /**
+   * Apply a zkApp command to the ledger.
+   *
+   * All account updates are applied atomically: if any of them fails, only the fee payer is applied.
+   */
+  applyZkappCommand(
+    transaction: ZkappCommand,
+    {
+      networkState,
+      accountCreationFee,
+      networkId,
+    }: {
+      networkState: NetworkValue;
+      accountCreationFee: UInt64;
+      networkId: NetworkId;
+    }
+  ): TransactionResult {
+    let { fullCommitment } = transactionCommitments(
+      TypesBigint.ZkappCommand.fromJSON(ZkappCommand.toJSON(transaction)),
+      networkId
+    );
+    let context: ApplyContext = {
+      networkState,
+      accountCreationFee,
+      fullCommitment: Field(fullCommitment),
+    };
+    let { accountUpdates, feePayer } = transaction;
+
+    let feePayerAccount = this.load(feePayer.body);
+    let feePayerResult = applyFeePayer(feePayerAccount, feePayer, context);
+    let accounts: TransactionResult['accounts'] = [
+      { before: feePayerAccount, after: feePayerResult.account },
+    ];
+    if (feePayerResult.failures.length > 0) {
+      let failures = [feePayerResult.failures, ...accountUpdates.map(() => [])];
+      return { status: 'rejected', failures, accounts };
+    }
+    this.store(feePayerResult.account);
+
+    // accounts changed by account updates are only stored if all of them succeed
+    let changedAccounts = new Map<bigint, Account>();
+    let failures: TransactionFailure[][] = [[]];
+    let feeExcess = 0n;
+    let parents: { update: Types.AccountUpdate; callerTokenId: Field }[] = [];
+
+    accountUpdates.forEach((update, i) => {
+      let { body } = update;
+      let id = accountId(body);
+
+      // token permissions are inherited from the parent account update
+      let parent = body.callDepth > 0 ? parents[body.callDepth - 1] : undefined;
+      let callerTokenId = TokenId.default;
+      if (parent !== undefined) {
+        if (body.mayUseToken.parentsOwnToken.toBoolean()) {
+          let { publicKey, tokenId } = parent.update.body;
+          callerTokenId = TokenId.derive(publicKey, tokenId);
+        } else if (body.mayUseToken.inheritFromParent.toBoolean()) {
+          callerTokenId = parent.callerTokenId;
+        }
+      }
+      parents[body.callDepth] = { update, callerTokenId };
+      parents.length = body.callDepth + 1;
+
+      let before = changedAccounts.get(id) ?? this.accounts.get(id);
+      let isNew = before === undefined;
+
+      let result = applyAccountUpdate(before ?? newAccount(body), update, {
+        ...context,
+        isNew,
+        accountUpdateIndex: i + 1,
+      });
+      let updateFailures = result.failures;
+      changedAccounts.set(id, result.account);
+      accounts.push({ before, after: result.account });
+
+      let isDefaultToken = body.tokenId.equals(TokenId.default).toBoolean();
+      if (!isDefaultToken && !body.tokenId.equals(callerTokenId).toBoolean()) {
+        updateFailures.unshift({
+          name: 'Token_owner_not_caller',
+          message: `The account update uses token ${TokenId.toBase58(
+            body.tokenId
+          )}, but is not a child of the token owner with the permission to use that token.`,
+        });
+      }
+      if (isDefaultToken) feeExcess += body.balanceChange.toBigint();
+      if (isNew && !body.implicitAccountCreationFee.toBoolean()) {
+        feeExcess += accountCreationFee.toBigInt();
+      }
+      failures.push(updateFailures);
+    });
+
+    if (feeExcess !== 0n) {
+      failures[failures.length - 1].push({
+        name: 'Invalid_fee_excess',
+        message: `The MINA balance changes in the transaction, including account creation fees, sum up to ${feeExcess} instead of 0.`,
+      });
+    }
+
+    let success = failures.every((f) => f.length === 0);
+    if (success) changedAccounts.forEach((account) => this.store(account));
+    return { status: success ? 'applied' : 'failed', failures, accounts };
   }
 }
 
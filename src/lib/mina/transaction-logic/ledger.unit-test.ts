@@ -0,0 +1,127 @@
+import {
+  AccountUpdate,
+  Field,
+  Mina,
+  method,
+  PrivateKey,
+  PublicKey,
+  Reducer,
+  SmartContract,
+  state,
+  State,
+  UInt64,
+} from '../../../index.js';
+import { Account } from '../account.js';
+import { expect } from 'expect';
+
+class Counter extends SmartContract {
+  @state(Field) count = State<Field>();
+
+  reducer = Reducer({ actionType: Field });
+
+  @method async increment(expectedCount: Field) {
+    this.count.requireEquals(expectedCount);
+    this.count.set(expectedCount.add(1));
+    this.reducer.dispatch(Field(1));
+  }
+}
+
+// run the same transactions against the OCaml ledger and the JS ledger, and compare the resulting accounts
+
+let OcamlLocal = await Mina.LocalBlockchain({ proofsEnabled: false });
+let JsLocal = await Mina.LocalBlockchain({
+  proofsEnabled: false,
+  ledger: 'js',
+});
+let instances = [OcamlLocal, JsLocal];
+
+let senderKey = PrivateKey.random();
+let sender = senderKey.toPublicKey();
+let receiver = PrivateKey.random().toPublicKey();
+let zkappKey = PrivateKey.random();
+let zkappAddress = zkappKey.toPublicKey();
+let zkapp = new Counter(zkappAddress);
+
+for (let Local of instances) Local.addAccount(sender, (10n ** 12n).toString());
+
+async function sendOnBoth(
+  f: () => Promise<void>,
+  keys: PrivateKey[] = [senderKey]
+) {
+  Mina.setActiveInstance(OcamlLocal);
+  let tx = await Mina.transaction({ sender, fee: 1e8 }, f);
+  await tx.prove();
+  tx.sign(keys);
+  let results = [];
+  for (let Local of instances) {
+    results.push(await Local.sendTransaction(tx));
+  }
+  return results;
+}
+
+function expectEqualAccounts(publicKey: PublicKey) {
+  let [ocamlAccount, jsAccount] = instances.map((Local) =>
+    Account.toJSON(Local.getAccount(publicKey))
+  );
+  expect(jsAccount).toEqual(ocamlAccount);
+}
+
+// payment to a new account
+
+let results = await sendOnBoth(async () => {
+  let senderUpdate = AccountUpdate.fundNewAccount(sender);
+  senderUpdate.send({ to: receiver, amount: 1e9 });
+});
+expect(results.map((r) => r.status)).toEqual(['pending', 'pending']);
+expectEqualAccounts(sender);
+expectEqualAccounts(receiver);
+expect(JsLocal.getAccount(receiver).balance).toEqual(UInt64.from(1e9));
+
+// deploy a zkapp and call it
+
+results = await sendOnBoth(async () => {
+  AccountUpdate.fundNewAccount(sender);
+  await zkapp.deploy();
+}, [senderKey, zkappKey]);
+expect(results.map((r) => r.status)).toEqual(['pending', 'pending']);
+expectEqualAccounts(sender);
+expectEqualAccounts(zkappAddress);
+
+results = await sendOnBoth(() => zkapp.increment(Field(0)));
+expect(results.map((r) => r.status)).toEqual(['pending', 'pending']);
+expectEqualAccounts(sender);
+expectEqualAccounts(zkappAddress);
+expect(JsLocal.getAccount(zkappAddress).zkapp?.appState[0]).toEqual(Field(1));
+
+// a failing precondition is rejected by both ledgers, and explained by the JS ledger
+
+results = await sendOnBoth(() => zkapp.increment(Field(0)));
+expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+expect(results[1].errors[0]).toMatch(
+  /Account_app_state_0_precondition_unsatisfied/
+);
+expect(results[1].errors[0]).toMatch(/expected state\[0\] to be 0, got 1/);
+expectEqualAccounts(sender);
+expectEqualAccounts(zkappAddress);
+
+// an unbalanced transaction is rejected by both ledgers
+
+results = await sendOnBoth(async () => {
+  let update = AccountUpdate.createSigned(sender);
+  update.balance.subInPlace(1e9);
+});
+expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+expect(results[1].errors[0]).toMatch(/Invalid fee excess/);
+expectEqualAccounts(sender);
+
+// the fee payer must have enough funds
+
+let poorKey = PrivateKey.random();
+let poor = poorKey.toPublicKey();
+for (let Local of instances) Local.addAccount(poor, '1000');
+Mina.setActiveInstance(JsLocal);
+let tx = await Mina.transaction({ sender: poor, fee: 1e8 }, async () => {});
+let result = await tx.sign([poorKey]).safeSend();
+expect(result.status).toEqual('rejected');
+expect(result.errors[0]).toMatch(/not enough to pay the fee/);
+expect(JsLocal.getAccount(poor).nonce.toString()).toEqual('0');
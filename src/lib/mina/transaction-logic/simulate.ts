@@ -0,0 +1,177 @@
+/**
+ * Simulate a transaction against the state of the active Mina instance, and
+ * explain the outcome per account update.
+ */
+import { Field } from '../../provable/wrapped.js';
+import { UInt64 } from '../../provable/int.js';
+import { PublicKey } from '../../provable/crypto/signature.js';
+import { AccountUpdate, TokenId, ZkappCommand } from '../account-update.js';
+import { newAccount } from '../account.js';
+import { activeInstance } from '../mina-instance.js';
+import {
+  PreconditionCheck,
+  TransactionFailure,
+  checkPreconditions,
+} from './apply.js';
+import { SimpleLedger } from './ledger.js';
+
+export { simulateTransaction, SimulationReport, AccountUpdateReport };
+
+/**
+ * The result of simulating a transaction with `tx.simulate()`.
+ *
+ * - `applied`: the transaction would succeed
+ * - `failed`: one of the account updates would fail; only the fee would be paid
+ * - `rejected`: the fee payer would fail, so the transaction couldn't be included
+ *
+ * `firstFailure` is the first failing check, which is usually the one to look at.
+ */
+type SimulationReport = {
+  status: 'applied' | 'failed' | 'rejected';
+  feePayer: {
+    publicKey: PublicKey;
+    fee: UInt64;
+    balance: { before: UInt64; after: UInt64 };
+    failures: TransactionFailure[];
+  };
+  accountUpdates: AccountUpdateReport[];
+  firstFailure?: TransactionFailure & {
+    accountUpdate: 'feePayer' | number;
+    label: string;
+  };
+};
+
+/**
+ * What an account update of a simulated transaction would do to its account.
+ *
+ * `contract` and `method` are set if the account update was created by a smart contract method.
+ * `state` only contains the app state fields that would change.
+ */
+type AccountUpdateReport = {
+  index: number;
+  label: string;
+  contract?: string;
+  method?: string;
+  publicKey: PublicKey;
+  tokenId: Field;
+  isNew: boolean;
+  preconditions: PreconditionCheck[];
+  balance: { before: UInt64; after: UInt64 };
+  state: { index: number; before: Field; after: Field }[];
+  failures: TransactionFailure[];
+};
+
+/**
+ * Simulate a transaction with the JS transaction logic, without changing any state.
+ *
+ * The accounts and network state are read from the active Mina instance. Against a
+ * network, this means they have to be fetched first - `Mina.transaction()` does that
+ * for the accounts it uses. Accounts which are not found are treated as new accounts.
+ */
+function simulateTransaction(transaction: ZkappCommand): SimulationReport {
+  let { feePayer, accountUpdates } = transaction;
+  let networkState = activeInstance.getNetworkState();
+
+  let ledger = SimpleLedger.create();
+  let accountIds = [
+    { publicKey: feePayer.body.publicKey, tokenId: TokenId.default },
+    ...accountUpdates.map(({ body }) => body),
+  ];
+  for (let { publicKey, tokenId } of accountIds) {
+    if (ledger.exists({ publicKey, tokenId })) continue;
+    if (!activeInstance.hasAccount(publicKey, tokenId)) continue;
+    ledger.store(activeInstance.getAccount(publicKey, tokenId));
+  }
+
+  let result = ledger.applyZkappCommand(transaction, {
+    networkState,
+    accountCreationFee: activeInstance.getNetworkConstants().accountCreationFee,
+    networkId: activeInstance.getNetworkId(),
+  });
+  let [feePayerAccount, ...accounts] = result.accounts;
+  let [feePayerFailures, ...failures] = result.failures;
+
+  let reports = accountUpdates.map((update, i): AccountUpdateReport => {
+    // if the fee payer failed, the account updates were not applied
+    let isApplied = i < accounts.length;
+    let before = isApplied ? accounts[i].before : ledger.load(update.body);
+    let after = isApplied
+      ? accounts[i].after
+      : before ?? newAccount(update.body);
+    let isNew = before === undefined;
+    let beforeState = before?.zkapp?.appState;
+    let afterState = after.zkapp?.appState;
+    let state = (afterState ?? []).flatMap((after, index) => {
+      let before = beforeState?.[index] ?? Field(0);
+      return before.equals(after).toBoolean() ? [] : [{ index, before, after }];
+    });
+    return {
+      index: i,
+      label: update.label,
+      ...contractMethod(update),
+      publicKey: update.body.publicKey,
+      tokenId: update.body.tokenId,
+      isNew,
+      preconditions: checkPreconditions(
+        update.body.preconditions,
+        before ?? newAccount(update.body),
+        isNew,
+        networkState
+      ),
+      balance: { before: before?.balance ?? UInt64.zero, after: after.balance },
+      state,
+      failures: failures[i],
+    };
+  });
+
+  let firstFailure: SimulationReport['firstFailure'];
+  if (feePayerFailures.length > 0) {
+    firstFailure = {
+      accountUpdate: 'feePayer',
+      label: 'feePayer',
+      ...feePayerFailures[0],
+    };
+  } else {
+    let report = reports.find((report) => report.failures.length > 0);
+    if (report !== undefined) {
+      firstFailure = {
+        accountUpdate: report.index,
+        label: report.label,
+        ...report.failures[0],
+      };
+    }
+  }
+
+  return {
+    status: result.status,
+    feePayer: {
+      publicKey: feePayer.body.publicKey,
+      fee: feePayer.body.fee,
+      balance: {
+        before: feePayerAccount.before?.balance ?? UInt64.zero,
+        after: feePayerAccount.after.balance,
+      },
+      failures: feePayerFailures,
+    },
+    accountUpdates: reports,
+    firstFailure,
+  };
+}
+
+/**
+ * Find the smart contract and method that created an account update, from its
+ * proof authorization or from the label set by the smart contract.
+ */
+function contractMethod(update: AccountUpdate): {
+  contract?: string;
+  method?: string;
+} {
+  let lazy = update.lazyAuthorization;
+  if (lazy?.kind === 'lazy-proof') {
+    return { contract: lazy.ZkappClass.name, method: lazy.methodName };
+  }
+  let match = update.label.match(/^(\w+)(?:\.(\w+)\(\)|, no method)$/);
+  if (match === null || match[1] === 'AccountUpdate') return {};
+  let [, contract, method] = match;
+  return method === undefined ? { contract } : { contract, method };
+}
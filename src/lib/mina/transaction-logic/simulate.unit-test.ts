@@ -0,0 +1,138 @@
+import {
+  AccountUpdate,
+  Field,
+  Mina,
+  method,
+  PrivateKey,
+  SmartContract,
+  state,
+  State,
+  UInt64,
+} from '../../../index.js';
+import { expect } from 'expect';
+
+class Counter extends SmartContract {
+  @state(Field) count = State<Field>();
+
+  @method async increment(expectedCount: Field) {
+    this.count.requireEquals(expectedCount);
+    this.count.set(expectedCount.add(1));
+  }
+}
+
+let Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+
+let [sender, contractAccount] = Local.testAccounts;
+let contract = new Counter(contractAccount);
+let fee = UInt64.from(1e8);
+
+let tx = await Mina.transaction({ sender, fee }, () => contract.deploy());
+await tx.prove();
+await tx.sign([sender.key, contractAccount.key]).send();
+
+// a successful call reports the preconditions, state changes and balances
+
+tx = await Mina.transaction({ sender, fee }, () =>
+  contract.increment(Field(0))
+);
+let report = await tx.simulate();
+
+expect(report.status).toEqual('applied');
+expect(report.firstFailure).toBeUndefined();
+expect(report.feePayer.balance.after).toEqual(
+  report.feePayer.balance.before.sub(fee)
+);
+
+let [update] = report.accountUpdates;
+expect(update.label).toEqual('Counter.increment()');
+expect(update.contract).toEqual('Counter');
+expect(update.method).toEqual('increment');
+expect(update.isNew).toBe(false);
+expect(update.failures).toEqual([]);
+expect(update.state).toEqual([{ index: 0, before: Field(0), after: Field(1) }]);
+expect(update.balance.after).toEqual(update.balance.before);
+expect(update.preconditions).toContainEqual({
+  kind: 'account',
+  name: 'state[0]',
+  expected: '0',
+  actual: '0',
+  isSatisfied: true,
+  failure: 'Account_app_state_0_precondition_unsatisfied',
+});
+
+// simulating doesn't change any state
+expect(Local.getAccount(contractAccount).zkapp?.appState[0]).toEqual(Field(0));
+
+await tx.prove();
+await tx.sign([sender.key]).send();
+
+// a failing call explains the first failing check
+
+tx = await Mina.transaction({ sender, fee }, () =>
+  contract.increment(Field(0))
+);
+report = await tx.simulate();
+
+expect(report.status).toEqual('failed');
+expect(report.firstFailure).toMatchObject({
+  accountUpdate: 0,
+  label: 'Counter.increment()',
+  name: 'Account_app_state_0_precondition_unsatisfied',
+});
+expect(report.firstFailure?.message).toMatch(
+  /expected state\[0\] to be 0, got 1/
+);
+expect(report.accountUpdates[0].preconditions).toContainEqual(
+  expect.objectContaining({ name: 'state[0]', actual: '1', isSatisfied: false })
+);
+expect(report.feePayer.balance.after).toEqual(
+  report.feePayer.balance.before.sub(fee)
+);
+
+// new accounts are reported, and the account creation fee is part of the balance changes
+
+let receiver = PrivateKey.random().toPublicKey();
+tx = await Mina.transaction({ sender, fee }, async () => {
+  let senderUpdate = AccountUpdate.fundNewAccount(sender);
+  let receiverUpdate = senderUpdate.send({ to: receiver, amount: 2e9 });
+  // a new account delegates to itself
+  receiverUpdate.account.delegate.requireEquals(receiver);
+});
+report = await tx.simulate();
+
+expect(report.status).toEqual('applied');
+let [senderUpdate, receiverUpdate] = report.accountUpdates;
+expect(senderUpdate.label).toEqual('AccountUpdate.fundNewAccount()');
+expect(senderUpdate.contract).toBeUndefined();
+expect(senderUpdate.balance.before).toEqual(report.feePayer.balance.after);
+expect(senderUpdate.balance.after).toEqual(
+  senderUpdate.balance.before.sub(3e9)
+);
+expect(receiverUpdate.isNew).toBe(true);
+expect(receiverUpdate.balance).toEqual({
+  before: UInt64.zero,
+  after: UInt64.from(2e9),
+});
+expect(receiverUpdate.preconditions).toContainEqual(
+  expect.objectContaining({ name: 'delegate', isSatisfied: true })
+);
+
+// a fee payer who can't pay the fee gets the transaction rejected
+
+let poor = PrivateKey.randomKeypair();
+Local.addAccount(poor.publicKey, '1000');
+tx = await Mina.transaction({ sender: poor.publicKey, fee }, () =>
+  contract.increment(Field(1))
+);
+report = await tx.simulate();
+
+expect(report.status).toEqual('rejected');
+expect(report.firstFailure).toMatchObject({
+  accountUpdate: 'feePayer',
+  name: 'Overflow',
+});
+expect(report.accountUpdates[0].state).toEqual([]);
+expect(report.accountUpdates[0].preconditions).toContainEqual(
+  expect.objectContaining({ name: 'state[0]', isSatisfied: true })
+);
@@ -13,7 +13,10 @@ import { Field } from '../provable/wrapped.js';
 import { UInt64, UInt32 } from '../provable/int.js';
 import { PublicKey } from '../provable/crypto/signature.js';
 import { JsonProof, verify } from '../proof-system/zkprogram.js';
-import { verifyAccountUpdateSignature } from '../../mina-signer/src/sign-zkapp-command.js';
+import {
+  accountUpdateMinimumFee,
+  verifyAccountUpdateSignature,
+} from '../../mina-signer/src/sign-zkapp-command.js';
 import { TransactionCost, TransactionLimits } from './constants.js';
 import { cloneCircuitValue } from '../provable/types/struct.js';
 import { assert } from '../provable/gadgets/common.js';
@@ -26,6 +29,8 @@ export {
   reportGetAccountError,
   defaultNetworkState,
   verifyTransactionLimits,
+  estimateTransactionCost,
+  type TransactionCostEstimate,
   getTotalTimeRequired,
   verifyAccountUpdate,
   filterGroups,
@@ -92,6 +97,74 @@ ${JSON.stringify(authTypes)}
   if (error) throw Error('Error during transaction sending:\n\n' + error);
 }
 
+/**
+ * The estimated cost of a transaction, broken down into the parts that are checked by
+ * {@link verifyTransactionLimits}, plus the fees that have to be paid.
+ */
+type TransactionCostEstimate = {
+  /**
+   * The number of proof, signed pair and signed single segments the transaction is split into by snark workers.
+   */
+  segments: { proof: number; signedPair: number; signedSingle: number };
+  /**
+   * The estimated proving time of all segments, which must be below the limit.
+   */
+  cost: { total: number; limit: number };
+  events: { elements: number; limit: number };
+  actions: { elements: number; limit: number };
+  isWithinLimits: boolean;
+  /**
+   * The number of accounts created by the transaction, and the total account creation fee for them.
+   */
+  newAccounts: number;
+  accountCreationFees: UInt64;
+  /**
+   * The minimum fee for the transaction, which depends on the number of account updates.
+   */
+  recommendedFee: UInt64;
+};
+
+function estimateTransactionCost(
+  { accountUpdates }: ZkappCommand,
+  {
+    newAccounts,
+    accountCreationFee,
+  }: { newAccounts: number; accountCreationFee: UInt64 }
+): TransactionCostEstimate {
+  let { totalTimeRequired, eventElements, authTypes } =
+    getTotalTimeRequired(accountUpdates);
+
+  let cost = { total: totalTimeRequired, limit: TransactionCost.COST_LIMIT };
+  let events = {
+    elements: eventElements.events,
+    limit: TransactionLimits.MAX_EVENT_ELEMENTS,
+  };
+  let actions = {
+    elements: eventElements.actions,
+    limit: TransactionLimits.MAX_ACTION_ELEMENTS,
+  };
+  let isWithinLimits =
+    cost.total < cost.limit &&
+    events.elements <= events.limit &&
+    actions.elements <= actions.limit;
+
+  // the same minimum fee that mina-signer enforces, converted from MINA to nanomina
+  let recommendedFee = UInt64.from(accountUpdateMinimumFee * 1e9).mul(
+    accountUpdates.length
+  );
+
+  return {
+    segments: authTypes,
+    cost,
+    events,
+    actions,
+    isWithinLimits,
+    newAccounts,
+    accountCreationFees: accountCreationFee.mul(newAccounts),
+    recommendedFee,
+  };
+}
+
 
 function getTotalTimeRequired(accountUpdates : AccountUpdate[]){
   let eventElements = { events: 0, actions: 0 };
@@ -63,4 +63,22 @@ describe('transactions', () => {
     // check that tx was applied, by checking nonce was incremented
     expect((await new_fee).transaction.feePayer.body.nonce).toEqual(nonce);
   });
+
+  it('estimateCost should report the cost breakdown', async () => {
+    let receiver = Mina.TestPublicKey.random();
+    let tx = await Mina.transaction(feePayer, async () => {
+      let feePayerUpdate = AccountUpdate.fundNewAccount(feePayer);
+      feePayerUpdate.send({ to: receiver, amount: 2e9 });
+    });
+    let cost = tx.estimateCost();
+    // the fee payer and the two account updates are split into a signed pair and a signed single
+    expect(cost.segments).toEqual({ proof: 0, signedPair: 1, signedSingle: 1 });
+    expect(cost.cost.total).toBeLessThan(cost.cost.limit);
+    expect(cost.events).toEqual({ elements: 0, limit: 100 });
+    expect(cost.actions).toEqual({ elements: 0, limit: 100 });
+    expect(cost.isWithinLimits).toBe(true);
+    expect(cost.newAccounts).toEqual(1);
+    expect(cost.accountCreationFees).toEqual(UInt64.from(1e9));
+    expect(cost.recommendedFee).toEqual(UInt64.from(2e6));
+  });
 });
@@ -23,7 +23,15 @@ import { type SendZkAppResponse, sendZkappQuery } from './graphql.js';
 import { type FetchMode } from './transaction-context.js';
 import { assertPromise } from '../util/assert.js';
 import { Types } from '../../bindings/mina-transaction/types.js';
-import { getTotalTimeRequired } from './transaction-validation.js';
+import {
+  type TransactionCostEstimate,
+  estimateTransactionCost,
+  getTotalTimeRequired,
+} from './transaction-validation.js';
+import {
+  type SimulationReport,
+  simulateTransaction,
+} from './transaction-logic/simulate.js';
 
 export {
   Transaction,
@@ -33,6 +41,8 @@ export {
   type RejectedTransaction,
   type PendingTransactionPromise,
   type PendingTransactionStatus,
+  type SimulationReport,
+  type TransactionCostEstimate,
   createTransaction,
   toTransactionPromise,
   toPendingTransactionPromise,
@@ -115,6 +125,37 @@ type Transaction<
    * ```
    */
   safeSend(): Promise<PendingTransaction | RejectedTransaction>;
+  /**
+   * Simulates the {@link Transaction} against the current state of the active Mina instance, without sending it.
+   * Unlike sending the transaction, this explains what each account update would do: the preconditions it checks,
+   * with expected and actual values, its balance and state changes, and the reasons why it would fail.
+   *
+   * Accounts and the network state are read from the active instance, so against a network they must have been fetched,
+   * which `Mina.transaction()` does for the accounts it uses. Proofs and signatures are not checked.
+   * @returns A {@link SimulationReport} with the outcome of the transaction, and a report for each account update.
+   * @example
+   * ```ts
+   * const report = await transaction.simulate();
+   * if (report.firstFailure !== undefined) {
+   *   console.error(`${report.firstFailure.label} would fail:`, report.firstFailure.message);
+   * }
+   * ```
+   */
+  simulate(): Promise<SimulationReport>;
+  /**
+   * Estimates the cost of the {@link Transaction} without proving or sending it: the segments it is split into
+   * for snark workers and their estimated proving time, the number of event and action field elements,
+   * each compared to the protocol limits, the account creation fees and the recommended fee.
+   *
+   * New accounts are determined with the active Mina instance, so against a network the accounts must have been fetched.
+   * @returns A {@link TransactionCostEstimate} with the cost breakdown.
+   * @example
+   * ```ts
+   * const { isWithinLimits, recommendedFee } = transaction.estimateCost();
+   * if (!isWithinLimits) console.warn('This transaction will be rejected, try splitting it up.');
+   * ```
+   */
+  estimateCost(): TransactionCostEstimate;
 
   /**
    * Modifies a transaction to set the fee to the new fee provided. Because this change invalidates proofs and signatures both are removed. The nonce is not increased so sending both transitions will not risk both being accepted.
@@ -573,6 +614,23 @@ function newTransaction(transaction: ZkappCommand, proofsEnabled?: boolean) {
       }
       return pendingTransaction;
     },
+    async simulate() {
+      return simulateTransaction(self.transaction);
+    },
+    estimateCost() {
+      let newAccounts = new Set<string>();
+      for (let { body } of self.transaction.accountUpdates) {
+        if (activeInstance.hasAccount(body.publicKey, body.tokenId)) continue;
+        newAccounts.add(
+          `${body.publicKey.toBase58()}:${TokenId.toBase58(body.tokenId)}`
+        );
+      }
+      return estimateTransactionCost(self.transaction, {
+        newAccounts: newAccounts.size,
+        accountCreationFee:
+          activeInstance.getNetworkConstants().accountCreationFee,
+      });
+    },
     setFeePerSnarkCost(newFeePerSnarkCost:number) {
       let {totalTimeRequired} = getTotalTimeRequired(transaction.accountUpdates);
       return this.setFee(new UInt64(Math.round(totalTimeRequired * newFeePerSnarkCost)));
@@ -0,0 +1,190 @@
+/**
+ * Follow the events and actions of an account live, by polling the active Mina instance.
+ */
+import { Field } from '../provable/wrapped.js';
+import { UInt32 } from '../provable/int.js';
+import { PublicKey } from '../provable/crypto/signature.js';
+import { fetchActions, fetchEvents } from './mina-instance.js';
+
+export {
+  watchEvents,
+  watchActions,
+  type WatchOptions,
+  type EventCursor,
+  type FetchedEvent,
+  type FetchedBlock,
+};
+
+/**
+ * Options for polling, shared by `watchEvents()` and `watchActions()`.
+ */
+type WatchOptions = {
+  /**
+   * How long to wait between polls, in milliseconds. Defaults to 5 seconds.
+   */
+  interval?: number;
+  /**
+   * When fetching fails, the time until the next attempt is doubled, up to this maximum in milliseconds.
+   * Defaults to 1 minute.
+   */
+  maxInterval?: number;
+  /**
+   * How many times in a row fetching may fail before the error is thrown. Defaults to 5.
+   */
+  maxRetries?: number;
+  /**
+   * Watching stops when this signal is aborted.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * The position of an event watcher: the block it yielded the last event from, and how many events
+ * of that block it yielded.
+ *
+ * A cursor can be stored as JSON, and passed to `watchEvents()` to resume after the last event.
+ * If the block is replaced by a different block at the same height, the events of the new block are yielded.
+ *
+ * Competing blocks at the same height are all pending until the archive node marks one of them as orphaned.
+ * A watcher yields the events of each of them once, but a cursor only remembers one block: when resuming from it,
+ * the events of the other competing blocks are yielded again.
+ */
+type EventCursor = {
+  blockHeight: number;
+  blockHash: string;
+  eventCount: number;
+};
+
+type FetchedEvents = Awaited<ReturnType<typeof fetchEvents>>;
+type FetchedEvent = FetchedEvents[number]['events'][number];
+type FetchedBlock = Omit<FetchedEvents[number], 'events'>;
+
+/**
+ * Poll the events of an account, starting at `cursor`, and yield each event once, in chronological order.
+ *
+ * `decode()` converts a fetched event, and can return `undefined` to skip it.
+ */
+async function* watchEvents<T>(
+  publicKey: PublicKey,
+  tokenId: Field,
+  decode: (event: FetchedEvent, block: FetchedBlock) => T | undefined,
+  { cursor, ...options }: WatchOptions & { cursor: EventCursor }
+): AsyncGenerator<T & { cursor: EventCursor }> {
+  let poller = createPoller(options);
+
+  // how many events of every block were yielded, by height and hash, so that
+  // competing pending blocks at the same height don't make each other's events be yielded again
+  let yielded = new Map<string, number>([
+    [`${cursor.blockHeight}:${cursor.blockHash}`, cursor.eventCount],
+  ]);
+
+  while (true) {
+    let from = UInt32.from(cursor.blockHeight);
+    let fetched = await poller.poll(() =>
+      fetchEvents(publicKey, tokenId, cursor.blockHeight > 0 ? { from } : {})
+    );
+    if (fetched === undefined) return;
+
+    // events are returned latest first, both across and within account updates
+    let positions = new Map<string, number>();
+    for (let { events, ...block } of [...fetched].reverse()) {
+      if (block.chainStatus === 'orphaned') continue;
+      let blockHeight = Number(block.blockHeight.toBigint());
+      if (blockHeight < cursor.blockHeight) continue;
+      let key = `${blockHeight}:${block.blockHash}`;
+
+      for (let event of [...events].reverse()) {
+        let position = positions.get(key) ?? 0;
+        positions.set(key, position + 1);
+        if (position < (yielded.get(key) ?? 0)) continue;
+
+        yielded.set(key, position + 1);
+        cursor = {
+          blockHeight,
+          blockHash: block.blockHash,
+          eventCount: position + 1,
+        };
+        let decoded = decode(event, block);
+        if (decoded !== undefined) yield { ...decoded, cursor };
+      }
+    }
+
+    // blocks below the cursor are never fetched again
+    for (let key of yielded.keys()) {
+      if (Number(key.split(':')[0]) < cursor.blockHeight) yielded.delete(key);
+    }
+  }
+}
+
+/**
+ * Poll the actions of an account, starting after `fromActionState`, and yield each list of actions
+ * dispatched by an account update once, with the action state after it.
+ *
+ * The action state serves as cursor. If it's no longer part of the action history, for example
+ * because of a chain reorganization, fetching fails and the error is thrown after `maxRetries` attempts.
+ */
+async function* watchActions<A>(
+  publicKey: PublicKey,
+  tokenId: Field,
+  decode: (action: string[]) => A,
+  { fromActionState, ...options }: WatchOptions & { fromActionState?: Field }
+): AsyncGenerator<{ actions: A[]; actionState: Field }> {
+  let poller = createPoller(options);
+
+  while (true) {
+    let fetched = await poller.poll(async () => {
+      let result = await fetchActions(publicKey, { fromActionState }, tokenId);
+      if ('error' in result) throw Error(JSON.stringify(result));
+      return result;
+    });
+    if (fetched === undefined) return;
+
+    for (let { actions, hash } of fetched) {
+      fromActionState = Field(hash);
+      yield { actions: actions.map(decode), actionState: fromActionState };
+    }
+  }
+}
+
+function createPoller({
+  interval = 5000,
+  maxInterval = 60_000,
+  maxRetries = 5,
+  signal,
+}: WatchOptions) {
+  let isFirstPoll = true;
+
+  return {
+    /**
+     * Wait for the next poll and fetch, retrying with exponential backoff.
+     * Returns `undefined` if watching was aborted.
+     */
+    async poll<T>(fetch: () => Promise<T>): Promise<T | undefined> {
+      let delay = isFirstPoll ? 0 : interval;
+      isFirstPoll = false;
+      for (let failures = 0; ; failures++) {
+        await sleep(delay, signal);
+        if (signal?.aborted) return undefined;
+        try {
+          return await fetch();
+        } catch (error) {
+          if (failures >= maxRetries) throw error;
+          delay = Math.min(Math.max(delay, interval) * 2, maxInterval);
+        }
+      }
+    },
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (ms === 0 || signal?.aborted) return resolve();
+    let timeout = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+    function done() {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
@@ -0,0 +1,216 @@
+import {
+  Field,
+  method,
+  Mina,
+  Reducer,
+  SmartContract,
+  UInt32,
+} from '../../index.js';
+import { TokenId } from './account-update.js';
+import { watchEvents } from './watch.js';
+import { expect } from 'expect';
+
+class Emitter extends SmartContract {
+  events = { a: Field, b: Field };
+  reducer = Reducer({ actionType: Field });
+
+  @method async emit(x: Field) {
+    this.emitEvent('a', x);
+    this.emitEvent('b', x.add(100));
+    this.reducer.dispatch(x);
+  }
+}
+
+let Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+
+let [sender, contractAccount] = Local.testAccounts;
+let contract = new Emitter(contractAccount);
+
+let tx = await Mina.transaction(sender, () => contract.deploy());
+await tx.prove();
+await tx.sign([sender.key, contractAccount.key]).send();
+
+async function emit(x: number) {
+  let tx = await Mina.transaction(sender, () => contract.emit(Field(x)));
+  await tx.prove();
+  await tx.sign([sender.key]).send();
+}
+
+async function take<T>(iterator: AsyncIterable<T>, n: number) {
+  let values: T[] = [];
+  if (n === 0) return values;
+  for await (let value of iterator) {
+    values.push(value);
+    if (values.length === n) break;
+  }
+  return values;
+}
+
+Local.setBlockchainLength(UInt32.from(5));
+await emit(1);
+Local.setBlockchainLength(UInt32.from(10));
+await emit(2);
+
+// events are yielded in chronological order, decoded, with a cursor
+
+let events = await take(contract.watchEvents({ interval: 10 }), 4);
+
+expect(events.map(({ type }) => type)).toEqual(['a', 'b', 'a', 'b']);
+expect(events.map(({ event }) => event.data)).toEqual([
+  Field(1),
+  Field(101),
+  Field(2),
+  Field(102),
+]);
+expect(events.map(({ blockHeight }) => blockHeight)).toEqual([
+  UInt32.from(5),
+  UInt32.from(5),
+  UInt32.from(10),
+  UInt32.from(10),
+]);
+expect(events[0].cursor).toEqual({
+  blockHeight: 5,
+  blockHash: '',
+  eventCount: 1,
+});
+expect(events[3].cursor).toEqual({
+  blockHeight: 10,
+  blockHash: '',
+  eventCount: 2,
+});
+
+// events can be filtered by type and block height
+
+events = await take(
+  contract.watchEvents({ type: 'b', fromBlock: 10, interval: 10 }),
+  1
+);
+expect(events.map(({ event }) => event.data)).toEqual([Field(102)]);
+
+// watching can be resumed from a cursor
+
+let cursor = JSON.parse(JSON.stringify(events[0].cursor));
+let [first] = await take(contract.watchEvents({ interval: 10 }), 1);
+let [second] = await take(
+  contract.watchEvents({ cursor: first.cursor, interval: 10 }),
+  1
+);
+expect(second.event.data).toEqual(Field(101));
+
+// new events are picked up while watching
+
+let watcher = contract.watchEvents({ cursor, interval: 10 });
+let next = watcher.next();
+await emit(3);
+let result = await next;
+expect(result.done).toBe(false);
+expect(result.value?.event.data).toEqual(Field(3));
+await watcher.return(undefined);
+
+// if the block of the cursor was replaced, all events of the new block are yielded
+
+events = await take(
+  contract.watchEvents({
+    cursor: { blockHeight: 10, blockHash: 'orphaned', eventCount: 2 },
+    interval: 10,
+  }),
+  2
+);
+expect(events.map(({ event }) => event.data)).toEqual([Field(2), Field(102)]);
+
+// on a network, events are fetched latest first, and competing pending blocks at the same height
+// are yielded once each, even though they keep replacing each other as the cursor
+
+function pendingBlock(height: number, hash: string, data: string[]) {
+  return {
+    events: data
+      .map((x) => ({
+        data: [x],
+        transactionInfo: { hash: '', memo: '', status: '' },
+      }))
+      .reverse(),
+    blockHeight: UInt32.from(height),
+    blockHash: hash,
+    parentBlockHash: '',
+    globalSlot: UInt32.from(height),
+    chainStatus: 'pending',
+  };
+}
+let fetched = [
+  pendingBlock(11, 'y', ['y1']),
+  pendingBlock(11, 'x', ['x1', 'x2']),
+  pendingBlock(10, 'w', ['w1']),
+];
+let polls = 0;
+Mina.setActiveInstance({
+  ...Local,
+  async fetchEvents() {
+    if (++polls === 3) fetched.unshift(pendingBlock(12, 'z', ['z1']));
+    return fetched;
+  },
+});
+let fetchedEvents = await take(
+  watchEvents(
+    contractAccount,
+    TokenId.default,
+    (event, block) => ({ data: event.data[0], hash: block.blockHash }),
+    { cursor: { blockHeight: 0, blockHash: '', eventCount: 0 }, interval: 10 }
+  ),
+  5
+);
+Mina.setActiveInstance(Local);
+expect(fetchedEvents.map(({ data }) => data)).toEqual([
+  'w1',
+  'x1',
+  'x2',
+  'y1',
+  'z1',
+]);
+expect(fetchedEvents[3].cursor).toEqual({
+  blockHeight: 11,
+  blockHash: 'y',
+  eventCount: 1,
+});
+expect(polls).toBeGreaterThanOrEqual(3);
+
+// watching stops when the signal is aborted
+
+let controller = new AbortController();
+watcher = contract.watchEvents({
+  cursor: result.value!.cursor,
+  type: 'a',
+  interval: 10,
+  signal: controller.signal,
+});
+next = watcher.next();
+controller.abort();
+expect((await next).done).toBe(true);
+
+// actions are yielded per account update, with the action state as cursor
+
+let actions = await take(contract.reducer.watchActions({ interval: 10 }), 2);
+expect(actions.map(({ actions }) => actions)).toEqual([[Field(1)], [Field(2)]]);
+
+actions = await take(
+  contract.reducer.watchActions({
+    fromActionState: actions[1].actionState,
+    interval: 10,
+  }),
+  1
+);
+expect(actions[0].actions).toEqual([Field(3)]);
+expect(actions[0].actionState).toEqual(contract.account.actionState.get());
+
+// fetching errors are retried, and thrown after `maxRetries` attempts
+
+await expect(
+  take(
+    contract.reducer.watchActions({
+      fromActionState: Field(123),
+      interval: 10,
+      maxRetries: 2,
+    }),
+    1
+  )
+).rejects.toThrow(/fromActionState not found/);
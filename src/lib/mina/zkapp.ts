@@ -77,6 +77,12 @@ import { assertPromise } from '../util/assert.js';
 import { ProvablePure, ProvableType } from '../provable/types/provable-intf.js';
 import { getReducer, Reducer } from './actions/reducer.js';
 import { provable } from '../provable/types/provable-derivers.js';
+import {
+  EventCursor,
+  FetchedEvent,
+  WatchOptions,
+  watchEvents,
+} from './watch.js';
 
 // external API
 export { SmartContract, method, DeployArgs, declareMethods };
@@ -1053,36 +1059,11 @@ super.init();
   async fetchEvents(
     start: UInt32 = UInt32.from(0),
     end?: UInt32
-  ): Promise<
-    {
-      type: string;
-      event: {
-        data: ProvablePure<any>;
-        transactionInfo: {
-          transactionHash: string;
-          transactionStatus: string;
-          transactionMemo: string;
-        };
-      };
-      blockHeight: UInt32;
-      blockHash: string;
-      parentBlockHash: string;
-      globalSlot: UInt32;
-      chainStatus: string;
-    }[]
-  > {
+  ): Promise<ContractEvent[]> {
     // used to match field values back to their original type
     const sortedEventTypes = Object.keys(this.events).sort();
     if (sortedEventTypes.length === 0) {
-      throw Error(
-        'fetchEvents: You are trying to fetch events without having declared the types of your events.\n' +
-          `Make sure to add a property \`events\` on ${this.constructor.name}, for example: \n` +
-          `class ${this.constructor.name} extends SmartContract {\n` +
-          `  events = { 'my-event': Field }\n` +
-          `}\n` +
-          `Or, if you want to access the events from the zkapp account ${this.address.toBase58()} without casting their types\n` +
-          `then try Mina.fetchEvents('${this.address.toBase58()}') instead.`
-      );
+      throw missingEventTypesError(this, 'fetchEvents');
     }
 
     const queryFilterOptions: EventActionFilterOptions = {};
@@ -1112,48 +1093,68 @@ super.init();
       })
       .flat();
 
-    return events.map((eventData) => {
-      // if there is only one event type, the event structure has no index and can directly be matched to the event type
-      if (sortedEventTypes.length === 1) {
-        let type = sortedEventTypes[0];
-        let event = this.events[type].fromFields(
-          eventData.event.data.map((f: string) => Field(f))
-        );
-        return {
-          ...eventData,
-          type,
-          event: {
-            data: event,
-            transactionInfo: {
-              transactionHash: eventData.event.transactionInfo.hash,
-              transactionStatus: eventData.event.transactionInfo.status,
-              transactionMemo: eventData.event.transactionInfo.memo,
-            },
-          },
-        };
-      } else {
-        // if there are multiple events we have to use the index event[0] to find the exact event type
-        let eventObjectIndex = Number(eventData.event.data[0]);
-        let type = sortedEventTypes[eventObjectIndex];
-        // all other elements of the array are values used to construct the original object, we can drop the first value since its just an index
-        let eventProps = eventData.event.data.slice(1);
-        let event = this.events[type].fromFields(
-          eventProps.map((f: string) => Field(f))
-        );
-        return {
-          ...eventData,
-          type,
-          event: {
-            data: event,
-            transactionInfo: {
-              transactionHash: eventData.event.transactionInfo.hash,
-              transactionStatus: eventData.event.transactionInfo.status,
-              transactionMemo: eventData.event.transactionInfo.memo,
-            },
-          },
-        };
-      }
-    });
+    return events.map((eventData) =>
+      decodeEvent(this.events, sortedEventTypes, eventData)
+    );
+  }
+
+  /**
+   * Watches the events emitted by this {@link SmartContract}, by polling the Mina network or local blockchain.
+   * Returns an async iterator which yields each event once, in chronological order, decoded like in {@link SmartContract.fetchEvents}.
+   *
+   * Every event comes with a `cursor`, which can be stored and passed back in to resume watching after that event.
+   * Events from orphaned blocks are skipped, and if the block of the cursor was replaced, the events of the new block are yielded.
+   *
+   * Failed fetches are retried with exponential backoff. Watching stops when you `break` out of the loop, or when `signal` is aborted.
+   *
+   * @param options.type - Only yield events of these types.
+   * @param options.fromBlock - The block height to start watching from. Ignored if `cursor` is set.
+   * @param options.cursor - The cursor of the last event that was processed.
+   * @example
+   * ```ts
+   * for await (let { type, event, cursor } of myZkapp.watchEvents({ type: 'increment' })) {
+   *   console.log(type, event.data);
+   *   saveCursor(cursor);
+   * }
+   * ```
+   */
+  async *watchEvents<K extends keyof this['events']>({
+    type,
+    fromBlock = 0,
+    cursor,
+    ...options
+  }: WatchOptions & {
+    type?: K | K[];
+    fromBlock?: UInt32 | number;
+    cursor?: EventCursor;
+  } = {}): AsyncGenerator<ContractEvent & { cursor: EventCursor }> {
+    const sortedEventTypes = Object.keys(this.events).sort();
+    if (sortedEventTypes.length === 0) {
+      throw missingEventTypesError(this, 'watchEvents');
+    }
+    let types =
+      type === undefined
+        ? undefined
+        : new Set<unknown>(Array.isArray(type) ? type : [type]);
+    cursor ??= {
+      blockHeight: Number(UInt32.from(fromBlock).toBigint()),
+      blockHash: '',
+      eventCount: 0,
+    };
+
+    yield* watchEvents(
+      this.address,
+      this.tokenId,
+      (event, block) => {
+        let decoded = decodeEvent(this.events, sortedEventTypes, {
+          ...block,
+          event,
+        });
+        if (types !== undefined && !types.has(decoded.type)) return undefined;
+        return decoded;
+      },
+      { cursor, ...options }
+    );
   }
 
   static runOutsideCircuit(run: () => void) {
@@ -1234,6 +1235,70 @@ function selfAccountUpdate(zkapp: SmartContract, methodName?: string) {
   return update;
 }
 
+/**
+ * An event fetched by {@link SmartContract.fetchEvents}, decoded with the contract's `events` map.
+ */
+type ContractEvent = {
+  type: string;
+  event: {
+    data: ProvablePure<any>;
+    transactionInfo: {
+      transactionHash: string;
+      transactionStatus: string;
+      transactionMemo: string;
+    };
+  };
+  blockHeight: UInt32;
+  blockHash: string;
+  parentBlockHash: string;
+  globalSlot: UInt32;
+  chainStatus: string;
+};
+
+function missingEventTypesError(zkapp: SmartContract, methodName: string) {
+  return Error(
+    `${methodName}: You are trying to fetch events without having declared the types of your events.\n` +
+      `Make sure to add a property \`events\` on ${zkapp.constructor.name}, for example: \n` +
+      `class ${zkapp.constructor.name} extends SmartContract {\n` +
+      `  events = { 'my-event': Field }\n` +
+      `}\n` +
+      `Or, if you want to access the events from the zkapp account ${zkapp.address.toBase58()} without casting their types\n` +
+      `then try Mina.fetchEvents('${zkapp.address.toBase58()}') instead.`
+  );
+}
+
+function decodeEvent(
+  events: SmartContract['events'],
+  sortedEventTypes: string[],
+  {
+    event: { data, transactionInfo },
+    ...block
+  }: Omit<ContractEvent, 'type' | 'event'> & { event: FetchedEvent }
+): ContractEvent {
+  let type: string;
+  // if there is only one event type, the event structure has no index and can directly be matched to the event type
+  if (sortedEventTypes.length === 1) {
+    type = sortedEventTypes[0];
+  } else {
+    // if there are multiple events we have to use the index event[0] to find the exact event type
+    type = sortedEventTypes[Number(data[0])];
+    // all other elements of the array are values used to construct the original object, we can drop the first value since its just an index
+    data = data.slice(1);
+  }
+  return {
+    ...block,
+    type,
+    event: {
+      data: events[type].fromFields(data.map((f: string) => Field(f))),
+      transactionInfo: {
+        transactionHash: transactionInfo.hash,
+        transactionStatus: transactionInfo.status,
+        transactionMemo: transactionInfo.memo,
+      },
+    },
+  };
+}
+
 // per-smart-contract context for transaction construction
 type ExecutionState = {
   transactionId: number;
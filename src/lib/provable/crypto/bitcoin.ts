@@ -0,0 +1,179 @@
+/**
+ * Bitcoin public key hashes and addresses, for keys on secp256k1
+ */
+import { Field } from '../wrapped.js';
+import { UInt8 } from '../int.js';
+import { Bytes, FlexibleBytes, createBytes } from '../bytes.js';
+import { DynamicBytesBase } from '../dynamic-bytes.js';
+import { AlmostForeignField } from '../foreign-field.js';
+import { ForeignCurve } from './foreign-curve.js';
+import { SHA256 } from '../gadgets/sha256.js';
+import { RIPEMD160 } from '../gadgets/ripemd160.js';
+import { wordToBytes } from '../gadgets/bit-slices.js';
+import { assert } from '../gadgets/common.js';
+import { toBase58Check } from '../../util/base58.js';
+
+// external API
+export { Bitcoin };
+
+// internal API
+export { hash160, bech32Encode };
+
+class Bytes20 extends createBytes(20) {}
+class Bytes25 extends createBytes(25) {}
+class Bytes33 extends createBytes(33) {}
+
+/**
+ * `Hash160(data) = RIPEMD160(SHA256(data))`, the hash used for Bitcoin public keys and scripts.
+ */
+function hash160(data: FlexibleBytes | DynamicBytesBase): Bytes {
+  return RIPEMD160.hash(SHA256.hash(data));
+}
+
+/**
+ * Encodes a public key as 33 bytes, the sign of y (0x02 if y is even, 0x03 if it's odd) followed by x in big endian.
+ */
+function compressedPublicKey(publicKey: ForeignCurve): Bytes {
+  let x = toBytesBE(publicKey.x);
+  let y = toBytesBE(publicKey.y);
+  let [isOdd] = y[31].value.toBits(8);
+  let prefix = UInt8.Unsafe.fromField(isOdd.toField().add(2));
+  return Bytes33.from([prefix, ...x]);
+}
+
+/**
+ * Returns the 32-byte big-endian encoding of a field element, and proves that it is canonical.
+ */
+function toBytesBE(x: AlmostForeignField): UInt8[] {
+  assert(
+    x.Constructor.sizeInBits <= 256,
+    'Bitcoin: expected a curve over a field of at most 256 bits'
+  );
+  let [x0, x1, x2] = x.assertCanonical().value;
+  let bytes = [x0, x1, x2].flatMap((limb) => wordToBytes(limb, 11));
+
+  // canonical elements are less than 2^256, so the 33rd byte is zero
+  bytes[32].value.assertEquals(0);
+  return bytes.slice(0, 32).reverse();
+}
+
+/**
+ * Payload of a legacy pay-to-public-key-hash (P2PKH) address, as 25 bytes:
+ * the version byte, the Hash160 of the compressed public key, and a 4-byte checksum.
+ */
+function p2pkhPayload(
+  publicKey: ForeignCurve,
+  { version = 0x00 }: { version?: number } = {}
+): Bytes {
+  let versioned = [
+    UInt8.from(version),
+    ...hash160(compressedPublicKey(publicKey)).bytes,
+  ];
+  let checksum = SHA256.hash(SHA256.hash(versioned)).bytes.slice(0, 4);
+  return Bytes25.from([...versioned, ...checksum]);
+}
+
+/**
+ * Data part of a native segwit pay-to-witness-public-key-hash (P2WPKH) address, as 33 values of 5 bits:
+ * the witness version 0, followed by the Hash160 of the compressed public key in groups of 5 bits.
+ *
+ * These are the values that the bech32 characters of the address encode, before the checksum.
+ */
+function p2wpkhPayload(publicKey: ForeignCurve): Bytes {
+  let program = hash160(compressedPublicKey(publicKey));
+
+  // big-endian bits of the program, regrouped into big-endian 5-bit values
+  let bits = program.bytes.flatMap((b) => b.value.toBits(8).reverse());
+  let words = Array.from({ length: 32 }, (_, i) =>
+    UInt8.Unsafe.fromField(
+      Field.fromBits(bits.slice(5 * i, 5 * i + 5).reverse())
+    )
+  );
+  return Bytes33.from([UInt8.from(0), ...words]);
+}
+
+const Bitcoin = {
+  hash160,
+  compressedPublicKey,
+  p2pkhPayload,
+  p2wpkhPayload,
+
+  /**
+   * Encodes a 20-byte public key hash as a legacy Base58Check address.
+   *
+   * This only works outside provable code.
+   */
+  toLegacyAddress(
+    pubKeyHash: Bytes | Uint8Array,
+    { version = 0x00 }: { version?: number } = {}
+  ): string {
+    return toBase58Check(Bytes20.from(pubKeyHash).toBytes(), version);
+  },
+
+  /**
+   * Encodes a 20-byte public key hash as a native segwit (bech32, witness version 0) address.
+   *
+   * This only works outside provable code.
+   */
+  toSegwitAddress(
+    pubKeyHash: Bytes | Uint8Array,
+    { hrp = 'bc' }: { hrp?: string } = {}
+  ): string {
+    let program = [...Bytes20.from(pubKeyHash).toBytes()];
+    return bech32Encode(hrp, [0, ...convertBits(program, 8, 5)]);
+  },
+};
+
+// bech32, as specified in BIP-173
+
+const bech32Charset = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+function bech32Polymod(values: number[]) {
+  const generator = [
+    0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+  ];
+  let checksum = 1;
+  for (let value of values) {
+    let top = checksum >> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >> i) & 1) checksum ^= generator[i];
+    }
+  }
+  return checksum;
+}
+
+function bech32Encode(hrp: string, data: number[]) {
+  let expandedHrp = [
+    ...[...hrp].map((c) => c.charCodeAt(0) >> 5),
+    0,
+    ...[...hrp].map((c) => c.charCodeAt(0) & 31),
+  ];
+  let polymod = bech32Polymod([...expandedHrp, ...data, 0, 0, 0, 0, 0, 0]) ^ 1;
+  let checksum = Array.from(
+    { length: 6 },
+    (_, i) => (polymod >> (5 * (5 - i))) & 31
+  );
+  return (
+    hrp + '1' + [...data, ...checksum].map((x) => bech32Charset[x]).join('')
+  );
+}
+
+/**
+ * Regroups big-endian values of `from` bits into values of `to` bits, padding the last one with zeros.
+ */
+function convertBits(data: number[], from: number, to: number) {
+  let acc = 0;
+  let bits = 0;
+  let result: number[] = [];
+  for (let value of data) {
+    acc = ((acc << from) | value) & ((1 << (from + to)) - 1);
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((acc >> bits) & ((1 << to) - 1));
+    }
+  }
+  if (bits > 0) result.push((acc << (to - bits)) & ((1 << to) - 1));
+  return result;
+}
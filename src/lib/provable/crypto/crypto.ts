@@ -3,6 +3,9 @@ import {
   CurveAffine,
   createCurveAffine,
 } from '../../../bindings/crypto/elliptic-curve.js';
+import { Rsa } from './rsa.js';
+import { Ed25519 } from './ed25519.js';
+import { Bitcoin } from './bitcoin.js';
 
 // crypto namespace
 const Crypto = {
@@ -17,6 +20,43 @@ const Crypto = {
    * y^2 = x^3 + ax + b
    */
   CurveParams: CurveParams_,
+  /**
+   * Create classes for RSA signature verification with 2048- or 4096-bit keys,
+   * supporting PKCS#1 v1.5 and PSS signatures with SHA-256.
+   *
+   * @example
+   * ```ts
+   * class Rsa2048 extends Crypto.RSA(2048) {}
+   *
+   * let publicKey = Rsa2048.PublicKey.fromPem(pem);
+   * let signature = Rsa2048.fromBytes(signatureBytes);
+   * signature.verify(message, publicKey).assertTrue();
+   * ```
+   */
+  RSA: Rsa,
+  /**
+   * EdDSA signature verification over Ed25519, as used by Solana, SSH and many other systems.
+   *
+   * @example
+   * ```ts
+   * let publicKey = Crypto.Ed25519.PublicKey.fromHex(publicKeyHex);
+   * let signature = Crypto.Ed25519.Signature.fromHex(signatureHex);
+   * signature.verify(message, publicKey).assertTrue();
+   * ```
+   */
+  Ed25519,
+  /**
+   * Bitcoin public key hashes and address payloads for secp256k1 public keys, given as {@link ForeignCurve} points.
+   *
+   * @example
+   * ```ts
+   * class Secp256k1 extends createForeignCurve(Crypto.CurveParams.Secp256k1) {}
+   *
+   * let publicKey = Provable.witness(Secp256k1, () => Secp256k1.from(point));
+   * let payload = Crypto.Bitcoin.p2wpkhPayload(publicKey);
+   * ```
+   */
+  Bitcoin,
 };
 
 namespace Crypto {
@@ -0,0 +1,310 @@
+/**
+ * EdDSA signatures over Ed25519, as specified in RFC 8032
+ */
+import { Bool } from '../bool.js';
+import { Field } from '../field.js';
+import { UInt8 } from '../int.js';
+import { Bytes, createBytes } from '../bytes.js';
+import { Provable } from '../provable.js';
+import { Struct } from '../types/struct.js';
+import { exists } from '../core/exists.js';
+import { Field3, ForeignField, split } from '../gadgets/foreign-field.js';
+import { EllipticCurve, Point } from '../gadgets/elliptic-curve.js';
+import {
+  multiRangeCheck,
+  rangeCheckLessThan16,
+} from '../gadgets/range-check.js';
+import { bytesToWord } from '../gadgets/bit-slices.js';
+import { SHA512 } from '../gadgets/sha512.js';
+import { assert } from '../gadgets/common.js';
+import { createField, mod } from '../../../bindings/crypto/finite-field.js';
+import {
+  bigIntToBits,
+  bytesToBigInt,
+} from '../../../bindings/crypto/bigint-helpers.js';
+import {
+  GroupAffine,
+  createCurveAffine,
+} from '../../../bindings/crypto/elliptic-curve.js';
+
+// external API
+export { Ed25519 };
+
+// internal API
+export { Ed25519Curve, toWeierstrass };
+
+/**
+ * The Ed25519 base field modulus, 2^255 - 19
+ */
+const p = (1n << 255n) - 19n;
+/**
+ * The order of the Ed25519 prime-order subgroup
+ */
+const l = (1n << 252n) + 27742317777372353535851937790883648493n;
+
+const Fp = createField(p);
+
+// twisted Edwards curve -x^2 + y^2 = 1 + d*x^2*y^2
+const d = Fp.div(Fp.negate(121665n), 121666n)!;
+const basePoint = {
+  x: 15112221349535400772501151409588531511454012693041857206046113283949847762202n,
+  y: Fp.div(4n, 5n)!,
+};
+
+// the birationally equivalent Montgomery curve v^2 = u^3 + A*u^2 + u
+// is isomorphic to the short Weierstrass curve Y^2 = X^3 + a*X + b, with X = u + A/3 and Y = v
+const A = 486662n;
+const aOver3 = Fp.div(A, 3n)!;
+const c = Fp.sqrt(Fp.negate(A + 2n))!;
+
+/**
+ * Maps an Edwards point (x, y) to the Weierstrass curve, via u = (1 + y)/(1 - y) and v = c*u/x.
+ *
+ * The map is defined for all points except the identity and the point of order 2, which have x = 0.
+ */
+function toWeierstrass({ x, y }: { x: bigint; y: bigint }) {
+  let u = Fp.div(Fp.add(1n, y), Fp.sub(1n, y))!;
+  return { x: Fp.add(u, aOver3), y: Fp.div(Fp.mul(c, u), x)! };
+}
+
+/**
+ * Ed25519 in short Weierstrass form, which lets us reuse the elliptic curve gadgets for scalar multiplication.
+ */
+const Ed25519Curve = createCurveAffine({
+  name: 'Wei25519',
+  modulus: p,
+  order: l,
+  cofactor: 8n,
+  generator: toWeierstrass(basePoint),
+  a: Fp.sub(1n, Fp.mul(A, aOver3)),
+  b: Fp.mul(aOver3, Fp.sub(Fp.mul(Fp.mul(2n, aOver3), aOver3), 1n)),
+});
+
+// the default scaling uses projective doubling, which is only implemented for a = 0 and a = -3,
+// so we replace it with affine double-and-add
+Ed25519Curve.scale = function (g: GroupAffine, s: bigint | boolean[]) {
+  let bits = typeof s === 'bigint' ? bigIntToBits(s) : s;
+  let h: GroupAffine = Ed25519Curve.zero;
+  for (let i = 0; i < bits.length; i++) {
+    if (bits[i]) h = Ed25519Curve.add(h, g);
+    if (i < bits.length - 1) g = Ed25519Curve.double(g);
+  }
+  return h;
+};
+
+/**
+ * An Ed25519 public key, as 32 bytes encoding a curve point as defined in RFC 8032.
+ */
+class Ed25519PublicKey extends createBytes(32) {}
+
+class Bytes64 extends createBytes(64) {}
+
+/**
+ * An Ed25519 signature, as 64 bytes which hold the encoded point R and the scalar S.
+ */
+class Ed25519Signature extends Struct({ bytes: Provable.Array(UInt8, 64) }) {
+  /**
+   * Create an {@link Ed25519Signature} from its 64-byte encoding.
+   */
+  static from(
+    data: (UInt8 | bigint | number)[] | Uint8Array | Bytes
+  ): Ed25519Signature {
+    return new Ed25519Signature({ bytes: Bytes64.from(data).bytes });
+  }
+
+  /**
+   * Create an {@link Ed25519Signature} from a hex string.
+   */
+  static fromHex(hex: string): Ed25519Signature {
+    return new Ed25519Signature({ bytes: Bytes64.fromHex(hex).bytes });
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes.map((x) => x.toNumber()));
+  }
+
+  /**
+   * Verify the signature on a message with a public key, following RFC 8032 with the cofactorless
+   * verification equation `[S]B = R + [k]A`, where `k = SHA512(R || A || message)`.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the signature is valid.
+   * So, to actually prove validity of a signature, you need to assert that the result is true.
+   *
+   * @throws if the public key or R are not canonical encodings of curve points, if they encode a point with x = 0,
+   * or if S is not reduced modulo the group order.
+   *
+   * @example
+   * ```ts
+   * let publicKey = Ed25519.PublicKey.fromHex(publicKeyHex);
+   * let signature = Ed25519.Signature.fromHex(signatureHex);
+   *
+   * // in provable code
+   * signature.verify(Bytes32.fromString('hello'), publicKey).assertTrue();
+   * ```
+   */
+  verify(message: Bytes, publicKey: Bytes): Bool {
+    // constant case
+    if ([this, message, publicKey].every(isConstant)) {
+      let isValid = verifyEd25519Constant(
+        this.toBytes(),
+        message.toBytes(),
+        publicKey.toBytes()
+      );
+      return new Bool(isValid);
+    }
+
+    // provable case
+    let rBytes = this.bytes.slice(0, 32);
+    let sBytes = this.bytes.slice(32);
+    let R = decodePoint(rBytes);
+    let A = decodePoint(publicKey.bytes);
+
+    let s = bytesToField3(sBytes);
+    ForeignField.assertLessThan(s, l);
+
+    // k = SHA512(R || A || M) interpreted as a little-endian integer modulo l
+    let h = SHA512.hash([...rBytes, ...publicKey.bytes, ...message.bytes]);
+    let [h0, h1, h2] = [0, 31, 62].map((i) =>
+      bytesToField3(h.bytes.slice(i, i + 31))
+    );
+    let k = ForeignField.Sum(h0)
+      .add(ForeignField.mul(h1, Field3.from(mod(1n << 248n, l)), l))
+      .add(ForeignField.mul(h2, Field3.from(mod(1n << 496n, l)), l))
+      .finish(l);
+    k = ForeignField.toCanonical(k, l);
+
+    // [S]B - [k]A = R
+    let G = Point.from(Ed25519Curve.one);
+    let sum = EllipticCurve.multiScalarMul(
+      [s, k],
+      [G, EllipticCurve.negate(A, Ed25519Curve)],
+      Ed25519Curve,
+      [{ windowSize: 4 }, { windowSize: 3 }]
+    );
+    // note: the differences are only almost reduced, so a dishonest prover could make `equals()` return false,
+    // but not true for a wrong point
+    let xEquals = ForeignField.equals(ForeignField.sub(sum.x, R.x, p), 0n, p);
+    let yEquals = ForeignField.equals(ForeignField.sub(sum.y, R.y, p), 0n, p);
+    return xEquals.and(yEquals);
+  }
+}
+
+const Ed25519 = {
+  /**
+   * Class for Ed25519 public keys, which are 32 bytes.
+   *
+   * ```ts
+   * let publicKey = Ed25519.PublicKey.fromHex('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a');
+   * ```
+   */
+  PublicKey: Ed25519PublicKey,
+  /**
+   * Class for Ed25519 signatures, which are 64 bytes, with a `verify()` method.
+   */
+  Signature: Ed25519Signature,
+};
+
+function verifyEd25519Constant(
+  signature: Uint8Array,
+  message: Uint8Array,
+  publicKey: Uint8Array
+) {
+  let R = decodePointConstant(signature.slice(0, 32));
+  let A = decodePointConstant(publicKey);
+  let s = bytesToBigInt(signature.slice(32));
+  assert(s < l, 'Ed25519: S must be less than the group order');
+
+  let h = SHA512.hash([...signature.slice(0, 32), ...publicKey, ...message]);
+  let k = mod(bytesToBigInt(h.toBytes()), l);
+
+  let Curve = Ed25519Curve;
+  let sum = Curve.add(
+    Curve.scale(Curve.one, s),
+    Curve.negate(Curve.scale(Curve.from(A), k))
+  );
+  return Curve.equal(sum, Curve.from(R));
+}
+
+function decodePointConstant(bytes: Uint8Array) {
+  let sign = BigInt(bytes[31] >> 7);
+  let y = bytesToBigInt(bytes) & ((1n << 255n) - 1n);
+  assert(y < p, 'Ed25519: invalid point encoding');
+
+  let y2 = Fp.square(y);
+  let x = Fp.sqrt(Fp.div(Fp.sub(y2, 1n), Fp.add(Fp.mul(d, y2), 1n))!);
+  assert(x !== undefined && x !== 0n, 'Ed25519: invalid point encoding');
+  if ((x & 1n) !== sign) x = Fp.negate(x);
+  return toWeierstrass({ x, y });
+}
+
+/**
+ * Decodes a point from its encoding, the little-endian y coordinate with the sign of x in the top bit,
+ * and returns it in Weierstrass form.
+ */
+function decodePoint(bytes: UInt8[]): Point {
+  // split off the sign bit
+  let last = bytes[31].value;
+  let [sign, high] = exists(2, () => {
+    let b = last.toBigInt();
+    return [b >> 7n, b & 0x7fn];
+  });
+  sign.assertBool();
+  rangeCheckLessThan16(7, high);
+  high.add(sign.mul(0x80)).assertEquals(last);
+
+  let y = bytesToField3([...bytes.slice(0, 31), UInt8.Unsafe.fromField(high)]);
+  ForeignField.assertLessThan(y, p);
+
+  // recover x from x^2 = (y^2 - 1)/(d*y^2 + 1), with the given sign
+  let x = exists(3, () => {
+    let y_ = Field3.toBigint(y);
+    let y2 = Fp.square(y_);
+    let x2 = Fp.div(Fp.sub(y2, 1n), Fp.add(Fp.mul(d, y2), 1n))!;
+    let x_ = Fp.sqrt(x2);
+    assert(x_ !== undefined, 'Ed25519: invalid point encoding');
+    if ((x_ & 1n) !== sign.toBigInt()) x_ = Fp.negate(x_);
+    return split(x_);
+  });
+  multiRangeCheck(x);
+  ForeignField.assertLessThan(x, p);
+
+  let x2 = ForeignField.mul(x, x, p);
+  let y2 = ForeignField.mul(y, y, p);
+  let dy2 = ForeignField.mul(y2, Field3.from(d), p);
+  ForeignField.assertMul(
+    x2,
+    ForeignField.Sum(dy2).add(Field3.from(1n)),
+    ForeignField.Sum(y2).sub(Field3.from(1n)),
+    p,
+    'Ed25519: invalid point encoding'
+  );
+
+  // the parity of x is the sign bit
+  let [half] = exists(1, () => [x[0].toBigInt() >> 1n]);
+  multiRangeCheck([half, Field.from(0n), Field.from(0n)]);
+  half.mul(2).add(sign).assertEquals(x[0]);
+
+  // map to the Weierstrass curve
+  let one = Field3.from(1n);
+  let u = ForeignField.div(
+    ForeignField.add(one, y, p),
+    ForeignField.sub(one, y, p),
+    p
+  );
+  let X = ForeignField.add(u, Field3.from(aOver3), p);
+  let Y = ForeignField.div(ForeignField.mul(Field3.from(c), u, p), x, p);
+  ForeignField.assertAlmostReduced([X, Y], p);
+  return { x: X, y: Y };
+}
+
+function isConstant(bytes: { bytes: UInt8[] }) {
+  return bytes.bytes.every((b) => b.value.isConstant());
+}
+
+/**
+ * Converts up to 33 little-endian bytes to three 88-bit limbs.
+ */
+function bytesToField3(bytes: UInt8[]): Field3 {
+  assert(bytes.length <= 33, 'bytesToField3: expected at most 33 bytes');
+  return [0, 11, 22].map((i) => bytesToWord(bytes.slice(i, i + 11))) as Field3;
+}
@@ -1,7 +1,9 @@
 import { Gadgets } from '../gadgets/gadgets.js';
 import { Poseidon } from './poseidon.js';
 import { Keccak } from './keccak.js';
+import { Hmac, Hkdf } from './hmac.js';
 import { Bytes } from '../wrapped-classes.js';
+import { DynamicBytes } from '../dynamic-bytes.js';
 
 export { Hash };
 
@@ -49,6 +51,57 @@ const Hash = {
     hash: Gadgets.SHA256.hash,
   },
 
+  /**
+   * The SHA2 hash function with an output length of 384 bits.
+   */
+  SHA2_384: {
+    /**
+     * Hashes the given bytes using SHA2-384.
+     *
+     * This is an alias for `Gadgets.SHA384.hash(bytes)`.\
+     * See {@link Gadgets.SHA384.hash} for details and usage examples.
+     */
+    hash: Gadgets.SHA384.hash,
+  },
+
+  /**
+   * The SHA2 hash function with an output length of 512 bits.
+   */
+  SHA2_512: {
+    /**
+     * Hashes the given bytes using SHA2-512.
+     *
+     * This is an alias for `Gadgets.SHA512.hash(bytes)`.\
+     * See {@link Gadgets.SHA512.hash} for details and usage examples.
+     */
+    hash: Gadgets.SHA512.hash,
+  },
+
+  /**
+   * The RIPEMD hash function with an output length of 160 bits.
+   */
+  RIPEMD160: {
+    /**
+     * Hashes the given bytes using RIPEMD-160.
+     *
+     * This is an alias for `Gadgets.RIPEMD160.hash(bytes)`.\
+     * See {@link Gadgets.RIPEMD160.hash} for details and usage examples.
+     */
+    hash: Gadgets.RIPEMD160.hash,
+  },
+
+  /**
+   * SHA2-256 followed by RIPEMD-160, which Bitcoin uses to hash public keys and scripts.
+   */
+  Hash160: {
+    /**
+     * Hashes the given bytes using `RIPEMD160(SHA2_256(bytes))`.
+     */
+    hash(bytes: Bytes | DynamicBytes) {
+      return Gadgets.RIPEMD160.hash(Gadgets.SHA256.hash(bytes));
+    },
+  },
+
   /**
    * The SHA3 hash function with an output length of 256 bits.
    */
@@ -59,7 +112,7 @@ const Hash = {
      * This is an alias for `Keccak.nistSha3(256, bytes)`.\
      * See {@link Keccak.nistSha3} for details and usage examples.
      */
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Keccak.nistSha3(256, bytes);
     },
   },
@@ -74,7 +127,7 @@ const Hash = {
      * This is an alias for `Keccak.nistSha3(384, bytes)`.\
      * See {@link Keccak.nistSha3} for details and usage examples.
      */
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Keccak.nistSha3(384, bytes);
     },
   },
@@ -89,7 +142,7 @@ const Hash = {
      * This is an alias for `Keccak.nistSha3(512, bytes)`.\
      * See {@link Keccak.nistSha3} for details and usage examples.
      */
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Keccak.nistSha3(512, bytes);
     },
   },
@@ -104,7 +157,7 @@ const Hash = {
      * This is an alias for `Keccak.preNist(256, bytes)`.\
      * See {@link Keccak.preNist} for details and usage examples.
      */
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Keccak.preNist(256, bytes);
     },
   },
@@ -119,7 +172,7 @@ const Hash = {
      * This is an alias for `Keccak.preNist(384, bytes)`.\
      * See {@link Keccak.preNist} for details and usage examples.
      */
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Keccak.preNist(384, bytes);
     },
   },
@@ -134,14 +187,48 @@ const Hash = {
      * This is an alias for `Keccak.preNist(512, bytes)`.\
      * See {@link Keccak.preNist} for details and usage examples.
      */
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Keccak.preNist(512, bytes);
     },
   },
 
   BLAKE2B: {
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Gadgets.BLAKE2B.hash(bytes);
     },
   },
+
+  /**
+   * HMAC over SHA2-256, as specified in RFC 2104.
+   *
+   * ```ts
+   * let tag = Hash.HMAC_SHA2_256.compute(key, message);
+   * Hash.HMAC_SHA2_256.verify(key, message, tag).assertTrue();
+   * ```
+   */
+  HMAC_SHA2_256: Hmac.SHA2_256,
+
+  /**
+   * HMAC over SHA3-256, as specified in RFC 2104 with the SHA3-256 rate of 136 bytes as block size.
+   *
+   * See {@link Hash.HMAC_SHA2_256} for usage examples.
+   */
+  HMAC_SHA3_256: Hmac.SHA3_256,
+
+  /**
+   * The key derivation function HKDF over HMAC-SHA2-256, as specified in RFC 5869.
+   *
+   * ```ts
+   * let prk = Hash.HKDF_SHA2_256.extract(salt, sharedSecret);
+   * let key = Hash.HKDF_SHA2_256.expand(prk, Bytes.fromString('key'), 16);
+   * ```
+   */
+  HKDF_SHA2_256: Hkdf.SHA2_256,
+
+  /**
+   * The key derivation function HKDF over HMAC-SHA3-256, as specified in RFC 5869.
+   *
+   * See {@link Hash.HKDF_SHA2_256} for usage examples.
+   */
+  HKDF_SHA3_256: Hkdf.SHA3_256,
 };
@@ -0,0 +1,238 @@
+/**
+ * HMAC (RFC 2104) and HKDF (RFC 5869) on top of the provable hash functions.
+ */
+import { Bool, Field } from '../wrapped.js';
+import { UInt8 } from '../int.js';
+import { Bytes, FlexibleBytes, createBytes } from '../bytes.js';
+import { DynamicBytes, DynamicBytesBase } from '../dynamic-bytes.js';
+import { Provable } from '../provable.js';
+import { SHA256 } from '../gadgets/sha256.js';
+import { xor } from '../gadgets/bitwise.js';
+import { assert } from '../gadgets/common.js';
+import { Keccak } from './keccak.js';
+
+// external API
+export { Hmac, Hkdf };
+
+// internal API
+export { HashFunction, hmac, hkdfExtract, hkdfExpand };
+
+/**
+ * A hash function, together with the parameters that HMAC needs.
+ */
+type HashFunction = {
+  hash(data: Bytes | DynamicBytesBase): Bytes;
+  /**
+   * The block size in bytes, which is the rate for SHA-3.
+   */
+  blockSize: number;
+  /**
+   * The output size in bytes.
+   */
+  outputSize: number;
+};
+
+const SHA2_256: HashFunction = {
+  hash: (data) => SHA256.hash(data),
+  blockSize: 64,
+  outputSize: 32,
+};
+
+const SHA3_256: HashFunction = {
+  hash: (data) => Keccak.nistSha3(256, data),
+  blockSize: 136,
+  outputSize: 32,
+};
+
+/**
+ * Computes `HMAC(key, message) = H((key ^ opad) || H((key ^ ipad) || message))`.
+ *
+ * The key has a static length. The message can be {@link DynamicBytes}, in which case only the inner hash
+ * depends on its runtime length.
+ */
+function hmac(
+  H: HashFunction,
+  key: FlexibleBytes,
+  message: FlexibleBytes | DynamicBytesBase
+): Bytes {
+  let keyBytes = Bytes.from(key).bytes;
+
+  // keys longer than the block size are hashed, shorter keys are padded with zeros
+  if (keyBytes.length > H.blockSize)
+    keyBytes = H.hash(Bytes.from(keyBytes)).bytes;
+  let paddedKey = Array.from(
+    { length: H.blockSize },
+    (_, i) => keyBytes[i] ?? UInt8.from(0)
+  );
+
+  let innerKey = paddedKey.map((b) => xorByte(b, 0x36));
+  let outerKey = paddedKey.map((b) => xorByte(b, 0x5c));
+
+  let inner = H.hash(prepend(innerKey, message));
+  return H.hash(Bytes.from([...outerKey, ...inner.bytes]));
+}
+
+/**
+ * HKDF-Extract: derives a pseudorandom key from the input keying material.
+ *
+ * If no salt is given, a string of zeros of the hash output size is used.
+ */
+function hkdfExtract(
+  H: HashFunction,
+  salt: FlexibleBytes | undefined,
+  ikm: FlexibleBytes | DynamicBytesBase
+): Bytes {
+  return hmac(H, salt ?? new Uint8Array(H.outputSize), ikm);
+}
+
+/**
+ * HKDF-Expand: expands a pseudorandom key to `length` bytes of output keying material, bound to `info`.
+ */
+function hkdfExpand(
+  H: HashFunction,
+  prk: FlexibleBytes,
+  info: FlexibleBytes,
+  length: number
+): Bytes {
+  assert(
+    Number.isInteger(length) && length >= 0 && length <= 255 * H.outputSize,
+    `HKDF: length must be at most ${255 * H.outputSize}, got ${length}`
+  );
+  let infoBytes = Bytes.from(info).bytes;
+
+  // T(i) = HMAC(prk, T(i - 1) || info || i), and the output is T(1) || T(2) || ...
+  let okm: UInt8[] = [];
+  let t: UInt8[] = [];
+  for (let i = 1; okm.length < length; i++) {
+    t = hmac(H, prk, [...t, ...infoBytes, UInt8.from(i)]).bytes;
+    okm.push(...t);
+  }
+  return createBytes(length).from(okm.slice(0, length));
+}
+
+function xorByte(b: UInt8, mask: number) {
+  if (b.value.isConstant()) return UInt8.from(b.toBigInt() ^ BigInt(mask));
+  return UInt8.Unsafe.fromField(xor(b.value, Field(mask), 8));
+}
+
+/**
+ * Returns `prefix || message`, keeping a dynamic length if the message has one.
+ */
+function prepend(
+  prefix: UInt8[],
+  message: FlexibleBytes | DynamicBytesBase
+): Bytes | DynamicBytesBase {
+  if (!(message instanceof DynamicBytesBase)) {
+    return Bytes.from([...prefix, ...Bytes.from(message).bytes]);
+  }
+  // the prefix has a constant length, so no switching is needed to concatenate
+  let Concatenated = DynamicBytes({
+    capacity: prefix.length + message.capacity,
+  });
+  return new Concatenated({
+    array: [...prefix, ...message.array],
+    length: message.length.add(prefix.length),
+  });
+}
+
+function createHmac(H: HashFunction) {
+  return {
+    /**
+     * Computes the HMAC tag of a message under the given key.
+     *
+     * The key is a static-length {@link Bytes}, the message can be {@link Bytes} or {@link DynamicBytes}.
+     * Alternatively, you can pass plain `number[]` or `Uint8Array` to compute the tag outside provable code.
+     */
+    compute(
+      key: FlexibleBytes,
+      message: FlexibleBytes | DynamicBytesBase
+    ): Bytes {
+      return hmac(H, key, message);
+    },
+
+    /**
+     * Checks whether `tag` is the HMAC tag of the message under the given key.
+     *
+     * **Important:** This method returns a {@link Bool}. To prove that the tag is valid, you need to assert that the result is true.
+     */
+    verify(
+      key: FlexibleBytes,
+      message: FlexibleBytes | DynamicBytesBase,
+      tag: FlexibleBytes
+    ): Bool {
+      let expected = hmac(H, key, message);
+      let Tag = createBytes(H.outputSize);
+      return Provable.equal(Tag, Tag.from(tag), expected);
+    },
+  };
+}
+
+function createHkdf(H: HashFunction) {
+  return {
+    /**
+     * HKDF-Extract, which derives a pseudorandom key from input keying material and an optional salt.
+     */
+    extract(
+      salt: FlexibleBytes | undefined,
+      ikm: FlexibleBytes | DynamicBytesBase
+    ): Bytes {
+      return hkdfExtract(H, salt, ikm);
+    },
+
+    /**
+     * HKDF-Expand, which expands a pseudorandom key to `length` bytes bound to `info`.
+     */
+    expand(prk: FlexibleBytes, info: FlexibleBytes, length: number): Bytes {
+      return hkdfExpand(H, prk, info, length);
+    },
+
+    /**
+     * Derives `length` bytes of keying material, by applying HKDF-Extract followed by HKDF-Expand.
+     *
+     * ```ts
+     * let key = Hash.HKDF_SHA2_256.derive(sharedSecret, {
+     *   info: Bytes.fromString('tls13 key'),
+     *   length: 16,
+     * });
+     * ```
+     */
+    derive(
+      ikm: FlexibleBytes | DynamicBytesBase,
+      {
+        salt,
+        info = [],
+        length,
+      }: { salt?: FlexibleBytes; info?: FlexibleBytes; length: number }
+    ): Bytes {
+      return hkdfExpand(H, hkdfExtract(H, salt, ikm), info, length);
+    },
+  };
+}
+
+/**
+ * HMAC message authentication codes, as specified in RFC 2104.
+ */
+const Hmac = {
+  /**
+   * HMAC over SHA2-256.
+   */
+  SHA2_256: createHmac(SHA2_256),
+  /**
+   * HMAC over SHA3-256.
+   */
+  SHA3_256: createHmac(SHA3_256),
+};
+
+/**
+ * The HMAC-based key derivation function HKDF, as specified in RFC 5869.
+ */
+const Hkdf = {
+  /**
+   * HKDF over SHA2-256.
+   */
+  SHA2_256: createHkdf(SHA2_256),
+  /**
+   * HKDF over SHA3-256.
+   */
+  SHA3_256: createHkdf(SHA3_256),
+};
@@ -1,10 +1,13 @@
 import { Field } from '../field.js';
+import { Bool } from '../bool.js';
 import { Gadgets } from '../gadgets/gadgets.js';
 import { assert } from '../../util/errors.js';
 import { FlexibleBytes } from '../bytes.js';
 import { UInt8 } from '../int.js';
 import { Bytes } from '../wrapped-classes.js';
 import { bytesToWords, wordsToBytes } from '../gadgets/bit-slices.js';
+import { Provable } from '../provable.js';
+import { DynamicBytesBase, lastBlockMask } from '../dynamic-bytes.js';
 
 export { Keccak };
 
@@ -17,6 +20,7 @@ const Keccak = {
    *
    * The function accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
    * Alternatively, you can pass plain `number[]` of `Uint8Array` to perform a hash outside provable code.
+   * Messages whose length is only known at runtime can be passed as {@link DynamicBytes}; they are padded at their provable length.
    *
    * Produces an output of {@link Bytes} that conforms to the chosen bit length.
    * Both input and output bytes are big-endian.
@@ -32,8 +36,8 @@ const Keccak = {
    * ```
    *
    */
-  nistSha3(len: 256 | 384 | 512, message: FlexibleBytes) {
-    return nistSha3(len, Bytes.from(message));
+  nistSha3(len: 256 | 384 | 512, message: FlexibleBytes | DynamicBytesBase) {
+    return nistSha3(len, fromFlexible(message));
   },
   /**
    * Ethereum-Compatible Keccak-256 Hash Function.
@@ -43,6 +47,7 @@ const Keccak = {
    *
    * The function accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
    * Alternatively, you can pass plain `number[]` of `Uint8Array` to perform a hash outside provable code.
+   * Messages whose length is only known at runtime can be passed as {@link DynamicBytes}; they are padded at their provable length.
    *
    * Produces an output of {@link Bytes} of length 32. Both input and output bytes are big-endian.
    *
@@ -53,8 +58,8 @@ const Keccak = {
    * let digest = Keccak.ethereum(preimage);
    * ```
    */
-  ethereum(message: FlexibleBytes) {
-    return ethereum(Bytes.from(message));
+  ethereum(message: FlexibleBytes | DynamicBytesBase) {
+    return ethereum(fromFlexible(message));
   },
   /**
    * Implementation of [pre-NIST Keccak](https://keccak.team/keccak.html) hash function.
@@ -67,6 +72,7 @@ const Keccak = {
    *
    * {@link Keccak.preNist} accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
    * Alternatively, you can pass plain `number[]` of `Uint8Array` to perform a hash outside provable code.
+   * Messages whose length is only known at runtime can be passed as {@link DynamicBytes}; they are padded at their provable length.
    *
    * Produces an output of {@link Bytes} that conforms to the chosen bit length.
    * Both input and output bytes are big-endian.
@@ -82,8 +88,8 @@ const Keccak = {
    * ```
    *
    */
-  preNist(len: 256 | 384 | 512, message: FlexibleBytes) {
-    return preNist(len, Bytes.from(message));
+  preNist(len: 256 | 384 | 512, message: FlexibleBytes | DynamicBytesBase) {
+    return preNist(len, fromFlexible(message));
   },
 };
 
@@ -185,6 +191,37 @@ function pad(message: UInt8[], rate: number, nist: boolean): UInt8[] {
   return [...message, ...pad];
 }
 
+// Pads a message with a provable length like `pad()`, to the number of blocks needed for the longest possible message.
+// Also returns a mask which marks the block that ends the padding of the actual message.
+function padDynamic(
+  message: DynamicBytesBase,
+  rate: number,
+  nist: boolean
+): { padded: UInt8[]; isLastBlock: Bool[] } {
+  let { capacity, length } = message;
+
+  // the padding needs at least one byte, so the last block k satisfies k*rate <= length < (k+1)*rate
+  let isLastBlock = lastBlockMask(message, (k) => k * rate);
+  let inMessage = message.lengthMask();
+
+  const first = nist ? 0x06n : 0x01n;
+  const last = 0x80n;
+
+  // the message bytes, the first padding byte at position `length` and the last one at the end of the last block
+  // are at distinct positions, except if there is only one padding byte, in which case they are added together
+  let padded = Array.from({ length: isLastBlock.length * rate }, (_, i) => {
+    let byte = Field.from(0);
+    if (i < capacity) byte = message.array[i].value.mul(inMessage[i].toField());
+    if (i <= capacity) byte = byte.add(length.equals(i).toField().mul(first));
+    if (i % rate === rate - 1) {
+      let k = Math.floor(i / rate);
+      byte = byte.add(isLastBlock[k].toField().mul(last));
+    }
+    return UInt8.Unsafe.fromField(byte);
+  });
+  return { padded, isLastBlock };
+}
+
 // ROUND TRANSFORMATION
 
 // First algorithm in the compression step of Keccak for 64-bit words.
@@ -341,18 +378,58 @@ function absorb(
   for (let idx = 0; idx < paddedMessage.length; idx += rate) {
     // split into blocks of rate words
     const block = paddedMessage.slice(idx, idx + rate);
-    // pad the block with 0s to up to KECCAK_STATE_LENGTH_WORDS words
-    const paddedBlock = block.concat(zeros);
-    // convert the padded block to a Keccak state
-    const blockState = State.fromWords(paddedBlock);
-    // xor the state with the padded block
-    const stateXor = State.xor(state, blockState);
-    // apply the permutation function to the xored state
-    state = permutation(stateXor, rc);
+    state = absorbBlock(state, block, zeros, rc);
   }
   return state;
 }
 
+// Absorb a padded message with a provable length, where `isLastBlock` marks the block that ends the padding.
+// The state is computed after every block, and the one after the last block is selected.
+function absorbDynamic(
+  paddedMessage: Field[],
+  isLastBlock: Bool[],
+  capacity: number,
+  rate: number,
+  rc: bigint[]
+): State {
+  assert(
+    paddedMessage.length === isLastBlock.length * rate,
+    'invalid padded message length (should be one block per mask entry)'
+  );
+
+  let state = State.zeros();
+  const zeros = Array(capacity).fill(Field.from(0));
+  const states: State[] = [];
+
+  for (let idx = 0; idx < paddedMessage.length; idx += rate) {
+    const block = paddedMessage.slice(idx, idx + rate);
+    state = absorbBlock(state, block, zeros, rc);
+    states.push(state);
+  }
+  const StateType = Provable.Array(
+    Provable.Array(Field, KECCAK_DIM),
+    KECCAK_DIM
+  );
+  return Provable.switch(isLastBlock, StateType, states);
+}
+
+// Absorb one block of rate words into the state
+function absorbBlock(
+  state: State,
+  block: Field[],
+  zeros: Field[],
+  rc: bigint[]
+): State {
+  // pad the block with 0s to up to KECCAK_STATE_LENGTH_WORDS words
+  const paddedBlock = block.concat(zeros);
+  // convert the padded block to a Keccak state
+  const blockState = State.fromWords(paddedBlock);
+  // xor the state with the padded block
+  const stateXor = State.xor(state, blockState);
+  // apply the permutation function to the xored state
+  return permutation(stateXor, rc);
+}
+
 // Squeeze state until it has a desired length in words
 function squeeze(state: State, length: number, rate: number): Field[] {
   // number of squeezes
@@ -389,7 +466,7 @@ function sponge(
 // - the 10*1 pad will take place after the message, until reaching the bit length rate.
 // - then, {0} pad will take place to finish the 200 bytes of the state.
 function hash(
-  message: Bytes,
+  message: Bytes | DynamicBytesBase,
   length: number,
   capacity: number,
   nistVersion: boolean
@@ -410,6 +487,23 @@ function hash(
 
   const rate = KECCAK_STATE_LENGTH_WORDS - capacity;
 
+  // a message with a provable length is padded at its runtime length
+  if (message instanceof DynamicBytesBase) {
+    const { padded, isLastBlock } = padDynamic(
+      message,
+      rate * BYTES_PER_WORD,
+      nistVersion
+    );
+    const state = absorbDynamic(
+      bytesToWords(padded),
+      isLastBlock,
+      capacity,
+      rate,
+      ROUND_CONSTANTS
+    );
+    return wordsToBytes(squeeze(state, length, rate));
+  }
+
   // apply padding, convert to words, and hash
   const paddedBytes = pad(message.bytes, rate * BYTES_PER_WORD, nistVersion);
   const padded = bytesToWords(paddedBytes);
@@ -421,20 +515,26 @@ function hash(
 }
 
 // Gadget for NIST SHA-3 function for output lengths 256/384/512.
-function nistSha3(len: 256 | 384 | 512, message: Bytes): Bytes {
+function nistSha3(
+  len: 256 | 384 | 512,
+  message: Bytes | DynamicBytesBase
+): Bytes {
   let bytes = hash(message, len / 8, len / 4, true);
   return BytesOfBitlength[len].from(bytes);
 }
 
 // Gadget for pre-NIST SHA-3 function for output lengths 256/384/512.
 // Note that when calling with output length 256 this is equivalent to the ethereum function
-function preNist(len: 256 | 384 | 512, message: Bytes): Bytes {
+function preNist(
+  len: 256 | 384 | 512,
+  message: Bytes | DynamicBytesBase
+): Bytes {
   let bytes = hash(message, len / 8, len / 4, false);
   return BytesOfBitlength[len].from(bytes);
 }
 
 // Gadget for Keccak hash function for the parameters used in Ethereum.
-function ethereum(message: Bytes): Bytes {
+function ethereum(message: Bytes | DynamicBytesBase): Bytes {
   return preNist(256, message);
 }
 
@@ -507,6 +607,10 @@ const BytesOfBitlength = {
   512: Bytes64,
 };
 
+function fromFlexible(message: FlexibleBytes | DynamicBytesBase) {
+  return message instanceof DynamicBytesBase ? message : Bytes.from(message);
+}
+
 // xor which avoids doing anything on 0 inputs
 // (but doesn't range-check the other input in that case)
 function xor(x: Field, y: Field): Field {
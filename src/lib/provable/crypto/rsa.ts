@@ -0,0 +1,538 @@
+/**
+ * RSA signature verification, with PKCS#1 v1.5 and PSS encodings over SHA-256
+ */
+import { Bool, Field } from '../wrapped.js';
+import { UInt8 } from '../int.js';
+import { Bytes, createBytes } from '../bytes.js';
+import { Provable } from '../provable.js';
+import { Struct } from '../types/struct.js';
+import { ProvableType } from '../types/provable-intf.js';
+import { DynamicBytesBase } from '../dynamic-bytes.js';
+import { SHA256 } from '../gadgets/sha256.js';
+import { xor } from '../gadgets/bitwise.js';
+import { assert } from '../gadgets/common.js';
+import { rangeCheck64, rangeCheckLessThan16 } from '../gadgets/range-check.js';
+import {
+  bytesToBigInt,
+  bigIntToBytes,
+} from '../../../bindings/crypto/bigint-helpers.js';
+
+// external API
+export { Rsa };
+
+// internal API
+export { parseRsaPublicKey };
+
+type RsaBits = 2048 | 4096;
+
+const LIMB_BITS = 116n;
+const LIMB_MASK = (1n << LIMB_BITS) - 1n;
+
+const PUBLIC_EXPONENT = 65537n;
+
+// DER encoding of the SHA-256 AlgorithmIdentifier, which precedes the hash in a PKCS#1 v1.5 signature
+// prettier-ignore
+const SHA256_DIGEST_INFO = [
+  0x30, 0x31, 0x30, 0x0d, 0x06, 0x09, 0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04, 0x02, 0x01, 0x05, 0x00, 0x04, 0x20,
+];
+const HASH_LENGTH = 32;
+
+/**
+ * Create classes for RSA signatures with keys of the given bit size, which can be 2048 or 4096.
+ * Only the public exponent e = 65537 is supported, which is used by virtually all RSA keys.
+ *
+ * The returned class represents a signature, and has the public key class attached as `PublicKey`.
+ * Both are stored as 116-bit limbs, so they can be used as method inputs.
+ *
+ * ```ts
+ * class Rsa2048 extends Crypto.RSA(2048) {}
+ *
+ * // outside provable code: create inputs
+ * let publicKey = Rsa2048.PublicKey.fromPem(pem);
+ * let signature = Rsa2048.fromBytes(signatureBytes);
+ *
+ * // in provable code: verify the signature on a message
+ * signature.verify(message, publicKey).assertTrue();
+ * signature.verifyPss(message, publicKey).assertTrue();
+ * ```
+ */
+function Rsa(bits: RsaBits) {
+  assert(
+    bits === 2048 || bits === 4096,
+    `RSA: unsupported key size ${bits}, expected 2048 or 4096`
+  );
+  const byteLength = bits / 8;
+
+  class Bigint extends RsaBigint(bits) {}
+
+  class PublicKey extends Struct({ modulus: Bigint }) {
+    /**
+     * Create a public key from its modulus, which has to be exactly `bits` bits long.
+     */
+    static fromModulus(modulus: bigint) {
+      assert(
+        modulus >> BigInt(bits - 1) === 1n,
+        `RSA: expected a ${bits}-bit modulus`
+      );
+      return new PublicKey({ modulus: Bigint.from(modulus) });
+    }
+
+    /**
+     * Parse a DER-encoded public key, either as SubjectPublicKeyInfo (X.509) or as PKCS#1 RSAPublicKey.
+     */
+    static fromDer(der: Uint8Array) {
+      let { modulus, exponent } = parseRsaPublicKey(der);
+      assert(
+        exponent === PUBLIC_EXPONENT,
+        `RSA: unsupported public exponent ${exponent}, expected ${PUBLIC_EXPONENT}`
+      );
+      return PublicKey.fromModulus(modulus);
+    }
+
+    /**
+     * Parse a PEM-encoded public key, with either a `PUBLIC KEY` or an `RSA PUBLIC KEY` header.
+     */
+    static fromPem(pem: string) {
+      let match = pem.match(
+        /-----BEGIN (RSA )?PUBLIC KEY-----([^-]*)-----END (RSA )?PUBLIC KEY-----/
+      );
+      assert(match !== null, 'RSA: invalid PEM public key');
+      let base64 = match[2].replace(/\s/g, '');
+      return PublicKey.fromDer(
+        Uint8Array.from(atob(base64), (c) => c.charCodeAt(0))
+      );
+    }
+  }
+
+  class EncodedMessage extends createBytes(byteLength) {}
+
+  /**
+   * signature^65537 mod n
+   */
+  function power65537(signature: Bigint, publicKey: PublicKey) {
+    let n = publicKey.modulus;
+    let x = signature;
+    for (let i = 0; i < 16; i++) {
+      x = n.modSquare(x);
+    }
+    return n.modMul(x, signature);
+  }
+
+  class RsaSignature extends Bigint {
+    static PublicKey = PublicKey;
+
+    /**
+     * The integer type which signatures and moduli are stored as, with 116-bit limbs and modular multiplication.
+     */
+    static Bigint = Bigint;
+
+    /**
+     * The size of the modulus in bits.
+     */
+    static bits = bits;
+
+    /**
+     * Create a signature from a bigint.
+     */
+    static from(x: bigint) {
+      return new RsaSignature(Bigint.from(x));
+    }
+
+    /**
+     * Create a signature from its big-endian byte representation, as output by common RSA libraries.
+     */
+    static fromBytes(bytes: Uint8Array | number[]) {
+      assert(
+        bytes.length === byteLength,
+        `RSA: expected a signature of ${byteLength} bytes, got ${bytes.length}`
+      );
+      return RsaSignature.from(bytesToBigInt([...bytes].reverse()));
+    }
+
+    /**
+     * Verify a PKCS#1 v1.5 signature (RSASSA-PKCS1-v1_5) with SHA-256 on the given message.
+     *
+     * The signature has to be less than the modulus, so that it has a unique representation.
+     *
+     * **Important:** This method returns a {@link Bool} which indicates whether the signature is valid.
+     * So, to actually prove validity of a signature, you need to assert that the result is true.
+     */
+    verify(message: Bytes | DynamicBytesBase, publicKey: PublicKey): Bool {
+      let hash = SHA256.hash(message).bytes;
+      let padding = Array<number>(
+        byteLength - SHA256_DIGEST_INFO.length - HASH_LENGTH - 3
+      ).fill(0xff);
+      let expected = [0x00, 0x01, ...padding, 0x00, ...SHA256_DIGEST_INFO]
+        .map((x) => UInt8.from(x))
+        .concat(hash);
+      let x = power65537(this, publicKey);
+      return lessThan(this.fields, publicKey.modulus.fields).and(
+        Provable.equal(Bigint, x, bytesToLimbs(Bigint, expected))
+      );
+    }
+
+    /**
+     * Verify a PSS signature (RSASSA-PSS) with SHA-256 and MGF1 with SHA-256 on the given message.
+     *
+     * The salt length defaults to 32 bytes, the length of the hash, which is what most implementations use.
+     * Like in {@link verify}, the signature has to be less than the modulus.
+     *
+     * **Important:** This method returns a {@link Bool} which indicates whether the signature is valid.
+     * So, to actually prove validity of a signature, you need to assert that the result is true.
+     */
+    verifyPss(
+      message: Bytes | DynamicBytesBase,
+      publicKey: PublicKey,
+      { saltLength = HASH_LENGTH } = {}
+    ): Bool {
+      // the top bit of the modulus doesn't belong to the encoded message, so it has `byteLength` bytes with a leading zero bit
+      let dbLength = byteLength - HASH_LENGTH - 1;
+      let zerosLength = dbLength - saltLength - 1;
+      assert(
+        saltLength >= 0 && zerosLength >= 1,
+        `RSA: invalid salt length ${saltLength}`
+      );
+
+      let x = power65537(this, publicKey);
+      let em = Provable.witness(EncodedMessage, () =>
+        EncodedMessage.from(bigIntToBytes(x.toBigInt(), byteLength).reverse())
+      ).bytes;
+      let isValid = lessThan(this.fields, publicKey.modulus.fields).and(
+        Provable.equal(Bigint, x, bytesToLimbs(Bigint, em))
+      );
+
+      let maskedDb = em.slice(0, dbLength);
+      let h = em.slice(dbLength, dbLength + HASH_LENGTH);
+      isValid = isValid.and(em[byteLength - 1].value.equals(0xbc));
+      isValid = isValid.and(maskedDb[0].lessThan(0x80));
+
+      let dbMask = mgf1(h, dbLength);
+      let db = maskedDb.map((x, i) =>
+        UInt8.Unsafe.fromField(xor(x.value, dbMask[i].value, 8))
+      );
+      // the first byte of the mask can have its top bit set, which is ignored
+      isValid = isValid.and(db[0].value.equals(0).or(db[0].value.equals(0x80)));
+      for (let i = 1; i < zerosLength; i++) {
+        isValid = isValid.and(db[i].value.equals(0));
+      }
+      isValid = isValid.and(db[zerosLength].value.equals(1));
+
+      let salt = db.slice(dbLength - saltLength);
+      let mHash = SHA256.hash(message).bytes;
+      let zeros = Array.from({ length: 8 }, () => UInt8.from(0));
+      let hash = SHA256.hash([...zeros, ...mHash, ...salt]).bytes;
+      let Hash = Provable.Array(UInt8, HASH_LENGTH);
+      return isValid.and(Provable.equal(Hash, hash, h));
+    }
+  }
+  return RsaSignature;
+}
+
+/**
+ * Creates a class of unsigned integers with at least `bits` bits, which are stored as 116-bit limbs.
+ */
+function RsaBigint(bits: number) {
+  const limbs = Math.ceil(bits / Number(LIMB_BITS));
+
+  class Bigint extends Struct({ fields: Provable.Array(Field, limbs) }) {
+    static from(x: bigint) {
+      assert(
+        x >= 0n && x < 1n << (LIMB_BITS * BigInt(limbs)),
+        `RSA: value doesn't fit in ${bits} bits`
+      );
+      let fields: Field[] = [];
+      for (let i = 0; i < limbs; i++) {
+        fields.push(Field(x & LIMB_MASK));
+        x >>= LIMB_BITS;
+      }
+      return new this({ fields });
+    }
+
+    toBigInt() {
+      return toBigInt(this.fields);
+    }
+
+    /**
+     * x*y mod this
+     */
+    modMul(x: Bigint, y: Bigint) {
+      return new Bigint(multiply(Bigint, x, y, this));
+    }
+
+    /**
+     * x^2 mod this
+     */
+    modSquare(x: Bigint) {
+      return new Bigint(multiply(Bigint, x, x, this, { isSquare: true }));
+    }
+
+    static check(x: { fields: Field[] }) {
+      x.fields.forEach(rangeCheck116);
+    }
+  }
+  return Bigint;
+}
+
+/**
+ * x*y mod p
+ */
+function multiply<B extends { fields: Field[] }>(
+  Bigint: ProvableType<B> & { from(x: bigint): B },
+  x: B,
+  y: B,
+  p: B,
+  { isSquare = false } = {}
+) {
+  if (isSquare) y = x;
+  let n = x.fields.length;
+
+  // witness q, r so that x*y = q*p + r
+  // this also adds the range checks in `check()`
+  let [X, Y, P] = [x.fields, y.fields, p.fields];
+  let q = Provable.witness(Bigint, () =>
+    Bigint.from((toBigInt(X) * toBigInt(Y)) / toBigInt(P))
+  );
+  let r = Provable.witness(Bigint, () =>
+    Bigint.from((toBigInt(X) * toBigInt(Y)) % toBigInt(P))
+  );
+
+  // compute delta = xy - qp - r
+  // we can use a sum of native field products for each limb, because
+  // input limbs are range-checked to 116 bits, and 2*116 + log(2*36) < 240 fits the native field.
+  let delta: Field[] = Array.from({ length: 2 * n - 1 }, () => Field(0));
+  let [Q, R] = [q.fields, r.fields];
+
+  for (let i = 0; i < n; i++) {
+    // when squaring, we can save constraints by not computing xi * xj twice
+    if (isSquare) {
+      for (let j = 0; j < i; j++) {
+        delta[i + j] = delta[i + j].add(X[i].mul(X[j]).mul(2n));
+      }
+      delta[2 * i] = delta[2 * i].add(X[i].mul(X[i]));
+    } else {
+      for (let j = 0; j < n; j++) {
+        delta[i + j] = delta[i + j].add(X[i].mul(Y[j]));
+      }
+    }
+
+    for (let j = 0; j < n; j++) {
+      delta[i + j] = delta[i + j].sub(Q[i].mul(P[j]));
+    }
+
+    delta[i] = delta[i].sub(R[i]).seal();
+  }
+
+  // perform carrying on the difference to show that it is zero
+  let carry = Field(0);
+
+  for (let i = 0; i < 2 * n - 2; i++) {
+    let deltaPlusCarry = delta[i].add(carry).seal();
+
+    carry = Provable.witness(Field, () => deltaPlusCarry.div(1n << LIMB_BITS));
+    rangeCheck128Signed(carry);
+
+    // (xy - qp - r)_i + c_(i-1) === c_i * 2^116
+    // proves that bits i*116 to (i+1)*116 of res are zero
+    deltaPlusCarry.assertEquals(carry.mul(1n << LIMB_BITS));
+  }
+
+  // last carry is 0 ==> all of diff is 0 ==> x*y = q*p + r as integers
+  delta[2 * n - 2].add(carry).assertEquals(0n);
+
+  return r;
+}
+
+/**
+ * Returns whether x < y, for numbers whose limbs are range-checked to 116 bits.
+ */
+function lessThan(x: Field[], y: Field[]): Bool {
+  let n = x.length;
+
+  // witness d = (y - x - 1) mod 2^(116n), and prove that x + d + 1 = y + b*2^(116n).
+  // since x, d < 2^(116n), the final carry b is zero if and only if x < y
+  let d = Provable.witnessFields(n, () => {
+    let diff = toBigInt(y) - toBigInt(x) - 1n;
+    diff &= (1n << (LIMB_BITS * BigInt(n))) - 1n;
+    return Array.from(
+      { length: n },
+      (_, i) => (diff >> (LIMB_BITS * BigInt(i))) & LIMB_MASK
+    );
+  });
+  d.forEach(rangeCheck116);
+
+  let carry = Field(1);
+  for (let i = 0; i < n - 1; i++) {
+    let sum = x[i].add(d[i]).add(carry).sub(y[i]).seal();
+    // the carry is at most 2, because x_i + d_i + carry < 2*2^116 + 3
+    carry = Provable.witness(Field, () => sum.toBigInt() >> LIMB_BITS);
+    rangeCheckLessThan16(2, carry);
+    sum.assertEquals(carry.mul(1n << LIMB_BITS));
+  }
+  let sum = x[n - 1]
+    .add(d[n - 1])
+    .add(carry)
+    .sub(y[n - 1])
+    .seal();
+  let isGreaterOrEqual = Provable.witness(
+    Bool,
+    () => sum.toBigInt() >> LIMB_BITS === 1n
+  );
+  sum.assertEquals(isGreaterOrEqual.toField().mul(1n << LIMB_BITS));
+  return isGreaterOrEqual.not();
+}
+
+function toBigInt(limbs: Field[]) {
+  return limbs.reduceRight((acc, x) => (acc << LIMB_BITS) + x.toBigInt(), 0n);
+}
+
+/**
+ * Packs big-endian bytes into 116-bit limbs.
+ *
+ * Since 116 bits are 14.5 bytes, every other limb boundary falls in the middle of a byte, which is split into two 4-bit halves.
+ */
+function bytesToLimbs<B>(
+  Bigint: { new (value: { fields: Field[] }): B; sizeInFields(): number },
+  bytes: UInt8[]
+) {
+  let fields = Array.from({ length: Bigint.sizeInFields() }, () => Field(0));
+  bytes
+    .slice()
+    .reverse()
+    .forEach(({ value: byte }, k) => {
+      let position = 8n * BigInt(k);
+      let i = Number(position / LIMB_BITS);
+      let offset = position % LIMB_BITS;
+      if (offset + 8n <= LIMB_BITS) {
+        fields[i] = fields[i].add(byte.mul(1n << offset));
+        return;
+      }
+      let [low, high] = Provable.witnessFields(2, () => [
+        byte.toBigInt() & 0xfn,
+        byte.toBigInt() >> 4n,
+      ]);
+      rangeCheckLessThan16(4, low);
+      rangeCheckLessThan16(4, high);
+      low.add(high.mul(16)).assertEquals(byte);
+      fields[i] = fields[i].add(low.mul(1n << offset));
+      fields[i + 1] = fields[i + 1].add(high);
+    });
+  return new Bigint({ fields: fields.map((x) => x.seal()) });
+}
+
+/**
+ * The mask generation function MGF1 with SHA-256, as defined in RFC 8017.
+ */
+function mgf1(seed: UInt8[], length: number) {
+  let mask: UInt8[] = [];
+  for (let counter = 0; mask.length < length; counter++) {
+    let c = [24, 16, 8, 0].map((shift) =>
+      UInt8.from((counter >> shift) & 0xff)
+    );
+    mask.push(...SHA256.hash([...seed, ...c]).bytes);
+  }
+  return mask.slice(0, length);
+}
+
+/**
+ * Custom range check for a single limb, x in [0, 2^116)
+ */
+function rangeCheck116(x: Field) {
+  let [x0, x1] = Provable.witnessFields(2, () => [
+    x.toBigInt() & ((1n << 64n) - 1n),
+    x.toBigInt() >> 64n,
+  ]);
+
+  rangeCheck64(x0);
+  let [x52] = rangeCheck64(x1);
+  x52.assertEquals(0n); // => x1 is 52 bits
+  // 64 + 52 = 116
+  x0.add(x1.mul(1n << 64n)).assertEquals(x);
+}
+
+/**
+ * Custom range check for carries, x in [-2^127, 2^127)
+ */
+function rangeCheck128Signed(xSigned: Field) {
+  let x = xSigned.add(1n << 127n);
+
+  let [x0, x1] = Provable.witnessFields(2, () => {
+    const x0 = x.toBigInt() & ((1n << 64n) - 1n);
+    const x1 = x.toBigInt() >> 64n;
+    return [x0, x1];
+  });
+
+  rangeCheck64(x0);
+  rangeCheck64(x1);
+
+  x0.add(x1.mul(1n << 64n)).assertEquals(x);
+}
+
+// DER parsing
+
+const OID_RSA_ENCRYPTION = '2a864886f70d010101';
+const OID_RSASSA_PSS = '2a864886f70d01010a';
+
+/**
+ * Parses an RSA public key from its DER encoding, either as SubjectPublicKeyInfo (X.509) or as PKCS#1 RSAPublicKey.
+ */
+function parseRsaPublicKey(der: Uint8Array) {
+  let outer = readDer(der, 0, 0x30);
+  assert(outer.end === der.length, 'RSA: trailing bytes after public key');
+  let first = readDer(der, outer.start);
+
+  // SubjectPublicKeyInfo ::= SEQUENCE { algorithm AlgorithmIdentifier, subjectPublicKey BIT STRING }
+  if (first.tag === 0x30) {
+    let oid = readDer(der, first.start, 0x06);
+    let oidHex = toHex(der.subarray(oid.start, oid.end));
+    assert(
+      oidHex === OID_RSA_ENCRYPTION || oidHex === OID_RSASSA_PSS,
+      'RSA: public key is not an RSA key'
+    );
+    let bitString = readDer(der, first.end, 0x03);
+    assert(der[bitString.start] === 0, 'RSA: invalid public key bit string');
+    return parseRsaPublicKey(der.subarray(bitString.start + 1, bitString.end));
+  }
+
+  // RSAPublicKey ::= SEQUENCE { modulus INTEGER, publicExponent INTEGER }
+  let modulus = readDer(der, outer.start, 0x02);
+  let exponent = readDer(der, modulus.end, 0x02);
+  assert(exponent.end === outer.end, 'RSA: invalid public key');
+  return {
+    modulus: derInteger(der.subarray(modulus.start, modulus.end)),
+    exponent: derInteger(der.subarray(exponent.start, exponent.end)),
+  };
+}
+
+function readDer(der: Uint8Array, offset: number, expectedTag?: number) {
+  assert(offset + 2 <= der.length, 'RSA: unexpected end of DER input');
+  let tag = der[offset];
+  if (expectedTag !== undefined) {
+    assert(
+      tag === expectedTag,
+      `RSA: invalid DER, expected tag ${expectedTag} but got ${tag}`
+    );
+  }
+  let length = der[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    let lengthBytes = length & 0x7f;
+    assert(lengthBytes <= 4, 'RSA: invalid DER length');
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + der[start + i];
+    }
+    start += lengthBytes;
+  }
+  let end = start + length;
+  assert(end <= der.length, 'RSA: unexpected end of DER input');
+  return { tag, start, end };
+}
+
+function derInteger(bytes: Uint8Array) {
+  assert((bytes[0] & 0x80) === 0, 'RSA: negative integer in public key');
+  return bytesToBigInt([...bytes].reverse());
+}
+
+function toHex(bytes: Uint8Array) {
+  return [...bytes].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,392 @@
+import { Bool, Field } from './wrapped.js';
+import { Provable } from './provable.js';
+import { assert } from './gadgets/common.js';
+import { provableFromClass } from './types/provable-derivers.js';
+import {
+  HashInput,
+  Poseidon,
+  packToFields,
+  ProvableHashable,
+} from './crypto/poseidon.js';
+import { ProvableType, WithProvable } from './types/provable-intf.js';
+
+// external API
+export { DynamicArray };
+
+// internal API
+export { DynamicArrayBase, provableDynamicArray };
+
+type DynamicArray<T = any, V = any> = DynamicArrayBase<T, V>;
+
+/**
+ * Dynamic-length array of elements of a provable type, with a maximum length `capacity` fixed at compile time.
+ *
+ * The array is represented by `capacity` elements, of which only the first `length` are part of the array,
+ * and a provable `length`. Operations that depend on the length, like `get()` or `push()`,
+ * cost a number of constraints proportional to the capacity.
+ *
+ * ```ts
+ * class Scores extends DynamicArray(UInt32, { capacity: 8 }) {}
+ *
+ * let scores = Scores.from([UInt32.from(1), UInt32.from(2)]);
+ * scores.push(UInt32.from(3));
+ * let second = scores.get(Field(1));
+ * ```
+ *
+ * The class can be used as method argument, `Struct` field and public input, like other provable types.
+ */
+function DynamicArray<T, V = any>(
+  type: WithProvable<ProvableHashable<T, V>>,
+  { capacity }: { capacity: number }
+): typeof DynamicArrayBase<T, V> & {
+  // override static methods with strict types
+  from: (array: (T | V)[] | DynamicArrayBase<T, V>) => DynamicArrayBase<T, V>;
+  empty: () => DynamicArrayBase<T, V>;
+  provable: ProvableHashable<DynamicArrayBase<T, V>, V[]>;
+} {
+  assert(
+    Number.isInteger(capacity) && capacity >= 0,
+    `DynamicArray: capacity must be a non-negative integer, got ${capacity}`
+  );
+  let innerType = ProvableType.get(type);
+
+  class DynamicArray_ extends DynamicArrayBase<T, V> {
+    static _innerType = innerType;
+    static _capacity = capacity;
+    static _provable: ProvableHashable<DynamicArrayBase<T, V>, V[]> =
+      provableDynamicArray(DynamicArray_, innerType, capacity);
+
+    static from(
+      array: (T | V)[] | DynamicArrayBase<T, V>
+    ): DynamicArrayBase<T, V> {
+      return super.from(array);
+    }
+
+    static empty(): DynamicArrayBase<T, V> {
+      return super.empty();
+    }
+
+    static get provable(): ProvableHashable<DynamicArrayBase<T, V>, V[]> {
+      return this._provable;
+    }
+  }
+  return DynamicArray_;
+}
+
+class DynamicArrayBase<T = any, V = any> {
+  /**
+   * The elements of the array, padded to the capacity.
+   *
+   * **Warning**: Elements at positions `>= length` are not part of the array and can hold arbitrary values.
+   */
+  array: T[];
+  length: Field;
+
+  constructor({ array, length }: { array: T[]; length: Field }) {
+    this.array = array;
+    this.length = length;
+  }
+
+  /**
+   * Create a dynamic array from a JS array of at most `capacity` elements.
+   */
+  static from(array: any[] | DynamicArrayBase): DynamicArrayBase {
+    if (array instanceof this) return array;
+    if (array instanceof DynamicArrayBase) array = array.toArray();
+    let { innerType, capacity } = this;
+    assert(
+      array.length <= capacity,
+      `DynamicArray: expected at most ${capacity} elements, got ${array.length}`
+    );
+    let padding = Array.from({ length: capacity - array.length }, () =>
+      innerType.empty()
+    );
+    return new this({
+      array: [...array.map((x) => innerType.fromValue(x)), ...padding],
+      length: Field(array.length),
+    });
+  }
+
+  /**
+   * Create an empty dynamic array.
+   */
+  static empty(): DynamicArrayBase {
+    return this.from([]);
+  }
+
+  /**
+   * Returns the element at `index`.
+   *
+   * Proves that `index < length`.
+   */
+  get(index: Field | number): T {
+    let i = Field(index);
+    i.assertLessThan(this.length, 'DynamicArray.get(): index out of bounds');
+    return Provable.switch(this.indexMask(i), this.innerType, this.array);
+  }
+
+  /**
+   * Replaces the element at `index`.
+   *
+   * Proves that `index < length`.
+   */
+  set(index: Field | number, value: T) {
+    let i = Field(index);
+    i.assertLessThan(this.length, 'DynamicArray.set(): index out of bounds');
+    let mask = this.indexMask(i);
+    this.array = this.array.map((x, j) =>
+      Provable.if(mask[j], this.innerType, value, x)
+    );
+  }
+
+  /**
+   * Appends an element to the end of the array.
+   *
+   * Proves that the array is not full.
+   */
+  push(value: T) {
+    this.length.assertLessThan(
+      this.capacity,
+      'DynamicArray.push(): array is full'
+    );
+    let mask = this.indexMask(this.length);
+    this.array = this.array.map((x, j) =>
+      Provable.if(mask[j], this.innerType, value, x)
+    );
+    this.length = this.length.add(1);
+  }
+
+  /**
+   * Removes the last element from the array and returns it.
+   *
+   * Proves that the array is not empty.
+   */
+  pop(): T {
+    this.length.assertNotEquals(0, 'DynamicArray.pop(): array is empty');
+    let last = this.length.sub(1);
+    let mask = this.indexMask(last);
+    let value = Provable.switch(mask, this.innerType, this.array);
+    let empty = this.innerType.empty();
+    this.array = this.array.map((x, j) =>
+      Provable.if(mask[j], this.innerType, empty, x)
+    );
+    this.length = last;
+    return value;
+  }
+
+  /**
+   * Returns the elements from `start` up to, but not including, `end`, as a new array of the same capacity.
+   *
+   * Proves that `start <= end <= length`.
+   */
+  slice(start: Field | number = 0, end: Field | number = this.length) {
+    let [start_, end_] = [Field(start), Field(end)];
+    start_.assertLessThanOrEqual(end_, 'DynamicArray.slice(): start > end');
+    end_.assertLessThanOrEqual(
+      this.length,
+      'DynamicArray.slice(): end out of bounds'
+    );
+    // the element at i comes from position start + i
+    let startMask = this.indexMask(start_);
+    let array = this.array.map((_, i) =>
+      Provable.switch(
+        startMask.slice(0, this.capacity - i),
+        this.innerType,
+        this.array.slice(i)
+      )
+    );
+    return new this.Constructor({ array, length: end_.sub(start_) });
+  }
+
+  /**
+   * Returns a new array with the elements of this array followed by the elements of `other`.
+   *
+   * The capacity of the result is the sum of both capacities.
+   */
+  concat(other: DynamicArrayBase<T, V>): DynamicArrayBase<T, V> {
+    let Concatenated = DynamicArray(this.innerType, {
+      capacity: this.capacity + other.capacity,
+    });
+    let inThis = this.lengthMask();
+    // after the elements of this array, the element at i comes from position i - length in `other`
+    let lengthMask = this.indexMask(this.length).concat(
+      this.length.equals(this.capacity)
+    );
+    let array = Array.from({ length: Concatenated.capacity }, (_, i) => {
+      let offsets = lengthMask
+        .map((isLength, d) => [isLength, d] as const)
+        .filter(([, d]) => i - d >= 0 && i - d < other.capacity);
+      let fromOther = Provable.switch(
+        offsets.map(([isLength]) => isLength),
+        this.innerType,
+        offsets.map(([, d]) => other.array[i - d])
+      );
+      if (i >= this.capacity) return fromOther;
+      return Provable.if(inThis[i], this.innerType, this.array[i], fromOther);
+    });
+    return new Concatenated({ array, length: this.length.add(other.length) });
+  }
+
+  /**
+   * Applies a function to every element, and returns the results as a new array of the same length and capacity.
+   *
+   * **Warning**: `f` is also called on the padding elements, so it shouldn't contain assertions.
+   */
+  map<S>(
+    type: WithProvable<ProvableHashable<S>>,
+    f: (value: T, index: number) => S
+  ): DynamicArrayBase<S> {
+    let Mapped = DynamicArray(type, { capacity: this.capacity });
+    return new Mapped({ array: this.array.map(f), length: this.length });
+  }
+
+  /**
+   * Calls a function on every element, with a flag which is true for the padding elements.
+   */
+  forEach(f: (value: T, isDummy: Bool, index: number) => void) {
+    let mask = this.lengthMask();
+    this.array.forEach((x, i) => f(x, mask[i].not(), i));
+  }
+
+  /**
+   * Reduces the elements to a single value, from first to last.
+   *
+   * **Warning**: `f` is also called on the padding elements, so it shouldn't contain assertions. Their results are discarded.
+   */
+  reduce<S>(
+    type: WithProvable<ProvableHashable<S>>,
+    initial: S,
+    f: (accumulator: S, value: T, index: number) => S
+  ): S {
+    let mask = this.lengthMask();
+    return this.array.reduce(
+      (acc, x, i) => Provable.if(mask[i], type, f(acc, x, i), acc),
+      initial
+    );
+  }
+
+  /**
+   * Checks whether the array contains an element equal to `value`.
+   */
+  includes(value: T): Bool {
+    let mask = this.lengthMask();
+    return this.array
+      .map((x, i) => mask[i].and(Provable.equal(this.innerType, x, value)))
+      .reduce((a, b) => a.or(b), Bool(false));
+  }
+
+  /**
+   * Hashes the length and the elements of the array, ignoring the padding.
+   */
+  hash(): Field {
+    let input = this.Constructor.provable.toInput(this);
+    return Poseidon.hash(packToFields(input));
+  }
+
+  /**
+   * Returns the elements of the array as a JS array.
+   *
+   * **Warning**: This only works outside provable code, or inside `Provable.asProver()`.
+   */
+  toArray(): T[] {
+    return this.array.slice(0, Number(this.length.toBigInt()));
+  }
+
+  /**
+   * Returns a `Bool` for every position, which is true if the position is part of the array.
+   */
+  lengthMask(): Bool[] {
+    // i < length iff length != j for all j <= i, because length <= capacity
+    let isInRange = Bool(true);
+    return this.array.map((_, i) => {
+      isInRange = isInRange.and(this.length.equals(i).not());
+      return isInRange;
+    });
+  }
+
+  private indexMask(index: Field) {
+    return this.array.map((_, j) => index.equals(j));
+  }
+
+  // dynamic subclassing infra
+  static _innerType?: ProvableHashable<any>;
+  static _capacity?: number;
+  static _provable?: ProvableHashable<any>;
+
+  /**
+   * The maximum length of the array.
+   */
+  static get capacity() {
+    assert(this._capacity !== undefined, 'DynamicArray not initialized');
+    return this._capacity;
+  }
+
+  static get innerType() {
+    assert(this._innerType !== undefined, 'DynamicArray not initialized');
+    return this._innerType;
+  }
+
+  /**
+   * `Provable<DynamicArray>`
+   */
+  static get provable() {
+    assert(this._provable !== undefined, 'DynamicArray not initialized');
+    return this._provable;
+  }
+
+  get Constructor() {
+    return this.constructor as typeof DynamicArrayBase;
+  }
+
+  get capacity(): number {
+    return this.Constructor.capacity;
+  }
+
+  get innerType(): ProvableHashable<T, V> {
+    return this.Constructor.innerType;
+  }
+}
+
+function provableDynamicArray<T, V>(
+  Class: typeof DynamicArrayBase<T, V>,
+  innerType: ProvableHashable<T, V>,
+  capacity: number
+): ProvableHashable<DynamicArrayBase<T, V>, V[]> {
+  let raw = provableFromClass(Class, {
+    array: Provable.Array(innerType, capacity),
+    length: Field,
+  });
+  return {
+    ...raw,
+    toValue(x) {
+      return x.toArray().map((t) => innerType.toValue(t));
+    },
+    fromValue(x) {
+      return Class.from(x);
+    },
+    check(x) {
+      x.array.forEach((t) => innerType.check(t));
+      x.length.assertLessThanOrEqual(
+        capacity,
+        'DynamicArray: length exceeds capacity'
+      );
+    },
+    toInput(x) {
+      // the padding is multiplied by zero, so that it doesn't affect the hash
+      let mask = x.lengthMask();
+      let input: HashInput = { fields: [], packed: [[x.length, 32]] };
+      x.array.forEach((t, i) => {
+        let { fields = [], packed = [] } = innerType.toInput(t);
+        let m = mask[i].toField();
+        input.fields!.push(...fields.map((f) => f.mul(m)));
+        input.packed!.push(
+          ...packed.map(([f, size]): [Field, number] => [f.mul(m), size])
+        );
+      });
+      return input;
+    },
+    empty() {
+      return Class.empty();
+    },
+  };
+}
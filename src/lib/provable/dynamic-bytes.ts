@@ -0,0 +1,155 @@
+import { Bool } from './wrapped.js';
+import { UInt8 } from './int.js';
+import { Bytes } from './bytes.js';
+import { assert } from './gadgets/common.js';
+import { chunkString } from '../util/arrays.js';
+import { ProvableHashable } from './crypto/poseidon.js';
+import { DynamicArrayBase, provableDynamicArray } from './dynamic-array.js';
+
+// external API
+export { DynamicBytes };
+
+// internal API
+export { DynamicBytesBase, lastBlockMask };
+
+type DynamicBytes = DynamicBytesBase;
+
+type ProvableBytes = ProvableHashable<DynamicBytesBase, { value: bigint }[]>;
+
+/**
+ * A provable type representing a byte array with a provable length, of at most `capacity` bytes.
+ *
+ * In contrast to {@link Bytes}, whose length is fixed at compile time, the same circuit can handle
+ * messages of every length up to the capacity. The hash functions `Gadgets.SHA256.hash()`, `Gadgets.SHA512.hash()`,
+ * `Gadgets.SHA384.hash()`, `Gadgets.BLAKE2B.hash()` and the ones in `Keccak` accept `DynamicBytes` and pad the message
+ * at its runtime length.
+ *
+ * ```ts
+ * class Message extends DynamicBytes({ capacity: 1024 }) {}
+ *
+ * let message = Message.fromString('hello world');
+ * let digest = Hash.SHA2_256.hash(message);
+ * ```
+ *
+ * See {@link DynamicArray} for the available array operations.
+ */
+function DynamicBytes({
+  capacity,
+}: {
+  capacity: number;
+}): typeof DynamicBytesBase & { provable: ProvableBytes } {
+  assert(
+    Number.isInteger(capacity) && capacity >= 0,
+    `DynamicBytes: capacity must be a non-negative integer, got ${capacity}`
+  );
+
+  class DynamicBytes_ extends DynamicBytesBase {
+    static _innerType = UInt8;
+    static _capacity = capacity;
+    // instances are created with `DynamicBytes_.from()`, so they are `DynamicBytes`
+    static _provable: ProvableBytes = provableDynamicArray<any, any>(
+      DynamicBytes_,
+      UInt8,
+      capacity
+    ) as ProvableHashable<any, any[]>;
+
+    static get provable(): ProvableBytes {
+      return this._provable;
+    }
+  }
+  return DynamicBytes_;
+}
+
+class DynamicBytesBase extends DynamicArrayBase<UInt8, { value: bigint }> {
+  /**
+   * Create {@link DynamicBytes} from a list of bytes, of at most `capacity` elements.
+   */
+  static from(
+    data:
+      | (UInt8 | bigint | number)[]
+      | Uint8Array
+      | Bytes
+      | DynamicArrayBase<UInt8>
+  ): DynamicBytesBase {
+    if (data instanceof Bytes) data = data.bytes;
+    if (data instanceof DynamicArrayBase) {
+      return super.from(data) as DynamicBytesBase;
+    }
+    let bytes = [...data].map((x) =>
+      typeof x === 'number' || typeof x === 'bigint' ? UInt8.from(x) : x
+    );
+    return super.from(bytes) as DynamicBytesBase;
+  }
+
+  /**
+   * Create {@link DynamicBytes} from the UTF-8 encoding of a string.
+   */
+  static fromString(s: string) {
+    return this.from(new TextEncoder().encode(s));
+  }
+
+  /**
+   * Create {@link DynamicBytes} from a hex string.
+   */
+  static fromHex(xs: string) {
+    return this.from(chunkString(xs, 2).map((s) => parseInt(s, 16)));
+  }
+
+  /**
+   * Returns the bytes as a `Uint8Array`, without the padding.
+   *
+   * **Warning**: This only works outside provable code, or inside `Provable.asProver()`.
+   */
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.toArray().map((x) => x.toNumber()));
+  }
+
+  /**
+   * Returns the bytes as a hex string, without the padding.
+   *
+   * **Warning**: This only works outside provable code, or inside `Provable.asProver()`.
+   */
+  toHex(): string {
+    return this.toArray()
+      .map((x) => x.toBigInt().toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Returns the bytes of this array followed by the bytes of `other`.
+   *
+   * The capacity of the result is the sum of both capacities.
+   */
+  concat(other: DynamicArrayBase<UInt8>): DynamicBytesBase {
+    let { array, length } = super.concat(other);
+    let Concatenated = DynamicBytes({ capacity: array.length });
+    return new Concatenated({ array, length });
+  }
+}
+
+/**
+ * Helper for padding a message at its runtime length, in hash functions that process it in blocks.
+ *
+ * Returns a `Bool` for every block `k` that starts at or before the capacity, which is true if
+ * `blockStart(k) <= length < blockStart(k + 1)`. Exactly one of them is true, so it can be used
+ * to select the hash state after the last block.
+ */
+function lastBlockMask(
+  message: DynamicBytesBase,
+  blockStart: (k: number) => number
+): Bool[] {
+  let { capacity } = message;
+  let inMessage = message.lengthMask();
+
+  // length >= t iff position t - 1 is part of the message
+  let lengthAtLeast = (t: number) =>
+    t <= 0 ? Bool(true) : t > capacity ? Bool(false) : inMessage[t - 1];
+
+  let mask: Bool[] = [];
+  for (let k = 0; blockStart(k) <= capacity; k++) {
+    mask.push(
+      lengthAtLeast(blockStart(k)).and(lengthAtLeast(blockStart(k + 1)).not())
+    );
+  }
+  return mask;
+}
@@ -0,0 +1,344 @@
+import { Bool, Field } from './wrapped.js';
+import { Int64, UInt64, UInt8 } from './int.js';
+import { Bytes } from './bytes.js';
+import { Provable } from './provable.js';
+import { assert } from './gadgets/common.js';
+import { rangeCheckN } from './gadgets/range-check.js';
+import { ProvableHashable } from './crypto/poseidon.js';
+import { DynamicArrayBase, provableDynamicArray } from './dynamic-array.js';
+import { DynamicBytesBase } from './dynamic-bytes.js';
+
+// external API
+export { DynamicString };
+
+// internal API
+export { DynamicStringBase };
+
+type DynamicString = DynamicStringBase;
+
+type ProvableString = ProvableHashable<DynamicStringBase, string>;
+
+/**
+ * A provable UTF-8 string with a provable length, of at most `capacity` bytes.
+ *
+ * The string is stored as bytes, with one field element per byte plus one for the length, so its size in fields
+ * is `capacity + 1`. Only the hash input packs the bytes into field elements.
+ * Offsets and lengths are measured in bytes, so they only coincide with character positions for ASCII strings.
+ *
+ * ```ts
+ * class Email extends DynamicString({ capacity: 64 }) {}
+ *
+ * let email = Email.fromString('Alice@Example.com');
+ * let at = email.indexOf('@');
+ * let domain = email.substring(at.index.add(1)).toLowerCase();
+ * domain.assertEquals('example.com');
+ * ```
+ *
+ * `DynamicString` is a {@link DynamicBytes}, so it supports the same array operations and can be hashed with SHA-256,
+ * Keccak and BLAKE2b. In contrast to {@link CircuitString}, which stores one field element per character,
+ * the length and offsets of all operations can be provable. For ASCII text, both types use about the same number
+ * of field elements, while non-ASCII characters take up to four fields in a `DynamicString`.
+ */
+function DynamicString({
+  capacity,
+}: {
+  capacity: number;
+}): typeof DynamicStringBase & {
+  provable: ProvableString;
+} {
+  assert(
+    Number.isInteger(capacity) && capacity >= 0,
+    `DynamicString: capacity must be a non-negative integer, got ${capacity}`
+  );
+
+  class DynamicString_ extends DynamicStringBase {
+    static _innerType = UInt8;
+    static _capacity = capacity;
+    static _provable: ProvableString = provableDynamicString(
+      DynamicString_,
+      capacity
+    );
+
+    static get provable(): ProvableString {
+      return this._provable;
+    }
+  }
+  return DynamicString_;
+}
+
+class DynamicStringBase extends DynamicBytesBase {
+  /**
+   * Create a {@link DynamicString} from a JS string, which is encoded as UTF-8, or from bytes.
+   */
+  static from(
+    data:
+      | string
+      | (UInt8 | bigint | number)[]
+      | Uint8Array
+      | Bytes
+      | DynamicArrayBase<UInt8>
+  ): DynamicStringBase {
+    if (typeof data === 'string') data = new TextEncoder().encode(data);
+    return super.from(data) as DynamicStringBase;
+  }
+
+  static fromString(s: string): DynamicStringBase {
+    return this.from(s);
+  }
+
+  /**
+   * Create a {@link DynamicString} from {@link Bytes}, where trailing zero bytes are treated as padding.
+   *
+   * This is the inverse of {@link DynamicString.toPaddedBytes}, for strings that don't end with a zero byte.
+   */
+  static fromBytes(bytes: Bytes): DynamicStringBase {
+    // the string ends after the last non-zero byte
+    let isPadding = Bool(true);
+    let length = Field(0);
+    for (let i = bytes.length - 1; i >= 0; i--) {
+      isPadding = isPadding.and(bytes.bytes[i].value.equals(0));
+      length = length.add(isPadding.not().toField());
+    }
+    let string = this.from(bytes);
+    string.length = length.seal();
+    return string;
+  }
+
+  /**
+   * Returns the string as {@link Bytes} of size `capacity`, padded with zero bytes.
+   */
+  toPaddedBytes(): Bytes {
+    let mask = this.lengthMask();
+    let bytes = this.array.map((b, i) =>
+      UInt8.Unsafe.fromField(b.value.mul(mask[i].toField()))
+    );
+    return Bytes.from(bytes);
+  }
+
+  /**
+   * Decodes the string from UTF-8.
+   *
+   * **Warning**: This only works outside provable code, or inside `Provable.asProver()`.
+   */
+  toString(): string {
+    return new TextDecoder().decode(this.toBytes());
+  }
+
+  /**
+   * Checks whether this string is equal to `other`.
+   */
+  equals(other: string | DynamicArrayBase<UInt8>): Bool {
+    let that = fromSearch(other);
+    let mask = this.lengthMask();
+    let n = Math.min(this.capacity, that.capacity);
+    let isEqual = this.length.equals(that.length);
+    for (let i = 0; i < n; i++) {
+      let byteEquals = this.array[i].value.equals(that.array[i].value);
+      isEqual = isEqual.and(mask[i].not().or(byteEquals));
+    }
+    return isEqual;
+  }
+
+  /**
+   * Asserts that this string is equal to `other`.
+   */
+  assertEquals(other: string | DynamicArrayBase<UInt8>, message?: string) {
+    this.equals(other).assertTrue(message ?? 'DynamicString.assertEquals()');
+  }
+
+  /**
+   * Checks whether the string starts with `search`.
+   */
+  startsWith(search: string | DynamicArrayBase<UInt8>): Bool {
+    let that = fromSearch(search);
+    return this.matchesAt(that, this.lengthMask(), 0);
+  }
+
+  /**
+   * Checks whether the string ends with `search`.
+   */
+  endsWith(search: string | DynamicArrayBase<UInt8>): Bool {
+    let that = fromSearch(search);
+    let mask = this.lengthMask();
+    let endsWith = Bool(false);
+    for (let i = 0; i <= this.capacity; i++) {
+      let isEnd = that.length.add(i).equals(this.length);
+      endsWith = endsWith.or(isEnd.and(this.matchesAt(that, mask, i)));
+    }
+    return endsWith;
+  }
+
+  /**
+   * Finds the first occurrence of `search`, starting at the byte offset `fromIndex`.
+   *
+   * Returns whether `search` was found, and the byte offset where it starts. The offset is 0 if it wasn't found.
+   */
+  indexOf(
+    search: string | DynamicArrayBase<UInt8>,
+    fromIndex: Field | number = 0
+  ): { found: Bool; index: Field } {
+    let that = fromSearch(search);
+    let from = Field(fromIndex);
+    let mask = this.lengthMask();
+
+    let isStarted = Bool(false);
+    let found = Bool(false);
+    let index = Field(0);
+    for (let i = 0; i <= this.capacity; i++) {
+      isStarted = isStarted.or(from.equals(i));
+      let isMatch = isStarted.and(this.matchesAt(that, mask, i));
+      let isFirst = isMatch.and(found.not());
+      index = index.add(isFirst.toField().mul(i));
+      found = found.or(isMatch);
+    }
+    return { found, index: index.seal() };
+  }
+
+  /**
+   * Returns the part of the string from the byte offset `start` up to, but not including, `end`.
+   *
+   * Proves that `start <= end <= length`. The offsets can be provable, for example the result of {@link indexOf}.
+   */
+  substring(
+    start: Field | number,
+    end: Field | number = this.length
+  ): DynamicStringBase {
+    return this.slice(start, end) as DynamicStringBase;
+  }
+
+  /**
+   * Returns the string followed by `other`, as a string whose capacity is the sum of both capacities.
+   */
+  concat(other: string | DynamicArrayBase<UInt8>): DynamicStringBase {
+    let { array, length } = super.concat(fromSearch(other));
+    let Concatenated = DynamicString({ capacity: array.length });
+    return new Concatenated({ array, length });
+  }
+
+  /**
+   * Converts the ASCII letters A-Z to lower case. Other characters, including non-ASCII ones, are unchanged.
+   */
+  toLowerCase(): DynamicStringBase {
+    return this.mapAsciiRange(65, 90, 32);
+  }
+
+  /**
+   * Converts the ASCII letters a-z to upper case. Other characters, including non-ASCII ones, are unchanged.
+   */
+  toUpperCase(): DynamicStringBase {
+    return this.mapAsciiRange(97, 122, -32);
+  }
+
+  /**
+   * Parses the string as a non-negative decimal integer of at most 20 digits.
+   *
+   * Proves that the string is non-empty, consists of the digits 0-9 and that the result fits in 64 bits.
+   */
+  parseUInt64(): UInt64 {
+    let mask = this.lengthMask();
+    this.length.assertNotEquals(0, 'DynamicString.parseUInt64(): empty string');
+    let value = this.parseDigits(mask, 'DynamicString.parseUInt64()');
+    return UInt64.Unsafe.fromField(value);
+  }
+
+  /**
+   * Parses the string as a decimal integer of at most 20 digits, with an optional leading minus sign.
+   *
+   * Proves that the string consists of the digits 0-9 after the sign, with at least one digit,
+   * and that the absolute value fits in 64 bits.
+   */
+  parseInt64(): Int64 {
+    let method = 'DynamicString.parseInt64()';
+    let mask = this.lengthMask();
+    let isNegative = mask[0] ?? Bool(false);
+    if (this.capacity > 0) {
+      isNegative = isNegative.and(this.array[0].value.equals(45)); // '-'
+    }
+    let digitCount = this.length.sub(isNegative.toField());
+    digitCount.assertNotEquals(0, `${method}: no digits`);
+
+    // skip the sign
+    let digitMask = mask.map((m, i) => (i === 0 ? m.and(isNegative.not()) : m));
+    let magnitude = UInt64.Unsafe.fromField(
+      this.parseDigits(digitMask, method, digitCount)
+    );
+    let value = Int64.fromUnsigned(magnitude);
+    return Provable.if(isNegative, Int64, value.neg(), value);
+  }
+
+  private matchesAt(
+    search: DynamicArrayBase<UInt8>,
+    mask: Bool[],
+    i: number
+  ): Bool {
+    // every byte of `search` is matched by a byte of this string
+    let searchMask = search.lengthMask();
+    let matches = Bool(true);
+    search.array.forEach((b, j) => {
+      let byteMatches =
+        i + j < this.capacity
+          ? mask[i + j].and(this.array[i + j].value.equals(b.value))
+          : Bool(false);
+      matches = matches.and(searchMask[j].not().or(byteMatches));
+    });
+    return matches;
+  }
+
+  private mapAsciiRange(first: number, last: number, offset: number) {
+    let array = this.array.map((b) => {
+      let isInRange = b
+        .greaterThanOrEqual(UInt8.from(first))
+        .and(b.lessThanOrEqual(UInt8.from(last)));
+      return UInt8.Unsafe.fromField(
+        b.value.add(isInRange.toField().mul(offset))
+      );
+    });
+    return new this.Constructor({
+      array,
+      length: this.length,
+    }) as DynamicStringBase;
+  }
+
+  private parseDigits(
+    digitMask: Bool[],
+    method: string,
+    digitCount: Field = this.length
+  ): Field {
+    // with at most 20 digits, the value can't overflow the field before the final range check
+    digitCount.assertLessThanOrEqual(20, `${method}: too many digits`);
+
+    let value = Field(0);
+    this.array.forEach((b, i) => {
+      let digit = b.value.sub(48).mul(digitMask[i].toField()).seal();
+      // 0 <= digit <= 9
+      rangeCheckN(16, digit, `${method}: expected a digit`);
+      rangeCheckN(16, Field(9).sub(digit), `${method}: expected a digit`);
+      value = Provable.if(digitMask[i], value.mul(10).add(digit), value);
+    });
+    rangeCheckN(64, value, `${method}: overflow`);
+    return value;
+  }
+}
+
+function fromSearch(search: string | DynamicArrayBase<UInt8>) {
+  if (typeof search !== 'string') return search;
+  let bytes = new TextEncoder().encode(search);
+  return DynamicString({ capacity: bytes.length }).from(bytes);
+}
+
+function provableDynamicString(
+  Class: typeof DynamicStringBase,
+  capacity: number
+): ProvableString {
+  // the bytes are represented like `DynamicBytes`, but the JS value is a `string`
+  let raw = provableDynamicArray<any, any>(Class, UInt8, capacity);
+  return {
+    ...(raw as ProvableHashable<any>),
+    toValue(x) {
+      return x.toString();
+    },
+    fromValue(x) {
+      return Class.from(x);
+    },
+  };
+}
@@ -0,0 +1,312 @@
+import { InferValue } from '../../bindings/lib/provable-generic.js';
+import { Provable } from './provable.js';
+import {
+  provable,
+  InferProvable,
+  InferJson,
+  HashInput,
+} from './types/provable-derivers.js';
+import type { Bool, Field } from './wrapped.js';
+import { createField, getField } from './core/field-constructor.js';
+import { ProvablePure, ProvableType } from './types/provable-intf.js';
+import { assert } from './gadgets/common.js';
+
+export { Enum };
+
+type Variants = Record<string, ProvableType>;
+type Name<V extends Variants> = keyof V & string;
+
+type EnumValue<V extends Variants> = {
+  [K in Name<V>]: { type: K; value: InferValue<V[K]> };
+}[Name<V>];
+
+type EnumJson<V extends Variants> = {
+  [K in Name<V>]: { type: K; value: InferJson<V[K]> };
+}[Name<V>];
+
+type Handlers<V extends Variants, R> = {
+  [K in Name<V>]: (value: InferProvable<V[K]>) => R;
+};
+
+type Enum<V extends Variants> = { tag: Field; payload: Field[] } & {
+  is(type: Name<V>): Bool;
+  unwrap<K extends Name<V>>(type: K, message?: string): InferProvable<V[K]>;
+  match<R>(resultType: ProvableType<R>, handlers: Handlers<V, R>): R;
+};
+
+/**
+ * Define a provable tagged union, where a value is one of several variants, each with its own provable type.
+ *
+ * A value is represented by a `tag`, the index of its variant, and a `payload` which holds the fields of the variant,
+ * padded with zeros to the size of the largest variant. The variant types have to be pure, i.e. without auxiliary data.
+ *
+ * @example
+ * ```ts
+ * class Transfer extends Struct({ from: PublicKey, to: PublicKey, amount: UInt64 }) {}
+ * class Mint extends Struct({ to: PublicKey, amount: UInt64 }) {}
+ *
+ * class Action extends Provable.Enum({ Transfer, Mint, Burn: UInt64 }) {}
+ *
+ * let action = Action.from('Mint', { to, amount: UInt64.from(10) });
+ *
+ * // in provable code
+ * let amount = action.match(UInt64, {
+ *   Transfer: (transfer) => UInt64.zero,
+ *   Mint: (mint) => mint.amount,
+ *   Burn: (amount) => amount,
+ * });
+ * let mint = action.unwrap('Mint'); // fails if the action is not a mint
+ * ```
+ *
+ * The JS value and JSON representation of a variant is `{ type: 'Mint', value: ... }`.
+ * The type can be used for on-chain state, events and actions, for example as the `actionType` of a `Reducer` or `BatchReducer`.
+ */
+function Enum<V extends Variants>(
+  variants: V
+): ProvablePure<Enum<V>, EnumValue<V>> &
+  (new (value: { tag: Field; payload: Field[] }) => Enum<V>) & {
+    from<K extends Name<V>>(
+      type: K,
+      value: InferProvable<V[K]> | InferValue<V[K]>
+    ): Enum<V>;
+    fromValue(value: EnumValue<V> | Enum<V>): Enum<V>;
+    toInput(value: Enum<V>): HashInput;
+    toJSON(value: Enum<V>): EnumJson<V>;
+    fromJSON(json: EnumJson<V>): Enum<V>;
+    empty(): Enum<V>;
+    /**
+     * The names of the variants, in the order of their tags.
+     */
+    variants: Name<V>[];
+  } {
+  let names = Object.keys(variants) as Name<V>[];
+  assert(names.length > 0, 'Enum: expected at least one variant');
+  let types = names.map(
+    (name) => ProvableType.get(variants[name]) as Provable<any>
+  );
+  let sizes = types.map((type) => type.sizeInFields());
+  let maxSize = Math.max(...sizes);
+
+  function tagOf(name: string) {
+    let tag = names.indexOf(name as Name<V>);
+    assert(
+      tag !== -1,
+      `Enum: unknown variant ${name}, expected one of ${names.join(', ')}`
+    );
+    return tag;
+  }
+  function pad(fields: Field[]) {
+    return fields.concat(
+      Array.from({ length: maxSize - fields.length }, () => createField(0))
+    );
+  }
+  function emptyFields(i: number) {
+    let type = types[i] as Provable<any> & { empty?: () => any };
+    if (type.empty === undefined) return pad([]).slice(0, sizes[i]);
+    return type.toFields(type.empty());
+  }
+  function variantOf(tag: Field) {
+    let i = Number(tag.toBigInt());
+    assert(i < names.length, `Enum: invalid tag ${i}`);
+    return i;
+  }
+  function decode(i: number, payload: Field[]) {
+    return types[i].fromFields(
+      payload.slice(0, sizes[i]),
+      types[i].toAuxiliary()
+    );
+  }
+  function jsonMethods(i: number) {
+    let type = types[i] as Provable<any> & {
+      toJSON?: (x: any) => any;
+      fromJSON?: (x: any) => any;
+    };
+    assert(
+      type.toJSON !== undefined && type.fromJSON !== undefined,
+      `Enum: the type of variant ${names[i]} doesn't support JSON`
+    );
+    return {
+      toJSON: (x: any) => type.toJSON!(x),
+      fromJSON: (x: any) => type.fromJSON!(x),
+    };
+  }
+
+  type Plain = { tag: Field; payload: Field[] };
+  const PlainEnum = provable({
+    tag: getField(),
+    payload: Provable.Array(getField(), maxSize),
+  });
+
+  const RawEnum = {
+    ...PlainEnum,
+
+    toValue({ tag, payload }: Plain): EnumValue<V> {
+      let i = variantOf(tag);
+      let value = types[i].toValue(decode(i, payload));
+      return { type: names[i], value } as EnumValue<V>;
+    },
+
+    fromValue(value: EnumValue<V> | Plain): Plain {
+      if ('tag' in value) return value;
+      let i = tagOf(value.type);
+      let fields = types[i].toFields(types[i].fromValue(value.value));
+      return { tag: createField(i), payload: pad(fields) };
+    },
+
+    toJSON({ tag, payload }: Plain): EnumJson<V> {
+      let i = variantOf(tag);
+      let value = jsonMethods(i).toJSON(decode(i, payload));
+      return { type: names[i], value } as EnumJson<V>;
+    },
+
+    fromJSON({ type, value }: EnumJson<V>): Plain {
+      let i = tagOf(type);
+      let fields = types[i].toFields(jsonMethods(i).fromJSON(value));
+      return { tag: createField(i), payload: pad(fields) };
+    },
+
+    empty(): Plain {
+      return { tag: createField(0), payload: pad(emptyFields(0)) };
+    },
+
+    check({ tag, payload }: Plain) {
+      let isVariant = names.map((_, i) => tag.equals(i));
+      isVariant
+        .reduce((acc, x) => acc.add(x.toField()), createField(0))
+        .assertEquals(1, 'Enum: invalid tag');
+
+      // the payload is checked as the active variant, and an empty value is checked for the other variants,
+      // because the all-zero fields aren't a valid value of every type
+      types.forEach((type, i) => {
+        let empty = emptyFields(i);
+        let fields = payload
+          .slice(0, sizes[i])
+          .map((x, j) =>
+            empty[j].add(x.sub(empty[j]).mul(isVariant[i].toField()))
+          );
+        type.check(type.fromFields(fields, type.toAuxiliary()));
+      });
+
+      // the padding after the active variant is zero, so that every value has a unique representation
+      for (let j = 0; j < maxSize; j++) {
+        let isPadding = isVariant
+          .filter((_, i) => sizes[i] <= j)
+          .reduce((acc, x) => acc.add(x.toField()), createField(0));
+        payload[j].mul(isPadding).assertEquals(0, 'Enum: invalid padding');
+      }
+    },
+
+    toCanonical({ tag, payload }: Plain): Plain {
+      if (types.every((type) => type.toCanonical === undefined)) {
+        return { tag, payload };
+      }
+      let isVariant = names.map((_, i) => tag.equals(i));
+      let canonical = types.map((type, i) =>
+        pad(type.toFields(Provable.toCanonical(type, decode(i, payload))))
+      );
+      // a masked sum instead of `Provable.switch()`, which would fail on invalid tags
+      return {
+        tag,
+        payload: payload.map((_, j) =>
+          canonical.reduce(
+            (acc, fields, i) => acc.add(fields[j].mul(isVariant[i].toField())),
+            createField(0)
+          )
+        ),
+      };
+    },
+  };
+
+  // not using `Struct` here, because it imports `Provable` which imports this module
+  class Enum_ {
+    tag: Field;
+    payload: Field[];
+
+    constructor({ tag, payload }: Plain) {
+      this.tag = tag;
+      this.payload = payload;
+    }
+
+    static variants = names;
+
+    /**
+     * Create a value of the variant `type`.
+     */
+    static from<K extends Name<V>>(
+      type: K,
+      value: InferProvable<V[K]> | InferValue<V[K]>
+    ): Enum_ {
+      let i = tagOf(type);
+      let fields = types[i].toFields(types[i].fromValue(value));
+      return new Enum_({ tag: createField(i), payload: pad(fields) });
+    }
+
+    /**
+     * Checks whether the value is of the variant `type`.
+     */
+    is(type: Name<V>): Bool {
+      return this.tag.equals(tagOf(type));
+    }
+
+    /**
+     * Returns the value of the variant `type`, and asserts that the value is of that variant.
+     */
+    unwrap<K extends Name<V>>(type: K, message?: string): InferProvable<V[K]> {
+      let i = tagOf(type);
+      this.is(type).assertTrue(message ?? `Enum: expected variant ${type}`);
+      return decode(i, this.payload);
+    }
+
+    /**
+     * Calls the handler of the variant of this value, and returns its result.
+     *
+     * **Warning**: Like {@link Provable.if}, all handlers are executed, on the payload interpreted as their variant.
+     * Only the result of the matching handler is returned, so the other handlers shouldn't contain assertions.
+     */
+    match<R>(resultType: ProvableType<R>, handlers: Handlers<V, R>): R {
+      let isVariant = names.map((_, i) => this.tag.equals(i));
+      let results = names.map((name, i) =>
+        handlers[name](decode(i, this.payload))
+      );
+      return Provable.switch(isVariant, resultType, results);
+    }
+
+    static sizeInFields() {
+      return RawEnum.sizeInFields();
+    }
+    static toFields(value: Plain) {
+      return RawEnum.toFields(value);
+    }
+    static toAuxiliary(value?: Plain) {
+      return RawEnum.toAuxiliary(value);
+    }
+    static fromFields(fields: Field[]): Enum_ {
+      return new Enum_(RawEnum.fromFields(fields));
+    }
+    static check(value: Plain) {
+      RawEnum.check(value);
+    }
+    static toValue(value: Plain) {
+      return RawEnum.toValue(value);
+    }
+    static fromValue(value: EnumValue<V> | Plain): Enum_ {
+      return new Enum_(RawEnum.fromValue(value));
+    }
+    static toInput(value: Plain) {
+      return RawEnum.toInput(value);
+    }
+    static toJSON(value: Plain) {
+      return RawEnum.toJSON(value);
+    }
+    static fromJSON(json: EnumJson<V>): Enum_ {
+      return new Enum_(RawEnum.fromJSON(json));
+    }
+    static empty(): Enum_ {
+      return new Enum_(RawEnum.empty());
+    }
+    static toCanonical(value: Plain): Enum_ {
+      return new Enum_(RawEnum.toCanonical(value));
+    }
+  }
+  return Enum_;
+}
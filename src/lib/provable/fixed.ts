@@ -0,0 +1,679 @@
+import { Field, Bool } from './wrapped.js';
+import { Struct } from './types/struct.js';
+import { Provable } from './provable.js';
+import { HashInput } from './crypto/poseidon.js';
+import * as RangeCheck from './gadgets/range-check.js';
+import {
+  lessThanGeneric,
+  lessThanOrEqualGeneric,
+} from './gadgets/comparison.js';
+import { Int64, Sign, UInt32, UInt64 } from './int.js';
+import { assert } from '../util/assert.js';
+
+export { UFixed, Fixed, Rounding };
+
+/**
+ * How to round the result of a fixed-point operation which can't be represented exactly:
+ * - `floor` rounds towards negative infinity
+ * - `ceil` rounds towards positive infinity
+ * - `nearest` rounds to the nearest representable value, and halfway cases away from zero
+ */
+type Rounding = 'floor' | 'ceil' | 'nearest';
+
+/**
+ * Creates a class of non-negative fixed-point decimals with the given number of `decimals`.
+ *
+ * A value `x` is represented by the {@link UInt64} `x * 10^decimals`, so the largest value is `(2^64 - 1) / 10^decimals`.
+ *
+ * Addition and subtraction are exact. Multiplication, division and square roots round their results,
+ * to the nearest value below by default. All operations throw an error (and fail the proof) on overflow or underflow.
+ *
+ * @example
+ * ```ts
+ * class Price extends UFixed(9) {}
+ *
+ * let price = Price.from('1.25');
+ * let amount = Price.from(3);
+ * price.mul(amount).assertEquals('3.75');
+ * Price.from(1).div(3, 'ceil').assertEquals('0.333333334');
+ * ```
+ */
+function UFixed(decimals: number) {
+  checkDecimals(decimals);
+  const SCALE = 10n ** BigInt(decimals);
+  const name = `UFixed(${decimals})`;
+
+  type From = UFixed_ | UInt64 | UInt32 | string | number | bigint;
+
+  class UFixed_ extends Struct({ value: UInt64 }) {
+    static decimals = decimals;
+    static SCALE = SCALE;
+
+    /**
+     * Creates a new instance from a decimal string like `'1.25'`, a number or an integer.
+     *
+     * **Warning**: An error is thrown if the input has more than `decimals` decimals, is negative or too large.
+     */
+    static from<T extends typeof UFixed_>(this: T, x: From): InstanceType<T> {
+      if (x instanceof this) return x as InstanceType<T>;
+      if (x instanceof UInt64 || x instanceof UInt32) {
+        return this.fromRaw(UInt64.from(x).mul(UInt64.from(SCALE)));
+      }
+      let raw = parseDecimal(x, decimals, name);
+      if (raw < 0n)
+        throw Error(`${name}: Expected a non-negative number, got ${x}`);
+      return this.fromRaw(UInt64.from(raw));
+    }
+
+    /**
+     * Creates a new instance from its raw representation, which is the value times `10^decimals`.
+     */
+    static fromRaw<T extends typeof UFixed_>(
+      this: T,
+      value: UInt64 | bigint
+    ): InstanceType<T> {
+      return new this({ value: UInt64.from(value) }) as InstanceType<T>;
+    }
+
+    /**
+     * Static method to create an instance with value `0`.
+     */
+    static get zero() {
+      return this.fromRaw(0n);
+    }
+
+    /**
+     * Static method to create an instance with value `1`.
+     */
+    static get one() {
+      return this.fromRaw(SCALE);
+    }
+
+    /**
+     * Creates an instance with the largest value, `(2^64 - 1) / 10^decimals`.
+     */
+    static MAXINT<T extends typeof UFixed_>(this: T): InstanceType<T> {
+      return this.fromRaw(UInt64.MAXINT());
+    }
+
+    static check(x: { value: UInt64 }) {
+      UInt64.check(x.value);
+    }
+
+    static toInput(x: { value: UInt64 }): HashInput {
+      return UInt64.toInput(x.value);
+    }
+
+    private get Constructor() {
+      return this.constructor as typeof UFixed_;
+    }
+
+    private create(value: UInt64): this {
+      return this.Constructor.fromRaw(value) as this;
+    }
+
+    /**
+     * Addition with overflow checking.
+     */
+    add(y: From): this {
+      return this.create(this.value.add(this.Constructor.from(y).value));
+    }
+
+    /**
+     * Subtraction with underflow checking.
+     */
+    sub(y: From): this {
+      return this.create(this.value.sub(this.Constructor.from(y).value));
+    }
+
+    /**
+     * Multiplication, which rounds the result to `decimals` decimals.
+     */
+    mul(y: From, rounding: Rounding = 'floor'): this {
+      let y_ = this.Constructor.from(y);
+      let product = this.value.value.mul(y_.value.value);
+      return this.create(
+        divRound(product, Field(SCALE), rounding, Bool(false), `${name}.mul()`)
+      );
+    }
+
+    /**
+     * Division, which rounds the result to `decimals` decimals.
+     *
+     * Throws an error on division by zero.
+     */
+    div(y: From, rounding: Rounding = 'floor'): this {
+      let y_ = this.Constructor.from(y);
+      let numerator = this.value.value.mul(SCALE);
+      return this.create(
+        divRound(
+          numerator,
+          y_.value.value,
+          rounding,
+          Bool(false),
+          `${name}.div()`
+        )
+      );
+    }
+
+    /**
+     * Square root, which rounds the result to `decimals` decimals.
+     */
+    sqrt(rounding: Rounding = 'floor'): this {
+      return this.create(sqrtRound(this.value.value.mul(SCALE), rounding));
+    }
+
+    /**
+     * Rounds to an integer, returned as a {@link UInt64}.
+     */
+    toUInt64(rounding: Rounding = 'floor'): UInt64 {
+      return divRound(
+        this.value.value,
+        Field(SCALE),
+        rounding,
+        Bool(false),
+        `${name}.toUInt64()`
+      );
+    }
+
+    /**
+     * Checks if this is equal to another value.
+     */
+    equals(y: From): Bool {
+      return this.value.equals(this.Constructor.from(y).value);
+    }
+
+    /**
+     * Asserts that this is equal to another value.
+     */
+    assertEquals(y: From, message?: string) {
+      this.value.value.assertEquals(
+        this.Constructor.from(y).value.value,
+        message
+      );
+    }
+
+    /**
+     * Checks if this is less than another value.
+     */
+    lessThan(y: From): Bool {
+      return this.value.lessThan(this.Constructor.from(y).value);
+    }
+
+    /**
+     * Checks if this is less than or equal to another value.
+     */
+    lessThanOrEqual(y: From): Bool {
+      return this.value.lessThanOrEqual(this.Constructor.from(y).value);
+    }
+
+    /**
+     * Checks if this is greater than another value.
+     */
+    greaterThan(y: From): Bool {
+      return this.value.greaterThan(this.Constructor.from(y).value);
+    }
+
+    /**
+     * Checks if this is greater than or equal to another value.
+     */
+    greaterThanOrEqual(y: From): Bool {
+      return this.value.greaterThanOrEqual(this.Constructor.from(y).value);
+    }
+
+    /**
+     * Asserts that this is less than another value.
+     */
+    assertLessThan(y: From, message?: string) {
+      this.value.assertLessThan(this.Constructor.from(y).value, message);
+    }
+
+    /**
+     * Asserts that this is less than or equal to another value.
+     */
+    assertLessThanOrEqual(y: From, message?: string) {
+      this.value.assertLessThanOrEqual(this.Constructor.from(y).value, message);
+    }
+
+    /**
+     * Asserts that this is greater than another value.
+     */
+    assertGreaterThan(y: From, message?: string) {
+      this.value.assertGreaterThan(this.Constructor.from(y).value, message);
+    }
+
+    /**
+     * Asserts that this is greater than or equal to another value.
+     */
+    assertGreaterThanOrEqual(y: From, message?: string) {
+      this.value.assertGreaterThanOrEqual(
+        this.Constructor.from(y).value,
+        message
+      );
+    }
+
+    /**
+     * Turns the value into a decimal string like `'1.25'`.
+     *
+     * **Warning**: This operation is not provable.
+     */
+    toString() {
+      return formatDecimal(this.value.toBigInt(), decimals);
+    }
+  }
+  return UFixed_;
+}
+
+/**
+ * Creates a class of signed fixed-point decimals with the given number of `decimals`.
+ *
+ * A value `x` is represented by the {@link Int64} `x * 10^decimals`, so values range between
+ * `-(2^64 - 1) / 10^decimals` and `(2^64 - 1) / 10^decimals`.
+ *
+ * Addition and subtraction are exact. Multiplication, division and square roots round their results,
+ * towards negative infinity by default. All operations throw an error (and fail the proof) on overflow.
+ *
+ * @example
+ * ```ts
+ * class Rate extends Fixed(6) {}
+ *
+ * Rate.from('-1.5').mul('0.3').assertEquals('-0.45');
+ * Rate.from(-1).div(3).assertEquals('-0.333334');
+ * Rate.from(-1).div(3, 'nearest').assertEquals('-0.333333');
+ * ```
+ */
+function Fixed(decimals: number) {
+  checkDecimals(decimals);
+  const SCALE = 10n ** BigInt(decimals);
+  const name = `Fixed(${decimals})`;
+
+  type From = Fixed_ | Int64 | UInt64 | UInt32 | string | number | bigint;
+
+  class Fixed_ extends Struct({ value: Int64 }) {
+    static decimals = decimals;
+    static SCALE = SCALE;
+
+    /**
+     * Creates a new instance from a decimal string like `'-1.25'`, a number or an integer.
+     *
+     * **Warning**: An error is thrown if the input has more than `decimals` decimals or is too large.
+     */
+    static from<T extends typeof Fixed_>(this: T, x: From): InstanceType<T> {
+      if (x instanceof this) return x as InstanceType<T>;
+      if (x instanceof Int64 || x instanceof UInt64 || x instanceof UInt32) {
+        return this.fromRaw(Int64.from(x).mul(SCALE));
+      }
+      return this.fromRaw(Int64.from(parseDecimal(x, decimals, name)));
+    }
+
+    /**
+     * Creates a new instance from its raw representation, which is the value times `10^decimals`.
+     */
+    static fromRaw<T extends typeof Fixed_>(
+      this: T,
+      value: Int64 | bigint
+    ): InstanceType<T> {
+      return new this({ value: Int64.from(value) }) as InstanceType<T>;
+    }
+
+    /**
+     * Static method to create an instance with value `0`.
+     */
+    static get zero() {
+      return this.fromRaw(0n);
+    }
+
+    /**
+     * Static method to create an instance with value `1`.
+     */
+    static get one() {
+      return this.fromRaw(SCALE);
+    }
+
+    static check(x: { value: Int64 }) {
+      Int64.check(x.value);
+    }
+
+    static toInput(x: { value: Int64 }): HashInput {
+      return Int64.toInput(x.value);
+    }
+
+    private get Constructor() {
+      return this.constructor as typeof Fixed_;
+    }
+
+    private create(value: Int64): this {
+      return this.Constructor.fromRaw(value) as this;
+    }
+
+    private createFromMagnitude(magnitude: UInt64, isNegative: Bool): this {
+      let sign = Provable.if(isNegative, Sign.minusOne, Sign.one);
+      return this.create(Int64.create(magnitude, sign));
+    }
+
+    /**
+     * Addition with overflow checking.
+     */
+    add(y: From): this {
+      return this.create(this.value.add(this.Constructor.from(y).value));
+    }
+
+    /**
+     * Subtraction with overflow checking.
+     */
+    sub(y: From): this {
+      return this.create(this.value.sub(this.Constructor.from(y).value));
+    }
+
+    /**
+     * Negation.
+     */
+    neg(): this {
+      return this.create(this.value.neg());
+    }
+
+    /**
+     * Absolute value.
+     */
+    abs(): this {
+      return this.create(Int64.create(this.value.magnitude));
+    }
+
+    /**
+     * Multiplication, which rounds the result to `decimals` decimals.
+     */
+    mul(y: From, rounding: Rounding = 'floor'): this {
+      let y_ = this.Constructor.from(y);
+      let isNegative = this.isNegative().equals(y_.isNegative()).not();
+      let product = this.value.magnitude.value.mul(y_.value.magnitude.value);
+      let magnitude = divRound(
+        product,
+        Field(SCALE),
+        rounding,
+        isNegative,
+        `${name}.mul()`
+      );
+      return this.createFromMagnitude(magnitude, isNegative);
+    }
+
+    /**
+     * Division, which rounds the result to `decimals` decimals.
+     *
+     * Throws an error on division by zero.
+     */
+    div(y: From, rounding: Rounding = 'floor'): this {
+      let y_ = this.Constructor.from(y);
+      let isNegative = this.isNegative().equals(y_.isNegative()).not();
+      let numerator = this.value.magnitude.value.mul(SCALE);
+      let magnitude = divRound(
+        numerator,
+        y_.value.magnitude.value,
+        rounding,
+        isNegative,
+        `${name}.div()`
+      );
+      return this.createFromMagnitude(magnitude, isNegative);
+    }
+
+    /**
+     * Square root, which rounds the result to `decimals` decimals.
+     *
+     * Throws an error if the value is negative.
+     */
+    sqrt(rounding: Rounding = 'floor'): this {
+      this.isNegative().assertFalse(
+        `${name}.sqrt(): expected a non-negative value`
+      );
+      let magnitude = this.value.magnitude.value.mul(SCALE);
+      return this.create(Int64.create(sqrtRound(magnitude, rounding)));
+    }
+
+    /**
+     * Checks if this is negative.
+     */
+    isNegative(): Bool {
+      return this.value.isNegative();
+    }
+
+    /**
+     * Checks if this is equal to another value.
+     */
+    equals(y: From): Bool {
+      return this.value.equals(this.Constructor.from(y).value);
+    }
+
+    /**
+     * Asserts that this is equal to another value.
+     */
+    assertEquals(y: From, message?: string) {
+      this.value.assertEquals(this.Constructor.from(y).value, message);
+    }
+
+    /**
+     * Checks if this is less than another value.
+     */
+    lessThan(y: From): Bool {
+      let [x0, y0] = [this.shifted(), this.Constructor.from(y).shifted()];
+      if (x0.isConstant() && y0.isConstant()) {
+        return Bool(x0.toBigInt() < y0.toBigInt());
+      }
+      return lessThanGeneric(x0, y0, 1n << 80n, (v) =>
+        RangeCheck.rangeCheckN(80, v)
+      );
+    }
+
+    /**
+     * Checks if this is less than or equal to another value.
+     */
+    lessThanOrEqual(y: From): Bool {
+      let [x0, y0] = [this.shifted(), this.Constructor.from(y).shifted()];
+      if (x0.isConstant() && y0.isConstant()) {
+        return Bool(x0.toBigInt() <= y0.toBigInt());
+      }
+      return lessThanOrEqualGeneric(x0, y0, 1n << 80n, (v) =>
+        RangeCheck.rangeCheckN(80, v)
+      );
+    }
+
+    /**
+     * Checks if this is greater than another value.
+     */
+    greaterThan(y: From): Bool {
+      return this.Constructor.from(y).lessThan(this);
+    }
+
+    /**
+     * Checks if this is greater than or equal to another value.
+     */
+    greaterThanOrEqual(y: From): Bool {
+      return this.Constructor.from(y).lessThanOrEqual(this);
+    }
+
+    /**
+     * Asserts that this is less than another value.
+     */
+    assertLessThan(y: From, message?: string) {
+      let y_ = this.Constructor.from(y);
+      this.lessThan(y_).assertTrue(
+        message ?? `${name}.assertLessThan: expected x < y`
+      );
+    }
+
+    /**
+     * Asserts that this is less than or equal to another value.
+     */
+    assertLessThanOrEqual(y: From, message?: string) {
+      let y_ = this.Constructor.from(y);
+      this.lessThanOrEqual(y_).assertTrue(
+        message ?? `${name}.assertLessThanOrEqual: expected x <= y`
+      );
+    }
+
+    /**
+     * Asserts that this is greater than another value.
+     */
+    assertGreaterThan(y: From, message?: string) {
+      this.Constructor.from(y).assertLessThan(this, message);
+    }
+
+    /**
+     * Asserts that this is greater than or equal to another value.
+     */
+    assertGreaterThanOrEqual(y: From, message?: string) {
+      this.Constructor.from(y).assertLessThanOrEqual(this, message);
+    }
+
+    /**
+     * Turns the value into a decimal string like `'-1.25'`.
+     *
+     * **Warning**: This operation is not provable.
+     */
+    toString() {
+      return formatDecimal(this.value.toBigint(), decimals);
+    }
+
+    /**
+     * The raw value plus 2^64, which maps the range of values to [1, 2^65) while preserving the order.
+     */
+    private shifted() {
+      return this.value.toField().add(1n << 64n);
+    }
+  }
+  return Fixed_;
+}
+
+// helpers
+
+function checkDecimals(decimals: number) {
+  assert(
+    Number.isInteger(decimals) && decimals >= 0 && decimals <= 19,
+    `decimals must be an integer between 0 and 19, got ${decimals}`
+  );
+}
+
+function parseDecimal(
+  x: string | number | bigint,
+  decimals: number,
+  name: string
+) {
+  let SCALE = 10n ** BigInt(decimals);
+  if (typeof x === 'bigint') return x * SCALE;
+  if (typeof x === 'number' && Number.isInteger(x)) return BigInt(x) * SCALE;
+  let match = String(x).match(/^(-?)(\d+)(?:\.(\d+))?$/);
+  if (match === null) {
+    throw Error(`${name}: Expected a decimal number, got ${x}`);
+  }
+  let [, sign, integer, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw Error(`${name}: Expected at most ${decimals} decimals, got ${x}`);
+  }
+  let raw = BigInt(integer) * SCALE + BigInt(fraction.padEnd(decimals, '0'));
+  return sign === '-' ? -raw : raw;
+}
+
+function formatDecimal(raw: bigint, decimals: number) {
+  let sign = raw < 0n ? '-' : '';
+  let digits = (raw < 0n ? -raw : raw).toString().padStart(decimals + 1, '0');
+  let integer = digits.slice(0, digits.length - decimals);
+  let fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${sign}${integer}${fraction === '' ? '' : `.${fraction}`}`;
+}
+
+/**
+ * Divides a non-negative `numerator < 2^130` by a positive `denominator < 2^64` and rounds the quotient,
+ * as the magnitude of a value which is negative if `isNegative` is true.
+ */
+function divRound(
+  numerator: Field,
+  denominator: Field,
+  rounding: Rounding,
+  isNegative: Bool,
+  method: string
+): UInt64 {
+  if (rounding === 'nearest') {
+    // round(n / d) = floor((2n + d) / 2d), which rounds halfway cases up
+    return divFloor(
+      numerator.mul(2).add(denominator),
+      denominator.mul(2),
+      method
+    );
+  }
+  // ceil(n / d) = floor((n + d - 1) / d)
+  let roundUp = rounding === 'ceil' ? isNegative.not() : isNegative;
+  let adjusted = numerator.add(
+    Provable.if(roundUp, denominator.sub(1), Field(0))
+  );
+  return divFloor(adjusted, denominator, method);
+}
+
+function divFloor(numerator: Field, denominator: Field, method: string) {
+  if (numerator.isConstant() && denominator.isConstant()) {
+    let [n, d] = [numerator.toBigInt(), denominator.toBigInt()];
+    assert(d !== 0n, `${method}: division by zero`);
+    assert(n / d < 1n << 64n, `${method}: overflow`);
+    return UInt64.from(n / d);
+  }
+  let [q, r] = Provable.witness(Provable.Array(Field, 2), () => {
+    let [n, d] = [numerator.toBigInt(), denominator.toBigInt()];
+    if (d === 0n) return [Field(0), Field(0)];
+    return [Field(n / d), Field(n % d)];
+  });
+  RangeCheck.rangeCheckN(64, q, `${method}: overflow`);
+  RangeCheck.rangeCheckN(80, r);
+  // r < d, which also rules out d = 0
+  RangeCheck.rangeCheckN(
+    80,
+    denominator.sub(r).sub(1).seal(),
+    `${method}: division by zero`
+  );
+  // all terms are much smaller than the field modulus, so this equation holds over the integers
+  q.mul(denominator).add(r).assertEquals(numerator);
+  return UInt64.Unsafe.fromField(q);
+}
+
+/**
+ * Square root of a non-negative `x < 2^128`, rounded to an integer.
+ */
+function sqrtRound(x: Field, rounding: Rounding): UInt64 {
+  if (x.isConstant()) {
+    let x0 = x.toBigInt();
+    let s = bigIntSqrt(x0);
+    let remainder = x0 - s * s;
+    let roundUp =
+      rounding === 'ceil'
+        ? remainder > 0n
+        : rounding === 'nearest'
+        ? remainder > s
+        : false;
+    return UInt64.from(roundUp ? s + 1n : s);
+  }
+  let s = Provable.witness(Field, () => bigIntSqrt(x.toBigInt()));
+  RangeCheck.rangeCheckN(64, s);
+  // s^2 <= x < (s + 1)^2, that is, 0 <= x - s^2 <= 2s
+  let remainder = x.sub(s.mul(s)).seal();
+  RangeCheck.rangeCheckN(80, remainder);
+  RangeCheck.rangeCheckN(80, s.mul(2).sub(remainder).seal());
+
+  let sqrt = UInt64.Unsafe.fromField(s);
+  if (rounding === 'floor') return sqrt;
+  // sqrt(x) >= s + 1/2 iff x > s^2 + s
+  let roundUp =
+    rounding === 'ceil'
+      ? remainder.equals(0).not()
+      : lessThanGeneric(s, remainder, 1n << 80n, (v) =>
+          RangeCheck.rangeCheckN(80, v)
+        );
+  return sqrt.add(UInt64.Unsafe.fromField(roundUp.toField()));
+}
+
+function bigIntSqrt(x: bigint) {
+  if (x < 2n) return x;
+  // Newton's method, starting from an estimate which is too large
+  let s = x;
+  let t = (s + 1n) >> 1n;
+  while (t < s) {
+    s = t;
+    t = (s + x / s) >> 1n;
+  }
+  return s;
+}
@@ -6,6 +6,8 @@ import { Gadgets } from './gadgets.js';
 import { assert } from '../../util/errors.js';
 import { Provable } from '../provable.js';
 import { wordToBytes } from './bit-slices.js';
+import { Bool, Field } from '../wrapped.js';
+import { DynamicBytesBase, lastBlockMask } from '../dynamic-bytes.js';
 
 export { BLAKE2B };
 
@@ -60,11 +62,14 @@ const BLAKE2BConstants = {
 };
 
 const BLAKE2B = {
-  hash(data: FlexibleBytes, digestLength = 64) {
+  hash(data: FlexibleBytes | DynamicBytesBase, digestLength = 64) {
     assert(
       digestLength >= 1 && digestLength <= 64,
       `digestLength must be in the range [1, 64], got ${digestLength}`
     );
+    if (data instanceof DynamicBytesBase) {
+      return Bytes.from(hashDynamic(data, digestLength));
+    }
     assert(
       data.length >= 0 && data.length < 2 ** 128,
       `data byte length must be in the range [0, 2**128), got ${data.length}`
@@ -115,13 +120,34 @@ function G(
  * @param {boolean} last
  */
 function compress(state: State, last: boolean): State {
-  const { h, t, buf } = state;
+  const { t, buf } = state;
+  state.h = compressBlock(
+    state.h,
+    buf,
+    [UInt64.from(t[0]), UInt64.from(t[1])],
+    last
+  );
+  return state;
+}
+
+/**
+ * Compresses one block of 128 bytes into the hash state `h`, and returns the new state.
+ * The offset `t` and the `last` flag can be provable.
+ */
+function compressBlock(
+  [...h]: UInt64[],
+  buf: UInt8[],
+  t: [UInt64, UInt64],
+  last: boolean | Bool
+): UInt64[] {
   const v = h.concat(BLAKE2B.IV); // initalize local work vector. First half from state and second half from IV.
 
-  v[12] = v[12].xor(UInt64.from(t[0])); // low word of the offset
-  v[13] = v[13].xor(UInt64.from(t[1])); // high word of the offset
+  v[12] = v[12].xor(t[0]); // low word of the offset
+  v[13] = v[13].xor(t[1]); // high word of the offset
 
-  if (last) {
+  if (last instanceof Bool) {
+    v[14] = Provable.if(last, UInt64, v[14].not(), v[14]);
+  } else if (last) {
     // last block flag set ?
     v[14] = v[14].not();
   }
@@ -162,7 +188,7 @@ function compress(state: State, last: boolean): State {
     // XOR the two halves
     h[i] = v[i].xor(v[i + 8]).xor(h[i]);
   }
-  return state;
+  return h;
 }
 
 /**
@@ -234,3 +260,45 @@ function final(state: State): UInt8[] {
     .flatMap((x) => wordToBytes(x.value));
   return out;
 }
+
+/**
+ * Hashes a message with a provable length, and returns the digest.
+ *
+ * The message is split into the number of blocks needed for the longest possible message.
+ * The state is computed after every block, where the block that contains the end of the message
+ * is compressed with the message length as offset and the last block flag.
+ * The state after that block is selected as the result.
+ */
+function hashDynamic(data: DynamicBytesBase, outlen: number): UInt8[] {
+  let { capacity, length } = data;
+
+  // the last block contains the end of the message, and the empty message is hashed as one block of zeros
+  let isLastBlock = lastBlockMask(data, (k) => (k === 0 ? 0 : 128 * k + 1));
+  let inMessage = data.lengthMask();
+
+  // message bytes, padded with zeros
+  let bytes = Array.from({ length: 128 * isLastBlock.length }, (_, i) =>
+    i < capacity
+      ? UInt8.Unsafe.fromField(data.array[i].value.mul(inMessage[i].toField()))
+      : UInt8.from(0)
+  );
+
+  let h = initialize(outlen).h;
+  let states: UInt64[][] = [];
+
+  for (let k = 0; k < isLastBlock.length; k++) {
+    let buf = bytes.slice(128 * k, 128 * (k + 1));
+    let t = Provable.if(isLastBlock[k], length, Field(128 * (k + 1)));
+    h = compressBlock(
+      h,
+      buf,
+      [UInt64.Unsafe.fromField(t), UInt64.zero],
+      isLastBlock[k]
+    );
+    states.push(h);
+  }
+  h = Provable.switch(isLastBlock, Provable.Array(UInt64, 8), states);
+
+  // little endian convert and store
+  return h.slice(0, outlen / 8).flatMap((x) => wordToBytes(x.value));
+}
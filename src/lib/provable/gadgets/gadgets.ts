@@ -30,9 +30,12 @@ import {
 } from './foreign-field.js';
 import { divMod32, addMod32, divMod64, addMod64 } from './arithmetic.js';
 import { SHA256 } from './sha256.js';
+import { SHA512, SHA384 } from './sha512.js';
+import { RIPEMD160 } from './ripemd160.js';
 import { BLAKE2B } from './blake2b.js';
 import { rangeCheck3x12 } from './lookup.js';
 import { arrayGet } from './basic.js';
+import { sort, assertPermutation, assertSorted, assertUnique } from './sort.js';
 
 export { Gadgets, Field3, ForeignFieldSum };
 
@@ -953,6 +956,65 @@ const Gadgets = {
    */
   addMod64,
 
+  /**
+   * Sorts an array in ascending order, and proves that the result is a sorted permutation of the input.
+   *
+   * By default, {@link Field} elements are compared by their value. Other types, like {@link Struct}s, are sorted by a `key` which maps every element to a {@link Field}.
+   * The order of elements with equal keys is not constrained, so a prover can reorder them.
+   *
+   * Uses {@link Gadgets.assertPermutation} and {@link Gadgets.assertSorted} internally.
+   *
+   * @example
+   * ```ts
+   * let sorted = Gadgets.sort(Field, [Field(3), Field(1), Field(2)]);
+   * // sorted = [1, 2, 3]
+   *
+   * class Bid extends Struct({ bidder: PublicKey, amount: UInt64 }) {}
+   * let ranked = Gadgets.sort(Bid, bids, { key: (bid) => bid.amount.value });
+   * ```
+   */
+  sort,
+
+  /**
+   * Asserts that the second array is a permutation of the first, i.e. that both contain the same elements with the same multiplicities.
+   *
+   * Elements are compared by their field representation, so this works for every provable type.
+   * The check is a grand product over a random challenge, `prod_i (beta - a_i) = prod_i (beta - b_i)`, where the challenge is derived from a Poseidon hash of both arrays.
+   * The cost is linear in the total number of field elements.
+   *
+   * @example
+   * ```ts
+   * Gadgets.assertPermutation(Field, [Field(1), Field(2), Field(2)], [Field(2), Field(1), Field(2)]);
+   * ```
+   */
+  assertPermutation,
+
+  /**
+   * Asserts that an array is sorted in ascending order, by value for {@link Field} elements or by a `key` for other types.
+   *
+   * With `strict: true`, the keys have to be strictly increasing.
+   *
+   * @example
+   * ```ts
+   * Gadgets.assertSorted([Field(1), Field(2), Field(2)]);
+   * Gadgets.assertSorted(bids, { key: (bid) => bid.amount.value, strict: true });
+   * ```
+   */
+  assertSorted,
+
+  /**
+   * Asserts that no two elements of an array are equal, by value for {@link Field} elements or by a `key` for other types.
+   *
+   * The keys are sorted in a witness and then checked to be strictly increasing, so the cost is linear in the array length.
+   *
+   * @example
+   * ```ts
+   * Gadgets.assertUnique(nullifiers);
+   * Gadgets.assertUnique(voters, { key: (voter) => voter.id });
+   * ```
+   */
+  assertUnique,
+
   /**
    * Implementation of the [SHA256 hash function.](https://en.wikipedia.org/wiki/SHA-2) Hash function with 256bit output.
    *
@@ -960,6 +1022,7 @@ const Gadgets = {
    *
    * The function accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
    * Alternatively, you can pass plain `number[]`, `bigint[]` or `Uint8Array` to perform a hash outside provable code.
+   * Messages whose length is only known at runtime can be passed as {@link DynamicBytes}; they are padded at their provable length.
    *
    * Produces an output of {@link Bytes} that conforms to the chosen bit length.
    *
@@ -973,6 +1036,55 @@ const Gadgets = {
    */
   SHA256: SHA256,
 
+  /**
+   * Implementation of the [SHA512 hash function.](https://en.wikipedia.org/wiki/SHA-2) Hash function with 512bit output.
+   *
+   * Applies the SHA2-512 hash function to a list of byte-sized elements, using 64-bit words.
+   *
+   * The function accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
+   * Alternatively, you can pass plain `number[]`, `bigint[]` or `Uint8Array` to perform a hash outside provable code.
+   * Messages whose length is only known at runtime can be passed as {@link DynamicBytes}; they are padded at their provable length.
+   *
+   * Produces an output of {@link Bytes} that conforms to the chosen bit length.
+   *
+   * @param data - {@link Bytes} representing the message to hash.
+   *
+   * ```ts
+   * let preimage = Bytes.fromString("hello world");
+   * let digest = Gadgets.SHA512.hash(preimage);
+   * ```
+   *
+   */
+  SHA512: SHA512,
+
+  /**
+   * Implementation of the [SHA384 hash function.](https://en.wikipedia.org/wiki/SHA-2) Hash function with 384bit output.
+   *
+   * SHA2-384 is SHA2-512 with different initial hash values, truncated to 384 bits.
+   * See {@link Gadgets.SHA512} for the accepted inputs.
+   *
+   * ```ts
+   * let preimage = Bytes.fromString("hello world");
+   * let digest = Gadgets.SHA384.hash(preimage);
+   * ```
+   *
+   */
+  SHA384: SHA384,
+
+  /**
+   * Implementation of the [RIPEMD-160 hash function.](https://en.wikipedia.org/wiki/RIPEMD) Hash function with 160bit output.
+   *
+   * Applies the RIPEMD-160 hash function to a list of byte-sized elements, as used for Bitcoin addresses.
+   * See {@link Gadgets.SHA256} for the accepted inputs.
+   *
+   * ```ts
+   * let preimage = Bytes.fromString("hello world");
+   * let digest = Gadgets.RIPEMD160.hash(preimage);
+   * ```
+   *
+   */
+  RIPEMD160: RIPEMD160,
+
   /**
    * Implementation of the [BLAKE2b hash function.](https://en.wikipedia.org/wiki/BLAKE_(hash_function)#BLAKE2) Hash function with arbitrary length output.
    *
@@ -980,6 +1092,7 @@ const Gadgets = {
    *
    * The function accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
    * Alternatively, you can pass plain `number[]`, `bigint[]` or `Uint8Array` to perform a hash outside provable code.
+   * Messages whose length is only known at runtime can be passed as {@link DynamicBytes}; they are padded at their provable length.
    *
    * Produces an output of {@link Bytes} that conforms to the chosen digest length.
    *
@@ -0,0 +1,217 @@
+// https://homes.esat.kuleuven.be/~bosselae/ripemd160/pdf/AB-9601/AB-9601.pdf
+import { mod } from '../../../bindings/crypto/finite-field.js';
+import { Field } from '../wrapped.js';
+import { UInt32, UInt8 } from '../int.js';
+import { FlexibleBytes } from '../bytes.js';
+import { Bytes } from '../wrapped-classes.js';
+import { DynamicBytesBase, lastBlockMask } from '../dynamic-bytes.js';
+import { Provable } from '../provable.js';
+import { chunk } from '../../util/arrays.js';
+import { divMod32 } from './arithmetic.js';
+import { wordToBytes } from './bit-slices.js';
+
+export { RIPEMD160 };
+
+const RIPEMD160Constants = {
+  // added constants, for the left and right line
+  K: [0x00000000, 0x5a827999, 0x6ed9eba1, 0x8f1bbcdc, 0xa953fd4e],
+  KPrime: [0x50a28be6, 0x5c4dd124, 0x6d703ef3, 0x7a6d76e9, 0x00000000],
+  // selection of message word
+  r: [
+    0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 7, 4, 13, 1, 10, 6,
+    15, 3, 12, 0, 9, 5, 2, 14, 11, 8, 3, 10, 14, 4, 9, 15, 8, 1, 2, 7, 0, 6, 13,
+    11, 5, 12, 1, 9, 11, 10, 0, 8, 12, 4, 13, 3, 7, 15, 14, 5, 6, 2, 4, 0, 5, 9,
+    7, 12, 2, 10, 14, 1, 3, 8, 11, 6, 15, 13,
+  ],
+  rPrime: [
+    5, 14, 7, 0, 9, 2, 11, 4, 13, 6, 15, 8, 1, 10, 3, 12, 6, 11, 3, 7, 0, 13, 5,
+    10, 14, 15, 8, 12, 4, 9, 1, 2, 15, 5, 1, 3, 7, 14, 6, 9, 11, 8, 12, 2, 10,
+    0, 4, 13, 8, 6, 4, 1, 3, 11, 15, 0, 5, 12, 2, 13, 9, 7, 10, 14, 12, 15, 10,
+    4, 1, 5, 8, 7, 6, 2, 13, 14, 0, 3, 9, 11,
+  ],
+  // amount for rotate left
+  s: [
+    11, 14, 15, 12, 5, 8, 7, 9, 11, 13, 14, 15, 6, 7, 9, 8, 7, 6, 8, 13, 11, 9,
+    7, 15, 7, 12, 15, 9, 11, 7, 13, 12, 11, 13, 6, 7, 14, 9, 13, 15, 14, 8, 13,
+    6, 5, 12, 7, 5, 11, 12, 14, 15, 14, 15, 9, 8, 9, 14, 5, 6, 8, 6, 5, 12, 9,
+    15, 5, 11, 6, 8, 13, 12, 5, 12, 13, 14, 11, 8, 5, 6,
+  ],
+  sPrime: [
+    8, 9, 9, 11, 13, 15, 15, 5, 7, 7, 8, 11, 14, 14, 12, 6, 9, 13, 15, 7, 12, 8,
+    9, 11, 7, 7, 12, 7, 6, 15, 13, 11, 9, 7, 15, 11, 8, 6, 6, 14, 12, 13, 5, 14,
+    13, 13, 7, 5, 15, 5, 8, 11, 14, 14, 6, 14, 6, 9, 12, 9, 12, 5, 15, 8, 8, 5,
+    12, 9, 12, 5, 14, 6, 8, 13, 6, 5, 15, 13, 11, 11,
+  ],
+  // initial hash values
+  H: [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0],
+};
+
+function padding(data: FlexibleBytes): UInt32[][] {
+  let message = Bytes.from(data);
+
+  // pad 1 bit, followed by k zero bits where k is the smallest non-negative solution to
+  // l + 1 + k = 448 mod 512
+  // then append a 64bit block containing the length of the original message in bits, little endian
+  let l = message.length * 8; // length in bits
+  let k = Number(mod(448n - (BigInt(l) + 1n), 512n));
+
+  let paddingBytes = [
+    0x80,
+    ...Array<number>((k - 7) / 8).fill(0),
+    ...Array.from({ length: 8 }, (_, i) =>
+      Number((BigInt(l) >> BigInt(8 * i)) & 0xffn)
+    ),
+  ].map((x) => UInt8.from(x));
+  let paddedMessage = message.bytes.concat(paddingBytes);
+
+  // chunk 4 bytes into one UInt32, little endian
+  let chunks = chunk(paddedMessage, 4).map((bytes) => UInt32.fromBytes(bytes));
+
+  // RIPEMD-160 expects n-blocks of 512bit each, 16*32bit = 512bit
+  return chunk(chunks, 16);
+}
+
+/**
+ * Pads a message with a provable length, like {@link padding}.
+ *
+ * The padded message has the number of blocks needed for the longest possible message,
+ * and `isLastBlock` marks the block which ends the padding of the actual message.
+ */
+function paddingDynamic(message: DynamicBytesBase) {
+  let { capacity, length } = message;
+
+  // the padding needs at least 9 bytes, so the last block k satisfies 64k - 8 <= length < 64k + 56
+  let isLastBlock = lastBlockMask(message, (k) => 64 * k - 8);
+  let inMessage = message.lengthMask();
+
+  // 64bit block containing the length of the message in bits, little endian
+  let bitLength = wordToBytes(length.mul(8));
+
+  let paddedMessage = Array.from(
+    { length: 64 * isLastBlock.length },
+    (_, i) => {
+      // message bytes, followed by the 1 bit and zeros
+      let byte = Field(0);
+      if (i < capacity)
+        byte = message.array[i].value.mul(inMessage[i].toField());
+      if (i <= capacity) byte = byte.add(length.equals(i).toField().mul(0x80));
+
+      // the length is appended at the end of the last block
+      let k = Math.floor(i / 64);
+      let j = (i % 64) - 56;
+      if (j >= 0) byte = Provable.if(isLastBlock[k], bitLength[j].value, byte);
+      return UInt8.Unsafe.fromField(byte);
+    }
+  );
+
+  let chunks = chunk(paddedMessage, 4).map((bytes) => UInt32.fromBytes(bytes));
+  return { messageBlocks: chunk(chunks, 16), isLastBlock };
+}
+
+const RIPEMD160 = {
+  hash(data: FlexibleBytes | DynamicBytesBase) {
+    let H = RIPEMD160.initialState;
+
+    if (data instanceof DynamicBytesBase) {
+      let { messageBlocks, isLastBlock } = paddingDynamic(data);
+
+      // compute the intermediate hash after every block, and select the one after the last block
+      let states: UInt32[][] = [];
+      for (let block of messageBlocks) {
+        H = ripemd160Compression(H, block);
+        states.push(H);
+      }
+      H = Provable.switch(isLastBlock, Provable.Array(UInt32, 5), states);
+    } else {
+      for (let block of padding(data)) {
+        H = ripemd160Compression(H, block);
+      }
+    }
+
+    // unlike SHA-2, the hash values are output in little endian
+    return Bytes.from(H.flatMap((x) => x.toBytes()));
+  },
+  compression: ripemd160Compression,
+  padding,
+  get initialState() {
+    return RIPEMD160Constants.H.map((x) => UInt32.from(x));
+  },
+};
+
+/**
+ * The nonlinear functions of the five rounds, selected by the round index.
+ */
+function f(round: number, x: UInt32, y: UInt32, z: UInt32) {
+  switch (round) {
+    case 0:
+      return x.xor(y).xor(z);
+    case 1:
+      // (x & y) | (~x & z) = (x & y) + (~x & z), since the two terms have no bits in common
+      return UInt32.Unsafe.fromField(
+        x.and(y).value.add(x.not().and(z).value).seal()
+      );
+    case 2:
+      return x.or(y.not()).xor(z);
+    case 3:
+      // (x & z) | (y & ~z) = (x & z) + (y & ~z)
+      return UInt32.Unsafe.fromField(
+        x.and(z).value.add(y.and(z.not()).value).seal()
+      );
+    default:
+      return x.xor(y.or(z.not()));
+  }
+}
+
+/**
+ * Performs the RIPEMD-160 compression function on the given hash values and message block.
+ *
+ * @param H - The initial or intermediate hash values (5-element array of UInt32).
+ * @param X - The 512-bit message block (16-element array of UInt32).
+ *
+ * @returns The updated intermediate hash values after compression.
+ */
+function ripemd160Compression(H: UInt32[], X: UInt32[]) {
+  let { K, KPrime, r, rPrime, s, sPrime } = RIPEMD160Constants;
+
+  // one step of the left or right line
+  function step(
+    [a, b, c, d, e]: UInt32[],
+    round: number,
+    word: UInt32,
+    k: number,
+    shift: number
+  ) {
+    // the sum is unreduced and not proven to be 32bit, we reduce it before rotating
+    let unreduced = a.value.add(f(round, b, c, d).value).add(word.value).add(k);
+    let rotated = UInt32.Unsafe.fromField(
+      divMod32(unreduced, 48).remainder
+    ).rotate(shift, 'left');
+    let t = rotated.addMod32(e);
+    return [e, t, b, c.rotate(10, 'left'), d];
+  }
+
+  let left = [...H];
+  let right = [...H];
+
+  for (let j = 0; j < 80; j++) {
+    let round = Math.floor(j / 16);
+    left = step(left, round, X[r[j]], K[round], s[j]);
+    right = step(right, 4 - round, X[rPrime[j]], KPrime[round], sPrime[j]);
+  }
+
+  // combine both lines with the previous hash values
+  let [a, b, c, d, e] = left;
+  let [aPrime, bPrime, cPrime, dPrime, ePrime] = right;
+  return [
+    addMod32(H[1], c, dPrime),
+    addMod32(H[2], d, ePrime),
+    addMod32(H[3], e, aPrime),
+    addMod32(H[4], a, bPrime),
+    addMod32(H[0], b, cPrime),
+  ];
+}
+
+function addMod32(...xs: UInt32[]) {
+  let sum = xs.reduce((acc, x) => acc.add(x.value), Field(0));
+  return UInt32.Unsafe.fromField(divMod32(sum, 48).remainder);
+}
@@ -5,11 +5,14 @@ import { UInt32, UInt8 } from '../int.js';
 import { exists } from '../core/exists.js';
 import { FlexibleBytes } from '../bytes.js';
 import { Bytes } from '../wrapped-classes.js';
+import { DynamicBytesBase, lastBlockMask } from '../dynamic-bytes.js';
+import { Provable } from '../provable.js';
 import { chunk } from '../../util/arrays.js';
 import { TupleN } from '../../util/types.js';
 import { divMod32 } from './arithmetic.js';
 import { bitSlice } from './common.js';
 import { rangeCheck16 } from './range-check.js';
+import { wordToBytes } from './bit-slices.js';
 
 export { SHA256 };
 
@@ -77,8 +80,66 @@ function padding(data: FlexibleBytes): UInt32[][] {
   return chunk(chunks, 16);
 }
 
+/**
+ * Pads a message with a provable length, like {@link padding}.
+ *
+ * The padded message has the number of blocks needed for the longest possible message,
+ * and `isLastBlock` marks the block which ends the padding of the actual message.
+ */
+function paddingDynamic(message: DynamicBytesBase) {
+  let { capacity, length } = message;
+
+  // the padding needs at least 9 bytes, so the last block k satisfies 64k - 8 <= length < 64k + 56
+  let isLastBlock = lastBlockMask(message, (k) => 64 * k - 8);
+  let inMessage = message.lengthMask();
+
+  // 64bit block containing the length of the message in bits, big endian
+  let bitLength = wordToBytes(length.mul(8)).reverse();
+
+  let paddedMessage = Array.from(
+    { length: 64 * isLastBlock.length },
+    (_, i) => {
+      // message bytes, followed by the 1 bit and zeros
+      let byte = Field(0);
+      if (i < capacity)
+        byte = message.array[i].value.mul(inMessage[i].toField());
+      if (i <= capacity) byte = byte.add(length.equals(i).toField().mul(0x80));
+
+      // the length is appended at the end of the last block
+      let k = Math.floor(i / 64);
+      let j = (i % 64) - 56;
+      if (j >= 0) byte = Provable.if(isLastBlock[k], bitLength[j].value, byte);
+      return UInt8.Unsafe.fromField(byte);
+    }
+  );
+
+  let chunks = chunk(paddedMessage, 4).map((bytes) =>
+    UInt32.fromBytesBE(bytes)
+  );
+  return { messageBlocks: chunk(chunks, 16), isLastBlock };
+}
+
+function hashDynamic(data: DynamicBytesBase) {
+  let { messageBlocks, isLastBlock } = paddingDynamic(data);
+
+  // compute the intermediate hash after every block, and select the one after the last block
+  let H = SHA256.initialState;
+  let states: UInt32[][] = [];
+
+  for (let block of messageBlocks) {
+    const W = createMessageSchedule(block);
+    H = sha256Compression(H, W);
+    states.push(H);
+  }
+  H = Provable.switch(isLastBlock, Provable.Array(UInt32, 8), states);
+
+  return Bytes.from(H.map((x) => x.toBytesBE()).flat());
+}
+
 const SHA256 = {
-  hash(data: FlexibleBytes) {
+  hash(data: FlexibleBytes | DynamicBytesBase) {
+    if (data instanceof DynamicBytesBase) return hashDynamic(data);
+
     // preprocessing §6.2
     // padding the message $5.1.1 into blocks that are a multiple of 512
     let messageBlocks = padding(data);
@@ -0,0 +1,357 @@
+// https://csrc.nist.gov/pubs/fips/180-4/upd1/final
+import { mod } from '../../../bindings/crypto/finite-field.js';
+import { Field } from '../wrapped.js';
+import { UInt64, UInt8 } from '../int.js';
+import { FlexibleBytes } from '../bytes.js';
+import { Bytes } from '../wrapped-classes.js';
+import { DynamicBytesBase, lastBlockMask } from '../dynamic-bytes.js';
+import { Provable } from '../provable.js';
+import { chunk } from '../../util/arrays.js';
+import { divMod64 } from './arithmetic.js';
+import { bytesToWord, wordToBytes } from './bit-slices.js';
+
+export { SHA512, SHA384 };
+
+const SHA512Constants = {
+  // constants §4.2.3
+  K: [
+    0x428a2f98d728ae22n,
+    0x7137449123ef65cdn,
+    0xb5c0fbcfec4d3b2fn,
+    0xe9b5dba58189dbbcn,
+    0x3956c25bf348b538n,
+    0x59f111f1b605d019n,
+    0x923f82a4af194f9bn,
+    0xab1c5ed5da6d8118n,
+    0xd807aa98a3030242n,
+    0x12835b0145706fben,
+    0x243185be4ee4b28cn,
+    0x550c7dc3d5ffb4e2n,
+    0x72be5d74f27b896fn,
+    0x80deb1fe3b1696b1n,
+    0x9bdc06a725c71235n,
+    0xc19bf174cf692694n,
+    0xe49b69c19ef14ad2n,
+    0xefbe4786384f25e3n,
+    0x0fc19dc68b8cd5b5n,
+    0x240ca1cc77ac9c65n,
+    0x2de92c6f592b0275n,
+    0x4a7484aa6ea6e483n,
+    0x5cb0a9dcbd41fbd4n,
+    0x76f988da831153b5n,
+    0x983e5152ee66dfabn,
+    0xa831c66d2db43210n,
+    0xb00327c898fb213fn,
+    0xbf597fc7beef0ee4n,
+    0xc6e00bf33da88fc2n,
+    0xd5a79147930aa725n,
+    0x06ca6351e003826fn,
+    0x142929670a0e6e70n,
+    0x27b70a8546d22ffcn,
+    0x2e1b21385c26c926n,
+    0x4d2c6dfc5ac42aedn,
+    0x53380d139d95b3dfn,
+    0x650a73548baf63den,
+    0x766a0abb3c77b2a8n,
+    0x81c2c92e47edaee6n,
+    0x92722c851482353bn,
+    0xa2bfe8a14cf10364n,
+    0xa81a664bbc423001n,
+    0xc24b8b70d0f89791n,
+    0xc76c51a30654be30n,
+    0xd192e819d6ef5218n,
+    0xd69906245565a910n,
+    0xf40e35855771202an,
+    0x106aa07032bbd1b8n,
+    0x19a4c116b8d2d0c8n,
+    0x1e376c085141ab53n,
+    0x2748774cdf8eeb99n,
+    0x34b0bcb5e19b48a8n,
+    0x391c0cb3c5c95a63n,
+    0x4ed8aa4ae3418acbn,
+    0x5b9cca4f7763e373n,
+    0x682e6ff3d6b2b8a3n,
+    0x748f82ee5defb2fcn,
+    0x78a5636f43172f60n,
+    0x84c87814a1f0ab72n,
+    0x8cc702081a6439ecn,
+    0x90befffa23631e28n,
+    0xa4506cebde82bde9n,
+    0xbef9a3f7b2c67915n,
+    0xc67178f2e372532bn,
+    0xca273eceea26619cn,
+    0xd186b8c721c0c207n,
+    0xeada7dd6cde0eb1en,
+    0xf57d4f7fee6ed178n,
+    0x06f067aa72176fban,
+    0x0a637dc5a2c898a6n,
+    0x113f9804bef90daen,
+    0x1b710b35131c471bn,
+    0x28db77f523047d84n,
+    0x32caab7b40c72493n,
+    0x3c9ebe0a15c9bebcn,
+    0x431d67c49c100d4cn,
+    0x4cc5d4becb3e42b6n,
+    0x597f299cfc657e2an,
+    0x5fcb6fab3ad6faecn,
+    0x6c44198c4a475817n,
+  ],
+  // initial hash values §5.3.5
+  H: [
+    0x6a09e667f3bcc908n,
+    0xbb67ae8584caa73bn,
+    0x3c6ef372fe94f82bn,
+    0xa54ff53a5f1d36f1n,
+    0x510e527fade682d1n,
+    0x9b05688c2b3e6c1fn,
+    0x1f83d9abfb41bd6bn,
+    0x5be0cd19137e2179n,
+  ],
+  // SHA-384 initial hash values §5.3.4
+  H384: [
+    0xcbbb9d5dc1059ed8n,
+    0x629a292a367cd507n,
+    0x9159015a3070dd17n,
+    0x152fecd8f70e5939n,
+    0x67332667ffc00b31n,
+    0x8eb44a8768581511n,
+    0xdb0c2e0d64f98fa7n,
+    0x47b5481dbefa4fa4n,
+  ],
+};
+
+function padding(data: FlexibleBytes): UInt64[][] {
+  let message = Bytes.from(data);
+
+  // pad 1 bit, followed by k zero bits where k is the smallest non-negative solution to
+  // l + 1 + k = 896 mod 1024
+  // then append a 128bit block containing the length of the original message in bits
+  let l = message.length * 8; // length in bits
+  let k = Number(mod(896n - (BigInt(l) + 1n), 1024n));
+
+  let lBinary = l.toString(2);
+
+  let paddingBits = (
+    '1' + // append 1 bit
+    '0'.repeat(k) + // append k zero bits
+    '0'.repeat(128 - lBinary.length) + // append 128bit containing the length of the original message
+    lBinary
+  ).match(/.{1,8}/g)!; // this should always be divisible by 8
+
+  let padding = paddingBits.map((x) => UInt8.from(BigInt('0b' + x)));
+  let paddedMessage = message.bytes.concat(padding);
+
+  // chunk 8 bytes into one UInt64, big endian
+  let chunks = chunk(paddedMessage, 8).map(bytesToUInt64BE);
+
+  // SHA512 expects n-blocks of 1024bit each, 16*64bit = 1024bit
+  return chunk(chunks, 16);
+}
+
+/**
+ * Pads a message with a provable length, like {@link padding}.
+ *
+ * The padded message has the number of blocks needed for the longest possible message,
+ * and `isLastBlock` marks the block which ends the padding of the actual message.
+ */
+function paddingDynamic(message: DynamicBytesBase) {
+  let { capacity, length } = message;
+
+  // the padding needs at least 17 bytes, so the last block k satisfies 128k - 16 <= length < 128k + 112
+  let isLastBlock = lastBlockMask(message, (k) => 128 * k - 16);
+  let inMessage = message.lengthMask();
+
+  // 128bit block containing the length of the message in bits, big endian
+  let bitLength = wordToBytes(length.mul(8), 16).reverse();
+
+  let paddedMessage = Array.from(
+    { length: 128 * isLastBlock.length },
+    (_, i) => {
+      // message bytes, followed by the 1 bit and zeros
+      let byte = Field(0);
+      if (i < capacity)
+        byte = message.array[i].value.mul(inMessage[i].toField());
+      if (i <= capacity) byte = byte.add(length.equals(i).toField().mul(0x80));
+
+      // the length is appended at the end of the last block
+      let k = Math.floor(i / 128);
+      let j = (i % 128) - 112;
+      if (j >= 0) byte = Provable.if(isLastBlock[k], bitLength[j].value, byte);
+      return UInt8.Unsafe.fromField(byte);
+    }
+  );
+
+  let chunks = chunk(paddedMessage, 8).map(bytesToUInt64BE);
+  return { messageBlocks: chunk(chunks, 16), isLastBlock };
+}
+
+/**
+ * Computes the final hash values, starting from the initial hash values `H`.
+ *
+ * SHA-512 and SHA-384 only differ in their initial hash values and in how much of the result is output.
+ */
+function hashWords(H: UInt64[], data: FlexibleBytes | DynamicBytesBase) {
+  if (data instanceof DynamicBytesBase) {
+    let { messageBlocks, isLastBlock } = paddingDynamic(data);
+
+    // compute the intermediate hash after every block, and select the one after the last block
+    let states: UInt64[][] = [];
+    for (let block of messageBlocks) {
+      const W = createMessageSchedule(block);
+      H = sha512Compression(H, W);
+      states.push(H);
+    }
+    return Provable.switch(isLastBlock, Provable.Array(UInt64, 8), states);
+  }
+
+  // preprocessing §6.4
+  let messageBlocks = padding(data);
+
+  for (let block of messageBlocks) {
+    const W = createMessageSchedule(block);
+    H = sha512Compression(H, W);
+  }
+  return H;
+}
+
+const SHA512 = {
+  hash(data: FlexibleBytes | DynamicBytesBase) {
+    let H = hashWords(SHA512.initialState, data);
+    return Bytes.from(H.flatMap(uint64ToBytesBE));
+  },
+  compression: sha512Compression,
+  createMessageSchedule,
+  padding,
+  get initialState() {
+    return SHA512Constants.H.map((x) => UInt64.from(x));
+  },
+};
+
+const SHA384 = {
+  hash(data: FlexibleBytes | DynamicBytesBase) {
+    // the output is the first 6 words of the final hash value
+    let H = hashWords(SHA384.initialState, data);
+    return Bytes.from(H.slice(0, 6).flatMap(uint64ToBytesBE));
+  },
+  get initialState() {
+    return SHA512Constants.H384.map((x) => UInt64.from(x));
+  },
+};
+
+function bytesToUInt64BE(bytes: UInt8[]) {
+  // the bytes are range-checked, so the word fits in 64 bits
+  return UInt64.Unsafe.fromField(bytesToWord([...bytes].reverse()));
+}
+
+function uint64ToBytesBE(x: UInt64) {
+  return wordToBytes(x.value, 8).reverse();
+}
+
+function Ch(x: UInt64, y: UInt64, z: UInt64) {
+  // ch(x, y, z) = (x & y) ^ (~x & z)
+  //             = (x & y) + (~x & z) (since x & ~x = 0)
+  let xAndY = x.and(y).value;
+  let xNotAndZ = x.not().and(z).value;
+  return UInt64.Unsafe.fromField(xAndY.add(xNotAndZ).seal());
+}
+
+function Maj(x: UInt64, y: UInt64, z: UInt64) {
+  // maj(x, y, z) = (x & y) ^ (x & z) ^ (y & z)
+  //              = (x + y + z - (x ^ y ^ z)) / 2
+  let sum = x.value.add(y.value).add(z.value).seal();
+  let xor = x.xor(y).xor(z).value;
+  return UInt64.Unsafe.fromField(sum.sub(xor).div(2).seal());
+}
+
+function SigmaZero(x: UInt64) {
+  return ROTR(28, x).xor(ROTR(34, x)).xor(ROTR(39, x));
+}
+
+function SigmaOne(x: UInt64) {
+  return ROTR(14, x).xor(ROTR(18, x)).xor(ROTR(41, x));
+}
+
+// lowercase sigma = delta to avoid confusing function names
+
+function DeltaZero(x: UInt64) {
+  return ROTR(1, x).xor(ROTR(8, x)).xor(SHR(7, x));
+}
+
+function DeltaOne(x: UInt64) {
+  return ROTR(19, x).xor(ROTR(61, x)).xor(SHR(6, x));
+}
+
+function ROTR(n: number, x: UInt64) {
+  return x.rotate(n, 'right');
+}
+
+function SHR(n: number, x: UInt64) {
+  return x.rightShift(n);
+}
+
+/**
+ * Performs the SHA-512 compression function on the given hash values and message schedule.
+ *
+ * @param H - The initial or intermediate hash values (8-element array of UInt64).
+ * @param W - The message schedule (80-element array of UInt64).
+ *
+ * @returns The updated intermediate hash values after compression.
+ */
+function sha512Compression([...H]: UInt64[], W: UInt64[]) {
+  // initialize working variables
+  let [a, b, c, d, e, f, g, h] = H;
+
+  // main loop
+  for (let t = 0; t <= 79; t++) {
+    // T1 is unreduced and not proven to be 64bit, we will do this later to save constraints
+    const unreducedT1 = h.value
+      .add(SigmaOne(e).value)
+      .add(Ch(e, f, g).value)
+      .add(SHA512Constants.K[t])
+      .add(W[t].value)
+      .seal();
+
+    // T2 is also unreduced
+    const unreducedT2 = SigmaZero(a).value.add(Maj(a, b, c).value);
+
+    h = g;
+    g = f;
+    f = e;
+    e = UInt64.Unsafe.fromField(
+      divMod64(d.value.add(unreducedT1), 80).remainder
+    ); // mod 64bit the unreduced field element
+    d = c;
+    c = b;
+    b = a;
+    a = UInt64.Unsafe.fromField(
+      divMod64(unreducedT2.add(unreducedT1), 80).remainder
+    ); // mod 64bit
+  }
+
+  // new intermediate hash value
+  let working = [a, b, c, d, e, f, g, h];
+  return H.map((x, i) => x.addMod64(working[i]));
+}
+
+/**
+ * Prepares the message schedule for the SHA-512 compression function from the given message block.
+ *
+ * @param M - The 1024-bit message block (16-element array of UInt64).
+ * @returns The message schedule (80-element array of UInt64).
+ */
+function createMessageSchedule(M: UInt64[]) {
+  const W: UInt64[] = [];
+
+  for (let t = 0; t <= 15; t++) W[t] = M[t];
+  for (let t = 16; t <= 79; t++) {
+    // the field element is unreduced and not proven to be 64bit, we will do this later to save constraints
+    let unreduced = DeltaOne(W[t - 2])
+      .value.add(W[t - 7].value)
+      .add(DeltaZero(W[t - 15]).value.add(W[t - 16].value));
+
+    // mod 64bit the unreduced field element
+    W[t] = UInt64.Unsafe.fromField(divMod64(unreduced, 80).remainder);
+  }
+
+  return W;
+}
@@ -0,0 +1,160 @@
+/**
+ * Gadgets for sorting, permutations and uniqueness of arrays
+ */
+import { Field } from '../wrapped.js';
+import { Provable } from '../provable.js';
+import { Poseidon } from '../crypto/poseidon.js';
+import { ProvableType } from '../types/provable-intf.js';
+import { assert } from './common.js';
+
+export { sort, assertPermutation, assertSorted, assertUnique };
+
+type Key<T> = (x: T) => Field;
+
+function fieldKey(x: unknown) {
+  return x as Field;
+}
+
+/**
+ * Asserts that `b` is a permutation of `a`, i.e. that both arrays contain the same elements with the same multiplicities.
+ *
+ * The elements are compared by their field representation. The check is a grand product,
+ * `prod_i (beta - a_i) = prod_i (beta - b_i)`, where multi-field elements are compressed to a single field element
+ * with a second challenge. Both challenges are derived from a Poseidon hash of the two arrays.
+ */
+function assertPermutation<T>(
+  type: ProvableType<T>,
+  a: T[],
+  b: T[],
+  message?: string
+) {
+  assert(
+    a.length === b.length,
+    `assertPermutation(): arrays have different lengths, ${a.length} and ${b.length}`
+  );
+  message ??= 'assertPermutation(): arrays are not permutations of each other';
+  let provable = ProvableType.get(type);
+  let fieldsA = a.map((x) => provable.toFields(x));
+  let fieldsB = b.map((x) => provable.toFields(x));
+  let fields = fieldsA.concat(fieldsB).flat();
+
+  if (fields.every((x) => x.isConstant())) {
+    let toKey = (fs: Field[]) => fs.map((x) => x.toString()).join(',');
+    let sortedA = fieldsA.map(toKey).sort();
+    let sortedB = fieldsB.map(toKey).sort();
+    assert(
+      sortedA.every((x, i) => x === sortedB[i]),
+      message
+    );
+    return;
+  }
+
+  // the challenges depend on both arrays, so they can't be chosen before the arrays are fixed
+  let beta = Poseidon.hash(fields);
+  let gamma = Poseidon.hash([beta]);
+  let compress = (fs: Field[]) =>
+    fs.reduce((acc, x) => acc.mul(gamma).add(x), Field(0));
+  let product = (elements: Field[][]) =>
+    elements.reduce(
+      (acc, fs) => acc.mul(beta.sub(compress(fs)).seal()),
+      Field(1)
+    );
+  product(fieldsA).assertEquals(product(fieldsB), message);
+}
+
+/**
+ * Asserts that the array is sorted in ascending order of `key`, which defaults to the elements themselves.
+ *
+ * With `strict: true`, asserts that the keys are strictly increasing, so that there are no duplicate keys.
+ */
+function assertSorted(
+  array: Field[],
+  options?: { strict?: boolean; message?: string }
+): void;
+function assertSorted<T>(
+  array: T[],
+  options: { key: Key<T>; strict?: boolean; message?: string }
+): void;
+function assertSorted<T>(
+  array: T[],
+  {
+    key = fieldKey,
+    strict = false,
+    message,
+  }: { key?: Key<T>; strict?: boolean; message?: string } = {}
+) {
+  let keys = array.map(key);
+  for (let i = 1; i < keys.length; i++) {
+    if (strict) {
+      keys[i - 1].assertLessThan(
+        keys[i],
+        message ?? 'assertSorted(): array is not strictly increasing'
+      );
+    } else {
+      keys[i - 1].assertLessThanOrEqual(
+        keys[i],
+        message ?? 'assertSorted(): array is not sorted'
+      );
+    }
+  }
+}
+
+/**
+ * Returns the array sorted in ascending order of `key`, which defaults to the elements themselves.
+ *
+ * The sorted array is witnessed, and proven to be a sorted permutation of the input with
+ * {@link assertPermutation} and {@link assertSorted}.
+ *
+ * **Warning**: The order of elements with equal keys is not constrained. The honest witness keeps their
+ * original order, but a malicious prover can reorder them.
+ */
+function sort(type: ProvableType<Field>, array: Field[]): Field[];
+function sort<T>(
+  type: ProvableType<T>,
+  array: T[],
+  options: { key: Key<T> }
+): T[];
+function sort<T>(
+  type: ProvableType<T>,
+  array: T[],
+  { key = fieldKey }: { key?: Key<T> } = {}
+): T[] {
+  let sorted = witnessSorted(type, array, key);
+  assertPermutation(type, array, sorted, 'sort(): not a permutation');
+  assertSorted(sorted, { key, message: 'sort(): not sorted' });
+  return sorted;
+}
+
+/**
+ * Asserts that no two elements of the array have the same `key`, which defaults to the elements themselves.
+ *
+ * The keys are sorted like in {@link sort}, and checked to be strictly increasing.
+ */
+function assertUnique(array: Field[], options?: { message?: string }): void;
+function assertUnique<T>(
+  array: T[],
+  options: { key: Key<T>; message?: string }
+): void;
+function assertUnique<T>(
+  array: T[],
+  { key = fieldKey, message }: { key?: Key<T>; message?: string } = {}
+) {
+  let keys = array.map(key);
+  let sorted = witnessSorted(Field, keys, fieldKey);
+  assertPermutation(Field, keys, sorted, 'assertUnique(): not a permutation');
+  assertSorted(sorted, {
+    strict: true,
+    message: message ?? 'assertUnique(): array has duplicate elements',
+  });
+}
+
+function witnessSorted<T>(type: ProvableType<T>, array: T[], key: Key<T>) {
+  return Provable.witness(Provable.Array(type, array.length), () => {
+    let keys = array.map((x) => key(x).toBigInt());
+    let indices = array.map((_, i) => i);
+    indices.sort((i, j) =>
+      keys[i] < keys[j] ? -1 : keys[i] > keys[j] ? 1 : 0
+    );
+    return indices.map((i) => array[i]);
+  });
+}
@@ -0,0 +1,653 @@
+import { Field, Bool } from './wrapped.js';
+import { Struct } from './types/struct.js';
+import { Provable } from './provable.js';
+import { HashInput } from './crypto/poseidon.js';
+import * as RangeCheck from './gadgets/range-check.js';
+import {
+  assertLessThanGeneric,
+  assertLessThanOrEqualGeneric,
+  lessThanGeneric,
+  lessThanOrEqualGeneric,
+} from './gadgets/comparison.js';
+import { bytesToWord, wordToBytes } from './gadgets/bit-slices.js';
+import { UInt8 } from './int.js';
+import { assert } from '../util/assert.js';
+
+// external API
+export { Int8, Int16, Int32 };
+
+// internal API
+export { SignedInt };
+
+/**
+ * Creates a class of signed integers with `bits` bits in two's complement representation,
+ * which behave like the integers of the same size in other programming languages.
+ *
+ * The value is stored as its unsigned bit pattern, in the range [0, 2^bits).
+ *
+ * Arithmetic comes in two modes:
+ * - `add()`, `sub()`, `mul()`, `neg()` and `div()` throw an error (and fail the proof) if the result doesn't fit in `bits` bits
+ * - `addWrapping()`, `subWrapping()`, `mulWrapping()` and `negWrapping()` wrap around, keeping the lowest `bits` bits of the result
+ */
+function SignedInt(bits: number, name: string) {
+  const SIZE = 1n << BigInt(bits);
+  const HALF = SIZE >> 1n;
+  const MIN = -HALF;
+  const MAX = HALF - 1n;
+
+  type From = SignedInt_ | bigint | number | string;
+
+  class SignedInt_ extends Struct({ value: Field }) {
+    static NUM_BITS = bits;
+
+    /**
+     * Creates a new instance from a number, bigint, decimal string or a signed integer of a different size.
+     *
+     * **Warning**: Cannot overflow, an error is thrown if the input doesn't fit in the range [`MININT()`, `MAXINT()`].
+     */
+    static from<T extends typeof SignedInt_>(
+      this: T,
+      x: From | { value: Field; toField(): Field }
+    ): InstanceType<T> {
+      if (x instanceof this) return x as InstanceType<T>;
+      if (typeof x === 'object') {
+        // a signed integer of a different size
+        return this.fromSignedField(
+          x.toField(),
+          `${name}.from(): expected value to fit in ${bits} bits`
+        );
+      }
+      let xBig = BigInt(x);
+      if (xBig < MIN || xBig > MAX) {
+        throw Error(
+          `${name}: Expected number between -2^${bits - 1} and 2^${
+            bits - 1
+          } - 1, got ${xBig}`
+        );
+      }
+      return this.fromUnsigned(Field(toUnsigned(xBig)));
+    }
+
+    /**
+     * Creates a new instance from the two's complement bit pattern, given as an unsigned integer in the range [0, 2^bits).
+     *
+     * For example, `Int32.fromUnsigned(UInt32.MAXINT().value)` is `-1`.
+     */
+    static fromUnsigned<T extends typeof SignedInt_>(
+      this: T,
+      x: Field | { value: Field }
+    ): InstanceType<T> {
+      let value = x instanceof Field ? x : x.value;
+      if (value.isConstant()) {
+        assert(
+          value.toBigInt() < SIZE,
+          `${name}.fromUnsigned(): expected value to fit in ${bits} bits, got ${value}`
+        );
+      } else {
+        rangeCheck(bits, value);
+      }
+      return this.create(value);
+    }
+
+    /**
+     * Creates a new instance from its little-endian bytes.
+     */
+    static fromBytes<T extends typeof SignedInt_>(
+      this: T,
+      bytes: UInt8[]
+    ): InstanceType<T> {
+      assert(
+        bytes.length === bits / 8,
+        `${bits / 8} bytes needed to create a ${name}`
+      );
+      return this.create(bytesToWord(bytes));
+    }
+
+    /**
+     * Creates a new instance from its big-endian bytes.
+     */
+    static fromBytesBE<T extends typeof SignedInt_>(
+      this: T,
+      bytes: UInt8[]
+    ): InstanceType<T> {
+      return this.fromBytes([...bytes].reverse());
+    }
+
+    /**
+     * Static method to create an instance with value `0`.
+     */
+    static get zero() {
+      return this.from(0);
+    }
+
+    /**
+     * Static method to create an instance with value `1`.
+     */
+    static get one() {
+      return this.from(1);
+    }
+
+    /**
+     * Static method to create an instance with value `-1`.
+     */
+    static get minusOne() {
+      return this.from(-1);
+    }
+
+    /**
+     * Creates an instance with the largest value, `2^(bits - 1) - 1`.
+     */
+    static MAXINT<T extends typeof SignedInt_>(this: T): InstanceType<T> {
+      return this.from(MAX);
+    }
+
+    /**
+     * Creates an instance with the smallest value, `-2^(bits - 1)`.
+     */
+    static MININT<T extends typeof SignedInt_>(this: T): InstanceType<T> {
+      return this.from(MIN);
+    }
+
+    /**
+     * {@link Provable.check} for this type.
+     * Proves that the bit pattern is in the range [0, 2^bits).
+     */
+    static check(x: { value: Field }) {
+      rangeCheck(bits, x.value);
+    }
+
+    static toInput(x: { value: Field }): HashInput {
+      return { packed: [[x.value, bits]] };
+    }
+
+    private static create<T extends typeof SignedInt_>(
+      this: T,
+      value: Field
+    ): InstanceType<T> {
+      return new this({ value }) as InstanceType<T>;
+    }
+
+    /**
+     * Creates an instance from a signed value, given as a field element which is negative
+     * if it is larger than `(p - 1) / 2`, asserting that it fits in `bits` bits.
+     */
+    private static fromSignedField<T extends typeof SignedInt_>(
+      this: T,
+      x: Field,
+      message: string
+    ): InstanceType<T> {
+      if (x.isConstant()) {
+        let xBig = signedFieldToBigInt(x.toBigInt());
+        assert(xBig >= MIN && xBig <= MAX, message);
+        return this.create(Field(toUnsigned(xBig)));
+      }
+      // shift the range [-2^(bits - 1), 2^(bits - 1)) to [0, 2^bits)
+      let biased = x.add(HALF).seal();
+      rangeCheck(bits, biased, message);
+      return this.create(flipSign(bits, biased).value);
+    }
+
+    private get Constructor() {
+      return this.constructor as typeof SignedInt_;
+    }
+
+    /**
+     * The bit pattern of this integer with the sign bit flipped, which is `x + 2^(bits - 1)`.
+     *
+     * Maps the signed range to [0, 2^bits) while preserving the order, which is what we use for comparisons.
+     */
+    private biased() {
+      return flipSign(bits, this.value).value;
+    }
+
+    /**
+     * Checks if this integer is negative.
+     */
+    isNegative(): Bool {
+      return flipSign(bits, this.value).isNegative;
+    }
+
+    /**
+     * Turns the integer into a {@link Field}, where negative values `-x` are represented as `p - x`.
+     */
+    toField(): Field {
+      if (this.value.isConstant()) return Field(this.toBigInt());
+      return this.biased().sub(HALF);
+    }
+
+    /**
+     * The two's complement bit pattern of this integer, as an unsigned integer in the range [0, 2^bits).
+     */
+    toUnsigned(): Field {
+      return this.value;
+    }
+
+    /**
+     * Addition which throws an error if the result overflows.
+     *
+     * @example
+     * ```ts
+     * Int32.from(-3).add(5).assertEquals(2);
+     * ```
+     */
+    add(y: From): this {
+      let y_ = this.Constructor.from(y);
+      return this.Constructor.fromSignedField(
+        this.toField().add(y_.toField()),
+        `${name}.add(): overflow`
+      ) as this;
+    }
+
+    /**
+     * Subtraction which throws an error if the result overflows.
+     */
+    sub(y: From): this {
+      let y_ = this.Constructor.from(y);
+      return this.Constructor.fromSignedField(
+        this.toField().sub(y_.toField()),
+        `${name}.sub(): overflow`
+      ) as this;
+    }
+
+    /**
+     * Multiplication which throws an error if the result overflows.
+     */
+    mul(y: From): this {
+      let y_ = this.Constructor.from(y);
+      return this.Constructor.fromSignedField(
+        this.toField().mul(y_.toField()),
+        `${name}.mul(): overflow`
+      ) as this;
+    }
+
+    /**
+     * Negation which throws an error if the result overflows, which happens for `MININT()`.
+     */
+    neg(): this {
+      return this.Constructor.fromSignedField(
+        this.toField().neg(),
+        `${name}.neg(): overflow`
+      ) as this;
+    }
+
+    /**
+     * Addition which wraps around on overflow, like `(x + y) | 0` in JavaScript for 32 bits.
+     *
+     * @example
+     * ```ts
+     * Int32.MAXINT().addWrapping(1).assertEquals(Int32.MININT());
+     * ```
+     */
+    addWrapping(y: From): this {
+      let y_ = this.Constructor.from(y);
+      return this.wrap(this.value.add(y_.value));
+    }
+
+    /**
+     * Subtraction which wraps around on overflow.
+     */
+    subWrapping(y: From): this {
+      let y_ = this.Constructor.from(y);
+      return this.wrap(this.value.sub(y_.value).add(SIZE));
+    }
+
+    /**
+     * Multiplication which wraps around on overflow, like `Math.imul()` in JavaScript for 32 bits.
+     */
+    mulWrapping(y: From): this {
+      let y_ = this.Constructor.from(y);
+      return this.wrap(this.value.mul(y_.value));
+    }
+
+    /**
+     * Negation which wraps around on overflow, so that the negation of `MININT()` is `MININT()`.
+     */
+    negWrapping(): this {
+      return this.wrap(Field(SIZE).sub(this.value));
+    }
+
+    /**
+     * Integer division with remainder, which rounds towards zero like in most programming languages.
+     *
+     * `x.divMod(y)` returns the quotient `q` and the remainder `r` such that `x = q * y + r`,
+     * where `r` has the same sign as `x` and `|r| < |y|`, like `Math.trunc(x / y)` and `x % y` in JavaScript.
+     *
+     * Throws an error on division by zero, and if the quotient overflows, which happens for `MININT().divMod(-1)`.
+     */
+    divMod(y: From) {
+      let y_ = this.Constructor.from(y);
+      let Constructor = this.Constructor;
+
+      if (this.value.isConstant() && y_.value.isConstant()) {
+        let [x0, y0] = [this.toBigInt(), y_.toBigInt()];
+        assert(y0 !== 0n, `${name}.divMod(): division by zero`);
+        return {
+          quotient: this.constant(x0 / y0, 'divMod'),
+          rest: this.constant(x0 % y0, 'divMod'),
+        };
+      }
+
+      // divide the absolute values, and fix the signs afterwards
+      let [xNegative, yNegative] = [this.isNegative(), y_.isNegative()];
+      let xAbs = this.toField().mul(sign(xNegative));
+      let yAbs = y_.toField().mul(sign(yNegative));
+
+      let [q, r] = Provable.witness(Provable.Array(Field, 2), () => {
+        let [x0, y0] = [xAbs.toBigInt(), yAbs.toBigInt()];
+        if (y0 === 0n) return [Field(0), Field(0)];
+        return [Field(x0 / y0), Field(x0 % y0)];
+      });
+      rangeCheck(bits, q);
+      rangeCheck(bits, r);
+      q.mul(yAbs).add(r).assertEquals(xAbs);
+      // r < |y|, which also rules out y = 0
+      rangeCheck(
+        bits,
+        yAbs.sub(r).sub(1).seal(),
+        `${name}.divMod(): division by zero`
+      );
+
+      return {
+        quotient: Constructor.fromSignedField(
+          q.mul(sign(xNegative.equals(yNegative).not())),
+          `${name}.divMod(): overflow`
+        ) as this,
+        rest: Constructor.fromSignedField(
+          r.mul(sign(xNegative)),
+          `${name}.divMod(): overflow`
+        ) as this,
+      };
+    }
+
+    /**
+     * Integer division, which rounds towards zero.
+     *
+     * @see {@link divMod}
+     */
+    div(y: From): this {
+      return this.divMod(y).quotient;
+    }
+
+    /**
+     * Integer remainder, which has the same sign as this integer, like `%` in JavaScript.
+     *
+     * @see {@link divMod}
+     */
+    mod(y: From): this {
+      return this.divMod(y).rest;
+    }
+
+    /**
+     * Performs a left shift by a constant number of bits, like `<<` in JavaScript.
+     * Bits shifted beyond the sign bit are discarded, so the result wraps around.
+     */
+    leftShift(n: number): this {
+      checkShift(n, bits);
+      return this.wrap(this.value.mul(1n << BigInt(n)));
+    }
+
+    /**
+     * Performs an arithmetic right shift by a constant number of bits, like `>>` in JavaScript.
+     * The sign bit is copied into the vacated bits, so that the result is `x / 2^n` rounded towards negative infinity.
+     */
+    rightShift(n: number): this {
+      checkShift(n, bits);
+      if (n === 0) return this;
+      if (this.value.isConstant()) {
+        return this.constant(this.toBigInt() >> BigInt(n), 'rightShift');
+      }
+      // shifting the biased value is the same as shifting the signed value, up to a constant
+      let biased = this.biased();
+      let [high, low] = Provable.witness(Provable.Array(Field, 2), () => {
+        let b = biased.toBigInt();
+        return [Field(b >> BigInt(n)), Field(b & ((1n << BigInt(n)) - 1n))];
+      });
+      rangeCheck(bits - n, high);
+      rangeCheck(n, low);
+      high
+        .mul(1n << BigInt(n))
+        .add(low)
+        .assertEquals(biased);
+      let shifted = high.add(HALF - (HALF >> BigInt(n))).seal();
+      return this.create(flipSign(bits, shifted).value);
+    }
+
+    /**
+     * Checks if this integer is equal to another one.
+     */
+    equals(y: From): Bool {
+      return this.value.equals(this.Constructor.from(y).value);
+    }
+
+    /**
+     * Asserts that this integer is equal to another one.
+     */
+    assertEquals(y: From, message?: string) {
+      this.value.assertEquals(this.Constructor.from(y).value, message);
+    }
+
+    /**
+     * Checks if this integer is less than another one.
+     */
+    lessThan(y: From): Bool {
+      let y_ = this.Constructor.from(y);
+      if (this.value.isConstant() && y_.value.isConstant()) {
+        return Bool(this.toBigInt() < y_.toBigInt());
+      }
+      return lessThanGeneric(this.biased(), y_.biased(), SIZE, (v) =>
+        rangeCheck(bits, v)
+      );
+    }
+
+    /**
+     * Checks if this integer is less than or equal to another one.
+     */
+    lessThanOrEqual(y: From): Bool {
+      let y_ = this.Constructor.from(y);
+      if (this.value.isConstant() && y_.value.isConstant()) {
+        return Bool(this.toBigInt() <= y_.toBigInt());
+      }
+      return lessThanOrEqualGeneric(this.biased(), y_.biased(), SIZE, (v) =>
+        rangeCheck(bits, v)
+      );
+    }
+
+    /**
+     * Checks if this integer is greater than another one.
+     */
+    greaterThan(y: From): Bool {
+      return this.Constructor.from(y).lessThan(this);
+    }
+
+    /**
+     * Checks if this integer is greater than or equal to another one.
+     */
+    greaterThanOrEqual(y: From): Bool {
+      return this.Constructor.from(y).lessThanOrEqual(this);
+    }
+
+    /**
+     * Asserts that this integer is less than another one.
+     */
+    assertLessThan(y: From, message?: string) {
+      let y_ = this.Constructor.from(y);
+      if (this.value.isConstant() && y_.value.isConstant()) {
+        let [x0, y0] = [this.toBigInt(), y_.toBigInt()];
+        return assert(
+          x0 < y0,
+          message ?? `${name}.assertLessThan: expected ${x0} < ${y0}`
+        );
+      }
+      assertLessThanGeneric(this.biased(), y_.biased(), (v) =>
+        rangeCheck(bits, v, message)
+      );
+    }
+
+    /**
+     * Asserts that this integer is less than or equal to another one.
+     */
+    assertLessThanOrEqual(y: From, message?: string) {
+      let y_ = this.Constructor.from(y);
+      if (this.value.isConstant() && y_.value.isConstant()) {
+        let [x0, y0] = [this.toBigInt(), y_.toBigInt()];
+        return assert(
+          x0 <= y0,
+          message ?? `${name}.assertLessThanOrEqual: expected ${x0} <= ${y0}`
+        );
+      }
+      assertLessThanOrEqualGeneric(this.biased(), y_.biased(), (v) =>
+        rangeCheck(bits, v, message)
+      );
+    }
+
+    /**
+     * Asserts that this integer is greater than another one.
+     */
+    assertGreaterThan(y: From, message?: string) {
+      this.Constructor.from(y).assertLessThan(this, message);
+    }
+
+    /**
+     * Asserts that this integer is greater than or equal to another one.
+     */
+    assertGreaterThanOrEqual(y: From, message?: string) {
+      this.Constructor.from(y).assertLessThanOrEqual(this, message);
+    }
+
+    /**
+     * Split the two's complement bit pattern into bytes, in little-endian order.
+     */
+    toBytes(): UInt8[] {
+      return wordToBytes(this.value, bits / 8);
+    }
+
+    /**
+     * Split the two's complement bit pattern into bytes, in big-endian order.
+     *
+     * For `Int32`, this matches `UInt32.toBytesBE()` of the bit pattern, so the bytes can be read back with `UInt32.fromBytesBE()`.
+     */
+    toBytesBE(): UInt8[] {
+      return this.toBytes().reverse();
+    }
+
+    /**
+     * Turns the integer into a bigint.
+     *
+     * **Warning**: This operation is not provable.
+     */
+    toBigInt() {
+      return toSigned(this.value.toBigInt());
+    }
+
+    /**
+     * Turns the integer into a string.
+     *
+     * **Warning**: This operation is not provable.
+     */
+    toString() {
+      return this.toBigInt().toString();
+    }
+
+    private create(value: Field): this {
+      return this.Constructor.create(value) as this;
+    }
+
+    /**
+     * Keeps the lowest `bits` bits of a value in [0, 2^(2*bits)).
+     */
+    private wrap(x: Field): this {
+      if (x.isConstant()) return this.create(Field(x.toBigInt() % SIZE));
+      let [high, low] = Provable.witness(Provable.Array(Field, 2), () => {
+        let x0 = x.toBigInt();
+        return [Field(x0 / SIZE), Field(x0 % SIZE)];
+      });
+      rangeCheck(bits, high);
+      rangeCheck(bits, low);
+      high.mul(SIZE).add(low).assertEquals(x);
+      return this.create(low);
+    }
+
+    private constant(x: bigint, method: string): this {
+      if (x < MIN || x > MAX) throw Error(`${name}.${method}(): overflow`);
+      return this.create(Field(toUnsigned(x)));
+    }
+  }
+
+  function toSigned(x: bigint) {
+    return x >= HALF ? x - SIZE : x;
+  }
+  function toUnsigned(x: bigint) {
+    return x < 0n ? x + SIZE : x;
+  }
+
+  return SignedInt_;
+}
+
+/**
+ * A 8 bit signed integer with values ranging from -128 to 127, in two's complement representation.
+ */
+class Int8 extends SignedInt(8, 'Int8') {}
+
+/**
+ * A 16 bit signed integer with values ranging from -32768 to 32767, in two's complement representation.
+ */
+class Int16 extends SignedInt(16, 'Int16') {}
+
+/**
+ * A 32 bit signed integer with values ranging from -2^31 to 2^31 - 1, in two's complement representation.
+ *
+ * Behaves like integers in JavaScript after `x | 0`, and like `int32` in other languages.
+ */
+class Int32 extends SignedInt(32, 'Int32') {}
+
+/**
+ * Flips the sign bit of a value in [0, 2^bits), which maps the two's complement bit pattern
+ * to `x + 2^(bits - 1)` and back. Also returns the sign bit.
+ */
+function flipSign(bits: number, x: Field) {
+  const SIZE = 1n << BigInt(bits);
+  const HALF = SIZE >> 1n;
+  if (x.isConstant()) {
+    let x0 = x.toBigInt();
+    return { value: Field((x0 + HALF) % SIZE), isNegative: Bool(x0 >= HALF) };
+  }
+  // x + 2^(bits - 1) is in [2^(bits - 1), 2^bits + 2^(bits - 1)), so subtracting
+  // 2^bits iff the sign bit is set is the only way to get into [0, 2^bits)
+  let isNegative = Provable.witness(Bool, () => x.toBigInt() >= HALF);
+  let value = x.add(HALF).sub(isNegative.toField().mul(SIZE)).seal();
+  rangeCheck(bits, value);
+  return { value, isNegative };
+}
+
+/**
+ * Asserts that x is in the range [0, 2^bits), for any number of bits up to 64.
+ */
+function rangeCheck(bits: number, x: Field, message?: string) {
+  if (bits === 0) return x.assertEquals(0, message);
+  let n = Math.ceil(bits / 16) * 16;
+  RangeCheck.rangeCheckN(n, x, message);
+  if (n === bits) return;
+  // x < 2^n and 2^(n - bits) * x < 2^n imply x < 2^bits
+  RangeCheck.rangeCheckN(n, x.mul(1n << BigInt(n - bits)).seal(), message);
+}
+
+/**
+ * 1 for non-negative values, -1 for negative values.
+ */
+function sign(isNegative: Bool) {
+  return Field(1).sub(isNegative.toField().mul(2));
+}
+
+/**
+ * Interprets a field element as signed, where the upper half of the field represents negative numbers.
+ */
+function signedFieldToBigInt(x: bigint) {
+  return x > Field.ORDER / 2n ? x - Field.ORDER : x;
+}
+
+function checkShift(n: number, bits: number) {
+  assert(
+    Number.isInteger(n) && n >= 0 && n < bits,
+    `shift: expected bits to be between 0 and ${bits - 1}, got ${n}`
+  );
+}
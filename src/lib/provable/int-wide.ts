@@ -0,0 +1,666 @@
+import { Field, Bool } from './wrapped.js';
+import { Struct } from './types/struct.js';
+import { Provable } from './provable.js';
+import { HashInput } from './crypto/poseidon.js';
+import * as RangeCheck from './gadgets/range-check.js';
+import * as Bitwise from './gadgets/bitwise.js';
+import { bytesToWords, wordsToBytes } from './gadgets/bit-slices.js';
+import { UInt8, UInt32, UInt64 } from './int.js';
+import { assert } from '../util/assert.js';
+
+// external API
+export { UInt128, UInt256 };
+
+// internal API
+export { WideUInt, assertLimbSplit };
+
+const LIMB_BITS = 64;
+const LIMB_SIZE = 1n << 64n;
+const LIMB_MASK = LIMB_SIZE - 1n;
+
+type WideUIntLike = { limbs: Field[] };
+
+/**
+ * Creates a class of unsigned integers which are represented by `limbCount` limbs of 64 bits, least significant limb first.
+ *
+ * Arithmetic has the same semantics as {@link UInt64}: an error is thrown (and the proof fails) if a result overflows or underflows.
+ */
+function WideUInt(limbCount: number, name: string) {
+  const NUM_BITS = limbCount * LIMB_BITS;
+  const MAX = (1n << BigInt(NUM_BITS)) - 1n;
+
+  type From =
+    | WideUInt_
+    | WideUIntLike
+    | UInt64
+    | UInt32
+    | bigint
+    | number
+    | string;
+
+  class WideUInt_ extends Struct({
+    limbs: Provable.Array(Field, limbCount),
+  }) {
+    static NUM_BITS = NUM_BITS;
+
+    /**
+     * Creates a new instance from a number, bigint, decimal string, smaller or larger unsigned integer, or {@link Field}.
+     *
+     * **Warning**: Cannot overflow, an error is thrown if the input is larger than `MAXINT()`.
+     */
+    static from<T extends typeof WideUInt_>(
+      this: T,
+      x: From | Field
+    ): InstanceType<T> {
+      if (x instanceof this) return x as InstanceType<T>;
+      if (x instanceof Field) return this.fromField(x);
+      if (x instanceof UInt64 || x instanceof UInt32) {
+        return this.fromLimbs([x.value, ...zeros(limbCount - 1)]);
+      }
+      if (typeof x === 'object') {
+        // an unsigned integer with a different number of limbs
+        let [low, high] = [
+          x.limbs.slice(0, limbCount),
+          x.limbs.slice(limbCount),
+        ];
+        high.forEach((limb) =>
+          limb.assertEquals(
+            0,
+            `${name}: Expected value to fit in ${NUM_BITS} bits`
+          )
+        );
+        return this.fromLimbs([...low, ...zeros(limbCount - low.length)]);
+      }
+      let xBig = BigInt(x);
+      if (xBig < 0n || xBig > MAX) {
+        throw Error(
+          `${name}: Expected number between 0 and 2^${NUM_BITS} - 1, got ${xBig}`
+        );
+      }
+      return this.fromLimbs(toLimbs(xBig, limbCount).map(Field.from));
+    }
+
+    /**
+     * Creates a new instance from a {@link Field}, proving that it fits in the number of bits.
+     */
+    static fromField<T extends typeof WideUInt_>(
+      this: T,
+      x: Field
+    ): InstanceType<T> {
+      if (x.isConstant()) return this.from(x.toBigInt());
+      let limbs = Provable.witness(Provable.Array(Field, limbCount), () =>
+        toLimbs(x.toBigInt(), limbCount).map(Field.from)
+      );
+      limbs.forEach((limb) => RangeCheck.rangeCheckN(LIMB_BITS, limb));
+      let result = this.fromLimbs(limbs);
+      sumLimbs(limbs).assertEquals(x);
+      // the sum could wrap around the field modulus, if the limbs can represent a larger number
+      if (NUM_BITS >= Field.sizeInBits) {
+        result.assertLessThan(this.from(Field.ORDER));
+      }
+      return result;
+    }
+
+    /**
+     * Creates an instance from its little-endian bytes, of which there must be `NUM_BITS / 8`.
+     */
+    static fromBytesLE<T extends typeof WideUInt_>(
+      this: T,
+      bytes: UInt8[]
+    ): InstanceType<T> {
+      assert(
+        bytes.length === NUM_BITS / 8,
+        `${name}.fromBytes(): expected ${NUM_BITS / 8} bytes, got ${
+          bytes.length
+        }`
+      );
+      return this.fromLimbs(bytesToWords(bytes, 8));
+    }
+
+    /**
+     * Creates an instance from its big-endian bytes, of which there must be `NUM_BITS / 8`.
+     */
+    static fromBytesBE<T extends typeof WideUInt_>(
+      this: T,
+      bytes: UInt8[]
+    ): InstanceType<T> {
+      return this.fromBytesLE([...bytes].reverse());
+    }
+
+    /**
+     * Static method to create an instance with value `0`.
+     */
+    static get zero() {
+      return this.from(0n);
+    }
+
+    /**
+     * Static method to create an instance with value `1`.
+     */
+    static get one() {
+      return this.from(1n);
+    }
+
+    /**
+     * Creates an instance with the maximum value, `2^NUM_BITS - 1`.
+     */
+    static MAXINT<T extends typeof WideUInt_>(this: T): InstanceType<T> {
+      return this.from(MAX);
+    }
+
+    /**
+     * {@link Provable.check} for this type.
+     * Proves that every limb is in the range [0, 2^64).
+     */
+    static check(x: WideUIntLike) {
+      x.limbs.forEach((limb) => RangeCheck.rangeCheckN(LIMB_BITS, limb));
+    }
+
+    static toInput(x: WideUIntLike): HashInput {
+      return {
+        packed: x.limbs.map((limb): [Field, number] => [limb, LIMB_BITS]),
+      };
+    }
+
+    private static fromLimbs<T extends typeof WideUInt_>(
+      this: T,
+      limbs: Field[]
+    ): InstanceType<T> {
+      return new this({ limbs }) as InstanceType<T>;
+    }
+
+    private get Constructor() {
+      return this.constructor as typeof WideUInt_;
+    }
+
+    private create(limbs: Field[]): this {
+      return this.Constructor.fromLimbs(limbs) as this;
+    }
+
+    private isConstant() {
+      return this.limbs.every((limb) => limb.isConstant());
+    }
+
+    /**
+     * Addition with overflow checking.
+     */
+    add(y: From): this {
+      let y_ = this.Constructor.from(y);
+      if (this.isConstant() && y_.isConstant()) {
+        return this.constant(this.toBigInt() + y_.toBigInt(), 'add');
+      }
+      let { limbs, carry } = addLimbs(this.limbs, y_.limbs);
+      carry.assertFalse(`${name}.add(): overflow`);
+      return this.create(limbs);
+    }
+
+    /**
+     * Subtraction with underflow checking.
+     */
+    sub(y: From): this {
+      let y_ = this.Constructor.from(y);
+      if (this.isConstant() && y_.isConstant()) {
+        return this.constant(this.toBigInt() - y_.toBigInt(), 'sub');
+      }
+      let { limbs, borrow } = subLimbs(this.limbs, y_.limbs);
+      borrow.assertFalse(`${name}.sub(): underflow`);
+      return this.create(limbs);
+    }
+
+    /**
+     * Multiplication with overflow checking.
+     */
+    mul(y: From): this {
+      let y_ = this.Constructor.from(y);
+      if (this.isConstant() && y_.isConstant()) {
+        return this.constant(this.toBigInt() * y_.toBigInt(), 'mul');
+      }
+      return this.create(mulLimbs(this.limbs, y_.limbs, name));
+    }
+
+    /**
+     * Integer division with remainder.
+     *
+     * `x.divMod(y)` returns the quotient and the remainder.
+     */
+    divMod(y: From) {
+      let y_ = this.Constructor.from(y);
+      if (this.isConstant() && y_.isConstant()) {
+        let [xn, yn] = [this.toBigInt(), y_.toBigInt()];
+        assert(yn !== 0n, `${name}.divMod(): division by zero`);
+        return {
+          quotient: this.constant(xn / yn, 'divMod'),
+          rest: this.constant(xn % yn, 'divMod'),
+        };
+      }
+      let Constructor = this.Constructor;
+      let [quotient, rest] = Provable.witness(
+        Provable.Array(Constructor, 2),
+        () => {
+          let [xn, yn] = [this.toBigInt(), y_.toBigInt()];
+          if (yn === 0n) return [Constructor.zero, Constructor.zero];
+          return [Constructor.from(xn / yn), Constructor.from(xn % yn)];
+        }
+      );
+      quotient.mul(y_).add(rest).assertEquals(this);
+      rest.assertLessThan(y_, `${name}.divMod(): division by zero`);
+      return { quotient: quotient as this, rest: rest as this };
+    }
+
+    /**
+     * Integer division.
+     *
+     * `x.div(y)` returns the floor of `x / y`, that is, the greatest
+     * `z` such that `z * y <= x`.
+     */
+    div(y: From): this {
+      return this.divMod(y).quotient;
+    }
+
+    /**
+     * Integer remainder.
+     *
+     * `x.mod(y)` returns the value `z` such that `0 <= z < y` and
+     * `x - z` is divisible by `y`.
+     */
+    mod(y: From): this {
+      return this.divMod(y).rest;
+    }
+
+    /**
+     * Checks if this is equal to another value.
+     */
+    equals(y: From): Bool {
+      let y_ = this.Constructor.from(y);
+      return this.limbs
+        .map((limb, i) => limb.equals(y_.limbs[i]))
+        .reduce((a, b) => a.and(b));
+    }
+
+    /**
+     * Asserts that this is equal to another value.
+     */
+    assertEquals(y: From, message?: string) {
+      let y_ = this.Constructor.from(y);
+      this.limbs.forEach((limb, i) => limb.assertEquals(y_.limbs[i], message));
+    }
+
+    /**
+     * Checks if this is less than another value.
+     */
+    lessThan(y: From): Bool {
+      let y_ = this.Constructor.from(y);
+      if (this.isConstant() && y_.isConstant()) {
+        return Bool(this.toBigInt() < y_.toBigInt());
+      }
+      return subLimbs(this.limbs, y_.limbs).borrow;
+    }
+
+    /**
+     * Checks if this is less than or equal to another value.
+     */
+    lessThanOrEqual(y: From): Bool {
+      return this.Constructor.from(y).lessThan(this).not();
+    }
+
+    /**
+     * Checks if this is greater than another value.
+     */
+    greaterThan(y: From): Bool {
+      return this.Constructor.from(y).lessThan(this);
+    }
+
+    /**
+     * Checks if this is greater than or equal to another value.
+     */
+    greaterThanOrEqual(y: From): Bool {
+      return this.lessThan(y).not();
+    }
+
+    /**
+     * Asserts that this is less than another value.
+     */
+    assertLessThan(y: From, message?: string) {
+      let y_ = this.Constructor.from(y);
+      if (this.isConstant() && y_.isConstant()) {
+        let [x0, y0] = [this.toBigInt(), y_.toBigInt()];
+        return assert(
+          x0 < y0,
+          message ?? `${name}.assertLessThan: expected ${x0} < ${y0}`
+        );
+      }
+      this.lessThan(y_).assertTrue(message);
+    }
+
+    /**
+     * Asserts that this is less than or equal to another value.
+     */
+    assertLessThanOrEqual(y: From, message?: string) {
+      let y_ = this.Constructor.from(y);
+      if (this.isConstant() && y_.isConstant()) {
+        let [x0, y0] = [this.toBigInt(), y_.toBigInt()];
+        return assert(
+          x0 <= y0,
+          message ?? `${name}.assertLessThanOrEqual: expected ${x0} <= ${y0}`
+        );
+      }
+      y_.lessThan(this).assertFalse(message);
+    }
+
+    /**
+     * Asserts that this is greater than another value.
+     */
+    assertGreaterThan(y: From, message?: string) {
+      this.Constructor.from(y).assertLessThan(this, message);
+    }
+
+    /**
+     * Asserts that this is greater than or equal to another value.
+     */
+    assertGreaterThanOrEqual(y: From, message?: string) {
+      this.Constructor.from(y).assertLessThanOrEqual(this, message);
+    }
+
+    /**
+     * Performs a left shift by a constant number of bits, like `<<` in JavaScript.
+     * Bits shifted beyond `NUM_BITS` are discarded.
+     */
+    leftShift(bits: number): this {
+      checkShift(bits, NUM_BITS);
+      let [limbShift, bitShift] = [
+        Math.floor(bits / LIMB_BITS),
+        bits % LIMB_BITS,
+      ];
+      let limbs = [
+        ...zeros(limbShift),
+        ...this.limbs.slice(0, limbCount - limbShift),
+      ];
+      if (bitShift === 0) return this.create(limbs);
+      // split every limb into the bits that stay in the limb, and the bits that move to the next one
+      // the parts don't overlap when recombined, so the new limbs are less than 2^64
+      let parts = limbs.map((limb) => splitLimb(limb, LIMB_BITS - bitShift));
+      return this.create(
+        parts.map(([stay], i) =>
+          stay
+            .mul(1n << BigInt(bitShift))
+            .add(parts[i - 1]?.[1] ?? 0)
+            .seal()
+        )
+      );
+    }
+
+    /**
+     * Performs a right shift by a constant number of bits, like `>>` in JavaScript.
+     */
+    rightShift(bits: number): this {
+      checkShift(bits, NUM_BITS);
+      let [limbShift, bitShift] = [
+        Math.floor(bits / LIMB_BITS),
+        bits % LIMB_BITS,
+      ];
+      let limbs = [...this.limbs.slice(limbShift), ...zeros(limbShift)];
+      if (bitShift === 0) return this.create(limbs);
+      // split every limb into the bits that move to the previous limb, and the bits that stay in the limb
+      // the parts don't overlap when recombined, so the new limbs are less than 2^64
+      let parts = limbs.map((limb) => splitLimb(limb, bitShift));
+      return this.create(
+        parts.map(([, stay], i) =>
+          stay
+            .add(
+              (parts[i + 1]?.[0] ?? Field(0)).mul(
+                1n << BigInt(LIMB_BITS - bitShift)
+              )
+            )
+            .seal()
+        )
+      );
+    }
+
+    /**
+     * Bitwise AND, like `&` in JavaScript.
+     */
+    and(y: From): this {
+      let y_ = this.Constructor.from(y);
+      return this.create(
+        this.limbs.map((limb, i) => Bitwise.and(limb, y_.limbs[i], LIMB_BITS))
+      );
+    }
+
+    /**
+     * Bitwise OR, like `|` in JavaScript.
+     */
+    or(y: From): this {
+      let y_ = this.Constructor.from(y);
+      return this.create(
+        this.limbs.map((limb, i) => Bitwise.or(limb, y_.limbs[i], LIMB_BITS))
+      );
+    }
+
+    /**
+     * Bitwise XOR, like `^` in JavaScript.
+     */
+    xor(y: From): this {
+      let y_ = this.Constructor.from(y);
+      return this.create(
+        this.limbs.map((limb, i) => Bitwise.xor(limb, y_.limbs[i], LIMB_BITS))
+      );
+    }
+
+    /**
+     * Bitwise NOT over all `NUM_BITS` bits, like `~` in JavaScript.
+     */
+    not(): this {
+      return this.create(
+        this.limbs.map((limb) => Bitwise.not(limb, LIMB_BITS, false))
+      );
+    }
+
+    /**
+     * Converts to little-endian bytes.
+     */
+    toBytesLE(): UInt8[] {
+      return wordsToBytes(this.limbs, 8);
+    }
+
+    /**
+     * Converts to big-endian bytes.
+     */
+    toBytesBE(): UInt8[] {
+      return this.toBytesLE().reverse();
+    }
+
+    /**
+     * Converts to a {@link Field}, asserting that the value is smaller than the field modulus.
+     */
+    toField(): Field {
+      if (NUM_BITS >= Field.sizeInBits) {
+        this.assertLessThan(this.Constructor.from(Field.ORDER));
+      }
+      return sumLimbs(this.limbs);
+    }
+
+    /**
+     * Converts to a {@link UInt64}, asserting that the value fits in 64 bits.
+     */
+    toUInt64(): UInt64 {
+      this.limbs
+        .slice(1)
+        .forEach((limb) =>
+          limb.assertEquals(
+            0,
+            `${name}.toUInt64(): value doesn't fit in 64 bits`
+          )
+        );
+      return UInt64.Unsafe.fromField(this.limbs[0]);
+    }
+
+    /**
+     * Turns the value into a bigint.
+     *
+     * **Warning**: This operation is not provable.
+     */
+    toBigInt() {
+      return this.limbs.reduceRight(
+        (acc, limb) => (acc << 64n) + limb.toBigInt(),
+        0n
+      );
+    }
+
+    /**
+     * Turns the value into a decimal string.
+     *
+     * **Warning**: This operation is not provable.
+     */
+    toString() {
+      return this.toBigInt().toString();
+    }
+
+    private constant(x: bigint, method: string): this {
+      if (x < 0n) throw Error(`${name}.${method}(): underflow`);
+      if (x > MAX) throw Error(`${name}.${method}(): overflow`);
+      return this.create(toLimbs(x, limbCount).map(Field.from));
+    }
+  }
+  return WideUInt_;
+}
+
+/**
+ * A 128 bit unsigned integer with values ranging from 0 to 2^128 - 1.
+ */
+class UInt128 extends WideUInt(2, 'UInt128') {}
+
+/**
+ * A 256 bit unsigned integer with values ranging from 0 to 2^256 - 1,
+ * for example to represent EVM-compatible token amounts.
+ */
+class UInt256 extends WideUInt(4, 'UInt256') {}
+
+// limb arithmetic
+
+function toLimbs(x: bigint, limbCount: number) {
+  return Array.from(
+    { length: limbCount },
+    (_, i) => (x >> BigInt(i * LIMB_BITS)) & LIMB_MASK
+  );
+}
+
+function zeros(n: number) {
+  return Array.from({ length: n }, () => Field(0));
+}
+
+function sumLimbs(limbs: Field[]) {
+  return limbs.reduceRight((acc, limb) => acc.mul(LIMB_SIZE).add(limb));
+}
+
+/**
+ * Adds limb by limb with a carry chain. The final carry signals an overflow.
+ */
+function addLimbs(x: Field[], y: Field[]) {
+  let carry = Bool(false);
+  let limbs = x.map((xi, i) => {
+    let sum = xi.add(y[i]).add(carry.toField());
+    carry = Provable.witness(Bool, () => sum.toBigInt() >= LIMB_SIZE);
+    let limb = sum.sub(carry.toField().mul(LIMB_SIZE)).seal();
+    RangeCheck.rangeCheckN(LIMB_BITS, limb);
+    return limb;
+  });
+  return { limbs, carry };
+}
+
+/**
+ * Subtracts limb by limb with a borrow chain. The final borrow is true iff x < y.
+ */
+function subLimbs(x: Field[], y: Field[]) {
+  let borrow = Bool(false);
+  let limbs = x.map((xi, i) => {
+    let diff = xi.sub(y[i]).sub(borrow.toField());
+    borrow = Provable.witness(
+      Bool,
+      () => xi.toBigInt() < y[i].toBigInt() + borrow.toField().toBigInt()
+    );
+    let limb = diff.add(borrow.toField().mul(LIMB_SIZE)).seal();
+    RangeCheck.rangeCheckN(LIMB_BITS, limb);
+    return limb;
+  });
+  return { limbs, borrow };
+}
+
+/**
+ * Schoolbook multiplication which asserts that the product doesn't overflow.
+ *
+ * Every column of partial products is smaller than `limbCount * 2^128`, so it can't wrap around the field modulus.
+ */
+function mulLimbs(x: Field[], y: Field[], name: string) {
+  let n = x.length;
+  let columns = Array.from({ length: 2 * n - 1 }, () => Field(0));
+  x.forEach((xi, i) =>
+    y.forEach((yj, j) => {
+      columns[i + j] = columns[i + j].add(xi.mul(yj));
+    })
+  );
+  // the high columns have to vanish, otherwise the product overflows
+  columns
+    .slice(n)
+    .forEach((column) => column.assertEquals(0, `${name}.mul(): overflow`));
+
+  let carry = Field(0);
+  return columns.slice(0, n).map((column, k) => {
+    let sum = column.add(carry).seal();
+    if (k === n - 1) {
+      RangeCheck.rangeCheckN(LIMB_BITS, sum, `${name}.mul(): overflow`);
+      return sum;
+    }
+    carry = Provable.witness(Field, () => sum.toBigInt() >> 64n);
+    RangeCheck.rangeCheckN(80, carry);
+    let limb = sum.sub(carry.mul(LIMB_SIZE)).seal();
+    RangeCheck.rangeCheckN(LIMB_BITS, limb);
+    return limb;
+  });
+}
+
+/**
+ * Splits a 64-bit limb into its low `bits` bits and the remaining high bits.
+ */
+function splitLimb(limb: Field, bits: number): [Field, Field] {
+  if (limb.isConstant()) {
+    let x = limb.toBigInt();
+    return [Field(x & ((1n << BigInt(bits)) - 1n)), Field(x >> BigInt(bits))];
+  }
+  let [low, high] = Provable.witness(Provable.Array(Field, 2), () => {
+    let x = limb.toBigInt();
+    return [x & ((1n << BigInt(bits)) - 1n), x >> BigInt(bits)].map(Field.from);
+  });
+  assertLimbSplit(limb, bits, [low, high]);
+  return [low, high];
+}
+
+/**
+ * Asserts that `[low, high]` is the split of a 64-bit limb at `bits`, i.e. `limb = low + 2^bits * high`
+ * with `low < 2^bits` and `high < 2^(64 - bits)`.
+ *
+ * The bounds make the split unique, and imply that limbs which are recombined from the parts fit in 64 bits again.
+ */
+function assertLimbSplit(limb: Field, bits: number, [low, high]: Field[]) {
+  rangeCheckBits(bits, low);
+  rangeCheckBits(LIMB_BITS - bits, high);
+  low.add(high.mul(1n << BigInt(bits))).assertEquals(limb);
+}
+
+/**
+ * Asserts that `x < 2^bits`, for 0 < bits < 64.
+ */
+function rangeCheckBits(bits: number, x: Field) {
+  // x < 2^64 and 2^(64 - bits) * x < 2^64 imply x < 2^bits
+  RangeCheck.rangeCheckN(LIMB_BITS, x);
+  RangeCheck.rangeCheckN(
+    LIMB_BITS,
+    x.mul(1n << BigInt(LIMB_BITS - bits)).seal()
+  );
+}
+
+function checkShift(bits: number, maxBits: number) {
+  assert(
+    Number.isInteger(bits) && bits >= 0 && bits <= maxBits,
+    `shift: expected bits to be between 0 and ${maxBits}, got ${bits}`
+  );
+}
@@ -0,0 +1,377 @@
+import { Bool, Field } from './wrapped.js';
+import { Int64, UInt64, UInt8 } from './int.js';
+import { Bytes } from './bytes.js';
+import { Provable } from './provable.js';
+import { assert } from './gadgets/common.js';
+import { DynamicBytesBase } from './dynamic-bytes.js';
+import { DynamicString, DynamicStringBase } from './dynamic-string.js';
+
+// external API
+export { Json };
+export type { JsonToken };
+
+/**
+ * The result of tokenizing a single byte of a JSON text.
+ */
+type JsonToken = {
+  /**
+   * The byte. For {@link DynamicBytes}, bytes after the length are replaced with spaces.
+   */
+  byte: UInt8;
+  /**
+   * The nesting depth of the object or array containing the byte, as one `Bool` for every depth from 0 to `maxDepth`.
+   * Brackets belong to the outer depth.
+   */
+  depth: Bool[];
+  /**
+   * True for the content of strings, excluding the quotes.
+   */
+  isString: Bool;
+  /**
+   * True for the content of strings which are object keys.
+   */
+  isKey: Bool;
+  /**
+   * True for the closing quote of object keys.
+   */
+  isKeyEnd: Bool;
+  /**
+   * True for the first byte of every value: the opening quote of a string, the opening bracket of an object or array,
+   * or the first byte of a number, `true`, `false` or `null`.
+   */
+  isValueStart: Bool;
+  /**
+   * True for the bytes of numbers, `true`, `false` and `null`.
+   */
+  isPrimitive: Bool;
+  /**
+   * True for `{` and `[`.
+   */
+  isOpen: Bool;
+};
+
+const SPACE = 0x20;
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COMMA = 0x2c;
+const COLON = 0x3a;
+const OPEN_OBJECT = 0x7b;
+const CLOSE_OBJECT = 0x7d;
+const OPEN_ARRAY = 0x5b;
+const CLOSE_ARRAY = 0x5d;
+const WHITESPACE = [SPACE, 0x09, 0x0a, 0x0d];
+
+/**
+ * A JSON text which was tokenized in provable code, to extract values at a path of object keys.
+ *
+ * ```ts
+ * let payload = Json.parse(bytes);
+ * payload.getString('sub', { maxLength: 64 }).assertEquals('alice');
+ * payload.getUInt64(['exp']).assertGreaterThan(now);
+ * ```
+ *
+ * The tokenizer proves the structure needed to locate values: where strings, keys and values start and end,
+ * escape sequences in strings, and the nesting of objects and arrays.
+ * It doesn't prove that the text is valid JSON, so the text should come from a trusted source, like a signed payload.
+ */
+class Json {
+  /**
+   * A token for every byte of the text.
+   */
+  readonly tokens: JsonToken[];
+
+  /**
+   * The maximum nesting depth of objects and arrays.
+   */
+  readonly maxDepth: number;
+
+  private constructor(tokens: JsonToken[], maxDepth: number) {
+    this.tokens = tokens;
+    this.maxDepth = maxDepth;
+  }
+
+  /**
+   * Tokenizes a JSON text.
+   *
+   * Proves that strings are terminated and that brackets are balanced, with a nesting depth of at most `maxDepth`.
+   * The cost grows with the length of the text times `maxDepth`.
+   */
+  static parse(
+    text: Bytes | DynamicBytesBase,
+    { maxDepth = 4 }: { maxDepth?: number } = {}
+  ): Json {
+    assert(
+      Number.isInteger(maxDepth) && maxDepth >= 1,
+      `Json.parse(): maxDepth must be a positive integer, got ${maxDepth}`
+    );
+    let bytes = text instanceof Bytes ? text.bytes : text.array;
+    let inText =
+      text instanceof Bytes ? bytes.map(() => Bool(true)) : text.lengthMask();
+
+    let depth = Array.from({ length: maxDepth + 1 }, (_, d) => Bool(d === 0));
+    // whether the container at every depth is an array
+    let isArray = depth.map(() => Bool(false));
+    let inString = Bool(false);
+    let isEscaped = Bool(false);
+    let inKey = Bool(false);
+    let expectKey = Bool(false);
+    let inPrimitive = Bool(false);
+
+    let tokens = bytes.map((b, i): JsonToken => {
+      let byte = UInt8.Unsafe.fromField(
+        Provable.if(inText[i], b.value, Field(SPACE)).seal()
+      );
+      let is = (c: number) => byte.value.equals(c);
+      let isQuote = is(QUOTE);
+      let isOpenObject = is(OPEN_OBJECT);
+      let isOpenArray = is(OPEN_ARRAY);
+      let isCloseArray = is(CLOSE_ARRAY);
+      let isCloseBracket = is(CLOSE_OBJECT).or(isCloseArray);
+      let isComma = is(COMMA);
+      let isSeparator = [isQuote, isOpenObject, isOpenArray, isCloseBracket]
+        .concat(isComma, is(COLON), ...WHITESPACE.map(is))
+        .reduce((acc, x) => acc.or(x));
+
+      let outside = inString.not();
+      let isClosingQuote = inString.and(isEscaped.not()).and(isQuote);
+      let isContent = inString.and(isClosingQuote.not());
+      let isOpeningQuote = outside.and(isQuote);
+      let isOpen = outside.and(isOpenObject.or(isOpenArray));
+      let isClose = outside.and(isCloseBracket);
+      let isPrimitive = outside.and(isSeparator.not());
+      let isValueStart = isOpeningQuote
+        .and(expectKey.not())
+        .or(isOpen)
+        .or(isPrimitive.and(inPrimitive.not()));
+
+      let token: JsonToken = {
+        byte,
+        depth,
+        isString: isContent,
+        isKey: isContent.and(inKey),
+        isKeyEnd: isClosingQuote.and(inKey),
+        isValueStart,
+        isPrimitive,
+        isOpen,
+      };
+
+      // update the state
+      isOpen
+        .and(depth[maxDepth])
+        .assertFalse(`Json.parse(): nesting is deeper than ${maxDepth}`);
+      isClose
+        .and(depth[0])
+        .assertFalse('Json.parse(): unexpected closing bracket');
+
+      let isInArray = depth.reduce(
+        (acc, d, k) => acc.or(d.and(isArray[k])),
+        Bool(false)
+      );
+      isClose
+        .and(isCloseArray.equals(isInArray).not())
+        .assertFalse('Json.parse(): mismatched closing bracket');
+      isArray = isArray.map((a, k) =>
+        k === 0 ? a : Provable.if(isOpen.and(depth[k - 1]), isOpenArray, a)
+      );
+      depth = depth.map((d, k) => {
+        let below = depth[k - 1] ?? Bool(false);
+        let above = depth[k + 1] ?? Bool(false);
+        return Provable.if(isOpen, below, Provable.if(isClose, above, d));
+      });
+      inKey = Provable.if(isOpeningQuote, expectKey, inKey);
+      expectKey = Provable.if(
+        isOpen,
+        isOpenObject,
+        Provable.if(
+          outside.and(isComma),
+          isInArray.not(),
+          expectKey.and(isOpeningQuote.or(isClose).not())
+        )
+      );
+      isEscaped = isContent.and(isEscaped.not()).and(is(BACKSLASH));
+      inString = isOpeningQuote.or(isContent);
+      inPrimitive = isPrimitive;
+      return token;
+    });
+
+    inString.assertFalse('Json.parse(): unterminated string');
+    depth[0].assertTrue('Json.parse(): unclosed object or array');
+    return new Json(tokens, maxDepth);
+  }
+
+  /**
+   * Returns the string at a path of object keys, like `['address', 'city']` for `{"address":{"city":"..."}}`.
+   *
+   * The string is returned as it appears in the JSON text, so escape sequences are not decoded.
+   * Proves that there is exactly one value at the path, and that it is a string of at most `maxLength` bytes.
+   */
+  getString(
+    path: string | string[],
+    { maxLength }: { maxLength: number }
+  ): DynamicStringBase {
+    let method = 'Json.getString()';
+    let { starts, atValue } = this.findValue(path, method);
+    let isString = starts.map((s, i) =>
+      s.and(this.tokens[i].isOpen.or(this.tokens[i].isPrimitive).not())
+    );
+    sum(isString).assertEquals(
+      1,
+      `${method}: expected a string at ${formatPath(path)}`
+    );
+    let mask = this.tokens.map(({ isString, isKey }, i) =>
+      isString.and(isKey.not()).and(atValue[i])
+    );
+    // the content starts after the opening quote
+    return this.extract(starts, 1, mask, maxLength, method);
+  }
+
+  /**
+   * Returns the non-negative integer at a path of object keys.
+   *
+   * Proves that there is exactly one value at the path, and that it is a number of at most 20 digits which fits in 64 bits.
+   */
+  getUInt64(path: string | string[]): UInt64 {
+    return this.getPrimitive(path, 20, 'Json.getUInt64()').parseUInt64();
+  }
+
+  /**
+   * Returns the integer at a path of object keys.
+   *
+   * Proves that there is exactly one value at the path, and that it is a number of at most 20 digits,
+   * with an optional minus sign, whose absolute value fits in 64 bits.
+   */
+  getInt64(path: string | string[]): Int64 {
+    return this.getPrimitive(path, 21, 'Json.getInt64()').parseInt64();
+  }
+
+  /**
+   * Returns the boolean at a path of object keys.
+   *
+   * Proves that there is exactly one value at the path, and that it is `true` or `false`.
+   */
+  getBool(path: string | string[]): Bool {
+    let method = 'Json.getBool()';
+    let value = this.getPrimitive(path, 5, method);
+    let isTrue = value.equals('true');
+    isTrue
+      .or(value.equals('false'))
+      .assertTrue(`${method}: expected a boolean at ${formatPath(path)}`);
+    return isTrue;
+  }
+
+  private getPrimitive(
+    path: string | string[],
+    maxLength: number,
+    method: string
+  ) {
+    let { starts, atValue } = this.findValue(path, method);
+    let isPrimitive = starts.map((s, i) => s.and(this.tokens[i].isPrimitive));
+    sum(isPrimitive).assertEquals(
+      1,
+      `${method}: expected a number, boolean or null at ${formatPath(path)}`
+    );
+    let mask = this.tokens.map(({ isPrimitive }, i) =>
+      isPrimitive.and(atValue[i])
+    );
+    return this.extract(starts, 0, mask, maxLength, method);
+  }
+
+  /**
+   * Locates the value at a path, by following the keys at every depth.
+   *
+   * Returns a mask of the first byte of the value, and a mask of all bytes directly contained in objects which belong to the path.
+   */
+  private findValue(path: string | string[], method: string) {
+    let keys = (typeof path === 'string' ? [path] : path).map((key) => [
+      ...new TextEncoder().encode(key),
+    ]);
+    let n = keys.length;
+    assert(
+      n >= 1 && n <= this.maxDepth,
+      `${method}: the path must have between 1 and ${this.maxDepth} keys`
+    );
+
+    // isOnPath[d] is true if the last key at depth d, and the keys of all outer objects, match the path
+    let isOnPath = [Bool(true), ...keys.map(() => Bool(false))];
+    // progress[k][j] is true if the current key at depth k + 1 matches the first j bytes of keys[k]
+    let progress = keys.map((key) => [
+      Bool(true),
+      ...key.map(() => Bool(false)),
+    ]);
+
+    let atValue = this.tokens.map(
+      ({ byte, depth, isKey, isKeyEnd, isOpen }) => {
+        let atValue = depth[n].and(isOnPath[n]);
+
+        let equals = new Map<number, Bool>();
+        let byteEquals = (c: number) => {
+          if (!equals.has(c)) equals.set(c, byte.value.equals(c));
+          return equals.get(c)!;
+        };
+        keys.forEach((key, k) => {
+          let d = k + 1;
+          let isKeyByte = isKey.and(depth[d]);
+          isOnPath[d] = Provable.if(
+            isKeyEnd.and(depth[d]),
+            progress[k][key.length].and(isOnPath[d - 1]),
+            // a new object at depth d has no key yet
+            isOnPath[d].and(isOpen.and(depth[d - 1]).not())
+          );
+          progress[k] = progress[k].map((_, j) =>
+            j === 0
+              ? isKeyByte.not()
+              : isKeyByte.and(progress[k][j - 1]).and(byteEquals(key[j - 1]))
+          );
+        });
+        return atValue;
+      }
+    );
+
+    let starts = this.tokens.map(({ isValueStart }, i) =>
+      isValueStart.and(atValue[i])
+    );
+    sum(starts).assertEquals(
+      1,
+      `${method}: expected exactly one value at ${formatPath(path)}`
+    );
+    return { starts, atValue };
+  }
+
+  /**
+   * Copies the bytes from the position `offset` after the start of the value into a string of capacity `maxLength`.
+   */
+  private extract(
+    starts: Bool[],
+    offset: number,
+    mask: Bool[],
+    maxLength: number,
+    method: string
+  ): DynamicStringBase {
+    let length = sum(mask).seal();
+    length.assertLessThanOrEqual(
+      maxLength,
+      `${method}: the value is longer than ${maxLength} bytes`
+    );
+    let bytes = this.tokens.map(({ byte }) => byte.value);
+    let array = Array.from({ length: maxLength }, (_, j) =>
+      UInt8.Unsafe.fromField(
+        starts
+          .reduce((acc, s, i) => {
+            let k = i + offset + j;
+            return k < bytes.length ? acc.add(s.toField().mul(bytes[k])) : acc;
+          }, Field(0))
+          .seal()
+      )
+    );
+    let Value = DynamicString({ capacity: maxLength });
+    return new Value({ array, length });
+  }
+}
+
+function sum(bools: Bool[]) {
+  return bools.reduce((acc, x) => acc.add(x.toField()), Field(0));
+}
+
+function formatPath(path: string | string[]) {
+  return typeof path === 'string' ? path : path.join('.');
+}
@@ -0,0 +1,179 @@
+import { Bool, Field } from './wrapped.js';
+import { UInt32, UInt8 } from './int.js';
+import { Bytes } from './bytes.js';
+import { Provable } from './provable.js';
+import { assert } from './gadgets/common.js';
+import { DynamicBytes, DynamicBytesBase } from './dynamic-bytes.js';
+import { Json } from './json.js';
+
+// external API
+export { Jwt };
+
+const DOT = 0x2e;
+const PLUS = 0x2b;
+const MINUS = 0x2d;
+const SLASH = 0x2f;
+const UNDERSCORE = 0x5f;
+const A = 0x41;
+
+/**
+ * A JSON Web Token (JWT), decoded in provable code.
+ *
+ * ```ts
+ * class Token extends DynamicBytes({ capacity: 1024 }) {}
+ *
+ * let jwt = Jwt.decode(token, { maxPayloadLength: 640 });
+ * jwt.payload.getString('sub', { maxLength: 64 }).assertEquals(userId);
+ * jwt.header.getString('alg', { maxLength: 8 }).assertEquals('RS256');
+ * ```
+ *
+ * Decoding doesn't verify the signature. It has to be checked against {@link Jwt.signedData},
+ * otherwise the prover can choose the header and payload freely.
+ */
+class Jwt {
+  /**
+   * The decoded JOSE header.
+   */
+  readonly header: Json;
+
+  /**
+   * The decoded payload, which holds the claims.
+   */
+  readonly payload: Json;
+
+  /**
+   * The encoded header and payload separated by '.', which is the input of the signature.
+   */
+  readonly signedData: DynamicBytesBase;
+
+  private constructor(
+    header: Json,
+    payload: Json,
+    signedData: DynamicBytesBase
+  ) {
+    this.header = header;
+    this.payload = payload;
+    this.signedData = signedData;
+  }
+
+  /**
+   * Decodes a JWT in compact serialization, which consists of three base64url-encoded parts separated by '.'.
+   *
+   * The header and payload are base64url-decoded with `Bytes.base64Decode()` and tokenized with {@link Json.parse}.
+   * Proves that the token has three parts, and that the decoded header and payload have at most
+   * `maxHeaderLength` and `maxPayloadLength` bytes.
+   */
+  static decode(
+    token: DynamicBytesBase,
+    {
+      maxHeaderLength = 128,
+      maxPayloadLength,
+      maxDepth,
+    }: { maxHeaderLength?: number; maxPayloadLength: number; maxDepth?: number }
+  ): Jwt {
+    let method = 'Jwt.decode()';
+    assert(
+      Number.isInteger(maxHeaderLength) && Number.isInteger(maxPayloadLength),
+      `${method}: maxHeaderLength and maxPayloadLength must be integers`
+    );
+    let headerChars = 4 * Math.ceil(maxHeaderLength / 3);
+    let payloadChars = 4 * Math.ceil(maxPayloadLength / 3);
+    let bytes = token.array;
+    let mask = token.lengthMask();
+
+    // find the two dots which separate the parts
+    let isFirstDot: Bool[] = [];
+    let isSecondDot: Bool[] = [];
+    let dotCount = Field(0);
+    let seenFirst = Bool(false);
+    let seenSecond = Bool(false);
+    bytes.forEach((b, i) => {
+      let isDot = mask[i].and(b.value.equals(DOT));
+      isFirstDot.push(isDot.and(seenFirst.not()));
+      isSecondDot.push(isDot.and(seenFirst).and(seenSecond.not()));
+      dotCount = dotCount.add(isDot.toField());
+      seenSecond = seenSecond.or(isDot.and(seenFirst));
+      seenFirst = seenFirst.or(isDot);
+    });
+    dotCount.assertEquals(
+      2,
+      `${method}: expected three parts separated by '.'`
+    );
+
+    let firstDot = position(isFirstDot);
+    let secondDot = position(isSecondDot);
+    firstDot.assertLessThanOrEqual(
+      headerChars,
+      `${method}: the header is longer than ${maxHeaderLength} bytes`
+    );
+    let payloadLength = secondDot.sub(firstDot).sub(1).seal();
+    payloadLength.assertLessThanOrEqual(
+      payloadChars,
+      `${method}: the payload is longer than ${maxPayloadLength} bytes`
+    );
+
+    // the header starts at 0
+    let headerBytes = Array.from(
+      { length: headerChars },
+      (_, i) => bytes[i] ?? UInt8.from(0)
+    );
+    // the payload starts after the first dot, which is at most at `headerChars`
+    let payloadBytes = Array.from({ length: payloadChars }, (_, j) =>
+      UInt8.Unsafe.fromField(
+        isFirstDot
+          .slice(0, headerChars + 1)
+          .reduce((acc, isDot, i) => {
+            let k = i + 1 + j;
+            return k < bytes.length
+              ? acc.add(isDot.toField().mul(bytes[k].value))
+              : acc;
+          }, Field(0))
+          .seal()
+      )
+    );
+
+    let header = Json.parse(base64UrlDecode(headerBytes, firstDot), {
+      maxDepth,
+    });
+    let payload = Json.parse(base64UrlDecode(payloadBytes, payloadLength), {
+      maxDepth,
+    });
+    let signedData = new token.Constructor({
+      array: token.array,
+      length: secondDot,
+    }) as DynamicBytesBase;
+    return new Jwt(header, payload, signedData);
+  }
+}
+
+function position(mask: Bool[]) {
+  return mask
+    .reduce((acc, x, i) => acc.add(x.toField().mul(i)), Field(0))
+    .seal();
+}
+
+/**
+ * Decodes the first `length` characters of unpadded base64url, where `chars.length` is a multiple of 4.
+ */
+function base64UrlDecode(chars: UInt8[], length: Field): DynamicBytesBase {
+  let Encoded = DynamicBytes({ capacity: chars.length });
+  let mask = new Encoded({ array: chars, length }).lengthMask();
+
+  // translate to standard base64, and fill up the rest with 'A', which decodes to zero bits
+  let standard = chars.map(({ value }, i) => {
+    let isMinus = value.equals(MINUS).toField();
+    let isUnderscore = value.equals(UNDERSCORE).toField();
+    let translated = value
+      .add(isMinus.mul(PLUS - MINUS))
+      .add(isUnderscore.mul(SLASH - UNDERSCORE));
+    return UInt8.Unsafe.fromField(
+      Provable.if(mask[i], translated, Field(A)).seal()
+    );
+  });
+  let decoded = Bytes.from(standard).base64Decode((chars.length / 4) * 3);
+
+  // every character encodes 6 bits, and the bits of incomplete bytes are dropped
+  let decodedLength = UInt32.Unsafe.fromField(length.mul(3)).div(4).value;
+  let Decoded = DynamicBytes({ capacity: decoded.length });
+  return new Decoded({ array: decoded.bytes, length: decodedLength });
+}
@@ -28,6 +28,7 @@ import {
 import { witness, witnessAsync, witnessFields } from './types/witness.js';
 import { InferValue } from '../../bindings/lib/provable-generic.js';
 import { ToProvable } from '../../lib/provable/types/provable-intf.js';
+import { Enum } from './enum.js';
 
 // external API
 export { Provable };
@@ -147,6 +148,17 @@ const Provable = {
    * ```
    */
   Array: provableArray,
+  /**
+   * Creates a {@link Provable} for a tagged union of several variants, each with its own provable type.
+   * @example
+   * ```ts
+   * class Action extends Provable.Enum({ Transfer, Mint, Burn: UInt64 }) {}
+   *
+   * let action = Action.from('Burn', UInt64.from(10));
+   * let amount = action.unwrap('Burn');
+   * ```
+   */
+  Enum,
   /**
    * Check whether a value is constant.
    * See {@link FieldVar} for more information about constants and variables.
@@ -0,0 +1,812 @@
+import { Bool, Field } from './wrapped.js';
+import { UInt8 } from './int.js';
+import { Bytes } from './bytes.js';
+import { Provable } from './provable.js';
+import { assert } from './gadgets/common.js';
+import { rangeCheck3x12 } from './gadgets/lookup.js';
+import { DynamicBytesBase } from './dynamic-bytes.js';
+
+// external API
+export { Regex };
+
+// internal API
+export { parseRegex, compileDfa };
+
+/**
+ * A regular expression which can be matched against bytes in provable code.
+ *
+ * The pattern is compiled to a deterministic finite automaton (DFA) once, outside the circuit.
+ * Matching costs a number of constraints proportional to the input length times the number of DFA transitions.
+ * Capturing groups add a second pass over the input, with an automaton of the reversed pattern.
+ *
+ * ```ts
+ * const fromAddress = Regex.compile('\r\nfrom: [^\r\n]*<([a-z0-9.]+@[a-z0-9.]+)>\r\n');
+ *
+ * let { isMatch, captures } = fromAddress.match(header);
+ * isMatch.assertTrue();
+ * // captures[0] is true at every byte of the email address
+ * ```
+ *
+ * Supported syntax:
+ * - literal characters, where non-ASCII characters match their UTF-8 encoding
+ * - `.` (any byte except `\n` and `\r`), character classes like `[a-z0-9_]` and `[^"]`, and the escapes
+ *   `\d`, `\D`, `\w`, `\W`, `\s`, `\S`, `\n`, `\r`, `\t`, `\v`, `\f`, `\0` and `\xHH`
+ * - alternation `a|b`, capturing groups `(...)` and non-capturing groups `(?:...)`
+ * - the quantifiers `*`, `+`, `?`, `{n}`, `{n,}` and `{n,m}`
+ * - the anchors `^` at the start and `$` at the end of the pattern
+ *
+ * Without anchors, the pattern can match anywhere in the input, like `RegExp.test()`.
+ * Character classes and `.` match single bytes, so they only support ASCII characters.
+ */
+class Regex {
+  /**
+   * The source of the regular expression.
+   */
+  readonly pattern: string;
+
+  /**
+   * The number of capturing groups.
+   */
+  readonly groupCount: number;
+
+  private dfa: Dfa;
+
+  private constructor(pattern: string, groupCount: number, dfa: Dfa) {
+    this.pattern = pattern;
+    this.groupCount = groupCount;
+    this.dfa = dfa;
+  }
+
+  /**
+   * Compiles a regular expression, and throws an error if it uses unsupported syntax.
+   */
+  static compile(pattern: string): Regex {
+    let regex = parseRegex(pattern);
+    let dfa = compileDfa(regex);
+    return new Regex(pattern, regex.groupCount, dfa);
+  }
+
+  /**
+   * The number of states of the compiled automaton, excluding the state that rejects every input.
+   */
+  get stateCount() {
+    return this.dfa.states.length;
+  }
+
+  /**
+   * Matches the regular expression against `message`, and returns whether it matches.
+   *
+   * For every capturing group, it also returns a reveal mask which is true at every byte that was consumed inside the group.
+   * The masks are all false if the message doesn't match. For {@link DynamicBytes}, the bytes after the length are ignored.
+   *
+   * A byte is marked if _any_ way of matching the whole message consumes it inside the group. Bytes of partial matches
+   * which fail later are not marked, for example `amount=([0-9]+);` only marks `5` in `amount=12x;amount=5;`.
+   *
+   * **Warning**: If a group can match at several places in the message, all of them are marked.
+   * Surround groups with delimiters that only occur once to get exactly one occurrence.
+   */
+  match(message: Bytes | DynamicBytesBase): {
+    isMatch: Bool;
+    captures: Bool[][];
+  } {
+    let { states, ranges, transitions, start, reverse } = this.dfa;
+    let bytes = message instanceof Bytes ? message.bytes : message.array;
+    let isInRange = bytes.map((b) => byteRangeOneHot(b, ranges));
+    let inRanges = (i: number, rangeIndices: number[]) =>
+      rangeIndices.reduce(
+        (acc, r) => acc.add(isInRange[i][r].toField()),
+        Field(0)
+      );
+    let isEnd = Array.from({ length: bytes.length + 1 }, (_, i) =>
+      message instanceof Bytes
+        ? Bool(i === bytes.length)
+        : message.length.equals(i)
+    );
+
+    // run the reversed automaton from the end of the message to its start, to find out where the rest of the message
+    // can be matched. `reverseState[i]` is its one-hot state before byte i, and all zeros after the end of the message
+    let reverseStart = (i: number) =>
+      Array.from({ length: reverse.stateCount }, (_, r) =>
+        r === reverse.start ? isEnd[i].toField() : Field(0)
+      );
+    let reverseState: Field[][] = [];
+    reverseState[bytes.length] = reverseStart(bytes.length);
+    for (let i = bytes.length - 1; i >= 0; i--) {
+      let previous = reverseStart(i);
+      for (let { from, to, rangeIndices } of reverse.transitions) {
+        previous[to] = previous[to].add(
+          reverseState[i + 1][from].mul(inRanges(i, rangeIndices))
+        );
+      }
+      reverseState[i] = previous.map((x) => x.seal());
+    }
+
+    // one-hot representation of the current state; all zeros means that the input was rejected
+    let state = states.map((_, s) => Field(s === start ? 1 : 0));
+    let isAccepted = (state: Field[]) =>
+      Bool.Unsafe.fromField(
+        states.reduce(
+          (acc, { accepting }, s) => (accepting ? acc.add(state[s]) : acc),
+          Field(0)
+        )
+      );
+    let accepted = [isAccepted(state)];
+    let groupMasks: Field[][] = Array.from(
+      { length: this.groupCount },
+      () => []
+    );
+
+    bytes.forEach((_, i) => {
+      let next = states.map(() => Field(0));
+      let inGroup = groupMasks.map(() => Field(0));
+
+      for (let { from, to, captures, rangeIndices } of transitions) {
+        let isTaken = state[from].mul(inRanges(i, rangeIndices));
+        next[to] = next[to].add(isTaken);
+
+        // the byte is only captured if the rest of the message can be matched after it,
+        // so that partial matches which fail later are not marked
+        for (let { group, reverseStates } of captures) {
+          let canMatchRest = reverseStates.reduce(
+            (acc, r) => acc.add(reverseState[i + 1][r]),
+            Field(0)
+          );
+          inGroup[group] = inGroup[group].add(isTaken.mul(canMatchRest));
+        }
+      }
+      state = next.map((x) => x.seal());
+      accepted.push(isAccepted(state));
+      inGroup.forEach((x, g) => groupMasks[g].push(x.seal()));
+    });
+
+    // the message matches if the state after its last byte is accepting
+    let isMatch: Bool;
+    let inMessage: Bool[];
+    if (message instanceof Bytes) {
+      isMatch = accepted[bytes.length];
+      inMessage = bytes.map(() => Bool(true));
+    } else {
+      isMatch = accepted.reduce(
+        (acc, a, i) => acc.or(isEnd[i].and(a)),
+        Bool(false)
+      );
+      inMessage = message.lengthMask();
+    }
+    let captures = groupMasks.map((mask) =>
+      mask.map((x, i) =>
+        Bool.Unsafe.fromField(x).and(inMessage[i]).and(isMatch)
+      )
+    );
+    return { isMatch, captures };
+  }
+}
+
+/**
+ * Returns a `Bool` for every byte range, which is true for the range that contains `b`.
+ *
+ * The ranges are proven to contain `b` with a lookup into the 12-bit range check table:
+ * `b - lo` and `hi - b` are less than 2^12 iff `lo <= b <= hi`, because all values are bytes.
+ */
+function byteRangeOneHot(b: UInt8, ranges: ByteRange[]): Bool[] {
+  if (ranges.length === 1) return [Bool(true)];
+
+  if (b.value.isConstant()) {
+    let x = Number(b.toBigInt());
+    return ranges.map(([lo, hi]) => Bool(lo <= x && x <= hi));
+  }
+  let isInRange = Provable.witness(Provable.Array(Bool, ranges.length), () => {
+    let x = Number(b.toBigInt());
+    return ranges.map(([lo, hi]) => Bool(lo <= x && x <= hi));
+  });
+  isInRange
+    .reduce((acc, x) => acc.add(x.toField()), Field(0))
+    .assertEquals(1, 'Regex: expected exactly one byte range');
+
+  let lo = Field(0);
+  let hi = Field(0);
+  isInRange.forEach((x, r) => {
+    lo = lo.add(x.toField().mul(ranges[r][0]));
+    hi = hi.add(x.toField().mul(ranges[r][1]));
+  });
+  rangeCheck3x12(b.value.sub(lo).seal(), hi.sub(b.value).seal(), Field(0));
+  return isInRange;
+}
+
+// parsing
+
+type ByteSet = boolean[];
+
+type RegexNode =
+  | { type: 'byte'; set: ByteSet }
+  | { type: 'concat'; nodes: RegexNode[] }
+  | { type: 'alt'; nodes: RegexNode[] }
+  | { type: 'repeat'; node: RegexNode; min: number; max: number }
+  | { type: 'group'; node: RegexNode; index: number };
+
+type ParsedRegex = {
+  node: RegexNode;
+  groupCount: number;
+  anchorStart: boolean;
+  anchorEnd: boolean;
+};
+
+const MAX_REPEAT = 1000;
+
+function parseRegex(pattern: string): ParsedRegex {
+  let chars = [...pattern];
+  let i = 0;
+  let groupCount = 0;
+
+  let error = (message: string): never => {
+    throw Error(`Regex: ${message} at position ${i} in /${pattern}/`);
+  };
+  let peek = () => chars[i];
+  let eat = (c: string) => {
+    if (chars[i] !== c) error(`expected '${c}'`);
+    i++;
+  };
+
+  let anchorStart = peek() === '^';
+  if (anchorStart) i++;
+  let anchorEnd = false;
+
+  function parseAlternation(): RegexNode {
+    let nodes = [parseConcatenation()];
+    while (peek() === '|') {
+      i++;
+      nodes.push(parseConcatenation());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'alt', nodes };
+  }
+
+  function parseConcatenation(): RegexNode {
+    let nodes: RegexNode[] = [];
+    while (i < chars.length && peek() !== '|' && peek() !== ')') {
+      if (peek() === '$') {
+        i++;
+        if (i !== chars.length) error("'$' is only supported at the end");
+        anchorEnd = true;
+        break;
+      }
+      nodes.push(parseQuantified());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'concat', nodes };
+  }
+
+  function parseQuantified(): RegexNode {
+    let node = parseAtom();
+    let quantifier = parseQuantifier();
+    if (quantifier === undefined) return node;
+    if (parseQuantifier() !== undefined || peek() === '?') {
+      error('nested and lazy quantifiers are not supported');
+    }
+    let [min, max] = quantifier;
+    return { type: 'repeat', node, min, max };
+  }
+
+  function parseQuantifier(): [number, number] | undefined {
+    let c = peek();
+    if (c === '*') return i++, [0, Infinity];
+    if (c === '+') return i++, [1, Infinity];
+    if (c === '?') return i++, [0, 1];
+    if (c !== '{') return undefined;
+    i++;
+    let min = parseNumber();
+    let max = min;
+    if (peek() === ',') {
+      i++;
+      max = peek() === '}' ? Infinity : parseNumber();
+    }
+    eat('}');
+    if (max < min) error(`invalid quantifier {${min},${max}}`);
+    if (min > MAX_REPEAT || (max !== Infinity && max > MAX_REPEAT)) {
+      error(`quantifiers are limited to ${MAX_REPEAT} repetitions`);
+    }
+    return [min, max];
+  }
+
+  function parseNumber() {
+    let digits = '';
+    while (/[0-9]/.test(peek() ?? '')) digits += chars[i++];
+    if (digits === '') error('expected a number');
+    return Number(digits);
+  }
+
+  function parseAtom(): RegexNode {
+    let c = chars[i++];
+    switch (c) {
+      case '(': {
+        let index: number | undefined;
+        if (peek() === '?') {
+          i++;
+          eat(':');
+        } else {
+          index = groupCount++;
+        }
+        let node = parseAlternation();
+        eat(')');
+        if (index !== undefined) return { type: 'group', node, index };
+        // keep the group, so that alternatives inside it are not top-level
+        return { type: 'concat', nodes: [node] };
+      }
+      case '[':
+        return { type: 'byte', set: parseClass() };
+      case '.':
+        return { type: 'byte', set: byteSet((b) => b !== 0x0a && b !== 0x0d) };
+      case '\\':
+        return { type: 'byte', set: parseEscape(false) };
+      case '*':
+      case '+':
+      case '?':
+      case '{':
+        return error('nothing to repeat');
+      case '^':
+        return error("'^' is only supported at the start");
+      default: {
+        // match the UTF-8 encoding of the character
+        let bytes = [...new TextEncoder().encode(c)];
+        let nodes: RegexNode[] = bytes.map((b) => ({
+          type: 'byte',
+          set: byteSet((x) => x === b),
+        }));
+        return nodes.length === 1 ? nodes[0] : { type: 'concat', nodes };
+      }
+    }
+  }
+
+  function parseClass(): ByteSet {
+    let isNegated = peek() === '^';
+    if (isNegated) i++;
+    let set = byteSet(() => false);
+    let isFirst = true;
+    while (peek() !== ']' || isFirst) {
+      if (i >= chars.length) error("expected ']'");
+      isFirst = false;
+      let from = parseClassChar();
+      if (typeof from !== 'number') {
+        from.forEach((x, b) => (set[b] ||= x));
+        continue;
+      }
+      let to = from;
+      if (peek() === '-' && chars[i + 1] !== ']' && i + 1 < chars.length) {
+        i++;
+        let end = parseClassChar();
+        if (typeof end !== 'number') error('invalid range in character class');
+        to = end as number;
+        if (to < from) error('invalid range in character class');
+      }
+      for (let b = from; b <= to; b++) set[b] = true;
+    }
+    eat(']');
+    return isNegated ? set.map((x) => !x) : set;
+  }
+
+  // returns a single byte, or a set of bytes for class escapes like \d
+  function parseClassChar(): number | ByteSet {
+    let c = chars[i++];
+    if (c === '\\') {
+      let set = parseEscape(true);
+      let members = set.flatMap((x, b) => (x ? [b] : []));
+      return members.length === 1 ? members[0] : set;
+    }
+    let code = c.codePointAt(0)!;
+    if (code > 0x7f) {
+      error('only ASCII characters are supported in character classes');
+    }
+    return code;
+  }
+
+  function parseEscape(inClass: boolean): ByteSet {
+    let c = chars[i++];
+    if (c === undefined) error('unterminated escape');
+    let single = (x: number) => byteSet((b) => b === x);
+    switch (c) {
+      case 'd':
+        return byteSet(isDigit);
+      case 'D':
+        return byteSet((b) => !isDigit(b));
+      case 'w':
+        return byteSet(isWord);
+      case 'W':
+        return byteSet((b) => !isWord(b));
+      case 's':
+        return byteSet(isSpace);
+      case 'S':
+        return byteSet((b) => !isSpace(b));
+      case 'n':
+        return single(0x0a);
+      case 'r':
+        return single(0x0d);
+      case 't':
+        return single(0x09);
+      case 'v':
+        return single(0x0b);
+      case 'f':
+        return single(0x0c);
+      case '0':
+        return single(0);
+      case 'x': {
+        let hex = chars.slice(i, i + 2).join('');
+        if (!/^[0-9a-fA-F]{2}$/.test(hex)) error('invalid \\x escape');
+        i += 2;
+        return single(parseInt(hex, 16));
+      }
+      case 'b':
+        if (inClass) return single(0x08);
+        return error('word boundaries are not supported');
+      default:
+        if (/[a-zA-Z0-9]/.test(c) || c.codePointAt(0)! > 0x7f) {
+          error(`unsupported escape '\\${c}'`);
+        }
+        return single(c.charCodeAt(0));
+    }
+  }
+
+  let node = parseAlternation();
+  if (i < chars.length) error(`unexpected '${peek()}'`);
+  // anchors apply to the whole pattern, which would be surprising for `^a|b`
+  if (node.type === 'alt' && (anchorStart || anchorEnd)) {
+    throw Error(
+      `Regex: anchors can't be combined with top-level alternatives in /${pattern}/, use a group like ^(?:a|b)$`
+    );
+  }
+  return { node, groupCount, anchorStart, anchorEnd };
+}
+
+function byteSet(contains: (b: number) => boolean): ByteSet {
+  return Array.from({ length: 256 }, (_, b) => contains(b));
+}
+
+function isDigit(b: number) {
+  return b >= 0x30 && b <= 0x39;
+}
+function isWord(b: number) {
+  return (
+    isDigit(b) ||
+    (b >= 0x41 && b <= 0x5a) ||
+    (b >= 0x61 && b <= 0x7a) ||
+    b === 0x5f
+  );
+}
+function isSpace(b: number) {
+  return b === 0x20 || (b >= 0x09 && b <= 0x0d);
+}
+
+// compilation to a DFA
+
+type NfaState = {
+  epsilon: number[];
+  edges: { set: ByteSet; to: number; groups: number[] }[];
+};
+
+type ByteRange = [lo: number, hi: number];
+
+type Dfa = {
+  states: { accepting: boolean }[];
+  start: number;
+  // partition of 0..255 into ranges of bytes on which both automata behave the same
+  ranges: ByteRange[];
+  // transitions between live states, grouped by source, target and captures.
+  // a transition consumes its byte inside `group` if the reversed automaton, run on the bytes after it, is in one of `reverseStates`
+  transitions: {
+    from: number;
+    to: number;
+    captures: Capture[];
+    rangeIndices: number[];
+  }[];
+  // automaton of the reversed pattern, which is run from the end of the message to its start.
+  // its states are sets of NFA states from which the rest of the message can be matched; it is empty without capturing groups
+  reverse: {
+    stateCount: number;
+    start: number;
+    transitions: { from: number; to: number; rangeIndices: number[] }[];
+  };
+};
+
+type Capture = { group: number; reverseStates: number[] };
+
+const MAX_NFA_STATES = 100_000;
+const MAX_DFA_STATES = 2_000;
+
+function compileDfa({
+  node,
+  groupCount,
+  anchorStart,
+  anchorEnd,
+}: ParsedRegex): Dfa {
+  // Thompson construction of an NFA
+  let nfa: NfaState[] = [];
+  let newState = () => {
+    assert(
+      nfa.length < MAX_NFA_STATES,
+      'Regex: the pattern is too large, try to reduce the number of repetitions'
+    );
+    return nfa.push({ epsilon: [], edges: [] }) - 1;
+  };
+
+  function build(node: RegexNode, groups: number[]): [number, number] {
+    switch (node.type) {
+      case 'byte': {
+        let [s, e] = [newState(), newState()];
+        nfa[s].edges.push({ set: node.set, to: e, groups });
+        return [s, e];
+      }
+      case 'concat': {
+        let s = newState();
+        let e = s;
+        for (let child of node.nodes) {
+          let [cs, ce] = build(child, groups);
+          nfa[e].epsilon.push(cs);
+          e = ce;
+        }
+        return [s, e];
+      }
+      case 'alt': {
+        let [s, e] = [newState(), newState()];
+        for (let child of node.nodes) {
+          let [cs, ce] = build(child, groups);
+          nfa[s].epsilon.push(cs);
+          nfa[ce].epsilon.push(e);
+        }
+        return [s, e];
+      }
+      case 'group':
+        return build(node.node, [...groups, node.index]);
+      case 'repeat': {
+        let { min, max } = node;
+        let s = newState();
+        let e = s;
+        for (let k = 0; k < min; k++) {
+          let [cs, ce] = build(node.node, groups);
+          nfa[e].epsilon.push(cs);
+          e = ce;
+        }
+        if (max === Infinity) {
+          let [cs, ce] = build(node.node, groups);
+          let end = newState();
+          nfa[e].epsilon.push(cs, end);
+          nfa[ce].epsilon.push(cs, end);
+          return [s, end];
+        }
+        let end = newState();
+        for (let k = min; k < max; k++) {
+          let [cs, ce] = build(node.node, groups);
+          nfa[e].epsilon.push(cs, end);
+          e = ce;
+        }
+        nfa[e].epsilon.push(end);
+        return [s, end];
+      }
+    }
+  }
+
+  let anyByte = byteSet(() => true);
+  let [start, end] = build(node, []);
+
+  // without anchors, any bytes can come before and after the match
+  if (!anchorStart) {
+    let prefix = newState();
+    nfa[prefix].edges.push({ set: anyByte, to: prefix, groups: [] });
+    nfa[prefix].epsilon.push(start);
+    start = prefix;
+  }
+  if (!anchorEnd) {
+    nfa[end].edges.push({ set: anyByte, to: end, groups: [] });
+  }
+
+  function closure(states: number[], next = (q: number) => nfa[q].epsilon) {
+    let set = new Set(states);
+    let stack = [...states];
+    while (stack.length > 0) {
+      for (let t of next(stack.pop()!)) {
+        if (!set.has(t)) {
+          set.add(t);
+          stack.push(t);
+        }
+      }
+    }
+    return [...set].sort((a, b) => a - b);
+  }
+
+  function subsets() {
+    let sets: number[][] = [];
+    let indexOf = new Map<string, number>();
+    let add = (states: number[]) => {
+      let key = states.join(',');
+      let index = indexOf.get(key);
+      if (index !== undefined) return index;
+      assert(
+        sets.length < MAX_DFA_STATES,
+        'Regex: the compiled automaton is too large'
+      );
+      indexOf.set(key, sets.length);
+      return sets.push(states) - 1;
+    };
+    return { sets, add };
+  }
+
+  // subset construction for the reversed NFA, starting from the end, which is only needed for capture masks.
+  // reverseTable[r][b] = the reverse state before byte b, or undefined for the empty set
+  let { sets: reverseStates, add: addReverseState } = subsets();
+  let reverseTable: (number | undefined)[][] = [];
+  if (groupCount > 0) {
+    let incoming: { from: number; set: ByteSet }[][] = nfa.map(() => []);
+    let epsilonIncoming: number[][] = nfa.map(() => []);
+    nfa.forEach(({ epsilon, edges }, q) => {
+      epsilon.forEach((t) => epsilonIncoming[t].push(q));
+      edges.forEach(({ set, to }) => incoming[to].push({ from: q, set }));
+    });
+    let backward = (q: number) => epsilonIncoming[q];
+    addReverseState(closure([end], backward));
+
+    for (let r = 0; r < reverseStates.length; r++) {
+      let row: (number | undefined)[] = [];
+      for (let b = 0; b < 256; b++) {
+        let sources = reverseStates[r].flatMap((q) =>
+          incoming[q].filter(({ set }) => set[b]).map(({ from }) => from)
+        );
+        row.push(
+          sources.length === 0
+            ? undefined
+            : addReverseState(closure(sources, backward))
+        );
+      }
+      reverseTable.push(row);
+    }
+  }
+  let reverseMembers = reverseStates.map((states) => new Set(states));
+
+  // the reverse states which contain one of the given NFA states, i.e. after which the rest of the message can be matched
+  let coReachable = new Map<string, number[]>();
+  let coReachableFrom = (states: number[]) => {
+    let key = [...new Set(states)].sort((a, b) => a - b).join(',');
+    let result = coReachable.get(key);
+    if (result === undefined) {
+      result = reverseMembers.flatMap((members, r) =>
+        states.some((q) => members.has(q)) ? [r] : []
+      );
+      coReachable.set(key, result);
+    }
+    return { key, result };
+  };
+
+  // subset construction, where every DFA transition remembers for each group the targets of the NFA edges inside it
+  let { sets: dfaStates, add: addState } = subsets();
+  let dfaStart = addState(closure([start]));
+
+  // table[s][b] = the target and captures, or undefined for the empty set
+  type Target = { to: number; captures: Capture[]; key: string };
+  let table: (Target | undefined)[][] = [];
+  for (let s = 0; s < dfaStates.length; s++) {
+    let row: (Target | undefined)[] = [];
+    for (let b = 0; b < 256; b++) {
+      let targets: number[] = [];
+      let groupTargets: number[][] = Array.from(
+        { length: groupCount },
+        () => []
+      );
+      for (let q of dfaStates[s]) {
+        for (let edge of nfa[q].edges) {
+          if (!edge.set[b]) continue;
+          targets.push(edge.to);
+          edge.groups.forEach((g) => groupTargets[g].push(edge.to));
+        }
+      }
+      if (targets.length === 0) {
+        row.push(undefined);
+        continue;
+      }
+      let to = addState(closure(targets));
+      let captures: Capture[] = [];
+      let key = `${to}`;
+      groupTargets.forEach((states, group) => {
+        if (states.length === 0) return;
+        let reverse = coReachableFrom(states);
+        if (reverse.result.length === 0) return;
+        captures.push({ group, reverseStates: reverse.result });
+        key += `:${group}/${reverse.key}`;
+      });
+      row.push({ to, captures, key });
+    }
+    table.push(row);
+  }
+
+  // remove states from which no accepting state can be reached, they are equivalent to rejecting
+  let accepting = dfaStates.map((states) => states.includes(end));
+  let isLive = accepting.slice();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    table.forEach((row, s) => {
+      if (isLive[s]) return;
+      if (row.some((t) => t !== undefined && isLive[t.to])) {
+        isLive[s] = changed = true;
+      }
+    });
+  }
+  let liveIndex: number[] = [];
+  let liveCount = 0;
+  isLive.forEach((live, s) => (liveIndex[s] = live ? liveCount++ : -1));
+  let target = (s: number, b: number) => {
+    let t = table[s][b];
+    if (t === undefined || !isLive[t.to]) return undefined;
+    return t;
+  };
+
+  // split the bytes into ranges on which all live states and all reverse states behave the same
+  let liveStates = table.map((_, s) => s).filter((s) => isLive[s]);
+  let signature = (b: number) =>
+    liveStates.map((s) => target(s, b)?.key ?? '-').join(',') +
+    ';' +
+    reverseTable.map((row) => row[b] ?? '-').join(',');
+  let ranges: ByteRange[] = [];
+  let previous: string | undefined;
+  for (let b = 0; b < 256; b++) {
+    let sig = signature(b);
+    if (sig === previous) ranges[ranges.length - 1][1] = b;
+    else ranges.push([b, b]);
+    previous = sig;
+  }
+
+  // group the transitions of every live state by target and captures
+  let transitions: Dfa['transitions'] = [];
+  for (let s of liveStates) {
+    let byKey = new Map<string, Dfa['transitions'][number]>();
+    ranges.forEach(([lo], r) => {
+      let t = target(s, lo);
+      if (t === undefined) return;
+      let transition = byKey.get(t.key);
+      if (transition === undefined) {
+        transition = {
+          from: liveIndex[s],
+          to: liveIndex[t.to],
+          captures: t.captures,
+          rangeIndices: [],
+        };
+        byKey.set(t.key, transition);
+        transitions.push(transition);
+      }
+      transition.rangeIndices.push(r);
+    });
+  }
+
+  // the same for the reversed automaton, by target only
+  let reverseTransitions: Dfa['reverse']['transitions'] = [];
+  reverseTable.forEach((row, from) => {
+    let byTarget = new Map<number, Dfa['reverse']['transitions'][number]>();
+    ranges.forEach(([lo], r) => {
+      let to = row[lo];
+      if (to === undefined) return;
+      let transition = byTarget.get(to);
+      if (transition === undefined) {
+        transition = { from, to, rangeIndices: [] };
+        byTarget.set(to, transition);
+        reverseTransitions.push(transition);
+      }
+      transition.rangeIndices.push(r);
+    });
+  });
+  let reverse = {
+    stateCount: reverseStates.length,
+    start: 0,
+    transitions: reverseTransitions,
+  };
+
+  // if the start state is not live, no input matches: use a single non-accepting state without transitions
+  if (!isLive[dfaStart]) {
+    return {
+      states: [{ accepting: false }],
+      start: 0,
+      ranges: [[0, 255]],
+      transitions: [],
+      reverse: { stateCount: 0, start: 0, transitions: [] },
+    };
+  }
+  return {
+    states: liveStates.map((s) => ({ accepting: accepting[s] })),
+    start: liveIndex[dfaStart],
+    ranges,
+    transitions,
+    reverse,
+  };
+}
@@ -0,0 +1,66 @@
+import { Provable } from '../provable.js';
+import { Bytes } from '../wrapped-classes.js';
+import { createForeignCurve } from '../crypto/foreign-curve.js';
+import { Crypto } from '../crypto/crypto.js';
+import { Bitcoin, bech32Encode } from '../crypto/bitcoin.js';
+import { fromBase58Check } from '../../util/base58.js';
+import { expect } from 'expect';
+
+class Secp256k1 extends createForeignCurve(Crypto.CurveParams.Secp256k1) {}
+
+// the public key of private key 1 is the generator, see BIP-173
+
+let publicKey = Secp256k1.generator;
+let compressed =
+  '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+let pubKeyHash = '751e76e8199196d454941c45d1b3a323f1433bd6';
+let legacyAddress = '1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH';
+let segwitAddress = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4';
+
+expect(Bitcoin.compressedPublicKey(publicKey).toHex()).toEqual(compressed);
+expect(Bitcoin.hash160(Bytes.fromHex(compressed)).toHex()).toEqual(pubKeyHash);
+expect(Bitcoin.toLegacyAddress(Bytes.fromHex(pubKeyHash))).toEqual(
+  legacyAddress
+);
+expect(Bitcoin.toSegwitAddress(Bytes.fromHex(pubKeyHash))).toEqual(
+  segwitAddress
+);
+
+// payloads
+
+let p2pkh = Bitcoin.p2pkhPayload(publicKey);
+expect(p2pkh.toHex().slice(2, 42)).toEqual(pubKeyHash);
+expect(fromBase58Check(legacyAddress, 0x00)).toEqual([
+  ...Bytes.fromHex(pubKeyHash).toBytes(),
+]);
+expect(Bitcoin.toLegacyAddress(Bytes.from(p2pkh.bytes.slice(1, 21)))).toEqual(
+  legacyAddress
+);
+
+let p2wpkh = Bitcoin.p2wpkhPayload(publicKey);
+let data = [...p2wpkh.toBytes()];
+expect(data.every((x) => x < 32)).toEqual(true);
+expect(bech32Encode('bc', data)).toEqual(segwitAddress);
+
+// a point with odd y
+
+let point = Secp256k1.generator.scale(3n);
+let prefix = Bitcoin.compressedPublicKey(point).toBytes()[0];
+expect(prefix).toEqual(point.y.toBigInt() % 2n === 0n ? 0x02 : 0x03);
+let oddPoint = point.y.toBigInt() % 2n === 1n ? point : point.negate();
+expect(Bitcoin.compressedPublicKey(oddPoint).toBytes()[0]).toEqual(0x03);
+
+// in a circuit
+
+await Provable.runAndCheck(() => {
+  for (let [key, expected] of [
+    [publicKey, p2wpkh],
+    [oddPoint, Bitcoin.p2wpkhPayload(oddPoint)],
+  ] as const) {
+    let pk = Provable.witness(Secp256k1, () => key);
+    let payload = Bitcoin.p2wpkhPayload(pk);
+    Provable.assertEqual(Bytes(33), payload, expected);
+  }
+  let pk = Provable.witness(Secp256k1, () => publicKey);
+  Provable.assertEqual(Bytes(25), Bitcoin.p2pkhPayload(pk), p2pkh);
+});
@@ -0,0 +1,138 @@
+import { DynamicArray } from '../dynamic-array.js';
+import { Field } from '../wrapped.js';
+import { UInt32 } from '../int.js';
+import { Provable } from '../provable.js';
+import { Struct } from '../types/struct.js';
+import { ZkProgram } from '../../proof-system/zkprogram.js';
+import { expect } from 'expect';
+
+class Fields extends DynamicArray(Field, { capacity: 6 }) {}
+class Scores extends DynamicArray(UInt32, { capacity: 4 }) {}
+
+function values(array: DynamicArray<Field>) {
+  return array.toArray().map((x) => x.toBigInt());
+}
+
+// operations outside the circuit
+
+let array = Fields.from([1n, 2n, 3n]);
+expect(array.length).toEqual(Field(3));
+expect(array.array).toHaveLength(6);
+expect(array.get(1)).toEqual(Field(2));
+expect(() => array.get(3)).toThrow(/index out of bounds/);
+
+array.push(Field(4));
+array.set(0, Field(10));
+expect(values(array)).toEqual([10n, 2n, 3n, 4n]);
+expect(array.pop()).toEqual(Field(4));
+expect(values(array)).toEqual([10n, 2n, 3n]);
+
+expect(values(array.slice(1))).toEqual([2n, 3n]);
+expect(values(array.slice(0, 2))).toEqual([10n, 2n]);
+expect(() => array.slice(2, 4)).toThrow(/out of bounds/);
+
+let both = array.concat(Fields.from([5n, 6n]));
+expect(both.capacity).toEqual(12);
+expect(values(both)).toEqual([10n, 2n, 3n, 5n, 6n]);
+
+let doubled = array.map(Field, (x) => x.mul(2));
+expect(values(doubled)).toEqual([20n, 4n, 6n]);
+let sum = array.reduce(Field, Field(0), (acc, x) => acc.add(x));
+expect(sum).toEqual(Field(15));
+expect(array.includes(Field(3)).toBoolean()).toEqual(true);
+expect(array.includes(Field(0)).toBoolean()).toEqual(false);
+
+expect(() => Fields.from([1, 2, 3, 4, 5, 6, 7])).toThrow(/at most 6/);
+let full = Fields.from([1, 2, 3, 4, 5, 6]);
+expect(() => full.push(Field(7))).toThrow(/array is full/);
+expect(() => Fields.empty().pop()).toThrow(/array is empty/);
+
+// the hash only depends on the elements, not on the padding
+
+let padded = new Fields({
+  array: [10n, 2n, 3n, 99n, 99n, 99n].map(Field),
+  length: Field(3),
+});
+expect(padded.hash()).toEqual(array.hash());
+expect(Fields.from([10n, 2n]).hash()).not.toEqual(array.hash());
+
+// provable type
+
+expect(Fields.provable.toValue(array)).toEqual([10n, 2n, 3n]);
+expect(Fields.provable.sizeInFields()).toEqual(7);
+
+class Leaderboard extends Struct({ round: Field, scores: Scores }) {}
+let board = new Leaderboard({
+  round: Field(1),
+  scores: Scores.from([UInt32.from(5)]),
+});
+expect(Leaderboard.toFields(board)).toHaveLength(6);
+
+// operations in a circuit
+
+await Provable.runAndCheck(() => {
+  let array = Provable.witness(Fields, () => Fields.from([1n, 2n, 3n]));
+  let index = Provable.witness(Field, () => 2n);
+
+  array.get(index).assertEquals(3);
+  array.push(Field(4));
+  array.length.assertEquals(4);
+  array.set(index, Field(30));
+  array.pop().assertEquals(4);
+
+  let slice = array.slice(Field(1));
+  slice.length.assertEquals(2);
+  slice.get(1).assertEquals(30);
+
+  let both = array.concat(slice);
+  both.length.assertEquals(5);
+  both.get(3).assertEquals(2);
+  both.get(4).assertEquals(30);
+
+  array.reduce(Field, Field(0), (acc, x) => acc.add(x)).assertEquals(33);
+  array.includes(Field(30)).assertTrue();
+  array.hash().assertEquals(Fields.from([1n, 2n, 30n]).hash());
+});
+
+await expect(
+  Provable.runAndCheck(() => {
+    let array = Provable.witness(Fields, () => Fields.from([1n]));
+    array.get(Provable.witness(Field, () => 1n));
+  })
+).rejects.toThrow(/index out of bounds/);
+
+await expect(
+  Provable.runAndCheck(() => {
+    Provable.witness(
+      Fields,
+      () => new Fields({ array: Array(6).fill(Field(0)), length: Field(7) })
+    );
+  })
+).rejects.toThrow(/length exceeds capacity/);
+
+// as public input and output of a ZkProgram
+
+let program = ZkProgram({
+  name: 'dynamic-array',
+  publicInput: Scores,
+  publicOutput: UInt32,
+  methods: {
+    sum: {
+      privateInputs: [Scores],
+      async method(scores: DynamicArray<UInt32>, extra: DynamicArray<UInt32>) {
+        let total = scores
+          .concat(extra)
+          .reduce(UInt32, UInt32.zero, (acc, x) => acc.add(x));
+        return { publicOutput: total };
+      },
+    },
+  },
+});
+
+await program.compile({ proofsEnabled: false });
+let { proof } = await program.sum(
+  Scores.from([UInt32.from(1), UInt32.from(2)]),
+  Scores.from([UInt32.from(3)])
+);
+expect(proof.publicOutput).toEqual(UInt32.from(6));
+expect(proof.publicInput.toArray()).toEqual([UInt32.from(1), UInt32.from(2)]);
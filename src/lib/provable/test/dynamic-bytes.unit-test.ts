@@ -0,0 +1,71 @@
+import { DynamicBytes } from '../dynamic-bytes.js';
+import { Bytes } from '../wrapped-classes.js';
+import { Keccak } from '../crypto/keccak.js';
+import { Hash } from '../crypto/hash.js';
+import { Gadgets } from '../gadgets/gadgets.js';
+import { Provable } from '../provable.js';
+import { Field } from '../wrapped.js';
+import { expect } from 'expect';
+
+// the capacity spans several blocks of each hash function
+class Message extends DynamicBytes({ capacity: 140 }) {}
+
+// conversions
+
+let message = Message.fromString('hello world');
+expect(message.length).toEqual(Field(11));
+expect(message.array).toHaveLength(140);
+expect(new TextDecoder().decode(message.toBytes())).toEqual('hello world');
+expect(Message.fromHex('deadbeef').toHex()).toEqual('deadbeef');
+expect(Message.from(Bytes.fromString('abc')).toHex()).toEqual('616263');
+expect(() => Message.from(new Uint8Array(141))).toThrow(/at most 140/);
+
+let both = message.concat(Message.fromString('!'));
+expect(both.capacity).toEqual(280);
+expect(new TextDecoder().decode(both.toBytes())).toEqual('hello world!');
+
+// hashes agree with the static-length versions, for lengths around the block boundaries
+
+let lengths = [0, 1, 55, 56, 63, 64, 119, 120, 127, 128, 129, 135, 136, 140];
+
+function hashes(bytes: Bytes | DynamicBytes) {
+  return [
+    Gadgets.SHA256.hash(bytes),
+    Keccak.nistSha3(256, bytes),
+    Keccak.ethereum(bytes),
+    Gadgets.BLAKE2B.hash(bytes, 32),
+  ].map((digest) => digest.toHex());
+}
+
+for (let length of lengths) {
+  let bytes = Array.from({ length }, (_, i) => (i * 7 + length) % 256);
+  expect(hashes(Message.from(bytes))).toEqual(hashes(Bytes.from(bytes)));
+}
+
+// padding after the message doesn't affect the hash
+
+let padded = Message.from([1, 2, 3]);
+padded.array[3] = padded.array[0];
+expect(Hash.SHA2_256.hash(padded)).toEqual(
+  Hash.SHA2_256.hash(Bytes.from([1, 2, 3]))
+);
+
+// hashing in a circuit
+
+for (let length of [3, 130]) {
+  let bytes = Array.from({ length }, (_, i) => (i * 13) % 256);
+  let expected = hashes(Bytes.from(bytes));
+
+  await Provable.runAndCheck(() => {
+    let message = Provable.witness(Message, () => Message.from(bytes));
+    let digests = [
+      Hash.SHA2_256.hash(message),
+      Hash.SHA3_256.hash(message),
+      Hash.Keccak256.hash(message),
+      Gadgets.BLAKE2B.hash(message, 32),
+    ];
+    digests.forEach((digest, i) => {
+      Provable.asProver(() => expect(digest.toHex()).toEqual(expected[i]));
+    });
+  });
+}
@@ -0,0 +1,119 @@
+import { DynamicString } from '../dynamic-string.js';
+import { Bytes } from '../wrapped-classes.js';
+import { Hash } from '../crypto/hash.js';
+import { Int64, UInt64 } from '../int.js';
+import { Provable } from '../provable.js';
+import { Struct } from '../types/struct.js';
+import { Field } from '../wrapped.js';
+import { expect } from 'expect';
+
+class Text extends DynamicString({ capacity: 32 }) {}
+
+// conversions
+
+let text = Text.fromString('Grüße, Welt!');
+expect(text.toString()).toEqual('Grüße, Welt!');
+expect(text.length).toEqual(Field(14)); // ü and ß take 2 bytes each
+expect(Text.provable.toValue(text)).toEqual('Grüße, Welt!');
+expect(Text.provable.fromValue('abc').toString()).toEqual('abc');
+expect(() => Text.fromString('x'.repeat(33))).toThrow(/at most 32/);
+
+let bytes = Text.fromString('hello').toPaddedBytes();
+expect(bytes.length).toEqual(32);
+expect(bytes.toHex()).toEqual('68656c6c6f'.padEnd(64, '0'));
+expect(Text.fromBytes(bytes).toString()).toEqual('hello');
+expect(Text.fromBytes(Bytes.fromString('')).toString()).toEqual('');
+
+// searching
+
+let email = Text.fromString('Alice@Example.com');
+expect(email.startsWith('Alice').toBoolean()).toEqual(true);
+expect(email.startsWith('alice').toBoolean()).toEqual(false);
+expect(email.endsWith('.com').toBoolean()).toEqual(true);
+expect(email.endsWith('.org').toBoolean()).toEqual(false);
+expect(email.endsWith('').toBoolean()).toEqual(true);
+expect(email.equals('Alice@Example.com').toBoolean()).toEqual(true);
+expect(email.equals('Alice@Example.co').toBoolean()).toEqual(false);
+
+let { found, index } = email.indexOf('@');
+expect(found.toBoolean()).toEqual(true);
+expect(index).toEqual(Field(5));
+expect(email.indexOf('e').index).toEqual(Field(4));
+expect(email.indexOf('e', 5).index).toEqual(Field(12));
+expect(email.indexOf('xyz').found.toBoolean()).toEqual(false);
+expect(email.indexOf('').index).toEqual(Field(0));
+
+let domain = email.substring(index.add(1));
+expect(domain.toString()).toEqual('Example.com');
+expect(email.substring(0, 5).toString()).toEqual('Alice');
+expect(() => email.substring(5, 40)).toThrow(/out of bounds/);
+expect(email.concat(Text.fromString('!')).toString()).toEqual(
+  'Alice@Example.com!'
+);
+
+// case folding only changes ASCII letters
+
+expect(Text.fromString('Grüße, WELT!').toLowerCase().toString()).toEqual(
+  'grüße, welt!'
+);
+expect(domain.toUpperCase().toString()).toEqual('EXAMPLE.COM');
+
+// number parsing
+
+expect(Text.fromString('0').parseUInt64()).toEqual(UInt64.from(0));
+expect(Text.fromString('1234567890').parseUInt64()).toEqual(
+  UInt64.from(1234567890)
+);
+expect(Text.fromString('18446744073709551615').parseUInt64()).toEqual(
+  UInt64.MAXINT()
+);
+expect(Text.fromString('-42').parseInt64()).toEqual(Int64.from(-42));
+expect(Text.fromString('42').parseInt64()).toEqual(Int64.from(42));
+
+expect(() => Text.fromString('').parseUInt64()).toThrow(/empty string/);
+expect(() => Text.fromString('12a').parseUInt64()).toThrow(/expected a digit/);
+expect(() => Text.fromString('1/').parseUInt64()).toThrow(/expected a digit/);
+expect(() => Text.fromString('-').parseInt64()).toThrow(/no digits/);
+expect(() => Text.fromString('18446744073709551616').parseUInt64()).toThrow(
+  /overflow/
+);
+expect(() => Text.fromString('1'.repeat(21)).parseUInt64()).toThrow(
+  /too many digits/
+);
+
+// provable type
+
+class User extends Struct({ id: Field, name: Text }) {}
+let user = new User({ id: Field(1), name: Text.fromString('Bob') });
+expect(User.toValue(user)).toEqual({ id: 1n, name: 'Bob' });
+expect(Text.fromString('Bob').hash()).toEqual(user.name.hash());
+expect(Hash.SHA2_256.hash(user.name).toHex()).toEqual(
+  Hash.SHA2_256.hash(Bytes.fromString('Bob')).toHex()
+);
+
+// operations in a circuit
+
+await Provable.runAndCheck(() => {
+  let email = Provable.witness(Text, () => 'Alice@Example.com');
+
+  let at = email.indexOf('@');
+  at.found.assertTrue();
+  at.index.assertEquals(5);
+
+  let domain = email.substring(at.index.add(1)).toLowerCase();
+  domain.assertEquals('example.com');
+  domain.startsWith('example').assertTrue();
+  domain.endsWith(Text.fromString('.com')).assertTrue();
+  email.startsWith(domain).assertFalse();
+
+  let amount = Provable.witness(Text, () => '-1250');
+  amount.parseInt64().assertEquals(Int64.from(-1250));
+  amount.substring(1).parseUInt64().assertEquals(UInt64.from(1250));
+});
+
+await expect(
+  Provable.runAndCheck(() => {
+    let amount = Provable.witness(Text, () => '12.5');
+    amount.parseUInt64();
+  })
+).rejects.toThrow(/expected a digit/);
@@ -0,0 +1,66 @@
+import { Provable } from '../provable.js';
+import { Bytes } from '../wrapped-classes.js';
+import { Ed25519, Ed25519Curve } from '../crypto/ed25519.js';
+import { expect } from 'expect';
+import * as crypto from 'node:crypto';
+
+// the base point is mapped to a point on the Weierstrass curve
+
+expect(Ed25519Curve.isOnCurve(Ed25519Curve.one)).toEqual(true);
+
+// test vector 1 from RFC 8032, with an empty message
+
+let publicKey = Ed25519.PublicKey.fromHex(
+  'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a'
+);
+let signature = Ed25519.Signature.fromHex(
+  'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b'
+);
+expect(signature.verify(Bytes.fromString(''), publicKey).toBoolean()).toEqual(
+  true
+);
+expect(signature.verify(Bytes.fromString('x'), publicKey).toBoolean()).toEqual(
+  false
+);
+
+// signatures created by node
+
+let keys = crypto.generateKeyPairSync('ed25519');
+let publicKeyBytes = Buffer.from(
+  keys.publicKey.export({ format: 'jwk' }).x!,
+  'base64url'
+);
+let nodePublicKey = Ed25519.PublicKey.from(publicKeyBytes);
+
+let text = 'a message from a Solana wallet';
+let message = Bytes.fromString(text);
+let nodeSignature = Ed25519.Signature.from(
+  crypto.sign(null, Buffer.from(text), keys.privateKey)
+);
+expect(nodeSignature.verify(message, nodePublicKey).toBoolean()).toEqual(true);
+expect(nodeSignature.verify(message, publicKey).toBoolean()).toEqual(false);
+
+// S must be reduced modulo the group order
+
+let sigBytes = nodeSignature.toBytes();
+sigBytes[63] |= 0xf0;
+expect(() =>
+  Ed25519.Signature.from(sigBytes).verify(message, nodePublicKey)
+).toThrow(/group order/);
+
+// in a circuit
+
+await Provable.runAndCheck(() => {
+  let pk = Provable.witness(Ed25519.PublicKey, () => nodePublicKey);
+  let sig = Provable.witness(Ed25519.Signature, () => nodeSignature);
+  let msg = Provable.witness(Bytes(message.length), () => message);
+  sig.verify(msg, pk).assertTrue();
+});
+
+await expect(
+  Provable.runAndCheck(() => {
+    let pk = Provable.witness(Ed25519.PublicKey, () => publicKey);
+    let sig = Provable.witness(Ed25519.Signature, () => nodeSignature);
+    sig.verify(message, pk).assertTrue('signature is valid');
+  })
+).rejects.toThrow(/signature is valid/);
@@ -0,0 +1,134 @@
+import { Provable } from '../provable.js';
+import { Struct } from '../types/struct.js';
+import { Int64, UInt64 } from '../int.js';
+import { Bool, Field } from '../wrapped.js';
+import { PrivateKey, PublicKey } from '../crypto/signature.js';
+import { Poseidon } from '../crypto/poseidon.js';
+import { Reducer } from '../../mina/actions/reducer.js';
+import { BatchReducer } from '../../mina/actions/batch-reducer.js';
+import { MerkleActions } from '../../mina/actions/action-types.js';
+import { expect } from 'expect';
+
+class Transfer extends Struct({
+  from: PublicKey,
+  to: PublicKey,
+  amount: UInt64,
+}) {}
+class Mint extends Struct({ to: PublicKey, amount: UInt64 }) {}
+
+class Action extends Provable.Enum({ Transfer, Mint, Burn: UInt64 }) {}
+
+let alice = PrivateKey.random().toPublicKey();
+let bob = PrivateKey.random().toPublicKey();
+
+let transfer = Action.from('Transfer', {
+  from: alice,
+  to: bob,
+  amount: UInt64.from(5),
+});
+let mint = Action.from('Mint', { to: alice, amount: UInt64.from(100) });
+let burn = Action.from('Burn', UInt64.from(7));
+
+// representation
+
+expect(Action.variants).toEqual(['Transfer', 'Mint', 'Burn']);
+expect(Action.sizeInFields()).toEqual(1 + 5);
+expect(mint.tag).toEqual(Field(1));
+expect(Action.toFields(burn)).toEqual([2, 7, 0, 0, 0, 0].map(Field));
+expect(Action.fromFields(Action.toFields(burn))).toEqual(burn);
+expect(() => Action.from('Stake' as any, 1n)).toThrow(/unknown variant Stake/);
+
+// value and JSON round trips
+
+expect(Action.toValue(mint)).toEqual({
+  type: 'Mint',
+  value: { to: Mint.toValue(mint.unwrap('Mint')).to, amount: 100n },
+});
+for (let action of [transfer, mint, burn]) {
+  expect(Action.fromValue(Action.toValue(action))).toEqual(action);
+  expect(Action.fromJSON(Action.toJSON(action))).toEqual(action);
+}
+expect(Action.toJSON(burn)).toEqual({ type: 'Burn', value: '7' });
+expect(Action.empty()).toEqual(Action.from('Transfer', Transfer.empty()));
+
+// hashing
+
+expect(Action.toInput(burn).fields).toEqual(Action.toFields(burn));
+expect(Poseidon.hashPacked(Action, burn)).not.toEqual(
+  Poseidon.hashPacked(Action, Action.from('Burn', UInt64.from(8)))
+);
+
+// variants
+
+expect(mint.is('Mint').toBoolean()).toEqual(true);
+expect(mint.is('Burn').toBoolean()).toEqual(false);
+expect(mint.unwrap('Mint').amount).toEqual(UInt64.from(100));
+expect(() => mint.unwrap('Burn')).toThrow(/expected variant Burn/);
+
+let amountOf = (action: Action) =>
+  action.match(UInt64, {
+    Transfer: (transfer) => transfer.amount,
+    Mint: (mint) => mint.amount,
+    Burn: (amount) => amount,
+  });
+expect([transfer, mint, burn].map(amountOf)).toEqual(
+  [5, 100, 7].map((x) => UInt64.from(x))
+);
+
+// in a circuit
+
+await Provable.runAndCheck(() => {
+  let action = Provable.witness(Action, () => mint);
+  action.is('Mint').assertTrue();
+  action.is('Transfer').assertFalse();
+  action.unwrap('Mint').to.assertEquals(alice);
+  amountOf(action).assertEquals(UInt64.from(100));
+  let isSupplyChange = action.match(Bool, {
+    Transfer: () => Bool(false),
+    Mint: () => Bool(true),
+    Burn: () => Bool(true),
+  });
+  isSupplyChange.assertTrue();
+});
+
+// variants whose all-zero fields are invalid, like the sign of an Int64, don't break the other variants
+
+class Balance extends Provable.Enum({ Deposit: UInt64, Adjust: Int64 }) {}
+
+await Provable.runAndCheck(() => {
+  let deposit = Provable.witness(Balance, () =>
+    Balance.from('Deposit', UInt64.from(10))
+  );
+  deposit.unwrap('Deposit').assertEquals(UInt64.from(10));
+  let adjust = Provable.witness(Balance, () =>
+    Balance.from('Adjust', Int64.from(-3))
+  );
+  adjust.unwrap('Adjust').assertEquals(Int64.from(-3));
+  Provable.witness(Balance, () => Balance.empty());
+});
+
+// invalid tags and padding are rejected
+
+await expect(
+  Provable.runAndCheck(() => {
+    Provable.witness(Action, () => new Action({ ...burn, tag: Field(3) }));
+  })
+).rejects.toThrow(/invalid tag/);
+
+await expect(
+  Provable.runAndCheck(() => {
+    let payload = [7, 0, 0, 0, 1].map(Field);
+    Provable.witness(Action, () => new Action({ tag: Field(2), payload }));
+  })
+).rejects.toThrow(/invalid padding/);
+
+// usable as an action type
+
+Reducer({ actionType: Action });
+new BatchReducer({ actionType: Action, batchSize: 2 });
+
+let actions = MerkleActions.fromFields(Action, [
+  [Action.toFields(mint).map((x) => x.toBigInt())],
+  [Action.toFields(burn).map((x) => x.toBigInt())],
+]);
+expect(actions.hash).toBeInstanceOf(Field);
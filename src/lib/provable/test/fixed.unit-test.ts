@@ -0,0 +1,104 @@
+import { UFixed, Fixed } from '../fixed.js';
+import { UInt64 } from '../int.js';
+import { Provable } from '../provable.js';
+import { expect } from 'expect';
+
+class Price extends UFixed(9) {}
+class Rate extends Fixed(6) {}
+
+// parsing and printing decimal strings
+
+expect(Price.from('1.25').value).toEqual(UInt64.from(1_250_000_000));
+expect(Price.from('1.25').toString()).toEqual('1.25');
+expect(Price.from(3).toString()).toEqual('3');
+expect(Price.from(0.5).toString()).toEqual('0.5');
+expect(Price.from('0.000000001').value).toEqual(UInt64.one);
+expect(Rate.from('-0.05').toString()).toEqual('-0.05');
+expect(Rate.from(-2n).toString()).toEqual('-2');
+expect(Price.from(UInt64.from(7)).toString()).toEqual('7');
+
+expect(() => Price.from('1.0000000001')).toThrow(/at most 9 decimals/);
+expect(() => Price.from('-1')).toThrow(/non-negative/);
+expect(() => Price.from('1,5')).toThrow(/Expected a decimal number/);
+expect(() => Price.from(20_000_000_000)).toThrow();
+
+// arithmetic with rounding
+
+expect(Price.from('1.25').mul(3).toString()).toEqual('3.75');
+expect(Price.from(1).div(3).toString()).toEqual('0.333333333');
+expect(Price.from(1).div(3, 'ceil').toString()).toEqual('0.333333334');
+expect(Price.from(2).div(3, 'nearest').toString()).toEqual('0.666666667');
+expect(Price.from('0.000000005').mul('0.5', 'nearest').toString()).toEqual(
+  '0.000000003'
+);
+expect(Price.from(2).sqrt().toString()).toEqual('1.414213562');
+expect(Price.from(2).sqrt('ceil').toString()).toEqual('1.414213563');
+expect(Price.from(16).sqrt('nearest').toString()).toEqual('4');
+expect(Price.from('3.7').toUInt64('nearest')).toEqual(UInt64.from(4));
+
+expect(() => Price.from(1).sub(2)).toThrow();
+expect(() => Price.MAXINT().mul(2)).toThrow(/overflow/);
+expect(() => Price.from(1).div(0)).toThrow(/division by zero/);
+
+expect(Rate.from('-1.5').mul('0.3').toString()).toEqual('-0.45');
+expect(Rate.from(-1).div(3).toString()).toEqual('-0.333334');
+expect(Rate.from(-1).div(3, 'ceil').toString()).toEqual('-0.333333');
+expect(Rate.from(-2).div(3, 'nearest').toString()).toEqual('-0.666667');
+expect(Rate.from(-1).div(-4).toString()).toEqual('0.25');
+expect(Rate.from('0.1').sub('0.3').abs().toString()).toEqual('0.2');
+expect(Rate.from('2.25').sqrt().toString()).toEqual('1.5');
+expect(() => Rate.from(-1).sqrt()).toThrow(/non-negative/);
+
+// comparisons
+
+expect(Price.from('1.5').lessThan('1.6').toBoolean()).toEqual(true);
+expect(Rate.from(-3).lessThan(-2).toBoolean()).toEqual(true);
+expect(Rate.from(2).lessThanOrEqual(-2).toBoolean()).toEqual(false);
+expect(Rate.from(0).greaterThan('-0.000001').toBoolean()).toEqual(true);
+
+// operations in a circuit
+
+await Provable.runAndCheck(() => {
+  let price = Provable.witness(Price, () => Price.from('1.25'));
+  let amount = Provable.witness(Price, () => Price.from('0.3'));
+
+  price.add(amount).assertEquals('1.55');
+  price.sub(amount).assertEquals('0.95');
+  price.mul(amount).assertEquals('0.375');
+  price.div(amount).assertEquals('4.166666666');
+  price.div(amount, 'ceil').assertEquals('4.166666667');
+  price.div(amount, 'nearest').assertEquals('4.166666667');
+  price.sqrt().assertEquals('1.118033988');
+  price.sqrt('nearest').assertEquals('1.118033989');
+  price.toUInt64('ceil').assertEquals(UInt64.from(2));
+  amount.assertLessThan(price);
+
+  let rate = Provable.witness(Rate, () => Rate.from('-0.5'));
+  let other = Provable.witness(Rate, () => Rate.from('0.3'));
+
+  rate.add(other).assertEquals('-0.2');
+  rate.mul(other).assertEquals('-0.15');
+  rate.div(other).assertEquals('-1.666667');
+  rate.div(other, 'ceil').assertEquals('-1.666666');
+  rate.div(other, 'nearest').assertEquals('-1.666667');
+  rate.neg().sqrt().assertEquals('0.707106');
+  rate.mul(rate.neg()).assertEquals('-0.25');
+  rate.lessThan(other).assertTrue();
+  other.lessThanOrEqual(rate).assertFalse();
+  rate.assertGreaterThan('-0.6');
+  rate.isNegative().assertTrue();
+});
+
+await expect(
+  Provable.runAndCheck(() => {
+    let price = Provable.witness(Price, () => Price.MAXINT());
+    price.mul(2);
+  })
+).rejects.toThrow(/overflow/);
+
+await expect(
+  Provable.runAndCheck(() => {
+    let price = Provable.witness(Price, () => Price.from(1));
+    price.div(Price.zero);
+  })
+).rejects.toThrow(/division by zero/);
@@ -0,0 +1,110 @@
+import { Provable } from '../provable.js';
+import { Bytes } from '../wrapped-classes.js';
+import { DynamicBytes } from '../dynamic-bytes.js';
+import { Hash } from '../crypto/hash.js';
+import { expect } from 'expect';
+import * as crypto from 'node:crypto';
+
+function nodeHmac(algorithm: string, key: Uint8Array, message: Uint8Array) {
+  return new Uint8Array(
+    crypto.createHmac(algorithm, key).update(message).digest()
+  );
+}
+
+let message = new TextEncoder().encode('the server finished message');
+let keys = [0, 20, 64, 65, 136, 137, 200].map((length) =>
+  Uint8Array.from({ length }, (_, i) => (i * 31 + length) % 256)
+);
+
+// HMAC, with keys shorter and longer than the block sizes
+
+for (let key of keys) {
+  expect(Hash.HMAC_SHA2_256.compute(key, message).toBytes()).toEqual(
+    nodeHmac('sha256', key, message)
+  );
+  expect(Hash.HMAC_SHA3_256.compute(key, message).toBytes()).toEqual(
+    nodeHmac('sha3-256', key, message)
+  );
+}
+
+// test case 2 from RFC 4231
+
+expect(
+  Hash.HMAC_SHA2_256.compute(
+    Bytes.fromString('Jefe'),
+    Bytes.fromString('what do ya want for nothing?')
+  ).toHex()
+).toEqual('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+
+// dynamic-length messages
+
+class Message extends DynamicBytes({ capacity: 100 }) {}
+
+let key = keys[1];
+for (let length of [0, 1, 55, 56, 100]) {
+  let bytes = Uint8Array.from({ length }, (_, i) => (i * 7) % 256);
+  expect(
+    Hash.HMAC_SHA2_256.compute(key, Message.from(bytes)).toBytes()
+  ).toEqual(nodeHmac('sha256', key, bytes));
+}
+let tag = nodeHmac('sha3-256', key, message);
+expect(
+  Hash.HMAC_SHA3_256.verify(key, Message.from(message), tag).toBoolean()
+).toEqual(true);
+expect(
+  Hash.HMAC_SHA3_256.verify(
+    key,
+    Message.from(message.slice(1)),
+    tag
+  ).toBoolean()
+).toEqual(false);
+
+// HKDF
+
+let ikm = keys[1];
+let salt = keys[2];
+let info = new TextEncoder().encode('tls13 key');
+
+for (let length of [0, 16, 32, 42, 100]) {
+  let expected = new Uint8Array(
+    crypto.hkdfSync('sha256', ikm, salt, info, length)
+  );
+  expect(
+    Hash.HKDF_SHA2_256.derive(ikm, { salt, info, length }).toBytes()
+  ).toEqual(expected);
+}
+
+let prk = Hash.HKDF_SHA3_256.extract(undefined, ikm);
+expect(prk.toBytes()).toEqual(nodeHmac('sha3-256', new Uint8Array(32), ikm));
+expect(Hash.HKDF_SHA3_256.expand(prk, info, 40).toBytes()).toEqual(
+  new Uint8Array(crypto.hkdfSync('sha3-256', ikm, new Uint8Array(), info, 40))
+);
+expect(() => Hash.HKDF_SHA2_256.expand(prk, info, 255 * 32 + 1)).toThrow(
+  /at most 8160/
+);
+
+// in a circuit
+
+let messageTag = nodeHmac('sha256', key, message);
+let derived = crypto.hkdfSync('sha256', ikm, salt, info, 16);
+
+await Provable.runAndCheck(() => {
+  let secretKey = Provable.witness(Bytes(key.length), () => Bytes.from(key));
+  let msg = Provable.witness(Message, () => Message.from(message));
+  Hash.HMAC_SHA2_256.verify(secretKey, msg, messageTag).assertTrue();
+
+  let secret = Provable.witness(Bytes(ikm.length), () => Bytes.from(ikm));
+  let okm = Hash.HKDF_SHA2_256.derive(secret, { salt, info, length: 16 });
+  Provable.assertEqual(Bytes(16), okm, Bytes.from(new Uint8Array(derived)));
+});
+
+await expect(
+  Provable.runAndCheck(() => {
+    let secretKey = Provable.witness(Bytes(key.length), () => Bytes.from(key));
+    Hash.HMAC_SHA2_256.verify(
+      secretKey,
+      message.slice(1),
+      messageTag
+    ).assertTrue('tag is valid');
+  })
+).rejects.toThrow(/tag is valid/);
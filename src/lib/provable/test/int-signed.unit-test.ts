@@ -0,0 +1,140 @@
+import { Int8, Int16, Int32 } from '../int-signed.js';
+import { UInt32 } from '../int.js';
+import { Field } from '../wrapped.js';
+import { Provable } from '../provable.js';
+import { expect } from 'expect';
+
+// constant operations match JavaScript's int32 arithmetic
+
+let values = [0, 1, -1, 7, -7, 1000, -1000, 2 ** 31 - 1, -(2 ** 31), 123456789];
+
+for (let x of values) {
+  let a = Int32.from(x);
+  expect(a.toBigInt()).toEqual(BigInt(x));
+  expect(a.negWrapping().toBigInt()).toEqual(BigInt(-x | 0));
+  expect(a.leftShift(5).toBigInt()).toEqual(BigInt(x << 5));
+  expect(a.rightShift(3).toBigInt()).toEqual(BigInt(x >> 3));
+  expect(a.isNegative().toBoolean()).toEqual(x < 0);
+
+  for (let y of values) {
+    let b = Int32.from(y);
+    expect(a.addWrapping(b).toBigInt()).toEqual(BigInt((x + y) | 0));
+    expect(a.subWrapping(b).toBigInt()).toEqual(BigInt((x - y) | 0));
+    expect(a.mulWrapping(b).toBigInt()).toEqual(BigInt(Math.imul(x, y)));
+    expect(a.lessThan(b).toBoolean()).toEqual(x < y);
+    expect(a.lessThanOrEqual(b).toBoolean()).toEqual(x <= y);
+    if (y !== 0 && !(x === -(2 ** 31) && y === -1)) {
+      expect(a.div(b).toBigInt()).toEqual(BigInt((x / y) | 0));
+      expect(a.mod(b).toBigInt()).toEqual(BigInt(x % y));
+    }
+  }
+}
+
+// checked operations throw on overflow
+
+expect(() => Int8.from(128)).toThrow(/Int8: Expected number/);
+expect(() => Int8.from(-129)).toThrow(/Int8: Expected number/);
+expect(() => Int8.MAXINT().add(1)).toThrow(/Int8.add\(\): overflow/);
+expect(() => Int8.MININT().sub(1)).toThrow(/overflow/);
+expect(() => Int16.from(256).mul(128)).toThrow(/overflow/);
+expect(() => Int32.MININT().neg()).toThrow(/overflow/);
+expect(() => Int32.MININT().div(-1)).toThrow(/overflow/);
+expect(() => Int32.one.div(0)).toThrow(/division by zero/);
+expect(Int8.from(-100).add(-28).toBigInt()).toEqual(-128n);
+expect(Int8.MAXINT().addWrapping(1).toBigInt()).toEqual(-128n);
+expect(Int8.MININT().negWrapping().toBigInt()).toEqual(-128n);
+
+// conversions
+
+expect(Int32.from(Int8.from(-5)).toBigInt()).toEqual(-5n);
+expect(() => Int8.from(Int32.from(200))).toThrow(/fit in 8 bits/);
+expect(Int32.fromUnsigned(UInt32.MAXINT()).toBigInt()).toEqual(-1n);
+expect(Int32.from(-2).toUnsigned()).toEqual(Field(2 ** 32 - 2));
+expect(Int32.from(-2).toField()).toEqual(Field(-2));
+
+let bytes = Int32.from(-2).toBytesBE();
+expect(bytes.map((b) => b.toBigInt())).toEqual([0xffn, 0xffn, 0xffn, 0xfen]);
+expect(UInt32.fromBytesBE(bytes).toBigint()).toEqual(2n ** 32n - 2n);
+expect(
+  Int32.fromBytesBE(UInt32.from(2 ** 32 - 2).toBytesBE()).toBigInt()
+).toEqual(-2n);
+expect(Int16.fromBytes(Int16.from(-300).toBytes()).toBigInt()).toEqual(-300n);
+
+// operations in a circuit
+
+await Provable.runAndCheck(() => {
+  let x = Provable.witness(Int32, () => Int32.from(-1000));
+  let y = Provable.witness(Int32, () => Int32.from(7));
+  let max = Provable.witness(Int32, () => Int32.MAXINT());
+  let min = Provable.witness(Int32, () => Int32.MININT());
+
+  x.add(y).assertEquals(-993);
+  x.sub(y).assertEquals(-1007);
+  x.mul(y).assertEquals(-7000);
+  x.neg().assertEquals(1000);
+  x.div(y).assertEquals(-142);
+  x.mod(y).assertEquals(-6);
+  y.div(x).assertEquals(0);
+  x.div(x.neg()).assertEquals(-1);
+  min.div(y).assertEquals((-(2 ** 31) / 7) | 0);
+
+  max.addWrapping(y).assertEquals((2 ** 31 - 1 + 7) | 0);
+  min.subWrapping(y).assertEquals((-(2 ** 31) - 7) | 0);
+  max.mulWrapping(x).assertEquals(Math.imul(2 ** 31 - 1, -1000));
+  min.negWrapping().assertEquals(min);
+
+  x.leftShift(23).assertEquals(-1000 << 23);
+  x.rightShift(4).assertEquals(-1000 >> 4);
+  max.rightShift(31).assertEquals(0);
+  min.rightShift(31).assertEquals(-1);
+
+  x.lessThan(y).assertTrue();
+  min.lessThan(x).assertTrue();
+  max.lessThanOrEqual(y).assertFalse();
+  x.assertLessThan(y);
+  y.assertGreaterThanOrEqual(y);
+  x.isNegative().assertTrue();
+  y.isNegative().assertFalse();
+
+  Int32.fromBytesBE(x.toBytesBE()).assertEquals(x);
+  UInt32.fromBytesBE(x.toBytesBE()).value.assertEquals(x.toUnsigned());
+  Int8.from(y).assertEquals(7);
+  Int16.from(x).assertEquals(-1000);
+});
+
+// overflow fails the circuit
+
+await expect(
+  Provable.runAndCheck(() => {
+    let x = Provable.witness(Int16, () => Int16.MAXINT());
+    x.add(1);
+  })
+).rejects.toThrow(/Int16.add\(\): overflow/);
+
+await expect(
+  Provable.runAndCheck(() => {
+    let x = Provable.witness(Int8, () => Int8.from(-64));
+    x.mul(3);
+  })
+).rejects.toThrow(/Int8.mul\(\): overflow/);
+
+await expect(
+  Provable.runAndCheck(() => {
+    let x = Provable.witness(Int32, () => Int32.MININT());
+    x.div(-1);
+  })
+).rejects.toThrow(/overflow/);
+
+await expect(
+  Provable.runAndCheck(() => {
+    let x = Provable.witness(Int32, () => Int32.from(300));
+    Int8.from(x);
+  })
+).rejects.toThrow(/fit in 8 bits/);
+
+await expect(
+  Provable.runAndCheck(() => {
+    let x = Provable.witness(Int32, () => Int32.from(2));
+    x.assertGreaterThan(3, 'expected x > 3');
+  })
+).rejects.toThrow(/expected x > 3/);
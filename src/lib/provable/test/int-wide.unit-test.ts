@@ -0,0 +1,171 @@
+import { UInt128, UInt256, assertLimbSplit } from '../int-wide.js';
+import { UInt64 } from '../int.js';
+import { Field } from '../wrapped.js';
+import { Provable } from '../provable.js';
+import { Random } from '../../testing/random.js';
+import { expect } from 'expect';
+
+const MAX_128 = (1n << 128n) - 1n;
+const MAX_256 = (1n << 256n) - 1n;
+
+function random(bits: bigint) {
+  return Random.bignat((1n << bits) - 1n).create()();
+}
+
+// constant operations match bigint arithmetic
+
+for (let i = 0; i < 20; i++) {
+  let [x, y] = [random(128n), random(128n)];
+  let [a, b] = [UInt256.from(x), UInt256.from(y)];
+
+  expect(a.add(b).toBigInt()).toEqual(x + y);
+  expect(a.mul(b).toBigInt()).toEqual(x * y);
+  if (y > 0n) {
+    expect(a.div(b).toBigInt()).toEqual(x / y);
+    expect(a.mod(b).toBigInt()).toEqual(x % y);
+  }
+  expect(a.lessThan(b).toBoolean()).toEqual(x < y);
+  expect(a.and(b).toBigInt()).toEqual(x & y);
+  expect(a.or(b).toBigInt()).toEqual(x | y);
+  expect(a.xor(b).toBigInt()).toEqual(x ^ y);
+  expect(a.not().toBigInt()).toEqual(MAX_256 ^ x);
+  expect(a.leftShift(100).toBigInt()).toEqual((x << 100n) & MAX_256);
+  expect(a.rightShift(70).toBigInt()).toEqual(x >> 70n);
+}
+
+expect(UInt128.MAXINT().toBigInt()).toEqual(MAX_128);
+expect(UInt256.MAXINT().toBigInt()).toEqual(MAX_256);
+expect(UInt128.from('12345678901234567890123').toString()).toEqual(
+  '12345678901234567890123'
+);
+
+// overflow and underflow throw, like for UInt64
+
+expect(() => UInt128.from(MAX_128 + 1n)).toThrow(/UInt128: Expected number/);
+expect(() => UInt128.from(-1)).toThrow(/UInt128: Expected number/);
+expect(() => UInt128.MAXINT().add(1)).toThrow(/overflow/);
+expect(() => UInt128.zero.sub(1)).toThrow(/underflow/);
+expect(() => UInt128.from(1n << 64n).mul(1n << 64n)).toThrow(/overflow/);
+expect(() => UInt128.one.div(0)).toThrow(/division by zero/);
+expect(() => UInt128.one.assertGreaterThan(1)).toThrow();
+
+// conversions
+
+let x = UInt256.from(0x0102030405060708090a0b0c0d0e0f10n << 128n);
+let bytes = x.toBytesBE();
+expect(bytes).toHaveLength(32);
+expect(bytes[0].toBigInt()).toEqual(1n);
+expect(bytes[15].toBigInt()).toEqual(0x10n);
+expect(UInt256.fromBytesBE(bytes).toBigInt()).toEqual(x.toBigInt());
+expect(UInt256.fromBytesLE(x.toBytesLE()).toBigInt()).toEqual(x.toBigInt());
+
+expect(UInt256.from(UInt128.MAXINT()).toBigInt()).toEqual(MAX_128);
+expect(UInt128.from(UInt256.from(5)).toBigInt()).toEqual(5n);
+expect(() => UInt128.from(UInt256.MAXINT())).toThrow(/fit in 128 bits/);
+expect(UInt128.from(UInt64.MAXINT()).toUInt64().toBigInt()).toEqual(
+  UInt64.MAXINT().toBigInt()
+);
+expect(() => UInt128.MAXINT().toUInt64()).toThrow(/64 bits/);
+expect(UInt256.from(Field(-1)).toField()).toEqual(Field(-1));
+expect(() => UInt256.MAXINT().toField()).toThrow();
+
+// operations in a circuit
+
+let [a0, b0] = [random(200n), random(50n) + 1n];
+
+await Provable.runAndCheck(() => {
+  let a = Provable.witness(UInt256, () => UInt256.from(a0));
+  let b = Provable.witness(UInt256, () => UInt256.from(b0));
+
+  a.add(b).assertEquals(a0 + b0);
+  a.sub(b).assertEquals(a0 - b0);
+  b.mul(b).assertEquals(b0 * b0);
+  let { quotient, rest } = a.divMod(b);
+  quotient.assertEquals(a0 / b0);
+  rest.assertEquals(a0 % b0);
+
+  b.assertLessThan(a);
+  a.assertGreaterThanOrEqual(a);
+  a.lessThan(b).assertFalse();
+  a.equals(a0).assertTrue();
+
+  a.leftShift(56).assertEquals((a0 << 56n) & MAX_256);
+  a.rightShift(131).assertEquals(a0 >> 131n);
+  a.xor(b).assertEquals(a0 ^ b0);
+  a.not().assertEquals(MAX_256 ^ a0);
+
+  UInt256.fromBytesBE(a.toBytesBE()).assertEquals(a);
+  UInt256.fromField(a.toField()).assertEquals(a);
+
+  let c = Provable.witness(UInt128, () => UInt128.from(b0));
+  UInt256.from(c).assertEquals(b);
+  c.toUInt64().assertEquals(UInt64.from(b0));
+});
+
+// overflow fails the circuit
+
+await expect(
+  Provable.runAndCheck(() => {
+    let a = Provable.witness(UInt128, () => UInt128.MAXINT());
+    a.add(1);
+  })
+).rejects.toThrow(/overflow/);
+
+await expect(
+  Provable.runAndCheck(() => {
+    let a = Provable.witness(UInt128, () => UInt128.from(1n << 100n));
+    a.mul(1n << 30n);
+  })
+).rejects.toThrow(/overflow/);
+
+await expect(
+  Provable.runAndCheck(() => {
+    let a = Provable.witness(UInt128, () => UInt128.from(1));
+    a.sub(2);
+  })
+).rejects.toThrow(/underflow/);
+
+// a value which doesn't fit in the limbs is rejected by the type's check
+
+await expect(
+  Provable.runAndCheck(() => {
+    Provable.witness(
+      UInt128,
+      () => new UInt128({ limbs: [Field(-1), Field(0)] })
+    );
+  })
+).rejects.toThrow();
+
+// shifts split limbs uniquely, a non-canonical split is rejected
+
+let limb = (1n << 40n) + 5n;
+
+await Provable.runAndCheck(() => {
+  let x = Provable.witness(Field, () => limb);
+  let parts = Provable.witness(Provable.Array(Field, 2), () =>
+    [limb & 0xffn, limb >> 8n].map(Field.from)
+  );
+  assertLimbSplit(x, 8, parts);
+});
+
+await expect(
+  Provable.runAndCheck(() => {
+    let x = Provable.witness(Field, () => limb);
+    let parts = Provable.witness(Provable.Array(Field, 2), () => [
+      Field(limb),
+      Field(0),
+    ]);
+    assertLimbSplit(x, 8, parts);
+  })
+).rejects.toThrow();
+
+await expect(
+  Provable.runAndCheck(() => {
+    let x = Provable.witness(Field, () => limb);
+    let parts = Provable.witness(Provable.Array(Field, 2), () => [
+      Field(limb - (1n << 32n)),
+      Field(1n << 24n),
+    ]);
+    assertLimbSplit(x, 8, parts);
+  })
+).rejects.toThrow();
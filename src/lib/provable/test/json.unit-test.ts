@@ -0,0 +1,104 @@
+import { Json } from '../json.js';
+import { DynamicBytes } from '../dynamic-bytes.js';
+import { Bytes } from '../wrapped-classes.js';
+import { Int64, UInt64 } from '../int.js';
+import { Provable } from '../provable.js';
+import { expect } from 'expect';
+
+class Text extends DynamicBytes({ capacity: 200 }) {}
+
+let document = JSON.stringify({
+  name: 'Alice "Al" Smith',
+  age: 42,
+  balance: -1250,
+  verified: true,
+  address: { city: 'Zürich', zip: '8001', tags: ['city', { city: 'x' }] },
+  list: [{ name: 'not this one' }, 1, 'two'],
+  empty: '',
+});
+
+let json = Json.parse(Text.fromString(document));
+
+// values at top level and nested paths
+
+expect(json.getString('name', { maxLength: 32 }).toString()).toEqual(
+  'Alice \\"Al\\" Smith'
+);
+expect(json.getUInt64('age')).toEqual(UInt64.from(42));
+expect(json.getInt64('balance')).toEqual(Int64.from(-1250));
+expect(json.getBool('verified').toBoolean()).toEqual(true);
+expect(
+  json.getString(['address', 'city'], { maxLength: 16 }).toString()
+).toEqual('Zürich');
+expect(json.getString(['address', 'zip'], { maxLength: 4 }).toString()).toEqual(
+  '8001'
+);
+expect(json.getString('empty', { maxLength: 4 }).toString()).toEqual('');
+
+// tokens
+
+let { tokens } = json;
+let keyBytes = tokens.filter((t) => t.isKey.toBoolean()).map((t) => t.byte);
+expect(new TextDecoder().decode(Bytes.from(keyBytes).toBytes())).toEqual(
+  'nameagebalanceverifiedaddresscityziptagscitylistnameempty'
+);
+expect(tokens[0].depth.map((d) => d.toBoolean())).toEqual([
+  true,
+  false,
+  false,
+  false,
+  false,
+]);
+expect(tokens[1].depth[1].toBoolean()).toEqual(true);
+
+// keys have to match exactly, at the right depth
+
+expect(() => json.getString('city', { maxLength: 16 })).toThrow(
+  /exactly one value at city/
+);
+expect(() => json.getString('nam', { maxLength: 16 })).toThrow(
+  /exactly one value/
+);
+expect(() => json.getString(['list', 'name'], { maxLength: 16 })).toThrow(
+  /exactly one value/
+);
+expect(() => json.getString('age', { maxLength: 16 })).toThrow(
+  /expected a string at age/
+);
+expect(() => json.getUInt64('address')).toThrow(/expected a number/);
+expect(() => json.getUInt64('balance')).toThrow(/expected a digit/);
+expect(() => json.getString('name', { maxLength: 8 })).toThrow(
+  /longer than 8 bytes/
+);
+
+// duplicate keys are rejected
+expect(() =>
+  Json.parse(Bytes.fromString('{"a":1,"a":2}')).getUInt64('a')
+).toThrow(/exactly one value/);
+
+// structure
+
+expect(() => Json.parse(Bytes.fromString('{"a":"b}'))).toThrow(
+  /unterminated string/
+);
+expect(() => Json.parse(Bytes.fromString('{"a":[1}'))).toThrow(
+  /mismatched closing bracket/
+);
+expect(() => Json.parse(Bytes.fromString('{"a":[1]'))).toThrow(/unclosed/);
+expect(() => Json.parse(Bytes.fromString('{}}'))).toThrow(
+  /unexpected closing bracket/
+);
+expect(() => Json.parse(Bytes.fromString('[[[]]]'), { maxDepth: 2 })).toThrow(
+  /deeper than 2/
+);
+
+// in a circuit
+
+await Provable.runAndCheck(() => {
+  let text = Provable.witness(Text, () => Text.fromString(document));
+  let json = Json.parse(text, { maxDepth: 4 });
+
+  json.getString(['address', 'city'], { maxLength: 16 }).assertEquals('Zürich');
+  json.getUInt64('age').assertEquals(UInt64.from(42));
+  json.getBool('verified').assertTrue();
+});
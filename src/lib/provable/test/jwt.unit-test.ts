@@ -0,0 +1,87 @@
+import { Jwt } from '../jwt.js';
+import { DynamicBytes } from '../dynamic-bytes.js';
+import { UInt64 } from '../int.js';
+import { Provable } from '../provable.js';
+import { expect } from 'expect';
+
+class Token extends DynamicBytes({ capacity: 400 }) {}
+
+function base64Url(data: string | Uint8Array) {
+  return Buffer.from(data).toString('base64url');
+}
+
+let header = { alg: 'RS256', typ: 'JWT', kid: 'key-1' };
+let claims = {
+  iss: 'https://accounts.example.com',
+  sub: '110169484474386276334',
+  email: 'alice@example.com',
+  email_verified: true,
+  iat: 1516239022,
+  exp: 1516242622,
+};
+
+function encode(header: object, claims: object) {
+  let signature = base64Url(new Uint8Array(64).fill(7));
+  let signedData = `${base64Url(JSON.stringify(header))}.${base64Url(
+    JSON.stringify(claims)
+  )}`;
+  return { token: `${signedData}.${signature}`, signedData };
+}
+
+// payloads of every length modulo 3, so that the base64url encoding ends with 0, 2 or 3 characters of the last block
+for (let padding of ['', 'x', 'xx']) {
+  let { token, signedData } = encode(header, { ...claims, padding });
+  let jwt = Jwt.decode(Token.fromString(token), { maxPayloadLength: 240 });
+
+  expect(jwt.header.getString('alg', { maxLength: 8 }).toString()).toEqual(
+    'RS256'
+  );
+  expect(jwt.header.getString('kid', { maxLength: 8 }).toString()).toEqual(
+    'key-1'
+  );
+  expect(jwt.payload.getString('sub', { maxLength: 32 }).toString()).toEqual(
+    claims.sub
+  );
+  expect(jwt.payload.getString('padding', { maxLength: 2 }).toString()).toEqual(
+    padding
+  );
+  expect(jwt.payload.getUInt64('exp')).toEqual(UInt64.from(claims.exp));
+  expect(jwt.payload.getBool('email_verified').toBoolean()).toEqual(true);
+  expect(new TextDecoder().decode(jwt.signedData.toBytes())).toEqual(
+    signedData
+  );
+}
+
+// malformed tokens
+
+let { token } = encode(header, claims);
+expect(() =>
+  Jwt.decode(Token.fromString(token.replace(/\.[^.]*$/, '')), {
+    maxPayloadLength: 240,
+  })
+).toThrow(/three parts/);
+expect(() =>
+  Jwt.decode(Token.fromString(token), { maxPayloadLength: 100 })
+).toThrow(/payload is longer than 100 bytes/);
+expect(() =>
+  Jwt.decode(Token.fromString(token), {
+    maxHeaderLength: 30,
+    maxPayloadLength: 240,
+  })
+).toThrow(/header is longer than 30 bytes/);
+
+// checking claims in a circuit
+
+await Provable.runAndCheck(() => {
+  let jwt = Provable.witness(Token, () => Token.fromString(token));
+  let { header, payload } = Jwt.decode(jwt, {
+    maxHeaderLength: 64,
+    maxPayloadLength: 180,
+    maxDepth: 1,
+  });
+
+  header.getString('alg', { maxLength: 8 }).assertEquals('RS256');
+  payload.getString('sub', { maxLength: 32 }).assertEquals(claims.sub);
+  payload.getBool('email_verified').assertTrue();
+  payload.getUInt64('exp').assertGreaterThan(UInt64.from(1516240000));
+});
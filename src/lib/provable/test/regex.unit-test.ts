@@ -0,0 +1,131 @@
+import { Regex } from '../regex.js';
+import { DynamicBytes } from '../dynamic-bytes.js';
+import { Bytes } from '../wrapped-classes.js';
+import { Provable } from '../provable.js';
+import { expect } from 'expect';
+
+class Message extends DynamicBytes({ capacity: 48 }) {}
+
+function matches(pattern: string, input: string) {
+  return Regex.compile(pattern)
+    .match(Bytes.fromString(input))
+    .isMatch.toBoolean();
+}
+
+function captured(regex: Regex, input: string) {
+  let bytes = new TextEncoder().encode(input);
+  let { captures } = regex.match(Message.from(bytes));
+  return captures.map((mask) =>
+    new TextDecoder().decode(bytes.filter((_, i) => mask[i].toBoolean()))
+  );
+}
+
+// matching agrees with JS regular expressions
+
+let cases: [string, string[]][] = [
+  ['abc', ['abc', 'xabcx', 'ab', 'acb', '']],
+  ['^abc$', ['abc', 'xabc', 'abcx']],
+  ['^a(b|cd)*e$', ['ae', 'abe', 'acdbe', 'ace', 'abbcdcde']],
+  ['^[a-z0-9._]+@[a-z]+\\.(com|org)$', ['a.b@x.com', 'a@x.net', '@x.org']],
+  ['^\\d{2,4}$', ['1', '12', '1234', '12345', '12a']],
+  ['^x{3}y{2,}$', ['xxxyy', 'xxxyyyy', 'xxyy', 'xxxy']],
+  ['^colou?r$', ['color', 'colour', 'colouur']],
+  ['^[^"]*"$', ['abc"', 'a"b"', '"']],
+  ['^\\w+\\s\\W$', ['ab_1 !', 'ab a', 'a\t?']],
+  ['^.+$', ['abc', 'a\nb', '']],
+  ['^(?:ab)+$', ['abab', 'aba']],
+  ['^\\x41\\.\\*$', ['A.*', 'A..']],
+  ['^grüße$', ['grüße', 'gruse']],
+  ['a|bc', ['xa', 'xbc', 'b']],
+  ['^(?:a|bc)$', ['a', 'bc', 'abc']],
+];
+for (let [pattern, inputs] of cases) {
+  for (let input of inputs) {
+    let expected = new RegExp(pattern, 'u').test(input);
+    expect([pattern, input, matches(pattern, input)]).toEqual([
+      pattern,
+      input,
+      expected,
+    ]);
+  }
+}
+
+// patterns that can't match anything
+
+expect(matches('^a[^\\x00-\\xff]b', 'ab')).toEqual(false);
+
+// unsupported syntax
+
+expect(() => Regex.compile('a**')).toThrow(/nested and lazy/);
+expect(() => Regex.compile('a+?')).toThrow(/nested and lazy/);
+expect(() => Regex.compile('*a')).toThrow(/nothing to repeat/);
+expect(() => Regex.compile('a^b')).toThrow(/only supported at the start/);
+expect(() => Regex.compile('a$b')).toThrow(/only supported at the end/);
+expect(() => Regex.compile('a|b$')).toThrow(/top-level alternatives/);
+expect(() => Regex.compile('(ab')).toThrow(/expected '\)'/);
+expect(() => Regex.compile('[ab')).toThrow(/expected '\]'/);
+expect(() => Regex.compile('[z-a]')).toThrow(/invalid range/);
+expect(() => Regex.compile('[ü]')).toThrow(/only ASCII/);
+expect(() => Regex.compile('\\bword')).toThrow(/word boundaries/);
+expect(() => Regex.compile('a{2,1}')).toThrow(/invalid quantifier/);
+
+// capture masks
+
+let email = Regex.compile('^from: ([a-z]+)@([a-z]+\\.com)\r\n');
+expect(email.groupCount).toEqual(2);
+expect(captured(email, 'from: alice@example.com\r\nto: bob')).toEqual([
+  'alice',
+  'example.com',
+]);
+expect(captured(email, 'from: alice@example.org\r\n')).toEqual(['', '']);
+
+// unanchored, with delimiters around the group
+let amount = Regex.compile('amount=([0-9]+);');
+expect(captured(amount, 'to=bob;amount=1250;fee=1')).toEqual(['1250']);
+
+// partial matches which fail later are not captured
+expect(captured(amount, 'amount=12x;amount=5;')).toEqual(['5']);
+expect(captured(amount, 'amount=12x;amount=5')).toEqual(['']);
+let tag = Regex.compile('<([a-z]+)>');
+expect(captured(tag, '<abc <def>')).toEqual(['def']);
+expect(captured(tag, '<ab<cd>x<e')).toEqual(['cd']);
+let anchored = Regex.compile('^(?:(a+)b|(a+)c)$');
+expect(captured(anchored, 'aac')).toEqual(['', 'aa']);
+
+// bytes after the length of a dynamic message are ignored
+let message = Message.fromString('from: a@b.com\r\n');
+message.array[message.array.length - 1] = message.array[0];
+expect(email.match(message).isMatch.toBoolean()).toEqual(true);
+expect(
+  email.match(Message.fromString('from: a@b.com')).isMatch.toBoolean()
+).toEqual(false);
+
+// matching in a circuit
+
+await Provable.runAndCheck(() => {
+  let header = Provable.witness(Message, () =>
+    Message.fromString('from: alice@example.com\r\nto: bob')
+  );
+  let { isMatch, captures } = email.match(header);
+  isMatch.assertTrue();
+
+  Provable.asProver(() => {
+    let bytes = header.toBytes();
+    let [user, domain] = captures.map((mask) =>
+      new TextDecoder().decode(bytes.filter((_, i) => mask[i].toBoolean()))
+    );
+    expect([user, domain]).toEqual(['alice', 'example.com']);
+  });
+
+  let other = Provable.witness(Bytes(7), () => Bytes.fromString('to: bob'));
+  email.match(other).isMatch.assertFalse();
+
+  let payment = Provable.witness(Message, () =>
+    Message.fromString('amount=12x;amount=5;')
+  );
+  let [digits] = amount.match(payment).captures;
+  Provable.asProver(() => {
+    let marked = digits.flatMap((x, i) => (x.toBoolean() ? [i] : []));
+    expect(marked).toEqual([18]);
+  });
+});
@@ -0,0 +1,55 @@
+import { Bytes } from '../wrapped-classes.js';
+import { DynamicBytes } from '../dynamic-bytes.js';
+import { Gadgets } from '../gadgets/gadgets.js';
+import { Hash } from '../crypto/hash.js';
+import { ripemd160 as nobleRipemd160 } from '@noble/hashes/ripemd160';
+import { sha256 as nobleSha256 } from '@noble/hashes/sha256';
+import { bytes } from './test-utils.js';
+import { equivalentProvable } from '../../testing/equivalent.js';
+import { Random, sample } from '../../testing/random.js';
+import { expect } from 'expect';
+
+sample(Random.nat(300), 5).forEach((preimageLength) => {
+  let inputBytes = bytes(preimageLength);
+  let outputBytes = bytes(160 / 8);
+
+  equivalentProvable({ from: [inputBytes], to: outputBytes, verbose: true })(
+    (x) => nobleRipemd160(x),
+    (x) => Gadgets.RIPEMD160.hash(x),
+    `ripemd160 preimage length ${preimageLength}`
+  );
+});
+
+// dynamic-length messages, around the block boundaries
+
+class Message extends DynamicBytes({ capacity: 130 }) {}
+
+for (let length of [0, 1, 55, 56, 63, 64, 119, 120, 130]) {
+  let bytes = Uint8Array.from({ length }, (_, i) => (i * 7 + length) % 256);
+  expect(Hash.RIPEMD160.hash(Message.from(bytes)).toBytes()).toEqual(
+    nobleRipemd160(bytes)
+  );
+  expect(Hash.Hash160.hash(Message.from(bytes)).toBytes()).toEqual(
+    nobleRipemd160(nobleSha256(bytes))
+  );
+}
+
+for (let { preimage, hash } of testVectors()) {
+  let actual = Gadgets.RIPEMD160.hash(Bytes.fromString(preimage));
+  expect(actual.toHex()).toEqual(hash);
+}
+
+function testVectors() {
+  return [
+    { preimage: '', hash: '9c1185a5c5e9fc54612808977ee8f548b2258d31' },
+    { preimage: 'abc', hash: '8eb208f7e05d987a9b044a8e98c6b087f15a0bfc' },
+    {
+      preimage: 'message digest',
+      hash: '5d0689ef49d2fae572b881b123a85ffa21595f36',
+    },
+    {
+      preimage: 'a'.repeat(1000000),
+      hash: '52783243c1697bdbe16d37f97f68f08325dc1528',
+    },
+  ];
+}
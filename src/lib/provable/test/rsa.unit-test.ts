@@ -0,0 +1,137 @@
+import { Provable } from '../provable.js';
+import { Bytes } from '../wrapped-classes.js';
+import { DynamicBytes } from '../dynamic-bytes.js';
+import { Rsa, parseRsaPublicKey } from '../crypto/rsa.js';
+import { bytesToBigInt } from '../../../bindings/crypto/bigint-helpers.js';
+import { expect } from 'expect';
+import * as crypto from 'node:crypto';
+
+class Rsa2048 extends Rsa(2048) {}
+class Rsa4096 extends Rsa(4096) {}
+
+class Message extends DynamicBytes({ capacity: 100 }) {}
+
+let text = 'attestation of a passport holder';
+let message = Bytes.fromString(text);
+
+let pkcs1 = { padding: crypto.constants.RSA_PKCS1_PADDING };
+
+function generate(bits: number, publicExponent = 65537) {
+  let { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: bits,
+    publicExponent,
+  });
+  let modulus = bytesToBigInt(
+    Buffer.from(publicKey.export({ format: 'jwk' }).n!, 'base64url').reverse()
+  );
+  return { publicKey, privateKey, modulus };
+}
+
+function sign(
+  privateKey: crypto.KeyObject,
+  data: string,
+  options: { padding: number; saltLength?: number } = pkcs1
+) {
+  return crypto.sign('sha256', Buffer.from(data), {
+    ...options,
+    key: privateKey,
+  });
+}
+
+let key = generate(2048);
+let pss = { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 };
+
+// parsing public keys
+
+let spkiPem = key.publicKey.export({ type: 'spki', format: 'pem' }) as string;
+let pkcs1Pem = key.publicKey.export({ type: 'pkcs1', format: 'pem' }) as string;
+let spkiDer = key.publicKey.export({ type: 'spki', format: 'der' });
+
+expect(parseRsaPublicKey(spkiDer)).toEqual({
+  modulus: key.modulus,
+  exponent: 65537n,
+});
+let publicKey = Rsa2048.PublicKey.fromPem(spkiPem);
+expect(publicKey.modulus.toBigInt()).toEqual(key.modulus);
+expect(Rsa2048.PublicKey.fromPem(pkcs1Pem)).toEqual(publicKey);
+expect(Rsa2048.PublicKey.fromDer(spkiDer)).toEqual(publicKey);
+
+expect(() => Rsa4096.PublicKey.fromPem(spkiPem)).toThrow(/4096-bit modulus/);
+let e3 = generate(2048, 3).publicKey.export({ type: 'spki', format: 'pem' });
+expect(() => Rsa2048.PublicKey.fromPem(e3 as string)).toThrow(
+  /unsupported public exponent 3/
+);
+expect(() => Rsa2048.PublicKey.fromPem('not a key')).toThrow(/invalid PEM/);
+
+// PKCS#1 v1.5
+
+let signature = Rsa2048.fromBytes(sign(key.privateKey, text));
+expect(signature.verify(message, publicKey).toBoolean()).toEqual(true);
+expect(
+  signature.verify(Message.fromString(text), publicKey).toBoolean()
+).toEqual(true);
+expect(
+  signature.verify(Bytes.fromString(text + '!'), publicKey).toBoolean()
+).toEqual(false);
+expect(() => Rsa2048.fromBytes(new Uint8Array(255))).toThrow(/256 bytes/);
+
+let key4096 = generate(4096);
+let signature4096 = Rsa4096.fromBytes(sign(key4096.privateKey, text));
+let publicKey4096 = Rsa4096.PublicKey.fromModulus(key4096.modulus);
+expect(signature4096.verify(message, publicKey4096).toBoolean()).toEqual(true);
+
+// PSS
+
+let pssSignature = Rsa2048.fromBytes(sign(key.privateKey, text, pss));
+expect(pssSignature.verifyPss(message, publicKey).toBoolean()).toEqual(true);
+expect(pssSignature.verify(message, publicKey).toBoolean()).toEqual(false);
+expect(signature.verifyPss(message, publicKey).toBoolean()).toEqual(false);
+expect(
+  pssSignature.verifyPss(Bytes.fromString(text + '!'), publicKey).toBoolean()
+).toEqual(false);
+
+let unsalted = Rsa2048.fromBytes(
+  sign(key.privateKey, text, { ...pss, saltLength: 0 })
+);
+expect(
+  unsalted.verifyPss(message, publicKey, { saltLength: 0 }).toBoolean()
+).toEqual(true);
+expect(unsalted.verifyPss(message, publicKey).toBoolean()).toEqual(false);
+
+// a signature plus the modulus is congruent to the signature, but is rejected
+
+let shifted = Rsa2048.from(signature.toBigInt() + key.modulus);
+expect(shifted.verify(message, publicKey).toBoolean()).toEqual(false);
+let shiftedPss = Rsa2048.from(pssSignature.toBigInt() + key.modulus);
+expect(shiftedPss.verifyPss(message, publicKey).toBoolean()).toEqual(false);
+
+// in a circuit
+
+await Provable.runAndCheck(() => {
+  let pk = Provable.witness(Rsa2048.PublicKey, () => publicKey);
+  let msg = Provable.witness(Message, () => Message.fromString(text));
+  Provable.witness(Rsa2048, () => signature)
+    .verify(msg, pk)
+    .assertTrue();
+  Provable.witness(Rsa2048, () => pssSignature)
+    .verifyPss(msg, pk)
+    .assertTrue();
+});
+
+await expect(
+  Provable.runAndCheck(() => {
+    let pk = Provable.witness(Rsa2048.PublicKey, () => publicKey);
+    Provable.witness(Rsa2048, () => signature)
+      .verify(Bytes.fromString(text + '!'), pk)
+      .assertTrue('signature is valid');
+  })
+).rejects.toThrow(/signature is valid/);
+
+await expect(
+  Provable.runAndCheck(() => {
+    let pk = Provable.witness(Rsa2048.PublicKey, () => publicKey);
+    Provable.witness(Rsa2048, () => shifted)
+      .verify(message, pk)
+      .assertTrue('signature is valid');
+  })
+).rejects.toThrow(/signature is valid/);
@@ -0,0 +1,85 @@
+import { Bytes } from '../wrapped-classes.js';
+import { DynamicBytes } from '../dynamic-bytes.js';
+import { Gadgets } from '../gadgets/gadgets.js';
+import { Hash } from '../crypto/hash.js';
+import { Provable } from '../provable.js';
+import {
+  sha384 as nobleSha384,
+  sha512 as nobleSha512,
+} from '@noble/hashes/sha512';
+import { bytes } from './test-utils.js';
+import { equivalentProvable } from '../../testing/equivalent.js';
+import { Random, sample } from '../../testing/random.js';
+import { expect } from 'expect';
+
+sample(Random.nat(300), 3).forEach((preimageLength) => {
+  let inputBytes = bytes(preimageLength);
+
+  equivalentProvable({ from: [inputBytes], to: bytes(512 / 8), verbose: true })(
+    (x) => nobleSha512(x),
+    (x) => Gadgets.SHA512.hash(x),
+    `sha512 preimage length ${preimageLength}`
+  );
+  equivalentProvable({ from: [inputBytes], to: bytes(384 / 8), verbose: true })(
+    (x) => nobleSha384(x),
+    (x) => Gadgets.SHA384.hash(x),
+    `sha384 preimage length ${preimageLength}`
+  );
+});
+
+// dynamic-length messages, around the block boundaries
+
+class Message extends DynamicBytes({ capacity: 240 }) {}
+
+for (let length of [0, 111, 112, 127, 128, 239, 240]) {
+  let bytes = Array.from({ length }, (_, i) => (i * 7 + length) % 256);
+  let message = Message.from(bytes);
+  expect(Hash.SHA2_512.hash(message).toBytes()).toEqual(
+    nobleSha512(Uint8Array.from(bytes))
+  );
+  expect(Hash.SHA2_384.hash(message).toBytes()).toEqual(
+    nobleSha384(Uint8Array.from(bytes))
+  );
+}
+
+let text = 'a TLS transcript';
+let expected = Bytes.from(nobleSha512(new TextEncoder().encode(text)));
+
+await Provable.runAndCheck(() => {
+  let message = Provable.witness(Message, () => Message.fromString(text));
+  let digest = Hash.SHA2_512.hash(message);
+  Provable.assertEqual(Bytes(64), digest, expected);
+});
+
+for (let { preimage, sha512, sha384 } of testVectors()) {
+  let bytes = Bytes.fromString(preimage);
+  expect(Hash.SHA2_512.hash(bytes).toHex()).toEqual(sha512);
+  expect(Hash.SHA2_384.hash(bytes).toHex()).toEqual(sha384);
+}
+
+function testVectors() {
+  return [
+    {
+      preimage: 'abc',
+      sha512:
+        'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f',
+      sha384:
+        'cb00753f45a35e8bb5a03d699ac65007272c32ab0eded1631a8b605a43ff5bed8086072ba1e7cc2358baeca134c825a7',
+    },
+    {
+      preimage: '',
+      sha512:
+        'cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e',
+      sha384:
+        '38b060a751ac96384cd9327eb1b1e36a21fdb71114be07434c0cc7bf63f6e1da274edebfe76f65fbd51ad2f14898b95b',
+    },
+    {
+      preimage:
+        'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu',
+      sha512:
+        '8e959b75dae313da8cf4f72814fc143f8f7779c6eb9f7fa17299aeadb6889018501d289e4900f7e4331b99dec4b5433ac7d329eeb6dd26545e96e55b874be909',
+      sha384:
+        '09330c33f71147e83d192fc782cd1b4753111b173b3b05d22fa08086e3b0f712fcc7c71a557e2db966c3e9fa91746039',
+    },
+  ];
+}
@@ -0,0 +1,77 @@
+import { Gadgets } from '../gadgets/gadgets.js';
+import { Provable } from '../provable.js';
+import { Struct } from '../types/struct.js';
+import { UInt64 } from '../int.js';
+import { Field } from '../wrapped.js';
+import { expect } from 'expect';
+
+class Bid extends Struct({ id: Field, amount: UInt64 }) {}
+
+let values = [5n, 1n, 4n, 1n, 3n];
+let bids = [
+  { id: 1n, amount: 300n },
+  { id: 2n, amount: 100n },
+  { id: 3n, amount: 200n },
+  { id: 4n, amount: 100n },
+].map(
+  ({ id, amount }) => new Bid({ id: Field(id), amount: UInt64.from(amount) })
+);
+let byAmount = (bid: Bid) => bid.amount.value;
+
+// constant inputs
+
+expect(Gadgets.sort(Field, values.map(Field))).toEqual(
+  [1n, 1n, 3n, 4n, 5n].map(Field)
+);
+// the witness keeps the order of equal keys, although this isn't constrained
+expect(
+  Gadgets.sort(Bid, bids, { key: byAmount }).map((bid) => bid.id.toBigInt())
+).toEqual([2n, 4n, 3n, 1n]);
+
+Gadgets.assertPermutation(Field, [1, 2, 2].map(Field), [2, 1, 2].map(Field));
+expect(() =>
+  Gadgets.assertPermutation(Field, [1, 2, 2].map(Field), [1, 1, 2].map(Field))
+).toThrow(/not permutations/);
+expect(() =>
+  Gadgets.assertPermutation(Field, [Field(1)], [Field(1), Field(1)])
+).toThrow(/different lengths/);
+
+Gadgets.assertSorted([1, 2, 2].map(Field));
+expect(() => Gadgets.assertSorted([2, 1].map(Field))).toThrow(/not sorted/);
+expect(() =>
+  Gadgets.assertSorted([1, 2, 2].map(Field), { strict: true })
+).toThrow(/not strictly increasing/);
+
+Gadgets.assertUnique(values.slice(0, 3).map(Field));
+expect(() => Gadgets.assertUnique(values.map(Field))).toThrow(/duplicate/);
+Gadgets.assertUnique(bids, { key: (bid) => bid.id });
+expect(() => Gadgets.assertUnique(bids, { key: byAmount })).toThrow(
+  /duplicate/
+);
+
+// in a circuit
+
+await Provable.runAndCheck(() => {
+  let xs = values.map((x) => Provable.witness(Field, () => x));
+  let sorted = Gadgets.sort(Field, xs);
+  Provable.asProver(() => {
+    expect(sorted.map((x) => x.toBigInt())).toEqual([1n, 1n, 3n, 4n, 5n]);
+  });
+
+  let witnessed = bids.map((bid) => Provable.witness(Bid, () => bid));
+  let ranked = Gadgets.sort(Bid, witnessed, { key: byAmount });
+  ranked[0].id.assertEquals(2);
+  ranked[3].amount.assertEquals(UInt64.from(300));
+  Gadgets.assertUnique(ranked, { key: (bid) => bid.id });
+  Gadgets.assertPermutation(Bid, witnessed, ranked);
+});
+
+// a wrong permutation can't be proven
+
+await expect(
+  Provable.runAndCheck(() => {
+    let a = [1n, 2n, 3n].map((x) => Provable.witness(Field, () => x));
+    let b = [1n, 2n, 2n].map((x) => Provable.witness(Field, () => x));
+    Gadgets.assertPermutation(Field, a, b);
+  })
+).rejects.toThrow(/not permutations/);
@@ -16,6 +16,7 @@ import { ZkappCommand } from '../bindings/mina-transaction/gen/transaction-bigin
 import {
   signZkappCommand,
   verifyZkappCommandSignature,
+  accountUpdateMinimumFee,
 } from './src/sign-zkapp-command.js';
 import {
   signPayment,
@@ -542,7 +543,7 @@ class Client {
    * @returns  The fee to be paid by the fee payer accountUpdate
    */
   getAccountUpdateMinimumFee(accountUpdates: TransactionJson.AccountUpdate[]) {
-    return 0.001 * accountUpdates.length;
+    return accountUpdateMinimumFee * accountUpdates.length;
   }
 
   /**
@@ -32,8 +32,14 @@ export {
   accountUpdateFromFeePayer,
   isCallDepthValid,
   CallForest,
+  accountUpdateMinimumFee,
 };
 
+/**
+ * The minimum fee in MINA that a zkApp command has to pay per account update, according to the Mina spec.
+ */
+const accountUpdateMinimumFee = 0.001;
+
 function signZkappCommand(
   zkappCommand_: Json.ZkappCommand,
   privateKeyBase58: string,